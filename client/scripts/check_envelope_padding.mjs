@@ -0,0 +1,148 @@
+// Checks envelope padding end to end: what encryptMessageEnvelope pads to (bucket fills on v3,
+// the random range on legacy v0) and what decryptMessageEnvelope accepts or rejects.
+//
+//   npm run check:envelope-padding
+//
+// Bundles src/utils/signedCrypto.ts with esbuild (installed with vite) and runs it on Node's
+// WebCrypto. Exits non-zero on the first failed check.
+
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { build } from 'esbuild'
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url))
+const entry = path.resolve(scriptDir, '..', 'src', 'utils', 'signedCrypto.ts')
+
+// Envelope layout from signedCrypto.ts and the message padding range from stores/auth.ts.
+const IV_BYTES = 12
+const COUNT_BYTES = 2
+const ENTRY_BYTES = 16 + 512
+const MESSAGE_PAD_MIN = 0
+const MESSAGE_PAD_MAX = 64
+const BUCKETS = [256, 1024, 4096]
+const USER_ID = '0190c7a2-5b1e-7c3d-8e4f-a1b2c3d4e5f6'
+
+async function loadSignedCrypto() {
+  const outfile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'envelope-padding-')), 'signedCrypto.mjs')
+  await build({ entryPoints: [entry], bundle: true, format: 'esm', platform: 'node', outfile, logLevel: 'warning' })
+  try {
+    return await import(pathToFileURL(outfile).href)
+  } finally {
+    fs.rmSync(path.dirname(outfile), { recursive: true, force: true })
+  }
+}
+
+function unb64Url(s) {
+  return new Uint8Array(Buffer.from(s, 'base64url'))
+}
+
+// Splits a single-recipient RSA envelope into its IV, recipient entry and ciphertext.
+function splitEnvelope(encryptedData, version) {
+  const all = unb64Url(encryptedData)
+  const headerLen = version === 0 ? IV_BYTES : IV_BYTES + COUNT_BYTES + 1
+  const entryOff = headerLen + COUNT_BYTES
+  return {
+    iv: all.subarray(0, IV_BYTES),
+    keyEntry: all.subarray(entryOff, entryOff + ENTRY_BYTES),
+    ct: all.subarray(entryOff + ENTRY_BYTES),
+    prefix: all.subarray(0, entryOff + ENTRY_BYTES),
+  }
+}
+
+// Opens a legacy v0 envelope the way a pre-versioning client does, returning the raw payload.
+async function openLegacyPayload(encryptedData, privateKey) {
+  const { iv, keyEntry, ct } = splitEnvelope(encryptedData, 0)
+  const raw = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, keyEntry.subarray(16))
+  const aesKey = await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+  const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, aesKey, ct)
+  return { aesKey, payload: JSON.parse(new TextDecoder().decode(pt)) }
+}
+
+// Re-seals an edited payload into the same v0 envelope (same key, IV and recipient entry).
+async function resealLegacyPayload(encryptedData, aesKey, payload) {
+  const { iv, prefix } = splitEnvelope(encryptedData, 0)
+  const ct = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, new TextEncoder().encode(JSON.stringify(payload))),
+  )
+  const out = new Uint8Array(prefix.byteLength + ct.byteLength)
+  out.set(prefix, 0)
+  out.set(ct, prefix.byteLength)
+  return Buffer.from(out).toString('base64url')
+}
+
+async function main() {
+  const sc = await loadSignedCrypto()
+  const keys = await sc.generateRsaKeyPair()
+  const recipients = [{ userId: USER_ID, publicKeyJwk: keys.publicJwk }]
+  const open = (encryptedData) =>
+    sc.decryptMessageEnvelope({
+      encryptedData,
+      myUserId: USER_ID,
+      myPrivateKey: keys.privateKey,
+      objectPadMinChars: MESSAGE_PAD_MIN,
+      objectPadMaxChars: MESSAGE_PAD_MAX,
+    })
+  const seal = (text, version) =>
+    sc.encryptMessageEnvelope({
+      plaintext: { text, atIso: new Date().toISOString() },
+      recipients,
+      objectPadMinChars: MESSAGE_PAD_MIN,
+      objectPadMaxChars: MESSAGE_PAD_MAX,
+      version,
+      padBuckets: BUCKETS,
+    })
+
+  // Random base64url text barely deflates, so the payload grows with the input. The last one
+  // outgrows the largest bucket and falls back to the random range.
+  const texts = [0, 40, 600, 2000, 6000].map((n) => Buffer.from(crypto.getRandomValues(new Uint8Array(n))).toString('base64url'))
+  const largestBucket = BUCKETS[BUCKETS.length - 1]
+
+  for (const text of texts) {
+    const v3 = await seal(text, sc.ENVELOPE_VERSION_RSA)
+    const ctBytes = splitEnvelope(v3, sc.ENVELOPE_VERSION_RSA).ct.byteLength
+    if (text.length < largestBucket - 512) {
+      assert.ok(BUCKETS.includes(ctBytes), `v3 payload of ${text.length} chars lands on a bucket (got ${ctBytes})`)
+    } else {
+      assert.ok(ctBytes > largestBucket, `v3 payload of ${text.length} chars outgrows the buckets (got ${ctBytes})`)
+    }
+    assert.equal((await open(v3)).text, text, 'v3 round-trips its text')
+
+    const v0 = await seal(text, sc.ENVELOPE_VERSION_RSA_LEGACY)
+    const { payload } = await openLegacyPayload(v0, keys.privateKey)
+    assert.ok(
+      typeof payload.p === 'string' && payload.p.length >= MESSAGE_PAD_MIN && payload.p.length <= MESSAGE_PAD_MAX,
+      `v0 padding stays within what pre-versioning clients accept (got ${payload.p?.length})`,
+    )
+    assert.equal((await open(v0)).text, text, 'v0 round-trips its text')
+  }
+
+  // Rejections, on a v0 envelope whose payload is edited and sealed again.
+  const base = await seal('padding check', sc.ENVELOPE_VERSION_RSA_LEGACY)
+  const { aesKey, payload } = await openLegacyPayload(base, keys.privateKey)
+  const withPad = (p) => resealLegacyPayload(base, aesKey, { ...payload, p })
+
+  assert.equal((await open(await withPad('A'.repeat(3000)))).text, 'padding check', 'a bucket fill within the maximum is accepted')
+  await assert.rejects(open(await withPad('A'.repeat(sc.ENVELOPE_PAD_BUCKET_MAX_BYTES + 1))), 'padding beyond the largest bucket is rejected')
+  await assert.rejects(open(await withPad('AB CD')), 'padding outside the pad alphabet is rejected')
+  await assert.rejects(open(await withPad(42)), 'non-string padding is rejected')
+  await assert.rejects(
+    sc.decryptMessageEnvelope({
+      encryptedData: await withPad(''),
+      myUserId: USER_ID,
+      myPrivateKey: keys.privateKey,
+      objectPadMinChars: 8,
+      objectPadMaxChars: MESSAGE_PAD_MAX,
+    }),
+    'padding shorter than the minimum is rejected',
+  )
+
+  console.log('envelope padding: ok')
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -54,13 +54,228 @@ const de = {
     linkLabel: "Link"
   },
   scanQr: {
-    hint: "Scanne einen Einladungs-QR, um den Nutzer sofort hinzuzufügen.",
+    hint: "Scanne einen Einladungs-QR, um den Nutzer sofort hinzuzufügen, oder den Verifizierungscode eines Kontakts, um ihn zu verifizieren.",
     cameraUnavailable: "Keine Kamera auf diesem Gerät verfügbar.",
     cameraPermissionDenied: "Kamerazugriff verweigert. Bitte Zugriff erlauben und erneut versuchen.",
     cameraStartFailed: "Kamera konnte nicht gestartet werden.",
     invalidInvite: "Dieser QR-Code ist kein gültiger Einladungslink für diese Seite.",
     addFailedTitle: "Nutzer kann nicht hinzugefügt werden"
   },
+  safety: {
+    title: "Sicherheitsnummer",
+    menuItem: "Sicherheitsnummer prüfen",
+    hint: "Vergleiche diese Zahlen mit {name} persönlich oder in einem vertrauenswürdigen Anruf. Stimmen sie überein, ist dein Chat mit den richtigen Schlüsseln verschlüsselt.",
+    qrHint: "Oder lass {name} diesen Code über „QR scannen“ einlesen und scanne den Code der Person.",
+    verified: "Verifiziert",
+    notVerified: "Nicht verifiziert",
+    verifiedSenderHint: "Signiert mit einem Schlüssel, den du für diesen Kontakt verifiziert hast.",
+    computing: "Wird berechnet…",
+    computeFailed: "Die Sicherheitsnummer konnte nicht berechnet werden.",
+    unavailable: "Der Schlüssel dieses Kontakts ist gerade nicht verfügbar.",
+    markVerified: "Als verifiziert markieren",
+    unmarkVerified: "Verifizierung entfernen",
+    scanOkTitle: "Kontakt verifiziert",
+    scanOk: "{name} ist jetzt auf diesem Gerät verifiziert.",
+    scanFailedTitle: "Kontakt kann nicht verifiziert werden",
+    scanSelf: "Das ist dein eigener Verifizierungscode.",
+    scanUnknown: "Dieser Code gehört zu jemandem, mit dem du keinen Chat teilst.",
+    scanMismatch: "Dieser Code passt nicht zu dem Schlüssel, den der Server für diesen Kontakt geliefert hat. Vertraue diesem Chat erst, wenn du es mit der Person geklärt hast.",
+  },
+  keyChange: {
+    title: "Sicherheitsnummer geändert",
+    body: "{name} hat jetzt einen anderen Schlüssel als den, den du zuerst gesehen hast. Vielleicht wurde das Konto neu erstellt, oder jemand fängt den Chat ab. Vergleiche die Sicherheitsnummern, bevor du weitermachst.",
+    view: "Sicherheitsnummer anzeigen",
+    accept: "Neuen Schlüssel akzeptieren",
+    blocked: "Ein Kontakt in diesem Chat hat einen neuen Schlüssel. Prüfe zuerst den Hinweis über dem Eingabefeld.",
+  },
+  attachments: {
+    title: "Anhänge",
+    attach: "Dateien anhängen",
+    download: "Herunterladen",
+    remove: "Anhang entfernen",
+    uploading: "Wird hochgeladen",
+    tooLarge: "{name} ist größer als {max} MB.",
+    tooMany: "Du kannst bis zu {max} Dateien pro Nachricht anhängen.",
+    uploadFailed: "Hochladen fehlgeschlagen",
+    downloadFailed: "Herunterladen fehlgeschlagen",
+  },
+  voiceNotes: {
+    title: "Sprachnachricht",
+    holdToRecord: "Gedrückt halten, um eine Sprachnachricht aufzunehmen",
+    starting: "Mikrofon wird geöffnet…",
+    recording: "Aufnahme {time}",
+    releaseHint: "Loslassen zum Senden, wegziehen zum Abbrechen",
+    sending: "Sprachnachricht wird gesendet…",
+    tooShort: "Halte die Taste etwas länger gedrückt, um aufzunehmen.",
+    play: "Sprachnachricht abspielen",
+    pause: "Sprachnachricht pausieren",
+  },
+  disappearing: {
+    title: "Selbstlöschende Nachrichten",
+    menuItem: "Selbstlöschende Nachrichten: {timer}",
+    description: "Neue Nachrichten in diesem Chat werden nach der gewählten Zeit für alle gelöscht, auf jedem Gerät und auf dem Server. Alle im Chat sehen, wenn der Timer geändert wird.",
+    off: "Aus",
+    minutes: "{n} Min.",
+    hours: "{n} Std.",
+    days: "{n} T.",
+    weeks: "{n} Wo.",
+    noticeOn: "{name} hat selbstlöschende Nachrichten auf {timer} gestellt.",
+    noticeOff: "{name} hat selbstlöschende Nachrichten ausgeschaltet.",
+    noticeOnSelf: "Du hast selbstlöschende Nachrichten auf {timer} gestellt.",
+    noticeOffSelf: "Du hast selbstlöschende Nachrichten ausgeschaltet.",
+  },
+  reactions: {
+    title: "Reaktionen",
+    add: "Mit {emoji} reagieren",
+    remove: "Reaktion {emoji} entfernen",
+  },
+  typing: {
+    one: "{name} schreibt…",
+    two: "{a} und {b} schreiben…",
+    many: "{count} Personen schreiben…",
+  },
+  receipts: {
+    setting: "Lesebestätigungen",
+    settingHelp: "Andere sehen, wann deine Nachrichten ankommen und wann du ihre liest. Wenn du das ausschaltest, siehst du auch ihre Bestätigungen nicht mehr.",
+    toastOn: "Lesebestätigungen aktiviert.",
+    toastOff: "Lesebestätigungen deaktiviert.",
+    sent: "Gesendet",
+    delivered: "Zugestellt",
+    read: "Gelesen",
+    details: "Nachrichteninfo",
+  },
+  outbox: {
+    sending: "Wird gesendet…",
+    pending: "Warte auf Verbindung",
+    failed: "Nicht gesendet",
+    retry: "Erneut senden",
+    discard: "Verwerfen",
+  },
+  search: {
+    open: "Nachrichten suchen",
+    menuItem: "Im Chat suchen",
+    placeholder: "Nachrichten suchen",
+    close: "Suche schließen",
+    noResults: "Keine Nachrichten gefunden.",
+    localOnly: "Durchsuchbar ist nur der Verlauf, den dieses Gerät geladen hat.",
+    notFound: "Diese Nachricht ist nicht mehr verfügbar.",
+  },
+  forward: {
+    menuItem: "Weiterleiten",
+    title: "Weiterleiten",
+    pickChat: "Weiterleiten an…",
+    noChats: "Keine Chats zum Weiterleiten.",
+    header: "Weitergeleitet · von {name}, laut Weiterleitendem",
+    headerHint: "Angegeben von der Person, die weitergeleitet hat; der ursprüngliche Absender ist nicht verifiziert.",
+    disappearing: "Selbstlöschende Nachrichten können nicht weitergeleitet werden.",
+    sent: "An {name} weitergeleitet.",
+  },
+  richText: {
+    preview: "Vorschau",
+    previewToggle: "Formatierungsvorschau anzeigen",
+    formattingHint: "**fett**, _kursiv_, ~~durchgestrichen~~, `Code`, ```Codeblock```, > Zitat, {'||'}Spoiler{'||'}",
+    spoiler: "Spoiler, zum Anzeigen tippen",
+  },
+  mentions: {
+    jump: "Erwähnungen: {n}",
+    jumpAria: "Zur ältesten ungelesenen Erwähnung springen (noch {n})",
+    listAria: "Mitglied erwähnen",
+    badge: "Du wurdest erwähnt",
+  },
+  sealedSender: {
+    setting: "Versiegelter Absender",
+    settingHelp: "Sende Nachrichten auf diesem Gerät, ohne dass der Server erfährt, wer sie sendet. Dein Name und deine Signatur stecken in der Verschlüsselung, und ein Zustelltoken des Chats ersetzt deine Sitzung. Versiegelte Nachrichten können nicht bearbeitet oder gelöscht werden, bleiben im Chat, wenn du ihn verlässt oder dein Konto löschst, und zeigen keine Lesebestätigungen. Nachrichten mit Anhängen werden immer normal gesendet.",
+    toastOn: "Versiegelter Absender auf diesem Gerät aktiviert.",
+    toastOff: "Versiegelter Absender auf diesem Gerät deaktiviert.",
+  },
+  stayPasskey: {
+    setting: "Mit Passkey entsperren",
+    settingHelp: "Schütze das automatische Entsperren auf diesem Gerät mit einem Passkey. Beim Öffnen fragt die App dann nach Fingerabdruck, Gesicht oder Geräte-PIN, statt still zu entsperren, sodass niemand mit Zugriff auf dieses Browserprofil deine Nachrichten lesen kann. Erfordert einen Passkey mit Unterstützung für die PRF-Erweiterung.",
+    toastOn: "Entsperren mit Passkey auf diesem Gerät aktiviert.",
+    toastOff: "Entsperren mit Passkey auf diesem Gerät deaktiviert.",
+    enableFailed: "Passkey konnte nicht eingerichtet werden. Dein Browser oder Authenticator unterstützt das Entsperren mit Passkey möglicherweise nicht.",
+    unlockTitle: "Diese Sitzung ist mit einem Passkey gesperrt.",
+    unlock: "Mit Passkey entsperren",
+    usePassword: "Stattdessen Passwort verwenden",
+    unlockFailed: "Entsperren mit Passkey fehlgeschlagen. Versuche es erneut oder verwende dein Passwort.",
+  },
+  deviceLink: {
+    title: "Gerät verknüpfen",
+    linkNew: "Neues Gerät verknüpfen",
+    receive: "Von anderem Gerät empfangen",
+    offerHint: "Übertrage dieses Konto ohne Schlüsseldatei auf ein neues Gerät. Gib dein Passwort ein, um einen Einmalcode anzuzeigen, öffne dann auf dem neuen Gerät Schlüssel verwalten und wähle Von anderem Gerät empfangen.",
+    qrHint: "Scanne diesen Code mit dem neuen Gerät. Er funktioniert einmal und läuft nach wenigen Minuten ab. Wer ihn scannt, erhält deinen Schlüssel – zeige ihn also nur deinem eigenen Gerät.",
+    showCode: "Code anzeigen",
+    requesting: "Code wird angefordert…",
+    sending: "Neues Gerät verbunden. Schlüssel wird gesendet…",
+    done: "Schlüssel gesendet. Schließe auf dem neuen Gerät ab, indem du ein Passwort wählst.",
+    failed: "Verknüpfen fehlgeschlagen oder der Code ist abgelaufen. Versuche es erneut.",
+    passwordMissing: "Passwort erforderlich.",
+    wrongPassword: "Falsches Passwort.",
+    offline: "Nicht verbunden. Versuche es erneut, sobald die Verbindung wieder steht.",
+    connecting: "Verbindung zu deinem anderen Gerät…",
+    waiting: "Warte auf dein anderes Gerät…",
+    received: "Schlüssel für {username} empfangen. Wähle ein Passwort, um ihn auf diesem Gerät zu schützen.",
+    repeatPassword: "Passwort wiederholen",
+    passwordMismatch: "Passwörter stimmen nicht überein.",
+    finish: "Speichern und anmelden",
+    joinFailed: "Schlüssel konnte nicht empfangen werden. Zeige auf deinem anderen Gerät einen neuen Code an und scanne erneut.",
+    scanAgain: "Erneut scannen",
+    loggedIn: "Melde dich zuerst ab, um dieses Gerät von einem anderen Gerät aus mit einem Konto zu verknüpfen.",
+  },
+  recoveryPhrase: {
+    open: "Wiederherstellungsphrase",
+    hint: "Eine Wiederherstellungsphrase besteht aus 24 Wörtern, mit denen sich der Schlüssel dieses Kontos auf jedem Gerät wiederherstellen lässt, auch wenn dieses verloren geht. Der Schlüssel liegt mit der Phrase verschlüsselt auf dem Server, der ihn nicht lesen kann.\nEine neue Phrase ersetzt die alte. Das Erneuern deines Schlüssels entfernt sie.",
+    exists: "Für dieses Konto ist eine Wiederherstellungsphrase eingerichtet.",
+    none: "Für dieses Konto ist keine Wiederherstellungsphrase eingerichtet.",
+    create: "Wiederherstellungsphrase erstellen",
+    remove: "Wiederherstellungsphrase entfernen",
+    removed: "Wiederherstellungsphrase entfernt.",
+    passwordMissing: "Passwort erforderlich.",
+    wrongPassword: "Falsches Passwort.",
+    showHint: "Schreib diese Wörter in dieser Reihenfolge auf und bewahre sie sicher auf. Wer sie hat, kann dieses Konto übernehmen. Sie werden nicht erneut angezeigt.",
+    done: "Ich habe sie notiert",
+    restore: "Mit Phrase wiederherstellen",
+    restoreHint: "Gib deine Wiederherstellungsphrase aus 24 Wörtern ein und wähle ein Passwort, das den Schlüssel auf diesem Gerät schützt.",
+    phrase: "Wiederherstellungsphrase",
+    repeatPassword: "Passwort wiederholen",
+    passwordMismatch: "Passwörter stimmen nicht überein.",
+    restoreConfirm: "Wiederherstellen und anmelden",
+    invalid: "Das ist keine gültige Wiederherstellungsphrase. Prüfe die Wörter und ihre Reihenfolge.",
+    notFound: "Für diese Phrase wurde keine Sicherung gefunden. Sie wurde möglicherweise ersetzt oder entfernt.",
+    badBackup: "Die Sicherung zu dieser Phrase konnte nicht geöffnet werden.",
+  },
+  socialRecovery: {
+    open: "Wiederherstellungskontakte",
+    hint: "Teile einen Wiederherstellungsschlüssel unter Kontakten auf, denen du vertraust. Jeder erhält ein Stück im Chat mit dir; die von dir gewählte Anzahl kann dir gemeinsam auf einem neuen Gerät wieder Zugang zu diesem Konto geben. Weniger erfahren nichts.\nErneutes Einrichten ersetzt die alten Stücke. Das Rotieren deines Schlüssels entfernt sie.",
+    exists: "Für dieses Konto sind Wiederherstellungskontakte eingerichtet.",
+    none: "Für dieses Konto sind keine Wiederherstellungskontakte eingerichtet.",
+    noContacts: "Du hast noch keine persönlichen Chats. Wiederherstellungskontakte werden daraus gewählt.",
+    threshold: "Benötigte Kontakte zur Wiederherstellung",
+    create: "Wiederherstellungsstücke senden",
+    created: "An {count} Kontakte gesendet; {threshold} von ihnen können dir bei der Wiederherstellung helfen.",
+    remove: "Wiederherstellungskontakte entfernen",
+    removed: "Wiederherstellungskontakte entfernt.",
+    pickContacts: "Wähle zwischen {min} und {max} Kontakten.",
+    badThreshold: "Die Anzahl benötigter Kontakte muss zwischen {min} und {max} liegen.",
+    recover: "Mit Kontakten wiederherstellen",
+    recoverHint: "Wenn du Wiederherstellungskontakte eingerichtet hast, können sie dir wieder Zugang geben. Gib deinen Benutzernamen ein, um sie zu fragen.",
+    usernameMissing: "Gib deinen Benutzernamen ein.",
+    userNotFound: "Benutzer nicht gefunden.",
+    start: "Meine Kontakte fragen",
+    waitingHint: "Deine Wiederherstellungskontakte sehen eine Anfrage im Chat mit dir. Nenne jedem diesen Code persönlich oder am Telefon und bitte sie, nur zuzustimmen, wenn er übereinstimmt.",
+    waiting: "Warte auf Kontakte…",
+    progress: "{received} von {needed} Kontakten haben zugestimmt.",
+    readyHint: "Dein Schlüssel wurde wiederhergestellt. Wähle ein Passwort, um ihn auf diesem Gerät zu schützen.",
+    failed: "Wiederherstellung fehlgeschlagen. Die Anfrage ist möglicherweise abgelaufen, oder die Stücke passen nicht mehr zu deiner Sicherung.",
+    notice: "{name} hat dich zum Wiederherstellungskontakt gemacht",
+    noticeSelf: "Du hast diesen Kontakt zum Wiederherstellungskontakt gemacht",
+    requestTitle: "Wiederherstellungsanfrage",
+    requestBody: "Jemand versucht, das Konto von {name} wiederherzustellen. Stimme nur zu, wenn {name} dir genau diesen Code selbst nennt:",
+    approve: "Zustimmen",
+    decline: "Ablehnen",
+    approved: "Dein Stück wurde gesendet.",
+  },
   keys: {
     title: "Schlüssel verwalten",
     description: "Was du wissen musst:\n1. Zum Anmelden brauchst du einen Schlüssel im Browser und das Passwort.\n2. Benutzername und Passwort ohne Schlüssel reichen nicht zum Anmelden.\n3. Ein Schlüssel ohne Passwort reicht nicht zum Anmelden.\n4. Das Löschen des Schlüssels führt zum permanenten und unwiederbringlichen Verlust des Zugriffs.\n5. Jedes Konto hat seinen eigenen Schlüssel, der bei der Registrierung lokal auf dem Gerät erstellt wird.\n6. Das vollständige Löschen der Browserdaten oder das Entfernen des Browsers kann die Schlüssel vom Gerät löschen.",
@@ -98,6 +313,11 @@ const de = {
     removeSpecificConfirmHint: "Schlüssel für {username} gefunden. Das Entfernen löscht den lokalen Zugriff für dieses Konto auf diesem Gerät.\n\nDies kann nicht rückgängig gemacht werden.",
     removeSpecificConfirm: "Schlüssel entfernen",
     removeOneOk: "Schlüssel entfernt.",
+    rotate: "Schlüssel erneuern",
+    rotateWarning: "Dadurch wird ein neues Schlüsselpaar für das angemeldete Konto erstellt und das aktuelle auf dem Server ersetzt. Deine Kontakte erhalten eine mit deinem alten Schlüssel signierte Änderung, und dieses Gerät behält den alten Schlüssel, damit dein Verlauf lesbar bleibt.\n\nDeine anderen Geräte werden abgemeldet. Gesicherte oder heruntergeladene Schlüssel funktionieren nicht mehr für die Anmeldung; lade den Schlüssel danach erneut herunter.",
+    rotateConfirm: "Schlüssel erneuern",
+    rotateOk: "Neue Schlüssel sind aktiv.",
+    rotatePasswordMissing: "Passwort erforderlich.",
     notificationsEnabledTitle: "Benachrichtigungen aktiviert",
     notificationsEnabledBody: "Push-Benachrichtigungen sind jetzt für dieses Gerät aktiv.",
     notificationsFailedTitle: "Benachrichtigungen nicht aktiv",
@@ -219,6 +439,11 @@ const de = {
   deleteGroupWarning: "Du bist das letzte Mitglied. Das löscht die Gruppe dauerhaft und entfernt alle Nachrichten. Das kann nicht rückgängig gemacht werden.",
   deleteChat: "Chat löschen",
   leaveGroup: "Gruppe verlassen",
+  forwardSecrecyEnable: "Forward Secrecy einschalten",
+  forwardSecrecyDisable: "Forward Secrecy ausschalten",
+  forwardSecrecyOnBody: "Neue Nachrichten in diesem Chat verwenden Einmalschlüssel. Sie sind nur auf diesem Gerät und dem aktuellen Gerät deines Freundes lesbar.",
+  forwardSecrecyOffBody: "Neue Nachrichten in diesem Chat verwenden wieder deine normalen Schlüssel.",
+  forwardSecrecyFailed: "Forward Secrecy konnte nicht geändert werden.",
   switchAnonymous: "Anonymer Modus",
   unlockSubtitle: "Entsperre deinen privaten Schlüssel, um Nachrichten zu lesen und zu senden.",
   unlockFor: "Entsperren für",
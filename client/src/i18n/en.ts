@@ -56,13 +56,228 @@ const en = {
   },
 
   scanQr: {
-    hint: 'Scan an invite QR code to add the user immediately.',
+    hint: 'Scan an invite QR code to add the user immediately, or a contact\'s verification code to verify them.',
     cameraUnavailable: 'No camera available on this device.',
     cameraPermissionDenied: 'Camera permission denied. Please allow camera access and try again.',
     cameraStartFailed: 'Could not start the camera.',
     invalidInvite: 'This QR code is not a valid invite link for this site.',
     addFailedTitle: 'Cannot add user',
   },
+  safety: {
+    title: 'Safety number',
+    menuItem: 'Verify safety number',
+    hint: 'Compare these numbers with {name} in person or on a call you trust. If they match, your chat is encrypted to the right keys.',
+    qrHint: 'Or let {name} scan this code with Scan QR, and scan theirs.',
+    verified: 'Verified',
+    notVerified: 'Not verified',
+    verifiedSenderHint: 'Signed with a key you verified for this contact.',
+    computing: 'Computing…',
+    computeFailed: 'Could not compute the safety number.',
+    unavailable: 'This contact\'s key is not available right now.',
+    markVerified: 'Mark as verified',
+    unmarkVerified: 'Remove verification',
+    scanOkTitle: 'Contact verified',
+    scanOk: '{name} is now verified on this device.',
+    scanFailedTitle: 'Cannot verify contact',
+    scanSelf: 'This is your own verification code.',
+    scanUnknown: 'This code belongs to someone you do not share a chat with.',
+    scanMismatch: 'This code does not match the key the server gave you for this contact. Do not trust this chat until you have checked with them.',
+  },
+  keyChange: {
+    title: 'Safety number changed',
+    body: '{name} now has a different key than the one you first saw. They may have reinstalled or recreated their account, or someone may be intercepting the chat. Compare safety numbers before you continue.',
+    view: 'View safety number',
+    accept: 'Accept new key',
+    blocked: 'A contact in this chat has a new key. Review the notice above the message box first.',
+  },
+  attachments: {
+    title: 'Attachments',
+    attach: 'Attach files',
+    download: 'Download',
+    remove: 'Remove attachment',
+    uploading: 'Uploading',
+    tooLarge: '{name} is larger than {max} MB.',
+    tooMany: 'You can attach up to {max} files per message.',
+    uploadFailed: 'Upload failed',
+    downloadFailed: 'Download failed',
+  },
+  voiceNotes: {
+    title: 'Voice message',
+    holdToRecord: 'Hold to record a voice message',
+    starting: 'Opening microphone…',
+    recording: 'Recording {time}',
+    releaseHint: 'Release to send, slide away to cancel',
+    sending: 'Sending voice message…',
+    tooShort: 'Hold the button a little longer to record.',
+    play: 'Play voice message',
+    pause: 'Pause voice message',
+  },
+  disappearing: {
+    title: 'Disappearing messages',
+    menuItem: 'Disappearing messages: {timer}',
+    description: 'New messages in this chat are deleted for everyone after the selected time, on every device and on the server. Everyone in the chat sees when the timer changes.',
+    off: 'Off',
+    minutes: '{n} min',
+    hours: '{n} h',
+    days: '{n} d',
+    weeks: '{n} wk',
+    noticeOn: '{name} set disappearing messages to {timer}.',
+    noticeOff: '{name} turned off disappearing messages.',
+    noticeOnSelf: 'You set disappearing messages to {timer}.',
+    noticeOffSelf: 'You turned off disappearing messages.',
+  },
+  reactions: {
+    title: 'Reactions',
+    add: 'React with {emoji}',
+    remove: 'Remove {emoji} reaction',
+  },
+  typing: {
+    one: '{name} is typing…',
+    two: '{a} and {b} are typing…',
+    many: '{count} people are typing…',
+  },
+  receipts: {
+    setting: 'Read receipts',
+    settingHelp: 'Let others see when your messages arrive and when you read theirs. Turning this off also hides their receipts from you.',
+    toastOn: 'Read receipts enabled.',
+    toastOff: 'Read receipts disabled.',
+    sent: 'Sent',
+    delivered: 'Delivered',
+    read: 'Read',
+    details: 'Message info',
+  },
+  outbox: {
+    sending: 'Sending…',
+    pending: 'Waiting for connection',
+    failed: 'Not sent',
+    retry: 'Retry',
+    discard: 'Discard',
+  },
+  search: {
+    open: 'Search messages',
+    menuItem: 'Search in chat',
+    placeholder: 'Search messages',
+    close: 'Close search',
+    noResults: 'No messages found.',
+    localOnly: 'Only history this device has loaded can be searched.',
+    notFound: 'That message is no longer available.',
+  },
+  forward: {
+    menuItem: 'Forward',
+    title: 'Forward',
+    pickChat: 'Forward to…',
+    noChats: 'No chats to forward to.',
+    header: 'Forwarded · from {name}, per the forwarder',
+    headerHint: 'Named by whoever forwarded it; the original author is not verified.',
+    disappearing: "Disappearing messages can't be forwarded.",
+    sent: 'Forwarded to {name}.',
+  },
+  richText: {
+    preview: 'Preview',
+    previewToggle: 'Show formatting preview',
+    formattingHint: "**bold**, _italic_, ~~strike~~, `code`, ```code block```, > quote, {'||'}spoiler{'||'}",
+    spoiler: 'Spoiler, tap to reveal',
+  },
+  mentions: {
+    jump: 'Mentions: {n}',
+    jumpAria: 'Jump to the oldest unread mention ({n} left)',
+    listAria: 'Mention a member',
+    badge: 'You were mentioned',
+  },
+  sealedSender: {
+    setting: 'Sealed sender',
+    settingHelp: 'Send messages on this device without the server learning who sent them. Your name and signature travel inside the encryption, and a chat delivery token replaces your session. Sealed messages cannot be edited or deleted, stay in the chat when you leave it or delete your account, and do not show read receipts. Messages with attachments are always sent normally.',
+    toastOn: 'Sealed sender enabled on this device.',
+    toastOff: 'Sealed sender disabled on this device.',
+  },
+  stayPasskey: {
+    setting: 'Unlock with passkey',
+    settingHelp: 'Protect the automatic unlock on this device with a passkey. Opening the app then asks for your fingerprint, face, or device PIN instead of unlocking silently, so someone with access to this browser profile cannot read your messages. Needs a passkey that supports the PRF extension.',
+    toastOn: 'Passkey unlock enabled on this device.',
+    toastOff: 'Passkey unlock disabled on this device.',
+    enableFailed: 'Could not set up a passkey. Your browser or authenticator may not support passkey unlock.',
+    unlockTitle: 'This session is locked with a passkey.',
+    unlock: 'Unlock with passkey',
+    usePassword: 'Use password instead',
+    unlockFailed: 'Passkey unlock failed. Try again or use your password.',
+  },
+  deviceLink: {
+    title: 'Link a device',
+    linkNew: 'Link new device',
+    receive: 'Receive from another device',
+    offerHint: 'Move this account to a new device without a key file. Enter your password to show a one-time code, then on the new device open Manage keys and choose Receive from another device.',
+    qrHint: 'Scan this code with the new device. It works once and expires after a few minutes. Whoever scans it receives your key, so only show it to your own device.',
+    showCode: 'Show code',
+    requesting: 'Requesting a code…',
+    sending: 'New device connected. Sending the key…',
+    done: 'Key sent. Finish on the new device by choosing a password.',
+    failed: 'Linking failed or the code expired. Try again.',
+    passwordMissing: 'Password required.',
+    wrongPassword: 'Wrong password.',
+    offline: 'Not connected. Try again once the connection is back.',
+    connecting: 'Connecting to your other device…',
+    waiting: 'Waiting for your other device…',
+    received: 'Key for {username} received. Choose a password to protect it on this device.',
+    repeatPassword: 'Repeat password',
+    passwordMismatch: 'Passwords do not match.',
+    finish: 'Save and log in',
+    joinFailed: 'Could not receive the key. Show a new code on your other device and scan again.',
+    scanAgain: 'Scan again',
+    loggedIn: 'Log out first to link this device to an account from another device.',
+  },
+  recoveryPhrase: {
+    open: 'Recovery phrase',
+    hint: 'A recovery phrase is 24 words that restore this account\'s key on any device, even if this one is lost. The key is stored on the server encrypted under the phrase, so the server cannot read it.\nCreating a new phrase replaces the old one. Rotating your key removes it.',
+    exists: 'A recovery phrase is set up for this account.',
+    none: 'No recovery phrase is set up for this account.',
+    create: 'Create recovery phrase',
+    remove: 'Remove recovery phrase',
+    removed: 'Recovery phrase removed.',
+    passwordMissing: 'Password required.',
+    wrongPassword: 'Wrong password.',
+    showHint: 'Write these words down in this order and keep them somewhere safe. Anyone who has them can take over this account. They will not be shown again.',
+    done: 'I wrote it down',
+    restore: 'Restore from phrase',
+    restoreHint: 'Enter your 24-word recovery phrase, then choose a password to protect the key on this device.',
+    phrase: 'Recovery phrase',
+    repeatPassword: 'Repeat password',
+    passwordMismatch: 'Passwords do not match.',
+    restoreConfirm: 'Restore and log in',
+    invalid: 'That is not a valid recovery phrase. Check the words and their order.',
+    notFound: 'No backup was found for this phrase. It may have been replaced or removed.',
+    badBackup: 'The backup for this phrase could not be opened.',
+  },
+  socialRecovery: {
+    open: 'Recovery contacts',
+    hint: 'Split a recovery key among contacts you trust. Each one receives a piece in your chat with them; any number of them you choose can together help you back into this account on a new device. Fewer than that learn nothing.\nSetting this up again replaces the old pieces. Rotating your key removes it.',
+    exists: 'Recovery contacts are set up for this account.',
+    none: 'No recovery contacts are set up for this account.',
+    noContacts: 'You have no personal chats yet. Recovery contacts are chosen from them.',
+    threshold: 'Contacts needed to recover',
+    create: 'Send recovery pieces',
+    created: 'Sent to {count} contacts; {threshold} of them can help you recover.',
+    remove: 'Remove recovery contacts',
+    removed: 'Recovery contacts removed.',
+    pickContacts: 'Choose between {min} and {max} contacts.',
+    badThreshold: 'The number of contacts needed must be between {min} and {max}.',
+    recover: 'Recover with contacts',
+    recoverHint: 'If you set up recovery contacts, they can help you back in. Enter your username to ask them.',
+    usernameMissing: 'Enter your username.',
+    userNotFound: 'No such user.',
+    start: 'Ask my contacts',
+    waitingHint: 'Your recovery contacts will see a request in their chat with you. Tell each of them this code in person or by phone, and ask them to approve only if it matches.',
+    waiting: 'Waiting for contacts…',
+    progress: '{received} of {needed} contacts have approved.',
+    readyHint: 'Your key was recovered. Choose a password to protect it on this device.',
+    failed: 'Recovery failed. The request may have expired, or the pieces no longer match your backup.',
+    notice: '{name} made you a recovery contact',
+    noticeSelf: 'You made this contact a recovery contact',
+    requestTitle: 'Recovery request',
+    requestBody: 'Someone is trying to recover {name}\'s account. Only approve if {name} tells you this exact code themselves:',
+    approve: 'Approve',
+    decline: 'Decline',
+    approved: 'Your piece was sent.',
+  },
   keys: {
     title: 'Manage keys',
     description:
@@ -110,6 +325,11 @@ const en = {
       'Key found for {username}. Removing it will permanently delete local access for this account on this device.\n\nThis cannot be undone.',
     removeSpecificConfirm: 'Remove key',
     removeOneOk: 'Key removed.',
+    rotate: 'Rotate keys',
+    rotateWarning: 'This creates a new keypair for the account you are signed in with and replaces the current one on the server. Your contacts get a change signed with your old key, and this device keeps the old key so your history stays readable.\n\nYour other devices will be logged out. Backed-up or downloaded keys stop working for login; download the key again afterwards.',
+    rotateConfirm: 'Rotate keys',
+    rotateOk: 'New keys are active.',
+    rotatePasswordMissing: 'Password required.',
   },
   subtitle: 'Your own private messenger. Fully encrypted, no logs, no traces.',
   username: 'Username',
@@ -187,6 +407,11 @@ const en = {
   reloadAppNoCache: 'Reload app',
   deleteChat: 'Delete chat',
   leaveGroup: 'Leave group',
+  forwardSecrecyEnable: 'Turn on forward secrecy',
+  forwardSecrecyDisable: 'Turn off forward secrecy',
+  forwardSecrecyOnBody: 'New messages in this chat use one-time keys. They can only be read on this device and your friend\'s current device.',
+  forwardSecrecyOffBody: 'New messages in this chat use your regular keys again.',
+  forwardSecrecyFailed: 'Could not change forward secrecy.',
   errInvalidCredentials: 'Invalid username or password.',
   errUsernameExists: 'Username already exists.',
   errUsernameUnsafe: 'Username contains unsafe characters.',
@@ -54,13 +54,228 @@ const fr = {
     linkLabel: "Lien"
   },
   scanQr: {
-    hint: "Scannez un QR d’invitation pour ajouter l’utilisateur immédiatement.",
+    hint: "Scannez un QR d’invitation pour ajouter l’utilisateur immédiatement, ou le code de vérification d’un contact pour le vérifier.",
     cameraUnavailable: "Aucune caméra disponible sur cet appareil.",
     cameraPermissionDenied: "Accès à la caméra refusé. Autorisez l’accès et réessayez.",
     cameraStartFailed: "Impossible de démarrer la caméra.",
     invalidInvite: "Ce QR code n’est pas un lien d’invitation valide pour ce site.",
     addFailedTitle: "Impossible d’ajouter l’utilisateur"
   },
+  safety: {
+    title: "Numéro de sécurité",
+    menuItem: "Vérifier le numéro de sécurité",
+    hint: "Comparez ces chiffres avec {name} en personne ou lors d’un appel de confiance. S’ils correspondent, votre discussion est chiffrée avec les bonnes clés.",
+    qrHint: "Ou laissez {name} scanner ce code avec Scanner QR, et scannez le sien.",
+    verified: "Vérifié",
+    notVerified: "Non vérifié",
+    verifiedSenderHint: "Signé avec une clé que vous avez vérifiée pour ce contact.",
+    computing: "Calcul en cours…",
+    computeFailed: "Impossible de calculer le numéro de sécurité.",
+    unavailable: "La clé de ce contact n’est pas disponible pour le moment.",
+    markVerified: "Marquer comme vérifié",
+    unmarkVerified: "Retirer la vérification",
+    scanOkTitle: "Contact vérifié",
+    scanOk: "{name} est maintenant vérifié sur cet appareil.",
+    scanFailedTitle: "Impossible de vérifier le contact",
+    scanSelf: "C’est votre propre code de vérification.",
+    scanUnknown: "Ce code appartient à quelqu’un avec qui vous ne partagez aucune discussion.",
+    scanMismatch: "Ce code ne correspond pas à la clé fournie par le serveur pour ce contact. Ne faites pas confiance à cette discussion avant de vérifier avec lui.",
+  },
+  keyChange: {
+    title: "Numéro de sécurité modifié",
+    body: "{name} a maintenant une clé différente de celle vue la première fois. Le compte a peut-être été recréé, ou quelqu’un intercepte la discussion. Comparez les numéros de sécurité avant de continuer.",
+    view: "Voir le numéro de sécurité",
+    accept: "Accepter la nouvelle clé",
+    blocked: "Un contact de cette discussion a une nouvelle clé. Consultez d’abord l’avis au-dessus de la zone de saisie.",
+  },
+  attachments: {
+    title: "Pièces jointes",
+    attach: "Joindre des fichiers",
+    download: "Télécharger",
+    remove: "Retirer la pièce jointe",
+    uploading: "Envoi en cours",
+    tooLarge: "{name} dépasse {max} Mo.",
+    tooMany: "Vous pouvez joindre jusqu’à {max} fichiers par message.",
+    uploadFailed: "Échec de l’envoi",
+    downloadFailed: "Échec du téléchargement",
+  },
+  voiceNotes: {
+    title: "Message vocal",
+    holdToRecord: "Maintenez pour enregistrer un message vocal",
+    starting: "Ouverture du micro…",
+    recording: "Enregistrement {time}",
+    releaseHint: "Relâchez pour envoyer, glissez pour annuler",
+    sending: "Envoi du message vocal…",
+    tooShort: "Maintenez le bouton un peu plus longtemps pour enregistrer.",
+    play: "Lire le message vocal",
+    pause: "Mettre en pause le message vocal",
+  },
+  disappearing: {
+    title: "Messages éphémères",
+    menuItem: "Messages éphémères : {timer}",
+    description: "Les nouveaux messages de cette discussion sont supprimés pour tout le monde après la durée choisie, sur chaque appareil et sur le serveur. Tous les participants voient quand la minuterie change.",
+    off: "Désactivés",
+    minutes: "{n} min",
+    hours: "{n} h",
+    days: "{n} j",
+    weeks: "{n} sem.",
+    noticeOn: "{name} a réglé les messages éphémères sur {timer}.",
+    noticeOff: "{name} a désactivé les messages éphémères.",
+    noticeOnSelf: "Vous avez réglé les messages éphémères sur {timer}.",
+    noticeOffSelf: "Vous avez désactivé les messages éphémères.",
+  },
+  reactions: {
+    title: "Réactions",
+    add: "Réagir avec {emoji}",
+    remove: "Retirer la réaction {emoji}",
+  },
+  typing: {
+    one: "{name} est en train d’écrire…",
+    two: "{a} et {b} sont en train d’écrire…",
+    many: "{count} personnes sont en train d’écrire…",
+  },
+  receipts: {
+    setting: "Accusés de lecture",
+    settingHelp: "Permet aux autres de voir quand vos messages arrivent et quand vous lisez les leurs. Les désactiver masque aussi leurs accusés pour vous.",
+    toastOn: "Accusés de lecture activés.",
+    toastOff: "Accusés de lecture désactivés.",
+    sent: "Envoyé",
+    delivered: "Distribué",
+    read: "Lu",
+    details: "Infos du message",
+  },
+  outbox: {
+    sending: "Envoi…",
+    pending: "En attente de connexion",
+    failed: "Non envoyé",
+    retry: "Réessayer",
+    discard: "Abandonner",
+  },
+  search: {
+    open: "Rechercher des messages",
+    menuItem: "Rechercher dans la discussion",
+    placeholder: "Rechercher des messages",
+    close: "Fermer la recherche",
+    noResults: "Aucun message trouvé.",
+    localOnly: "Seul l’historique chargé sur cet appareil peut être recherché.",
+    notFound: "Ce message n’est plus disponible.",
+  },
+  forward: {
+    menuItem: "Transférer",
+    title: "Transférer",
+    pickChat: "Transférer à…",
+    noChats: "Aucune discussion vers laquelle transférer.",
+    header: "Transféré · de {name}, selon l’expéditeur du transfert",
+    headerHint: "Indiqué par la personne qui a transféré ce message ; l’auteur d’origine n’est pas vérifié.",
+    disappearing: "Les messages éphémères ne peuvent pas être transférés.",
+    sent: "Transféré à {name}.",
+  },
+  richText: {
+    preview: "Aperçu",
+    previewToggle: "Afficher l’aperçu de la mise en forme",
+    formattingHint: "**gras**, _italique_, ~~barré~~, `code`, ```bloc de code```, > citation, {'||'}spoiler{'||'}",
+    spoiler: "Spoiler, touchez pour afficher",
+  },
+  mentions: {
+    jump: "Mentions : {n}",
+    jumpAria: "Aller à la plus ancienne mention non lue ({n} restantes)",
+    listAria: "Mentionner un membre",
+    badge: "Vous avez été mentionné",
+  },
+  sealedSender: {
+    setting: "Expéditeur scellé",
+    settingHelp: "Envoyez des messages depuis cet appareil sans que le serveur sache qui les envoie. Votre nom et votre signature voyagent dans le chiffrement, et un jeton de distribution de la discussion remplace votre session. Les messages scellés ne peuvent pas être modifiés ni supprimés, restent dans la discussion si vous la quittez ou supprimez votre compte, et n’affichent pas d’accusés de lecture. Les messages avec pièces jointes sont toujours envoyés normalement.",
+    toastOn: "Expéditeur scellé activé sur cet appareil.",
+    toastOff: "Expéditeur scellé désactivé sur cet appareil.",
+  },
+  stayPasskey: {
+    setting: "Déverrouiller avec une clé d’accès",
+    settingHelp: "Protégez le déverrouillage automatique sur cet appareil avec une clé d’accès. À l’ouverture, l’application demande alors votre empreinte, votre visage ou le code de l’appareil au lieu de se déverrouiller seule, afin qu’une personne ayant accès à ce profil de navigateur ne puisse pas lire vos messages. Nécessite une clé d’accès compatible avec l’extension PRF.",
+    toastOn: "Déverrouillage par clé d’accès activé sur cet appareil.",
+    toastOff: "Déverrouillage par clé d’accès désactivé sur cet appareil.",
+    enableFailed: "Impossible de configurer une clé d’accès. Votre navigateur ou votre authentificateur ne prend peut-être pas en charge ce déverrouillage.",
+    unlockTitle: "Cette session est verrouillée par une clé d’accès.",
+    unlock: "Déverrouiller avec une clé d’accès",
+    usePassword: "Utiliser le mot de passe",
+    unlockFailed: "Échec du déverrouillage par clé d’accès. Réessayez ou utilisez votre mot de passe.",
+  },
+  deviceLink: {
+    title: "Associer un appareil",
+    linkNew: "Associer un nouvel appareil",
+    receive: "Recevoir depuis un autre appareil",
+    offerHint: "Transférez ce compte vers un nouvel appareil sans fichier de clé. Saisissez votre mot de passe pour afficher un code à usage unique, puis sur le nouvel appareil ouvrez Gérer les clés et choisissez Recevoir depuis un autre appareil.",
+    qrHint: "Scannez ce code avec le nouvel appareil. Il ne fonctionne qu’une fois et expire après quelques minutes. Quiconque le scanne reçoit votre clé : ne le montrez qu’à votre propre appareil.",
+    showCode: "Afficher le code",
+    requesting: "Demande d’un code…",
+    sending: "Nouvel appareil connecté. Envoi de la clé…",
+    done: "Clé envoyée. Terminez sur le nouvel appareil en choisissant un mot de passe.",
+    failed: "L’association a échoué ou le code a expiré. Réessayez.",
+    passwordMissing: "Mot de passe requis.",
+    wrongPassword: "Mot de passe incorrect.",
+    offline: "Non connecté. Réessayez une fois la connexion rétablie.",
+    connecting: "Connexion à votre autre appareil…",
+    waiting: "En attente de votre autre appareil…",
+    received: "Clé de {username} reçue. Choisissez un mot de passe pour la protéger sur cet appareil.",
+    repeatPassword: "Répéter le mot de passe",
+    passwordMismatch: "Les mots de passe ne correspondent pas.",
+    finish: "Enregistrer et se connecter",
+    joinFailed: "Impossible de recevoir la clé. Affichez un nouveau code sur votre autre appareil et scannez à nouveau.",
+    scanAgain: "Scanner à nouveau",
+    loggedIn: "Déconnectez-vous d’abord pour associer cet appareil à un compte depuis un autre appareil.",
+  },
+  recoveryPhrase: {
+    open: "Phrase de récupération",
+    hint: "Une phrase de récupération se compose de 24 mots qui restaurent la clé de ce compte sur n’importe quel appareil, même si celui-ci est perdu. La clé est stockée sur le serveur, chiffrée avec la phrase : le serveur ne peut pas la lire.\nCréer une nouvelle phrase remplace l’ancienne. Renouveler votre clé la supprime.",
+    exists: "Une phrase de récupération est configurée pour ce compte.",
+    none: "Aucune phrase de récupération n’est configurée pour ce compte.",
+    create: "Créer une phrase de récupération",
+    remove: "Supprimer la phrase de récupération",
+    removed: "Phrase de récupération supprimée.",
+    passwordMissing: "Mot de passe requis.",
+    wrongPassword: "Mot de passe incorrect.",
+    showHint: "Notez ces mots dans cet ordre et conservez-les en lieu sûr. Quiconque les possède peut prendre le contrôle de ce compte. Ils ne seront plus affichés.",
+    done: "Je les ai notés",
+    restore: "Restaurer avec une phrase",
+    restoreHint: "Saisissez votre phrase de récupération de 24 mots, puis choisissez un mot de passe pour protéger la clé sur cet appareil.",
+    phrase: "Phrase de récupération",
+    repeatPassword: "Répéter le mot de passe",
+    passwordMismatch: "Les mots de passe ne correspondent pas.",
+    restoreConfirm: "Restaurer et se connecter",
+    invalid: "Ce n’est pas une phrase de récupération valide. Vérifiez les mots et leur ordre.",
+    notFound: "Aucune sauvegarde trouvée pour cette phrase. Elle a peut-être été remplacée ou supprimée.",
+    badBackup: "La sauvegarde de cette phrase n’a pas pu être ouverte.",
+  },
+  socialRecovery: {
+    open: "Contacts de récupération",
+    hint: "Répartissez une clé de récupération entre des contacts de confiance. Chacun reçoit un fragment dans votre conversation avec lui ; le nombre d’entre eux que vous choisissez peut ensemble vous rendre l’accès à ce compte sur un nouvel appareil. En deçà, ils n’apprennent rien.\nUne nouvelle configuration remplace les anciens fragments. Renouveler votre clé la supprime.",
+    exists: "Des contacts de récupération sont configurés pour ce compte.",
+    none: "Aucun contact de récupération n’est configuré pour ce compte.",
+    noContacts: "Vous n’avez pas encore de conversation personnelle. Les contacts de récupération y sont choisis.",
+    threshold: "Contacts nécessaires pour récupérer",
+    create: "Envoyer les fragments",
+    created: "Envoyé à {count} contacts ; {threshold} d’entre eux peuvent vous aider à récupérer.",
+    remove: "Supprimer les contacts de récupération",
+    removed: "Contacts de récupération supprimés.",
+    pickContacts: "Choisissez entre {min} et {max} contacts.",
+    badThreshold: "Le nombre de contacts nécessaires doit être compris entre {min} et {max}.",
+    recover: "Récupérer avec des contacts",
+    recoverHint: "Si vous avez configuré des contacts de récupération, ils peuvent vous aider à revenir. Saisissez votre nom d’utilisateur pour leur demander.",
+    usernameMissing: "Saisissez votre nom d’utilisateur.",
+    userNotFound: "Utilisateur introuvable.",
+    start: "Demander à mes contacts",
+    waitingHint: "Vos contacts de récupération verront une demande dans leur conversation avec vous. Donnez ce code à chacun en personne ou par téléphone, et demandez-leur de n’approuver que s’il correspond.",
+    waiting: "En attente des contacts…",
+    progress: "{received} contacts sur {needed} ont approuvé.",
+    readyHint: "Votre clé a été récupérée. Choisissez un mot de passe pour la protéger sur cet appareil.",
+    failed: "La récupération a échoué. La demande a peut-être expiré, ou les fragments ne correspondent plus à votre sauvegarde.",
+    notice: "{name} a fait de vous un contact de récupération",
+    noticeSelf: "Vous avez fait de ce contact un contact de récupération",
+    requestTitle: "Demande de récupération",
+    requestBody: "Quelqu’un tente de récupérer le compte de {name}. N’approuvez que si {name} vous donne ce code exact en personne :",
+    approve: "Approuver",
+    decline: "Refuser",
+    approved: "Votre fragment a été envoyé.",
+  },
   keys: {
     title: "Gérer les clés",
     description: "À savoir :\n1. Pour vous connecter, il faut une clé dans le navigateur et le mot de passe.\n2. Connaître le nom d’utilisateur et le mot de passe sans la clé ne permet pas de se connecter.\n3. Avoir la clé sans le mot de passe ne permet pas de se connecter.\n4. Supprimer la clé entraîne une perte d’accès définitive et irréversible.\n5. Chaque compte a sa propre clé, créée localement sur l’appareil lors de l’inscription.\n6. Effacer complètement les données du navigateur ou supprimer le navigateur peut supprimer les clés de l’appareil.",
@@ -98,6 +313,11 @@ const fr = {
     removeSpecificConfirmHint: "Clé trouvée pour {username}. La suppression effacera l’accès local pour ce compte sur cet appareil.\n\nCette action est irréversible.",
     removeSpecificConfirm: "Supprimer la clé",
     removeOneOk: "Clé supprimée.",
+    rotate: "Renouveler les clés",
+    rotateWarning: "Cela crée une nouvelle paire de clés pour le compte connecté et remplace l’actuelle sur le serveur. Vos contacts reçoivent un changement signé avec votre ancienne clé, et cet appareil conserve l’ancienne clé pour que votre historique reste lisible.\n\nVos autres appareils seront déconnectés. Les clés sauvegardées ou téléchargées ne permettront plus de se connecter ; téléchargez de nouveau la clé ensuite.",
+    rotateConfirm: "Renouveler les clés",
+    rotateOk: "Les nouvelles clés sont actives.",
+    rotatePasswordMissing: "Mot de passe requis.",
     notificationsEnabledTitle: "Notifications activées",
     notificationsEnabledBody: "Les notifications push sont maintenant actives pour cet appareil.",
     notificationsFailedTitle: "Notifications inactives",
@@ -205,6 +425,11 @@ const fr = {
   reloadAppNoCache: "Recharger l’application",
   deleteChat: "Supprimer la discussion",
   leaveGroup: "Quitter le groupe",
+  forwardSecrecyEnable: "Activer la confidentialité persistante",
+  forwardSecrecyDisable: "Désactiver la confidentialité persistante",
+  forwardSecrecyOnBody: "Les nouveaux messages de ce chat utilisent des clés à usage unique. Ils ne sont lisibles que sur cet appareil et l’appareil actuel de votre ami.",
+  forwardSecrecyOffBody: "Les nouveaux messages de ce chat utilisent à nouveau vos clés habituelles.",
+  forwardSecrecyFailed: "Impossible de modifier la confidentialité persistante.",
   addMember: "Ajouter un membre",
   memberPlaceholder: "Nom d'utilisateur",
   memberAddedOk: "Membre ajouté.",
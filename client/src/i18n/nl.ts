@@ -54,13 +54,228 @@ const nl = {
     linkLabel: "Link"
   },
   scanQr: {
-    hint: "Scan een uitnodigings-QR om de gebruiker direct toe te voegen.",
+    hint: "Scan een uitnodigings-QR om de gebruiker direct toe te voegen, of de verificatiecode van een contact om die te verifiëren.",
     cameraUnavailable: "Geen camera beschikbaar op dit apparaat.",
     cameraPermissionDenied: "Cameratoegang geweigerd. Sta toegang toe en probeer opnieuw.",
     cameraStartFailed: "Kon de camera niet starten.",
     invalidInvite: "Deze QR-code is geen geldige uitnodigingslink voor deze site.",
     addFailedTitle: "Kan gebruiker niet toevoegen"
   },
+  safety: {
+    title: "Veiligheidsnummer",
+    menuItem: "Veiligheidsnummer controleren",
+    hint: "Vergelijk deze cijfers met {name}, persoonlijk of via een gesprek dat je vertrouwt. Als ze overeenkomen, is je chat versleuteld met de juiste sleutels.",
+    qrHint: "Of laat {name} deze code scannen met QR scannen, en scan die van hen.",
+    verified: "Geverifieerd",
+    notVerified: "Niet geverifieerd",
+    verifiedSenderHint: "Ondertekend met een sleutel die je voor dit contact hebt geverifieerd.",
+    computing: "Berekenen…",
+    computeFailed: "Kan het veiligheidsnummer niet berekenen.",
+    unavailable: "De sleutel van dit contact is nu niet beschikbaar.",
+    markVerified: "Markeren als geverifieerd",
+    unmarkVerified: "Verificatie verwijderen",
+    scanOkTitle: "Contact geverifieerd",
+    scanOk: "{name} is nu geverifieerd op dit apparaat.",
+    scanFailedTitle: "Kan contact niet verifiëren",
+    scanSelf: "Dit is je eigen verificatiecode.",
+    scanUnknown: "Deze code hoort bij iemand met wie je geen chat deelt.",
+    scanMismatch: "Deze code komt niet overeen met de sleutel die de server voor dit contact gaf. Vertrouw deze chat niet totdat je het met hen hebt nagegaan.",
+  },
+  keyChange: {
+    title: "Veiligheidsnummer gewijzigd",
+    body: "{name} heeft nu een andere sleutel dan de eerste die je zag. Misschien is het account opnieuw aangemaakt, of iemand onderschept de chat. Vergelijk de veiligheidsnummers voordat je verdergaat.",
+    view: "Veiligheidsnummer bekijken",
+    accept: "Nieuwe sleutel accepteren",
+    blocked: "Een contact in deze chat heeft een nieuwe sleutel. Bekijk eerst de melding boven het berichtvak.",
+  },
+  attachments: {
+    title: "Bijlagen",
+    attach: "Bestanden bijvoegen",
+    download: "Downloaden",
+    remove: "Bijlage verwijderen",
+    uploading: "Uploaden",
+    tooLarge: "{name} is groter dan {max} MB.",
+    tooMany: "Je kunt maximaal {max} bestanden per bericht bijvoegen.",
+    uploadFailed: "Uploaden mislukt",
+    downloadFailed: "Downloaden mislukt",
+  },
+  voiceNotes: {
+    title: "Spraakbericht",
+    holdToRecord: "Houd ingedrukt om een spraakbericht op te nemen",
+    starting: "Microfoon openen…",
+    recording: "Opnemen {time}",
+    releaseHint: "Loslaten om te versturen, wegschuiven om te annuleren",
+    sending: "Spraakbericht versturen…",
+    tooShort: "Houd de knop iets langer ingedrukt om op te nemen.",
+    play: "Spraakbericht afspelen",
+    pause: "Spraakbericht pauzeren",
+  },
+  disappearing: {
+    title: "Verdwijnende berichten",
+    menuItem: "Verdwijnende berichten: {timer}",
+    description: "Nieuwe berichten in deze chat worden na de gekozen tijd voor iedereen verwijderd, op elk apparaat en op de server. Iedereen in de chat ziet wanneer de timer verandert.",
+    off: "Uit",
+    minutes: "{n} min",
+    hours: "{n} u",
+    days: "{n} d",
+    weeks: "{n} wk",
+    noticeOn: "{name} heeft verdwijnende berichten ingesteld op {timer}.",
+    noticeOff: "{name} heeft verdwijnende berichten uitgezet.",
+    noticeOnSelf: "Je hebt verdwijnende berichten ingesteld op {timer}.",
+    noticeOffSelf: "Je hebt verdwijnende berichten uitgezet.",
+  },
+  reactions: {
+    title: "Reacties",
+    add: "Reageer met {emoji}",
+    remove: "Reactie {emoji} verwijderen",
+  },
+  typing: {
+    one: "{name} is aan het typen…",
+    two: "{a} en {b} zijn aan het typen…",
+    many: "{count} mensen zijn aan het typen…",
+  },
+  receipts: {
+    setting: "Leesbevestigingen",
+    settingHelp: "Laat anderen zien wanneer jouw berichten aankomen en wanneer je die van hen leest. Als je dit uitzet, zie je ook hun bevestigingen niet meer.",
+    toastOn: "Leesbevestigingen ingeschakeld.",
+    toastOff: "Leesbevestigingen uitgeschakeld.",
+    sent: "Verzonden",
+    delivered: "Afgeleverd",
+    read: "Gelezen",
+    details: "Berichtinfo",
+  },
+  outbox: {
+    sending: "Verzenden…",
+    pending: "Wacht op verbinding",
+    failed: "Niet verzonden",
+    retry: "Opnieuw",
+    discard: "Verwijderen",
+  },
+  search: {
+    open: "Berichten zoeken",
+    menuItem: "Zoeken in chat",
+    placeholder: "Berichten zoeken",
+    close: "Zoeken sluiten",
+    noResults: "Geen berichten gevonden.",
+    localOnly: "Alleen geschiedenis die dit apparaat heeft geladen is doorzoekbaar.",
+    notFound: "Dat bericht is niet meer beschikbaar.",
+  },
+  forward: {
+    menuItem: "Doorsturen",
+    title: "Doorsturen",
+    pickChat: "Doorsturen naar…",
+    noChats: "Geen chats om naar door te sturen.",
+    header: "Doorgestuurd · van {name}, volgens de doorstuurder",
+    headerHint: "Opgegeven door wie het doorstuurde; de oorspronkelijke afzender is niet geverifieerd.",
+    disappearing: "Verdwijnende berichten kunnen niet worden doorgestuurd.",
+    sent: "Doorgestuurd naar {name}.",
+  },
+  richText: {
+    preview: "Voorbeeld",
+    previewToggle: "Opmaakvoorbeeld tonen",
+    formattingHint: "**vet**, _cursief_, ~~doorgehaald~~, `code`, ```codeblok```, > citaat, {'||'}spoiler{'||'}",
+    spoiler: "Spoiler, tik om te tonen",
+  },
+  mentions: {
+    jump: "Vermeldingen: {n}",
+    jumpAria: "Naar de oudste ongelezen vermelding ({n} over)",
+    listAria: "Een lid vermelden",
+    badge: "Je bent vermeld",
+  },
+  sealedSender: {
+    setting: "Verzegelde afzender",
+    settingHelp: "Verstuur berichten op dit apparaat zonder dat de server weet wie ze stuurt. Je naam en handtekening zitten in de versleuteling, en een bezorgtoken van de chat vervangt je sessie. Verzegelde berichten kun je niet bewerken of verwijderen, ze blijven in de chat staan als je die verlaat of je account verwijdert, en ze tonen geen leesbevestigingen. Berichten met bijlagen worden altijd normaal verstuurd.",
+    toastOn: "Verzegelde afzender ingeschakeld op dit apparaat.",
+    toastOff: "Verzegelde afzender uitgeschakeld op dit apparaat.",
+  },
+  stayPasskey: {
+    setting: "Ontgrendelen met passkey",
+    settingHelp: "Bescherm het automatisch ontgrendelen op dit apparaat met een passkey. Bij het openen van de app wordt dan om je vingerafdruk, gezicht of apparaatpincode gevraagd in plaats van stil te ontgrendelen, zodat iemand met toegang tot dit browserprofiel je berichten niet kan lezen. Vereist een passkey die de PRF-extensie ondersteunt.",
+    toastOn: "Ontgrendelen met passkey ingeschakeld op dit apparaat.",
+    toastOff: "Ontgrendelen met passkey uitgeschakeld op dit apparaat.",
+    enableFailed: "Kan geen passkey instellen. Je browser of authenticator ondersteunt ontgrendelen met passkey mogelijk niet.",
+    unlockTitle: "Deze sessie is vergrendeld met een passkey.",
+    unlock: "Ontgrendelen met passkey",
+    usePassword: "Wachtwoord gebruiken",
+    unlockFailed: "Ontgrendelen met passkey mislukt. Probeer het opnieuw of gebruik je wachtwoord.",
+  },
+  deviceLink: {
+    title: "Apparaat koppelen",
+    linkNew: "Nieuw apparaat koppelen",
+    receive: "Ontvangen van ander apparaat",
+    offerHint: "Zet dit account over naar een nieuw apparaat zonder sleutelbestand. Voer je wachtwoord in om een eenmalige code te tonen, open daarna op het nieuwe apparaat Sleutels beheren en kies Ontvangen van ander apparaat.",
+    qrHint: "Scan deze code met het nieuwe apparaat. Hij werkt één keer en verloopt na enkele minuten. Wie hem scant, ontvangt je sleutel, dus toon hem alleen aan je eigen apparaat.",
+    showCode: "Code tonen",
+    requesting: "Code aanvragen…",
+    sending: "Nieuw apparaat verbonden. Sleutel wordt verzonden…",
+    done: "Sleutel verzonden. Rond af op het nieuwe apparaat door een wachtwoord te kiezen.",
+    failed: "Koppelen mislukt of de code is verlopen. Probeer het opnieuw.",
+    passwordMissing: "Wachtwoord vereist.",
+    wrongPassword: "Onjuist wachtwoord.",
+    offline: "Geen verbinding. Probeer het opnieuw zodra de verbinding terug is.",
+    connecting: "Verbinden met je andere apparaat…",
+    waiting: "Wachten op je andere apparaat…",
+    received: "Sleutel voor {username} ontvangen. Kies een wachtwoord om hem op dit apparaat te beschermen.",
+    repeatPassword: "Herhaal wachtwoord",
+    passwordMismatch: "Wachtwoorden komen niet overeen.",
+    finish: "Opslaan en inloggen",
+    joinFailed: "Kan de sleutel niet ontvangen. Toon een nieuwe code op je andere apparaat en scan opnieuw.",
+    scanAgain: "Opnieuw scannen",
+    loggedIn: "Log eerst uit om dit apparaat vanaf een ander apparaat aan een account te koppelen.",
+  },
+  recoveryPhrase: {
+    open: "Herstelzin",
+    hint: "Een herstelzin bestaat uit 24 woorden waarmee je de sleutel van dit account op elk apparaat kunt herstellen, ook als dit apparaat verloren gaat. De sleutel wordt versleuteld met de zin op de server bewaard, zodat de server hem niet kan lezen.\nEen nieuwe zin maken vervangt de oude. Je sleutel vernieuwen verwijdert hem.",
+    exists: "Er is een herstelzin ingesteld voor dit account.",
+    none: "Er is geen herstelzin ingesteld voor dit account.",
+    create: "Herstelzin maken",
+    remove: "Herstelzin verwijderen",
+    removed: "Herstelzin verwijderd.",
+    passwordMissing: "Wachtwoord vereist.",
+    wrongPassword: "Onjuist wachtwoord.",
+    showHint: "Schrijf deze woorden in deze volgorde op en bewaar ze op een veilige plek. Iedereen die ze heeft, kan dit account overnemen. Ze worden niet opnieuw getoond.",
+    done: "Ik heb ze opgeschreven",
+    restore: "Herstellen met zin",
+    restoreHint: "Voer je herstelzin van 24 woorden in en kies een wachtwoord om de sleutel op dit apparaat te beschermen.",
+    phrase: "Herstelzin",
+    repeatPassword: "Herhaal wachtwoord",
+    passwordMismatch: "Wachtwoorden komen niet overeen.",
+    restoreConfirm: "Herstellen en inloggen",
+    invalid: "Dat is geen geldige herstelzin. Controleer de woorden en hun volgorde.",
+    notFound: "Er is geen back-up gevonden voor deze zin. Mogelijk is hij vervangen of verwijderd.",
+    badBackup: "De back-up voor deze zin kon niet worden geopend.",
+  },
+  socialRecovery: {
+    open: "Herstelcontacten",
+    hint: "Verdeel een herstelsleutel over contacten die je vertrouwt. Ieder krijgt een deel in je chat met hen; het aantal dat jij kiest kan je samen weer toegang geven tot dit account op een nieuw apparaat. Minder dan dat leren niets.\nOpnieuw instellen vervangt de oude delen. Je sleutel roteren verwijdert ze.",
+    exists: "Er zijn herstelcontacten ingesteld voor dit account.",
+    none: "Er zijn geen herstelcontacten ingesteld voor dit account.",
+    noContacts: "Je hebt nog geen persoonlijke chats. Herstelcontacten kies je daaruit.",
+    threshold: "Aantal contacten nodig voor herstel",
+    create: "Herstelstukken versturen",
+    created: "Verstuurd naar {count} contacten; {threshold} van hen kunnen je helpen herstellen.",
+    remove: "Herstelcontacten verwijderen",
+    removed: "Herstelcontacten verwijderd.",
+    pickContacts: "Kies tussen {min} en {max} contacten.",
+    badThreshold: "Het aantal benodigde contacten moet tussen {min} en {max} liggen.",
+    recover: "Herstellen via contacten",
+    recoverHint: "Als je herstelcontacten hebt ingesteld, kunnen zij je weer binnenlaten. Voer je gebruikersnaam in om het hen te vragen.",
+    usernameMissing: "Voer je gebruikersnaam in.",
+    userNotFound: "Gebruiker bestaat niet.",
+    start: "Vraag mijn contacten",
+    waitingHint: "Je herstelcontacten zien een verzoek in hun chat met jou. Noem ieder van hen deze code persoonlijk of telefonisch en vraag hen alleen goed te keuren als die overeenkomt.",
+    waiting: "Wachten op contacten…",
+    progress: "{received} van {needed} contacten hebben goedgekeurd.",
+    readyHint: "Je sleutel is hersteld. Kies een wachtwoord om hem op dit apparaat te beschermen.",
+    failed: "Herstel mislukt. Het verzoek is mogelijk verlopen, of de stukken passen niet meer bij je back-up.",
+    notice: "{name} heeft je herstelcontact gemaakt",
+    noticeSelf: "Je hebt dit contact herstelcontact gemaakt",
+    requestTitle: "Herstelverzoek",
+    requestBody: "Iemand probeert het account van {name} te herstellen. Keur alleen goed als {name} je zelf precies deze code noemt:",
+    approve: "Goedkeuren",
+    decline: "Weigeren",
+    approved: "Je stuk is verstuurd.",
+  },
   keys: {
     title: "Sleutels beheren",
     description: "Wat je moet weten:\n1. Om in te loggen heb je een sleutel in de browser en het wachtwoord nodig.\n2. Alleen gebruikersnaam en wachtwoord zonder sleutel is niet genoeg om in te loggen.\n3. Een sleutel zonder wachtwoord is niet genoeg om in te loggen.\n4. Het verwijderen van de sleutel betekent permanent en onomkeerbaar verlies van toegang.\n5. Elk account heeft zijn eigen sleutel, die lokaal op het apparaat wordt gemaakt bij registratie.\n6. Het volledig wissen van browsergegevens of het verwijderen van de browser kan sleutels van het apparaat verwijderen.",
@@ -98,6 +313,11 @@ const nl = {
     removeSpecificConfirmHint: "Sleutel gevonden voor {username}. Verwijderen wist de lokale toegang voor dit account op dit apparaat.\n\nDit kan niet ongedaan worden gemaakt.",
     removeSpecificConfirm: "Sleutel verwijderen",
     removeOneOk: "Sleutel verwijderd.",
+    rotate: "Sleutels vernieuwen",
+    rotateWarning: "Dit maakt een nieuw sleutelpaar voor het account waarmee je bent ingelogd en vervangt het huidige op de server. Je contacten krijgen een wijziging die met je oude sleutel is ondertekend, en dit apparaat bewaart de oude sleutel zodat je geschiedenis leesbaar blijft.\n\nJe andere apparaten worden uitgelogd. Back-ups of gedownloade sleutels werken niet meer om in te loggen; download de sleutel daarna opnieuw.",
+    rotateConfirm: "Sleutels vernieuwen",
+    rotateOk: "Nieuwe sleutels zijn actief.",
+    rotatePasswordMissing: "Wachtwoord vereist.",
     notificationsEnabledTitle: "Meldingen ingeschakeld",
     notificationsEnabledBody: "Pushmeldingen zijn nu actief voor dit apparaat.",
     notificationsFailedTitle: "Meldingen niet actief",
@@ -205,6 +425,11 @@ const nl = {
   reloadAppNoCache: "App herladen",
   deleteChat: "Chat verwijderen",
   leaveGroup: "Groep verlaten",
+  forwardSecrecyEnable: "Forward secrecy inschakelen",
+  forwardSecrecyDisable: "Forward secrecy uitschakelen",
+  forwardSecrecyOnBody: "Nieuwe berichten in deze chat gebruiken eenmalige sleutels. Ze zijn alleen leesbaar op dit apparaat en het huidige apparaat van je vriend.",
+  forwardSecrecyOffBody: "Nieuwe berichten in deze chat gebruiken weer je gewone sleutels.",
+  forwardSecrecyFailed: "Kon forward secrecy niet wijzigen.",
   addMember: "Lid toevoegen",
   memberPlaceholder: "Gebruikersnaam",
   memberAddedOk: "Lid toegevoegd.",
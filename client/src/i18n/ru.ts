@@ -54,13 +54,228 @@ const ru = {
     linkLabel: "Ссылка"
   },
   scanQr: {
-    hint: "Отсканируйте QR-приглашение, чтобы сразу добавить пользователя.",
+    hint: "Отсканируйте QR-приглашение, чтобы сразу добавить пользователя, или код проверки контакта, чтобы проверить его.",
     cameraUnavailable: "Камера недоступна на этом устройстве.",
     cameraPermissionDenied: "Доступ к камере запрещён. Разрешите доступ и попробуйте снова.",
     cameraStartFailed: "Не удалось запустить камеру.",
     invalidInvite: "Этот QR-код не является действительной ссылкой-приглашением для этого сайта.",
     addFailedTitle: "Не удалось добавить пользователя"
   },
+  safety: {
+    title: "Код безопасности",
+    menuItem: "Проверить код безопасности",
+    hint: "Сравните эти цифры с {name} лично или во время звонка, которому вы доверяете. Если они совпадают, чат зашифрован правильными ключами.",
+    qrHint: "Или попросите {name} отсканировать этот код через «Сканировать QR» и отсканируйте их код.",
+    verified: "Проверен",
+    notVerified: "Не проверен",
+    verifiedSenderHint: "Подписано ключом, который вы проверили для этого контакта.",
+    computing: "Вычисление…",
+    computeFailed: "Не удалось вычислить код безопасности.",
+    unavailable: "Ключ этого контакта сейчас недоступен.",
+    markVerified: "Отметить как проверенный",
+    unmarkVerified: "Снять отметку о проверке",
+    scanOkTitle: "Контакт проверен",
+    scanOk: "{name} теперь проверен на этом устройстве.",
+    scanFailedTitle: "Не удалось проверить контакт",
+    scanSelf: "Это ваш собственный код проверки.",
+    scanUnknown: "Этот код принадлежит пользователю, с которым у вас нет общего чата.",
+    scanMismatch: "Этот код не совпадает с ключом, который сервер выдал для этого контакта. Не доверяйте этому чату, пока не уточните у собеседника.",
+  },
+  keyChange: {
+    title: "Код безопасности изменился",
+    body: "У {name} теперь другой ключ, чем тот, что вы видели впервые. Возможно, аккаунт был создан заново, или кто-то перехватывает чат. Сравните коды безопасности, прежде чем продолжить.",
+    view: "Показать код безопасности",
+    accept: "Принять новый ключ",
+    blocked: "У контакта в этом чате новый ключ. Сначала ознакомьтесь с уведомлением над полем ввода.",
+  },
+  attachments: {
+    title: "Вложения",
+    attach: "Прикрепить файлы",
+    download: "Скачать",
+    remove: "Удалить вложение",
+    uploading: "Загрузка",
+    tooLarge: "{name} больше {max} МБ.",
+    tooMany: "К сообщению можно прикрепить не более {max} файлов.",
+    uploadFailed: "Не удалось загрузить",
+    downloadFailed: "Не удалось скачать",
+  },
+  voiceNotes: {
+    title: "Голосовое сообщение",
+    holdToRecord: "Удерживайте, чтобы записать голосовое сообщение",
+    starting: "Открываем микрофон…",
+    recording: "Запись {time}",
+    releaseHint: "Отпустите, чтобы отправить, уведите в сторону для отмены",
+    sending: "Отправка голосового сообщения…",
+    tooShort: "Удерживайте кнопку чуть дольше, чтобы записать.",
+    play: "Воспроизвести голосовое сообщение",
+    pause: "Приостановить голосовое сообщение",
+  },
+  disappearing: {
+    title: "Исчезающие сообщения",
+    menuItem: "Исчезающие сообщения: {timer}",
+    description: "Новые сообщения в этом чате удаляются у всех по истечении выбранного времени — на каждом устройстве и на сервере. Все участники чата видят, когда таймер меняется.",
+    off: "Выкл.",
+    minutes: "{n} мин",
+    hours: "{n} ч",
+    days: "{n} д",
+    weeks: "{n} нед.",
+    noticeOn: "{name}: исчезающие сообщения — {timer}.",
+    noticeOff: "{name}: исчезающие сообщения выключены.",
+    noticeOnSelf: "Вы установили исчезающие сообщения: {timer}.",
+    noticeOffSelf: "Вы выключили исчезающие сообщения.",
+  },
+  reactions: {
+    title: "Реакции",
+    add: "Реакция {emoji}",
+    remove: "Убрать реакцию {emoji}",
+  },
+  typing: {
+    one: "{name} печатает…",
+    two: "{a} и {b} печатают…",
+    many: "Печатают: {count}",
+  },
+  receipts: {
+    setting: "Отчёты о прочтении",
+    settingHelp: "Другие видят, когда ваши сообщения доставлены и когда вы прочитали их сообщения. Если выключить, вы тоже не будете видеть их отчёты.",
+    toastOn: "Отчёты о прочтении включены.",
+    toastOff: "Отчёты о прочтении выключены.",
+    sent: "Отправлено",
+    delivered: "Доставлено",
+    read: "Прочитано",
+    details: "Сведения о сообщении",
+  },
+  outbox: {
+    sending: "Отправка…",
+    pending: "Ожидание подключения",
+    failed: "Не отправлено",
+    retry: "Повторить",
+    discard: "Удалить",
+  },
+  search: {
+    open: "Поиск сообщений",
+    menuItem: "Поиск в чате",
+    placeholder: "Поиск сообщений",
+    close: "Закрыть поиск",
+    noResults: "Сообщения не найдены.",
+    localOnly: "Искать можно только в истории, загруженной на этом устройстве.",
+    notFound: "Это сообщение больше недоступно.",
+  },
+  forward: {
+    menuItem: "Переслать",
+    title: "Пересылка",
+    pickChat: "Переслать в…",
+    noChats: "Нет чатов для пересылки.",
+    header: "Переслано · от {name}, со слов пересылающего",
+    headerHint: "Указано тем, кто переслал; исходный автор не проверен.",
+    disappearing: "Исчезающие сообщения нельзя пересылать.",
+    sent: "Переслано в {name}.",
+  },
+  richText: {
+    preview: "Предпросмотр",
+    previewToggle: "Показать предпросмотр форматирования",
+    formattingHint: "**жирный**, _курсив_, ~~зачёркнутый~~, `код`, ```блок кода```, > цитата, {'||'}спойлер{'||'}",
+    spoiler: "Спойлер, нажмите, чтобы показать",
+  },
+  mentions: {
+    jump: "Упоминания: {n}",
+    jumpAria: "Перейти к самому старому непрочитанному упоминанию (осталось {n})",
+    listAria: "Упомянуть участника",
+    badge: "Вас упомянули",
+  },
+  sealedSender: {
+    setting: "Скрытый отправитель",
+    settingHelp: "Отправляйте сообщения с этого устройства так, чтобы сервер не знал, кто их отправил. Ваше имя и подпись передаются внутри шифрования, а токен доставки чата заменяет вашу сессию. Такие сообщения нельзя редактировать или удалять, они остаются в чате, если вы выйдете из него или удалите аккаунт, и для них не показываются отчёты о прочтении. Сообщения с вложениями всегда отправляются обычным способом.",
+    toastOn: "Скрытый отправитель включён на этом устройстве.",
+    toastOff: "Скрытый отправитель выключен на этом устройстве.",
+  },
+  stayPasskey: {
+    setting: "Разблокировка ключом доступа",
+    settingHelp: "Защитите автоматическую разблокировку на этом устройстве ключом доступа. При открытии приложение будет запрашивать отпечаток пальца, лицо или PIN-код устройства вместо тихой разблокировки, поэтому человек с доступом к этому профилю браузера не сможет прочитать ваши сообщения. Нужен ключ доступа с поддержкой расширения PRF.",
+    toastOn: "Разблокировка ключом доступа включена на этом устройстве.",
+    toastOff: "Разблокировка ключом доступа выключена на этом устройстве.",
+    enableFailed: "Не удалось настроить ключ доступа. Возможно, ваш браузер или аутентификатор не поддерживает такую разблокировку.",
+    unlockTitle: "Этот сеанс заблокирован ключом доступа.",
+    unlock: "Разблокировать ключом доступа",
+    usePassword: "Использовать пароль",
+    unlockFailed: "Не удалось разблокировать ключом доступа. Попробуйте снова или используйте пароль.",
+  },
+  deviceLink: {
+    title: "Привязка устройства",
+    linkNew: "Привязать новое устройство",
+    receive: "Получить с другого устройства",
+    offerHint: "Перенесите этот аккаунт на новое устройство без файла ключа. Введите пароль, чтобы показать одноразовый код, затем на новом устройстве откройте управление ключами и выберите «Получить с другого устройства».",
+    qrHint: "Отсканируйте этот код новым устройством. Он срабатывает один раз и истекает через несколько минут. Тот, кто его отсканирует, получит ваш ключ, поэтому показывайте его только своему устройству.",
+    showCode: "Показать код",
+    requesting: "Запрос кода…",
+    sending: "Новое устройство подключено. Отправка ключа…",
+    done: "Ключ отправлен. Завершите на новом устройстве, выбрав пароль.",
+    failed: "Привязка не удалась или код истёк. Попробуйте снова.",
+    passwordMissing: "Требуется пароль.",
+    wrongPassword: "Неверный пароль.",
+    offline: "Нет соединения. Попробуйте снова, когда связь восстановится.",
+    connecting: "Подключение к другому устройству…",
+    waiting: "Ожидание другого устройства…",
+    received: "Ключ для {username} получен. Выберите пароль, чтобы защитить его на этом устройстве.",
+    repeatPassword: "Повторите пароль",
+    passwordMismatch: "Пароли не совпадают.",
+    finish: "Сохранить и войти",
+    joinFailed: "Не удалось получить ключ. Покажите новый код на другом устройстве и отсканируйте снова.",
+    scanAgain: "Сканировать снова",
+    loggedIn: "Сначала выйдите, чтобы привязать это устройство к аккаунту с другого устройства.",
+  },
+  recoveryPhrase: {
+    open: "Фраза восстановления",
+    hint: "Фраза восстановления — это 24 слова, которые восстанавливают ключ этого аккаунта на любом устройстве, даже если это устройство потеряно. Ключ хранится на сервере в зашифрованном фразой виде, поэтому сервер не может его прочитать.\nНовая фраза заменяет старую. Смена ключа удаляет её.",
+    exists: "Для этого аккаунта задана фраза восстановления.",
+    none: "Для этого аккаунта фраза восстановления не задана.",
+    create: "Создать фразу восстановления",
+    remove: "Удалить фразу восстановления",
+    removed: "Фраза восстановления удалена.",
+    passwordMissing: "Нужен пароль.",
+    wrongPassword: "Неверный пароль.",
+    showHint: "Запишите эти слова в этом порядке и храните их в надёжном месте. Любой, у кого они есть, может завладеть этим аккаунтом. Больше они показаны не будут.",
+    done: "Я записал(а)",
+    restore: "Восстановить по фразе",
+    restoreHint: "Введите фразу восстановления из 24 слов, затем выберите пароль для защиты ключа на этом устройстве.",
+    phrase: "Фраза восстановления",
+    repeatPassword: "Повторите пароль",
+    passwordMismatch: "Пароли не совпадают.",
+    restoreConfirm: "Восстановить и войти",
+    invalid: "Это не действительная фраза восстановления. Проверьте слова и их порядок.",
+    notFound: "Для этой фразы резервная копия не найдена. Возможно, она была заменена или удалена.",
+    badBackup: "Не удалось открыть резервную копию для этой фразы.",
+  },
+  socialRecovery: {
+    open: "Контакты для восстановления",
+    hint: "Разделите ключ восстановления между контактами, которым доверяете. Каждый получает часть в вашем чате с ним; выбранное вами число из них вместе сможет вернуть вам доступ к аккаунту на новом устройстве. Меньшее число ничего не узнает.\nПовторная настройка заменяет старые части. Смена ключа удаляет их.",
+    exists: "Для этого аккаунта настроены контакты для восстановления.",
+    none: "Для этого аккаунта не настроены контакты для восстановления.",
+    noContacts: "У вас пока нет личных чатов. Контакты для восстановления выбираются из них.",
+    threshold: "Сколько контактов нужно для восстановления",
+    create: "Отправить части",
+    created: "Отправлено {count} контактам; {threshold} из них смогут помочь восстановить доступ.",
+    remove: "Удалить контакты для восстановления",
+    removed: "Контакты для восстановления удалены.",
+    pickContacts: "Выберите от {min} до {max} контактов.",
+    badThreshold: "Число нужных контактов должно быть от {min} до {max}.",
+    recover: "Восстановить через контакты",
+    recoverHint: "Если вы настроили контакты для восстановления, они помогут вам вернуть доступ. Введите имя пользователя, чтобы отправить им запрос.",
+    usernameMissing: "Введите имя пользователя.",
+    userNotFound: "Пользователь не найден.",
+    start: "Попросить контакты",
+    waitingHint: "Ваши контакты увидят запрос в чате с вами. Сообщите каждому этот код лично или по телефону и попросите одобрить, только если он совпадает.",
+    waiting: "Ожидание контактов…",
+    progress: "Одобрили {received} из {needed} контактов.",
+    readyHint: "Ключ восстановлен. Выберите пароль для его защиты на этом устройстве.",
+    failed: "Восстановление не удалось. Возможно, запрос истёк или части больше не подходят к резервной копии.",
+    notice: "{name} сделал(а) вас контактом для восстановления",
+    noticeSelf: "Вы сделали этот контакт контактом для восстановления",
+    requestTitle: "Запрос на восстановление",
+    requestBody: "Кто-то пытается восстановить аккаунт {name}. Одобряйте, только если {name} сам(а) назовёт вам именно этот код:",
+    approve: "Одобрить",
+    decline: "Отклонить",
+    approved: "Ваша часть отправлена.",
+  },
   keys: {
     title: "Управление ключами",
     description: "Что нужно знать:\n1. Для входа в систему необходимо наличие ключа в браузере и знание пароля.\n2. Знание логина и пароля при отсутвии ключа не позволит войти.\n3. Наличие ключа без знания пароля не позволит войти в систему.\n4. Удаление ключа ведет к безвозвратной потере доступа.\n5. У каждого аккаунта свой ключ, который создается локально на устройстве в момент регистрации.\n6. Полная очистка истории браузера или удаление браузера может повлечь удаление ключей с устройства.",
@@ -98,6 +313,11 @@ const ru = {
     removeSpecificConfirmHint: "Ключ для {username} найден. Удаление навсегда удалит локальный доступ к этому аккаунту на этом устройстве.\n\nЭто нельзя отменить.",
     removeSpecificConfirm: "Удалить ключ",
     removeOneOk: "Ключ удалён.",
+    rotate: "Обновить ключи",
+    rotateWarning: "Будет создана новая пара ключей для аккаунта, в который вы вошли, и она заменит текущую на сервере. Ваши контакты получат изменение, подписанное старым ключом, а это устройство сохранит старый ключ, чтобы история оставалась читаемой.\n\nНа других устройствах будет выполнен выход. Сохранённые или скачанные ключи перестанут подходить для входа; скачайте ключ заново после обновления.",
+    rotateConfirm: "Обновить ключи",
+    rotateOk: "Новые ключи активны.",
+    rotatePasswordMissing: "Требуется пароль.",
     notificationsEnabledTitle: "Уведомления включены",
     notificationsEnabledBody: "Push-уведомления теперь активны на этом устройстве.",
     notificationsFailedTitle: "Уведомления не активны",
@@ -205,6 +425,11 @@ const ru = {
   reloadAppNoCache: "Перезагрузить приложение",
   deleteChat: "Удалить чат",
   leaveGroup: "Выйти из группы",
+  forwardSecrecyEnable: "Включить прямую секретность",
+  forwardSecrecyDisable: "Выключить прямую секретность",
+  forwardSecrecyOnBody: "Новые сообщения в этом чате используют одноразовые ключи. Их можно прочитать только на этом устройстве и на текущем устройстве вашего друга.",
+  forwardSecrecyOffBody: "Новые сообщения в этом чате снова используют ваши обычные ключи.",
+  forwardSecrecyFailed: "Не удалось изменить прямую секретность.",
   addMember: "Добавить участника",
   memberPlaceholder: "Имя пользователя",
   memberAddedOk: "Участник добавлен.",
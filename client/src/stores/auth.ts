@@ -16,21 +16,112 @@ import {
   decryptStringWithPassword,
   decryptSmallStringWithPrivateKey,
   encryptMessageEnvelope,
+  encryptRatchetMessageEnvelope,
+  encryptSenderKeyMessageEnvelope,
   encryptStringWithPassword,
   encryptSmallStringWithPublicKeyJwk,
+  createSenderKey,
+  ENVELOPE_VERSION_RATCHET,
+  ENVELOPE_VERSION_RSA,
+  ENVELOPE_VERSION_RSA_LEGACY,
+  ENVELOPE_VERSION_SENDER_KEY,
   generateRsaKeyPair,
+  getMessageEnvelopeFormat,
+  getSenderKeyEnvelopeKeyId,
   importRsaPssPrivateKeyJwk,
   importRsaPssPublicKeyJwk,
   importRsaPrivateKeyJwk,
+  MAX_MESSAGE_MENTIONS,
+  normalizeEnvelopePadBuckets,
+  pickEnvelopeVersion,
+  PRE_VERSIONING_ENVELOPE_VERSIONS,
   publicJwkFromPrivateJwk,
   signEnvelope,
+  signKeyRotation,
+  SUPPORTED_ENVELOPE_VERSIONS,
+  unwrapSenderKey,
   verifyEnvelope,
+  verifyKeyRotation,
+  verifySealedPayload,
+  wrapSenderKey,
+  type ChatNoticeKind,
+  type ForwardedFrom,
+  type SealedEnvelopeSender,
 } from '../utils/signedCrypto'
 import { LocalEntity, localData } from '../utils/localData'
 import { APP_VERSION as CLIENT_APP_VERSION } from '../appVersion'
 import { useToastStore } from './toast'
 import { voprfNameToken } from '../utils/voprfNames'
 import { AuthTransportClient } from '../utils/authTransport'
+import {
+  generateRatchetCacheKey,
+  isRatchetSupported,
+  openRatchetCache,
+  openRatchetVault,
+  sealRatchetCache,
+  sealRatchetVault,
+  type RatchetChatState,
+} from '../utils/ratchet'
+import { openLocalVault, sealLocalVault } from '../utils/localVault'
+import { keyEntriesForHint, localKeyEntryHint } from '../utils/localKeyHint'
+import { cipherDigest, openMessageCache, type MessageCache } from '../utils/messageCache'
+import { openSearchIndex, type SearchDoc, type SearchIndex } from '../utils/searchIndex'
+import { createStayPasskey, deriveStayPasskeyKey, parseStayPasskey } from '../utils/passkeyPrf'
+import {
+  buildDeviceLinkQrText,
+  deriveDeviceLinkKey,
+  generateDeviceLinkKeyPair,
+  newDeviceLinkSecret,
+  openDeviceLinkPayload,
+  parseDeviceLinkQrText,
+  sealDeviceLinkPayload,
+  type DeviceLinkKeyPair,
+} from '../utils/deviceLink'
+import {
+  deriveRecoveryKeys,
+  deriveRecoveryKeysFromSecret,
+  generateRecoveryPhrase,
+  openRecoveryBackup,
+  sealRecoveryBackup,
+  type RecoveryKeys,
+} from '../utils/recoveryPhrase'
+import {
+  combineRecoveryShares,
+  generateRecoveryRequestKeyPair,
+  newSocialRecoverySecret,
+  openShareFromContact,
+  parseRecoveryShare,
+  recoveryRequestCode,
+  sealShareForRequest,
+  splitSocialRecoverySecret,
+  type RecoveryRequestKeyPair,
+  type RecoveryShare,
+} from '../utils/socialRecovery'
+import {
+  ATTACHMENT_CHUNK_BYTES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  decryptAttachment,
+  encryptAttachment,
+  isImageAttachment,
+  makeImageThumbnail,
+  normalizeAttachmentMime,
+  normalizeAttachmentName,
+  type MessageAttachment,
+  type VoiceNoteMeta,
+} from '../utils/attachments'
+import {
+  DISAPPEARING_TIMER_PRESETS,
+  currentChatTimer,
+  isMessageExpired,
+  messageExpiresAtMs,
+} from '../utils/disappearing'
+import {
+  buildVerificationQrText,
+  computeSafetyNumber,
+  parseVerificationQrText,
+  publicKeyFingerprint,
+} from '../utils/safetyNumber'
 
 export type AuthChat = {
   id: string
@@ -40,14 +131,18 @@ export type AuthChat = {
   names?: Record<string, string>
   otherUserId?: string
   otherPublicKey?: string
+  otherEnvelopeVersions?: number[]
+  senderKeyEpoch?: number
 }
 
 export type AuthLastMessageWire = {
   id: string
   chatId: string
+  // Empty for sealed-sender messages until they are opened.
   senderId: string
   encryptedData: string
   signature?: string
+  sealed?: boolean
 }
 
 export type AuthLastMessagePreview = {
@@ -57,22 +152,56 @@ export type AuthLastMessagePreview = {
   senderUsername: string
   tsMs: number
   text: string
+  // Set for disappearing messages; the preview is dropped once it passes.
+  expiresAtMs?: number | null
+}
+
+// A message found by local search, with the sender's name as shown in that chat.
+export type AuthSearchResult = {
+  chatId: string
+  messageId: string
+  senderId: string
+  fromUsername: string
+  atIso: string
+  text: string
 }
 
 export type AuthChatMember = {
   userId: string
   username?: string
   publicKey: string
+  envelopeVersions?: number[]
 }
 
 export type AuthMessage = {
   id: string
   chatId: string
+  // Empty for sealed-sender messages; the sender is inside the envelope.
   senderId: string
   encryptedData: string
   signature?: string
+  sealed?: boolean
+  reactions?: AuthReactionWire[]
+  // Only on the caller's own messages, and only while receipts are on.
+  receipts?: AuthReceiptWire[]
+}
+
+export type AuthMessageReceipt = 'delivered' | 'read'
+
+export type AuthReceiptWire = {
+  userId: string
+  state: AuthMessageReceipt
+}
+
+export type AuthReactionWire = {
+  reactorId: string
+  encryptedData: string
+  signature: string
 }
 
+// Long enough for any emoji ZWJ sequence, short enough that reactions stay reactions.
+const MAX_REACTION_CHARS = 32
+
 export type AuthMessageVerification = 'verified' | 'unverifiable'
 
 export type AuthDecryptedMessage = {
@@ -84,14 +213,57 @@ export type AuthDecryptedMessage = {
   fromUsername: string
   text: string
   replyToId?: string | null
+  attachments?: MessageAttachment[]
+  // Disappearing-message timer the sender had on (seconds); for 'timer' notices, the new setting.
+  timerSeconds?: number
+  notice?: ChatNoticeKind | null
+  forwardedFrom?: ForwardedFrom | null
+  // User ids the sender @mentioned.
+  mentions?: string[]
   verification: AuthMessageVerification
+  // Sent without the server learning the sender; such messages cannot be edited or deleted.
+  sealed?: boolean
+}
+
+// Own messages the server has not accepted yet: in flight, queued until the connection is
+// back, or refused on a retry (kept until the user retries or discards them).
+export type AuthOutboxState = 'sending' | 'pending' | 'failed'
+
+export type AuthOutboxMessage = {
+  clientMsgId: string
+  chatId: string
+  atIso: string
+  text: string
+  replyToId: string | null
+  attachments?: MessageAttachment[]
+  timerSeconds?: number
+  notice?: ChatNoticeKind | null
+  forwardedFrom?: ForwardedFrom | null
+  state: AuthOutboxState
+  error?: string
+}
+
+// Offering side: requesting a code, showing the QR, sealing the key entry for the scanner.
+export type DeviceLinkOfferStatus = 'requesting' | 'waiting' | 'sending' | 'done' | 'failed'
+// Joining side: connecting with the scanned code, waiting for the key entry, then asking for a
+// local password before logging in with it.
+export type DeviceLinkJoinStatus = 'connecting' | 'waiting' | 'received' | 'failed'
+
+// Recovering through contacts: collecting shares, then asking for a local password.
+export type SocialRecoveryStatus = 'waiting' | 'ready' | 'failed'
+
+// A contact's open social recovery request, with the code to compare with them.
+export type SocialRecoveryRequest = {
+  requestId: string
+  pub: string
+  code: string
 }
 
 function apiBase() {
   return ''
 }
 
-function transportAuthUrl(token: string) {
+function transportBaseUrl() {
   const configured = String(import.meta.env.VITE_WEBTRANSPORT_URL ?? '').trim()
 
   const base = configured ? new URL(configured, location.origin) : new URL(location.origin)
@@ -108,10 +280,22 @@ function transportAuthUrl(token: string) {
   base.pathname = '/private'
   base.search = ''
   base.hash = ''
+  return base
+}
+
+function transportAuthUrl(token: string) {
+  const base = transportBaseUrl()
   base.searchParams.set('token', token)
   return base.toString()
 }
 
+// Code-only connection used by a device that is being linked and has no session yet.
+function transportLinkUrl(code: string) {
+  const base = transportBaseUrl()
+  base.searchParams.set('link', code)
+  return base.toString()
+}
+
 // NOTE: All locally persisted entities must be accessed via LocalData.
 
 const MAX_PASSWORD_LEN = 512
@@ -152,6 +336,38 @@ function utf8ByteLength(s: string): number {
   return new TextEncoder().encode(s).length
 }
 
+// Attachment-only messages show their file names in the chat list.
+function parseReactionWire(v: unknown): AuthReactionWire[] {
+  if (!Array.isArray(v)) return []
+  const out: AuthReactionWire[] = []
+  for (const r of v) {
+    const reactorId = typeof r?.reactorId === 'string' ? String(r.reactorId) : ''
+    const encryptedData = typeof r?.encryptedData === 'string' ? String(r.encryptedData) : ''
+    if (!reactorId || !encryptedData) continue
+    out.push({ reactorId, encryptedData, signature: typeof r?.signature === 'string' ? String(r.signature) : '' })
+  }
+  return out
+}
+
+function parseReceiptWire(v: unknown): AuthReceiptWire[] {
+  if (!Array.isArray(v)) return []
+  const out: AuthReceiptWire[] = []
+  for (const r of v) {
+    const userId = typeof r?.userId === 'string' ? String(r.userId) : ''
+    const state = r?.state === 'read' || r?.state === 'delivered' ? (r.state as AuthMessageReceipt) : null
+    if (userId && state) out.push({ userId, state })
+  }
+  return out
+}
+
+function previewTextOf(plain: Pick<ChatMessagePlain, 'text' | 'attachments' | 'notice'>) {
+  // A recovery share's text is the share itself.
+  if (plain?.notice === 'recoveryShare') return ''
+  const text = typeof plain?.text === 'string' ? plain.text : ''
+  if (text) return text
+  return (plain?.attachments ?? []).map((a) => a.name).join(', ')
+}
+
 function assertUsernameIsXssSafe(username: string) {
   const u = String(username ?? '')
   // Vue text bindings escape HTML, but usernames can still end up in other contexts
@@ -161,11 +377,23 @@ function assertUsernameIsXssSafe(username: string) {
   if (/[\u0000-\u001F\u007F]/.test(u)) throw new Error('Username contains unsafe characters')
 }
 
+// v3 entries hold a PBKDF2 password blob, v4 entries a scrypt one. v3 entries are
+// re-encrypted as v4 after the next successful unlock. `h` is the username hint (see
+// utils/localKeyHint.ts); entries saved before hints existed get one on their next unlock.
 type StoredKeyV3 = {
   v: 3
   d: string
+  h?: string
+}
+
+type StoredKeyV4 = {
+  v: 4
+  d: string
+  h?: string
 }
 
+type StoredKey = StoredKeyV3 | StoredKeyV4
+
 type LocalKeyEntryPlain = {
   n: string
   k: string
@@ -178,12 +406,148 @@ type StoredUser = {
   username: string
   hiddenMode?: boolean
   introvertMode?: boolean
+  readReceipts?: boolean
 }
 
 type VaultPlain = {
   expirationDays: number
 }
 
+type RatchetCachedMessage = {
+  c: string
+  // Tail of the envelope (covers the AES-GCM tag), so edits are recognized as new ciphertext.
+  h: string
+  t: string
+  at: string
+  a: string | null
+  mt: string | null
+  f?: MessageAttachment[]
+  x?: number
+  n?: ChatNoticeKind | null
+  w?: ForwardedFrom | null
+  m?: string[]
+}
+
+type RatchetVaultPlain = {
+  v: 1
+  chats: Record<string, RatchetChatState & { on: boolean }>
+  // Ratchet message keys are single-use, so decrypted payloads are kept to re-render history.
+  msgs: Record<string, RatchetCachedMessage>
+}
+
+// As stored: `mc` is `msgs` sealed under the device cache key. Older entries carry `msgs` inline.
+type RatchetVaultStored = {
+  v: 1
+  chats: RatchetVaultPlain['chats']
+  mc?: string
+  msgs?: Record<string, RatchetCachedMessage>
+}
+
+type ChatMessagePlain = {
+  text: string
+  atIso: string
+  replyToId: string | null
+  modifiedAtIso: string | null
+  attachments?: MessageAttachment[]
+  timerSeconds?: number
+  notice?: ChatNoticeKind | null
+  forwardedFrom?: ForwardedFrom | null
+  mentions?: string[]
+  sealed?: SealedEnvelopeSender | null
+}
+
+// The envelope is kept exactly as first sent, so a retry the server already has is recognised
+// by its client id; the plaintext renders the bubble and re-encrypts after a sender-key change.
+type OutboxEntry = {
+  clientMsgId: string
+  chatId: string
+  plain: ChatMessagePlain
+  sealed: boolean
+  expiresAt: number | null
+  encryptedData: string
+  signature: string
+  state: AuthOutboxState
+  error?: string
+}
+
+// Invalid messages are never decrypted (or, when sealed, not shown).
+type OpenedIncomingMessage =
+  | { verification: 'invalid'; senderId: string; plain: null }
+  | { verification: AuthMessageVerification; senderId: string; plain: ChatMessagePlain }
+
+type SenderKeyEntry = {
+  senderId: string
+  epoch: number
+  key: Uint8Array
+}
+
+// Group sender keys visible to us, by key id; `epoch` is the chat's current membership epoch.
+type ChatSenderKeys = {
+  epoch: number
+  keys: Map<string, SenderKeyEntry>
+}
+
+const VERIFIED_CONTACTS_VAULT_INFO = 'lrcom-verified-contacts'
+
+// One link in a user's key history: the old key signed the new one.
+type KeyRotation = {
+  oldPublicKey: string
+  newPublicKey: string
+  signature: string
+  // UUIDv7 the server minted when storing the rotation; '' when a reply lacks one.
+  rotationId: string
+}
+
+const PREVIOUS_KEYS_VAULT_INFO = 'lrcom-previous-keys'
+const MAX_PREVIOUS_KEYS = 8
+
+// Social recovery shares this account holds for contacts.
+const RECOVERY_SHARES_VAULT_INFO = 'lrcom-recovery-shares'
+const SOCIAL_RECOVERY_POLL_MS = 5000
+
+type HeldRecoveryShare = {
+  share: RecoveryShare
+  // Id of the notice that carried it; ids are time-ordered, so the newest split wins.
+  messageId: string
+}
+
+const OUTBOX_VAULT_INFO = 'lrcom-outbox'
+const OUTBOX_MAX_MESSAGES = 100
+// Kept below ORPHAN_BLOB_TTL_MS in server/authDb.js: past this the uploaded blobs may be gone,
+// so a queued message with attachments is failed instead of retried.
+const OUTBOX_ATTACHMENT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+const RATCHET_CACHE_MAX_MESSAGES = 2000
+const RATCHET_CACHE_TAG_CHARS = 24
+
+const MESSAGE_CACHE_MAX_PER_CHAT = 500
+const MESSAGE_CACHE_FLUSH_MS = 1000
+
+const SEARCH_INDEX_FLUSH_MS = 1500
+const SEARCH_RESULTS_MAX = 50
+
+type CachedMessage = {
+  m: AuthDecryptedMessage
+  // Digest of the ciphertext `m` came from; empty when it arrived live and was never fetched.
+  h: string
+  r?: Record<string, string>
+  rc?: Record<string, AuthMessageReceipt>
+}
+
+// Oldest-first and contiguous: nothing the server holds is missing between two entries.
+type CachedChatMessages = {
+  v: 1
+  messages: CachedMessage[]
+  hasMore: boolean
+}
+
+type CachedChatList = {
+  v: 1
+  chats: AuthChat[]
+  previews: Record<string, AuthLastMessagePreview>
+  unread: Record<string, number>
+}
+
 export const useAuthStore = defineStore('auth', () => {
   const toast = useToastStore()
   const token = ref<string | null>(null)
@@ -192,6 +556,8 @@ export const useAuthStore = defineStore('auth', () => {
   const username = ref<string | null>(null)
   const hiddenMode = ref<boolean>(false)
   const introvertMode = ref<boolean>(false)
+  // Delivered/read receipts, both sent and shown; off means neither.
+  const readReceipts = ref<boolean>(true)
   const publicKeyJwk = ref<string | null>(null)
   const privateKey = ref<CryptoKey | null>(null)
   const signingKey = ref<CryptoKey | null>(null)
@@ -202,6 +568,8 @@ export const useAuthStore = defineStore('auth', () => {
 
   const notificationsEnabled = ref<boolean>(getNotificationsEnabled())
   const pushNotificationsEnabled = ref<boolean>(getPushNotificationsEnabled())
+  // Per device: send messages without a session, authorized by a chat delivery token.
+  const sealedSenderEnabled = ref<boolean>(localData.getBool(LocalEntity.SealedSenderEnabled, false))
 
   const restoring = ref<boolean>(false)
 
@@ -225,6 +593,13 @@ export const useAuthStore = defineStore('auth', () => {
   // Only show a restore/loading state when stay mode is enabled.
   restoring.value = stayLoggedIn.value
 
+  // Opt-in: the stay-unlock blob is wrapped with a key derived from a passkey PRF instead of
+  // the device key. A cold start then waits on the restore screen for the passkey gesture.
+  const stayPasskeyEnabled = ref<boolean>(Boolean(parseStayPasskey(localData.getJson(LocalEntity.StayPasskey))))
+  const stayPasskeyPrompt = ref<boolean>(false)
+  let stayPasskeyKey: CryptoKey | null = null
+  let stayPasskeyGate: (() => void) | null = null
+
   async function syncStayMirrorNow() {
     try {
       if (!stayLoggedIn.value) return
@@ -237,6 +612,7 @@ export const useAuthStore = defineStore('auth', () => {
             username: username.value,
             hiddenMode: hiddenMode.value,
             introvertMode: introvertMode.value,
+            readReceipts: readReceipts.value,
           },
           token: token.value,
           expiresAtMs: expiresAtMs.value,
@@ -275,7 +651,7 @@ export const useAuthStore = defineStore('auth', () => {
       try {
         if (token.value && userId.value && username.value) {
           storeSession(
-            { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+            { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
             token.value,
             expiresAtMs.value,
           )
@@ -307,6 +683,9 @@ export const useAuthStore = defineStore('auth', () => {
       void localData.idbSet(LocalEntity.IdbStayRemoveDate, null)
       void localData.idbSet(LocalEntity.IdbStayUnlockBlob, null)
       localData.remove(LocalEntity.StayDeviceKey)
+      localData.remove(LocalEntity.StayPasskey)
+      stayPasskeyEnabled.value = false
+      stayPasskeyKey = null
 
       // Push notifications are only allowed in stay mode.
       void disablePushNotifications()
@@ -326,6 +705,30 @@ export const useAuthStore = defineStore('auth', () => {
   let wsGeneration = 0
   const transportClient = new AuthTransportClient()
 
+  const deviceLinkOffer = ref<{ status: DeviceLinkOfferStatus; qrText: string; expiresAtMs: number } | null>(null)
+  let deviceLinkOfferState: { code: string; secret: string; keyPair: DeviceLinkKeyPair; plaintext: string } | null = null
+  const deviceLinkJoin = ref<{ status: DeviceLinkJoinStatus; username: string } | null>(null)
+  let deviceLinkJoinEntry: LocalKeyEntryPlain | null = null
+  let deviceLinkJoinSeq = 0
+  const linkTransportClient = new AuthTransportClient()
+
+  // Social recovery, contact side: shares held for others, and open requests from those others.
+  const heldRecoveryShares = ref<Record<string, HeldRecoveryShare>>({})
+  let heldRecoverySharesLoad: Promise<void> | null = null
+  let heldRecoverySharesUserId: string | null = null
+  const recoveryRequestByUserId = ref<Record<string, SocialRecoveryRequest>>({})
+  const dismissedRecoveryRequestIds = new Set<string>()
+  // Recovering side.
+  const socialRecovery = ref<{ status: SocialRecoveryStatus; code: string; received: number; needed: number | null } | null>(null)
+  let socialRecoveryState: {
+    requestId: string
+    pollToken: string
+    keyPair: RecoveryRequestKeyPair
+    timer: number | null
+    entry: LocalKeyEntryPlain | null
+  } | null = null
+  let socialRecoverySeq = 0
+
   // App version mismatch detection (server updates while client is open)
   const clientVersion = ref<string>(String(CLIENT_APP_VERSION))
   const serverVersion = ref<string>('')
@@ -344,9 +747,18 @@ export const useAuthStore = defineStore('auth', () => {
 
   const chats = ref<AuthChat[]>([])
   const unreadByChatId = ref<Record<string, number>>({})
+  // Ids of unread messages that @mention me, oldest first; cleared as they are read.
+  const unreadMentionsByChatId = ref<Record<string, string[]>>({})
 
   const lastMessageByChatId = ref<Record<string, AuthLastMessageWire | null>>({})
   const lastMessagePreviewByChatId = ref<Record<string, AuthLastMessagePreview>>({})
+  // messageId -> reactorId -> emoji, only for messages that have been loaded.
+  const reactionsByMessageId = ref<Record<string, Record<string, string>>>({})
+  // Own messages only: messageId -> member -> strongest receipt seen.
+  const receiptsByMessageId = ref<Record<string, Record<string, AuthMessageReceipt>>>({})
+  const pendingDeliveredByChatId = new Map<string, Set<string>>()
+  const deliveredReported = new Set<string>()
+  let deliveredFlushTimer: number | null = null
 
   const membersByChatId = ref<Record<string, AuthChatMember[]>>({})
 
@@ -356,11 +768,82 @@ export const useAuthStore = defineStore('auth', () => {
   const messagesHasMoreByChatId = ref<Record<string, boolean>>({})
   const messagesLoadingMoreByChatId = ref<Record<string, boolean>>({})
 
+  let messageCacheLoad: Promise<MessageCache | null> | null = null
+  let messageCacheUserId: string | null = null
+  let messageCacheJwk: string | null = null
+  const messageCacheDirtyChatIds = new Set<string>()
+  // Chats whose cached history does not join up with the page just loaded; rewritten from it.
+  const messageCacheDetachedChatIds = new Set<string>()
+  let messageCacheChatListDirty = false
+  let messageCacheFlushTimer: number | null = null
+  const cipherDigestByMessageId = new Map<string, string>()
+
+  let searchIndexLoad: Promise<SearchIndex | null> | null = null
+  let searchIndexUserId: string | null = null
+  let searchIndexJwk: string | null = null
+  const searchIndexDirtyChatIds = new Set<string>()
+  let searchIndexFlushTimer: number | null = null
+
+  const outbox = ref<OutboxEntry[]>([])
+  let outboxLoad: Promise<void> | null = null
+  let outboxUserId: string | null = null
+  let outboxFlush: Promise<void> | null = null
+  let outboxFlushAgain = false
+
+  const ratchetSupported = ref<boolean>(false)
+  const ratchetEnabledByChatId = ref<Record<string, boolean>>({})
+  let ratchetVault: Promise<RatchetVaultPlain> | null = null
+  let ratchetVaultUserId: string | null = null
+  let ratchetCacheKey: Promise<CryptoKey | null> | null = null
+  let ratchetQueue: Promise<unknown> = Promise.resolve()
+  void isRatchetSupported().then((ok) => {
+    ratchetSupported.value = ok
+  })
+
+  // userId -> fingerprint of the key the user verified, and of the key the server currently reports.
+  const verifiedFingerprintByUserId = ref<Record<string, string>>({})
+  const keyFingerprintByUserId = ref<Record<string, string>>({})
+  // First key seen per userId and per display name; a different key later is flagged until accepted.
+  const pinnedFingerprintByUserId = ref<Record<string, string>>({})
+  const pinnedFingerprintByName = ref<Record<string, string>>({})
+  // The key a contact's pin started from. Rotations followed from it move the pin but not this.
+  const pinAnchorByUserId = ref<Record<string, string>>({})
+  const keyChangedByUserId = ref<Record<string, boolean>>({})
+  const contactNameKeyByUserId = new Map<string, string>()
+  let verifiedContactsLoad: Promise<void> | null = null
+  let verifiedContactsUserId: string | null = null
+
+  // Our private keys from before a rotation (newest first), and contacts' verified key histories.
+  let previousKeysLoad: Promise<CryptoKey[]> | null = null
+  let previousKeysUserId: string | null = null
+  const keyRotationsByUserId = new Map<string, Promise<KeyRotation[]>>()
+
+  // Envelope versions the server accepts, and the account we last advertised ours for.
+  let serverEnvelopeVersions: readonly number[] | null = null
+  // The instance's size buckets for padding; random padding only until they are known.
+  let envelopePadBuckets: readonly number[] = []
+  let envelopeVersionsSyncedFor: string | null = null
+
+  const senderKeysByChatId = new Map<string, ChatSenderKeys>()
+  const deliveryTokenByChatId = new Map<string, string>()
+  const senderKeyFetchByChatId = new Map<string, Promise<ChatSenderKeys>>()
+  const senderKeyRotationByChatId = new Map<string, Promise<{ keyId: string; key: Uint8Array }>>()
+
   const onlineByUserId = ref<Record<string, boolean>>({})
   const busyByUserId = ref<Record<string, boolean>>({})
   let presenceTimer: number | null = null
   const PRESENCE_HEARTBEAT_MS = 10000
 
+  // chatId -> userId -> who is typing and until when (ms). Datagrams can be lost, so senders
+  // repeat "started" while typing and receivers drop entries that are not refreshed.
+  const typingByChatId = ref<Record<string, Record<string, { name: string; untilMs: number }>>>({})
+  const TYPING_RESEND_MS = 3000
+  const TYPING_IDLE_MS = 5000
+  const TYPING_SHOW_MS = 7000
+  let typingSent: { chatId: string; atMs: number } | null = null
+  let typingIdleTimer: number | null = null
+  let typingExpiryTimer: number | null = null
+
   const authIn = computed(() => Boolean(token.value && userId.value && username.value))
   const locked = computed(() => Boolean(authIn.value && !privateKey.value))
   const unlocking = ref(false)
@@ -625,6 +1108,7 @@ export const useAuthStore = defineStore('auth', () => {
   async function updateAccount(fields: {
     hiddenMode?: boolean
     introvertMode?: boolean
+    readReceipts?: boolean
     removeDate?: string
     vault?: string
   }) {
@@ -694,7 +1178,7 @@ export const useAuthStore = defineStore('auth', () => {
 
       if (token.value && userId.value && username.value) {
         storeSession(
-          { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+          { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
           token.value,
           expiresAtMs.value,
         )
@@ -717,6 +1201,11 @@ export const useAuthStore = defineStore('auth', () => {
     setPushNotificationsEnabled(Boolean(next))
   }
 
+  function setSealedSenderEnabledLocal(next: boolean) {
+    sealedSenderEnabled.value = Boolean(next)
+    localData.setBool(LocalEntity.SealedSenderEnabled, Boolean(next))
+  }
+
   async function disablePushNotifications() {
     // Wipe preference, server state, and local browser subscription.
     setPushNotificationsEnabledLocal(false)
@@ -805,6 +1294,77 @@ export const useAuthStore = defineStore('auth', () => {
     sendPresenceHeartbeat()
   }
 
+  function clearTypingIdleTimer() {
+    if (typingIdleTimer != null) {
+      window.clearTimeout(typingIdleTimer)
+      typingIdleTimer = null
+    }
+  }
+
+  // Called on every keystroke; sends at most one "started" per TYPING_RESEND_MS.
+  function notifyTyping(chatId: string) {
+    if (!token.value || !userId.value) return
+    if (hiddenMode.value || introvertMode.value) return
+    if (typingSent && typingSent.chatId !== chatId) stopTyping()
+
+    const now = Date.now()
+    if (!typingSent || now - typingSent.atMs >= TYPING_RESEND_MS) {
+      sendDatagram({ type: 'typing', chatId, typing: true })
+      typingSent = { chatId, atMs: now }
+    }
+    clearTypingIdleTimer()
+    typingIdleTimer = window.setTimeout(() => stopTyping(), TYPING_IDLE_MS)
+  }
+
+  function stopTyping() {
+    clearTypingIdleTimer()
+    const sent = typingSent
+    typingSent = null
+    if (sent && token.value) sendDatagram({ type: 'typing', chatId: sent.chatId, typing: false })
+  }
+
+  function setTyping(chatId: string, typerId: string, entry: { name: string; untilMs: number } | null) {
+    const cur = typingByChatId.value[chatId] ?? {}
+    if (!entry && !cur[typerId]) return
+    const { [typerId]: _prev, ...rest } = cur
+    const next = entry ? { ...rest, [typerId]: entry } : rest
+    const { [chatId]: _chat, ...others } = typingByChatId.value
+    typingByChatId.value = Object.keys(next).length ? { ...others, [chatId]: next } : others
+    scheduleTypingExpiry()
+  }
+
+  function scheduleTypingExpiry() {
+    if (typingExpiryTimer != null) {
+      window.clearTimeout(typingExpiryTimer)
+      typingExpiryTimer = null
+    }
+    let soonest = Infinity
+    for (const byUser of Object.values(typingByChatId.value)) {
+      for (const e of Object.values(byUser)) soonest = Math.min(soonest, e.untilMs)
+    }
+    if (soonest === Infinity) return
+    typingExpiryTimer = window.setTimeout(() => {
+      typingExpiryTimer = null
+      const now = Date.now()
+      for (const [chatId, byUser] of Object.entries(typingByChatId.value)) {
+        for (const [typerId, e] of Object.entries(byUser)) {
+          if (e.untilMs <= now) setTyping(chatId, typerId, null)
+        }
+      }
+      scheduleTypingExpiry()
+    }, Math.max(0, soonest - Date.now()) + 50)
+  }
+
+  function clearTyping() {
+    clearTypingIdleTimer()
+    typingSent = null
+    if (typingExpiryTimer != null) {
+      window.clearTimeout(typingExpiryTimer)
+      typingExpiryTimer = null
+    }
+    typingByChatId.value = {}
+  }
+
   function getChatOnlineState(chatId: string): 'online' | 'offline' | 'busy' | null {
     const c = chats.value.find((x) => x.id === chatId)
     if (!c) return null
@@ -875,6 +1435,9 @@ export const useAuthStore = defineStore('auth', () => {
         // ignore
       }
     }
+
+    void refreshRecoveryRequests()
+    void flushOutbox()
   }
 
   function scheduleWsReconnect() {
@@ -901,30 +1464,29 @@ export const useAuthStore = defineStore('auth', () => {
     }, retryDelayMs)
   }
 
-  function loadKeyEntries(): StoredKeyV3[] {
+  function loadKeyEntries(): StoredKey[] {
     const arr = localData.getJson<any[]>(LocalEntity.AuthKeys)
     if (!Array.isArray(arr)) return []
-    const out: StoredKeyV3[] = []
+    const out: StoredKey[] = []
     for (const it of arr) {
-      if (it && it.v === 3 && typeof it.d === 'string') {
-        out.push({ v: 3, d: it.d })
+      if (it && (it.v === 3 || it.v === 4) && typeof it.d === 'string') {
+        out.push(typeof it.h === 'string' ? { v: it.v, d: it.d, h: it.h } : { v: it.v, d: it.d })
       }
     }
     return out
   }
 
-  function saveKeyEntries(next: StoredKeyV3[]) {
+  function saveKeyEntries(next: StoredKey[]) {
     localData.setJson(LocalEntity.AuthKeys, next)
   }
 
 
   function clearAllKeyMaterial() {
     localData.remove(LocalEntity.AuthKeys)
+    localData.remove(LocalEntity.AuthPreviousKeys)
   }
 
-  async function saveLocalKeyForUser(params: { username: string; password: string; privateKeyMaterial: string; signingKeyMaterial?: string }) {
-    if (params.password.length > MAX_PASSWORD_LEN) throw new Error(`Password must be at most ${MAX_PASSWORD_LEN} characters`)
-
+  function makeLocalKeyEntryPlain(params: { username: string; privateKeyMaterial: string; signingKeyMaterial?: string }) {
     const postfixLen = randomIntInclusive(LOCAL_KEY_ENTRY_POSTFIX_MIN_CHARS, LOCAL_KEY_ENTRY_POSTFIX_MAX_CHARS)
     const p = randomStringFromAlphabet(postfixLen, LOCAL_KEY_ENTRY_POSTFIX_ALPHABET)
 
@@ -935,36 +1497,64 @@ export const useAuthStore = defineStore('auth', () => {
     }
     const separateSigning = typeof params.signingKeyMaterial === 'string' && params.signingKeyMaterial && params.signingKeyMaterial !== payload.k
     if (separateSigning) payload.s = params.signingKeyMaterial
+    return payload
+  }
+
+  async function saveLocalKeyForUser(params: { username: string; password: string; privateKeyMaterial: string; signingKeyMaterial?: string }) {
+    if (params.password.length > MAX_PASSWORD_LEN) throw new Error(`Password must be at most ${MAX_PASSWORD_LEN} characters`)
+
+    const payload = makeLocalKeyEntryPlain(params)
 
     const d = await encryptStringWithPassword({
       plaintext: JSON.stringify(payload),
       password: params.password,
     })
 
+    const hint = await localKeyEntryHint(params.username)
     const cur = loadKeyEntries()
-    const kept: StoredKeyV3[] = []
+    const candidates = new Set(keyEntriesForHint(cur, hint))
+    const kept: StoredKey[] = []
     for (const e of cur) {
-      try {
-        const raw = await decryptStringWithPassword({ encrypted: e.d, password: params.password })
-        const plain = parseLocalKeyEntryPlain(raw)
-        if (plain?.n === params.username) continue
-      } catch {
-        // If it can't be decrypted with this password, keep it.
+      if (candidates.has(e)) {
+        try {
+          const raw = await decryptStringWithPassword({ encrypted: e.d, password: params.password })
+          const plain = parseLocalKeyEntryPlain(raw)
+          if (plain?.n === params.username) continue
+        } catch {
+          // If it can't be decrypted with this password, keep it.
+        }
       }
       kept.push(e)
     }
 
-    kept.push({ v: 3, d })
+    kept.push({ v: 4, d, h: hint })
     saveKeyEntries(kept)
   }
 
+  // Once its password is known, re-encrypts a v3 entry with the current KDF and adds a missing
+  // hint. Runs after the unlock it piggybacks on; if the entry was removed or replaced
+  // meanwhile, nothing changes.
+  async function upgradeLocalKeyEntry(entry: StoredKey, plaintext: string, password: string, hint: string) {
+    try {
+      const d = entry.v === 3 ? await encryptStringWithPassword({ plaintext, password }) : entry.d
+      const cur = loadKeyEntries()
+      const idx = cur.findIndex((e) => e.v === entry.v && e.d === entry.d)
+      if (idx < 0) return
+      cur[idx] = { v: 4, d, h: hint }
+      saveKeyEntries(cur)
+    } catch {
+      // Keep the v3 entry; the next unlock tries again.
+    }
+  }
+
   async function findLocalKeyMaterialForLogin(params: { username: string; password: string }) {
-    const list = loadKeyEntries()
-    for (const e of list) {
+    const hint = await localKeyEntryHint(params.username)
+    for (const e of keyEntriesForHint(loadKeyEntries(), hint)) {
       try {
         const raw = await decryptStringWithPassword({ encrypted: e.d, password: params.password })
         const plain = parseLocalKeyEntryPlain(raw)
         if (plain?.n === params.username) {
+          if (e.v === 3 || e.h !== hint) void upgradeLocalKeyEntry(e, raw, params.password, hint)
           return {
             privateKeyMaterial: plain.k,
             signingKeyMaterial: plain.s ?? plain.k,
@@ -996,16 +1586,76 @@ export const useAuthStore = defineStore('auth', () => {
     if (stayLoggedIn.value) void localData.clearIdbStaySession()
   }
 
+  // Undefined means the device key. In passkey mode this asks the authenticator for the key
+  // unless this session already unlocked with it.
+  async function stayUnlockWrappingKey(): Promise<CryptoKey | undefined> {
+    const passkey = parseStayPasskey(localData.getJson(LocalEntity.StayPasskey))
+    if (!passkey) return undefined
+    if (!stayPasskeyKey) stayPasskeyKey = await deriveStayPasskeyKey(passkey)
+    return stayPasskeyKey
+  }
+
   async function persistStayUnlockBlobFromPrivateJwk(privateJwkJson: string) {
     try {
       if (!stayLoggedIn.value) return
-      const blob = await localData.encryptStayString(String(privateJwkJson ?? ''))
+      const wrappingKey = await stayUnlockWrappingKey()
+      const blob = await localData.encryptStayString(String(privateJwkJson ?? ''), wrappingKey)
       await localData.idbSet(LocalEntity.IdbStayUnlockBlob, blob)
     } catch {
       // ignore
     }
   }
 
+  async function enableStayPasskey() {
+    if (!stayLoggedIn.value) throw new Error('Stay logged in is off')
+    const jwkJson = lastPrivateJwkJsonForStay
+    if (!jwkJson || !username.value) throw new Error('Not logged in')
+
+    const passkey = await createStayPasskey({ userName: username.value })
+    const key = await deriveStayPasskeyKey(passkey)
+    const blob = await localData.encryptStayString(jwkJson, key)
+    localData.setJson(LocalEntity.StayPasskey, passkey)
+    await localData.idbSet(LocalEntity.IdbStayUnlockBlob, blob)
+    stayPasskeyKey = key
+    stayPasskeyEnabled.value = true
+  }
+
+  async function disableStayPasskey() {
+    localData.remove(LocalEntity.StayPasskey)
+    stayPasskeyEnabled.value = false
+    stayPasskeyKey = null
+    // Re-wrap with the device key.
+    await localData.idbSet(LocalEntity.IdbStayUnlockBlob, null)
+    await ensureStayUnlockBlobIfPossible()
+  }
+
+  function releaseStayPasskeyGate() {
+    const gate = stayPasskeyGate
+    stayPasskeyGate = null
+    stayPasskeyPrompt.value = false
+    gate?.()
+  }
+
+  // Runs from the restore screen's button so the WebAuthn prompt has a user gesture behind it.
+  async function unlockStayWithPasskey(): Promise<boolean> {
+    const passkey = parseStayPasskey(localData.getJson(LocalEntity.StayPasskey))
+    if (!passkey) {
+      releaseStayPasskeyGate()
+      return false
+    }
+    try {
+      stayPasskeyKey = await deriveStayPasskeyKey(passkey)
+    } catch {
+      return false
+    }
+    releaseStayPasskeyGate()
+    return true
+  }
+
+  function skipStayPasskeyUnlock() {
+    releaseStayPasskeyGate()
+  }
+
   async function ensureStayUnlockBlobIfPossible(): Promise<void> {
     try {
       if (!stayLoggedIn.value) return
@@ -1043,7 +1693,10 @@ export const useAuthStore = defineStore('auth', () => {
 
       const blob = await localData.idbGet<string>(LocalEntity.IdbStayUnlockBlob)
       if (!blob) return false
-      const jwkJson = await localData.decryptStayString(blob)
+      // Never prompt from here; the passkey key comes from unlockStayWithPasskey().
+      const passkeyMode = Boolean(parseStayPasskey(localData.getJson(LocalEntity.StayPasskey)))
+      if (passkeyMode && !stayPasskeyKey) return false
+      const jwkJson = await localData.decryptStayString(blob, passkeyMode ? (stayPasskeyKey ?? undefined) : undefined)
       lastPrivateJwkJsonForStay = jwkJson
       privateKey.value = await importRsaPrivateKeyJwk(jwkJson)
       signingKey.value = await importRsaPssPrivateKeyJwk(jwkJson)
@@ -1309,16 +1962,17 @@ export const useAuthStore = defineStore('auth', () => {
         // Server no longer returns plaintext usernames; keep the local value.
         hiddenMode.value = Boolean((finalJson as any)?.hiddenMode)
         introvertMode.value = Boolean((finalJson as any)?.introvertMode)
+        readReceipts.value = (finalJson as any)?.readReceipts !== false
         publicKeyJwk.value = publicJwk
 
         if (token.value && userId.value && username.value) {
           storeSession(
-            { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+            { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
             token.value,
             expiresAtMs.value,
           )
           void localData.mirrorAuthSessionToIdb({
-            user: { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+            user: { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
             token: token.value,
             expiresAtMs: expiresAtMs.value,
           })
@@ -1338,6 +1992,11 @@ export const useAuthStore = defineStore('auth', () => {
     return await reauthInFlight
   }
 
+  // fetch() rejects with a TypeError when no response came back at all.
+  function isNetworkError(e: unknown) {
+    return e instanceof TypeError
+  }
+
   async function fetchJson(path: string, init?: RequestInit, allowReauth = true) {
     const r = await fetch(`${apiBase()}${path}`, init)
     const j = await r.json().catch(() => ({}))
@@ -1456,6 +2115,8 @@ export const useAuthStore = defineStore('auth', () => {
         if (gen !== wsGeneration) return
         ws.value = null
         clearPresenceTimer()
+        // The server drops offers together with the session that made them.
+        if (deviceLinkOfferState) finishDeviceLinkOffer('failed')
         for (const h of disconnectHandlers) {
           try {
             h()
@@ -1501,13 +2162,15 @@ export const useAuthStore = defineStore('auth', () => {
         if (obj.type === 'authAccountUpdated') {
           const nextHidden = typeof (obj as any)?.hiddenMode === 'boolean' ? Boolean((obj as any).hiddenMode) : null
           const nextIntrovert = typeof (obj as any)?.introvertMode === 'boolean' ? Boolean((obj as any).introvertMode) : null
+          const nextReceipts = typeof (obj as any)?.readReceipts === 'boolean' ? Boolean((obj as any).readReceipts) : null
 
           if (nextHidden != null) hiddenMode.value = nextHidden
           if (nextIntrovert != null) introvertMode.value = nextIntrovert
+          if (nextReceipts != null) setReadReceiptsLocal(nextReceipts)
 
           if (token.value && userId.value && username.value) {
             storeSession(
-              { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+              { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
               token.value,
               expiresAtMs.value,
             )
@@ -1518,13 +2181,21 @@ export const useAuthStore = defineStore('auth', () => {
         if (obj.type === 'authMessage') {
           const chatId = typeof obj.chatId === 'string' ? obj.chatId : null
           const id = typeof obj.id === 'string' ? obj.id : null
-          const senderId = typeof obj.senderId === 'string' ? obj.senderId : null
+          const wireSenderId = typeof obj.senderId === 'string' ? obj.senderId : null
+          const sealed = (obj as any).sealed === true
           const encryptedData = typeof obj.encryptedData === 'string' ? obj.encryptedData : null
           const signature = typeof obj.signature === 'string' ? obj.signature : ''
-          if (!chatId || !id || !senderId || !encryptedData) return
+          if (!chatId || !id || !(wireSenderId || sealed) || !encryptedData) return
+          if (wireSenderId) setTyping(chatId, wireSenderId, null)
 
-          const verification = await getIncomingEnvelopeVerification({ chatId, senderId, encryptedData, signature })
-          if (verification === 'invalid') {
+          let opened: OpenedIncomingMessage
+          try {
+            opened = await openIncomingMessage({ chatId, messageId: id, senderId: wireSenderId ?? '', encryptedData, signature, sealed })
+          } catch {
+            // ignore decrypt failures
+            return
+          }
+          if (opened.verification === 'invalid') {
             toast.push({
               title: 'Unverified message',
               message: 'Blocked a message with an invalid signature.',
@@ -1533,74 +2204,138 @@ export const useAuthStore = defineStore('auth', () => {
             })
             return
           }
+          const { senderId, verification, plain } = opened
+          if (sealed) setTyping(chatId, senderId, null)
+          // Sealed messages have no sender row for receipts to hang off.
+          if (!sealed && senderId !== userId.value) queueDelivered(chatId, [id])
+          // The server counts a sealed message as unread for its sender too; sendMessage clears it.
+          const own = String(senderId) === String(userId.value)
 
-          if (privateKey.value && userId.value) {
-            try {
-              const plain = await decryptMessageEnvelope({
-                encryptedData,
-                myUserId: userId.value,
-                myPrivateKey: privateKey.value,
-                objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
-                objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
-              })
-              const displayName = await resolveDisplayNameInChat(chatId, senderId)
-              const msg: AuthDecryptedMessage = {
-                id,
-                chatId,
-                atIso: plain.atIso,
-                modifiedAtIso: plain.modifiedAtIso,
-                senderId,
-                fromUsername: displayName,
-                text: plain.text,
-                replyToId: plain.replyToId,
-                verification,
-              }
-
-              const cur = messagesByChatId.value[chatId] ?? []
-              if (cur.some((m) => m.id === id)) return
-              messagesByChatId.value = { ...messagesByChatId.value, [chatId]: [...cur, msg] }
+          try {
+            const displayName = await resolveDisplayNameInChat(chatId, senderId)
+            const msg: AuthDecryptedMessage = {
+              id,
+              chatId,
+              atIso: plain.atIso,
+              modifiedAtIso: plain.modifiedAtIso,
+              senderId,
+              fromUsername: displayName,
+              text: plain.text,
+              replyToId: plain.replyToId,
+              attachments: plain.attachments,
+              timerSeconds: plain.timerSeconds,
+              notice: plain.notice,
+              forwardedFrom: plain.forwardedFrom,
+              mentions: plain.mentions,
+              verification,
+              sealed,
+            }
 
-              if (!(view.value === 'chat' && activeChatId.value === chatId)) {
-                unreadByChatId.value = {
-                  ...unreadByChatId.value,
-                  [chatId]: (unreadByChatId.value[chatId] ?? 0) + 1,
-                }
+            const cur = messagesByChatId.value[chatId] ?? []
+            if (cur.some((m) => m.id === id)) return
+            messagesByChatId.value = { ...messagesByChatId.value, [chatId]: [...cur, msg] }
 
-                try {
-                  const shouldNotify = typeof document !== 'undefined' && document.visibilityState !== 'visible'
-                  if (shouldNotify) {
-                    notify('Last', displayName ? `New message from ${displayName}` : 'New message', {
-                      tag: `lrcom-chat-${String(chatId)}`,
-                    })
-                  }
-                } catch {
-                  // ignore
-                }
+            const mentionsMe = !own && Boolean(userId.value && plain.mentions?.includes(userId.value))
+            if (mentionsMe) {
+              unreadMentionsByChatId.value = {
+                ...unreadMentionsByChatId.value,
+                [chatId]: [...(unreadMentionsByChatId.value[chatId] ?? []), id],
               }
+            }
 
-              if (view.value === 'chat' && activeChatId.value === chatId && userId.value && String(senderId) !== String(userId.value)) {
-                void markMessagesRead(chatId, [id])
+            if (!(view.value === 'chat' && activeChatId.value === chatId) && !(sealed && own)) {
+              unreadByChatId.value = {
+                ...unreadByChatId.value,
+                [chatId]: (unreadByChatId.value[chatId] ?? 0) + 1,
               }
 
-              lastMessageByChatId.value = {
-                ...lastMessageByChatId.value,
-                [chatId]: { id, chatId, senderId, encryptedData, signature },
-              }
-              lastMessagePreviewByChatId.value = {
-                ...lastMessagePreviewByChatId.value,
-                [chatId]: {
-                  id,
-                  chatId,
-                  senderId,
-                  senderUsername: displayName,
-                  tsMs: uuidV7ToUnixMs(id) ?? 0,
-                  text: plain.text,
-                },
+              try {
+                // A mention is worth interrupting for even while the app is in front.
+                const shouldNotify = mentionsMe || (typeof document !== 'undefined' && document.visibilityState !== 'visible')
+                if (shouldNotify) {
+                  const body = mentionsMe
+                    ? `${displayName || 'Someone'} mentioned you`
+                    : displayName
+                      ? `New message from ${displayName}`
+                      : 'New message'
+                  notify('Last', body, { tag: `lrcom-chat-${String(chatId)}` })
+                }
+              } catch {
+                // ignore
               }
-            } catch {
-              // ignore decrypt failures
             }
+
+            if (view.value === 'chat' && activeChatId.value === chatId && userId.value && !own) {
+              void markMessagesRead(chatId, [id])
+            }
+
+            lastMessageByChatId.value = {
+              ...lastMessageByChatId.value,
+              [chatId]: { id, chatId, senderId, encryptedData, signature, sealed },
+            }
+            lastMessagePreviewByChatId.value = {
+              ...lastMessagePreviewByChatId.value,
+              [chatId]: {
+                id,
+                chatId,
+                senderId,
+                senderUsername: displayName,
+                tsMs: uuidV7ToUnixMs(id) ?? 0,
+                text: previewTextOf(plain),
+                expiresAtMs: messageExpiresAtMs(plain),
+              },
+            }
+          } catch {
+            // ignore
+          }
+        }
+
+        if (obj.type === 'linkCode' || obj.type === 'linkPeer' || obj.type === 'linkClosed') {
+          void onDeviceLinkOfferMessage(obj)
+          return
+        }
+
+        if (obj.type === 'authTyping') {
+          const chatId = typeof obj.chatId === 'string' ? obj.chatId : null
+          const typerId = typeof (obj as any).userId === 'string' ? String((obj as any).userId) : null
+          if (!chatId || !typerId || typerId === userId.value) return
+          if (!chats.value.some((c) => c.id === chatId)) return
+
+          if ((obj as any).typing !== true) {
+            setTyping(chatId, typerId, null)
+            return
+          }
+          const name = await resolveDisplayNameInChat(chatId, typerId)
+          setTyping(chatId, typerId, { name, untilMs: Date.now() + TYPING_SHOW_MS })
+          return
+        }
+
+        if (obj.type === 'authReceipts') {
+          const chatId = typeof obj.chatId === 'string' ? obj.chatId : null
+          const readerId = typeof (obj as any).userId === 'string' ? String((obj as any).userId) : null
+          const state = (obj as any).state === 'read' || (obj as any).state === 'delivered' ? ((obj as any).state as AuthMessageReceipt) : null
+          const idsRaw = (obj as any).messageIds
+          const ids = Array.isArray(idsRaw) ? idsRaw.map(String).filter(Boolean) : []
+          if (!chatId || !readerId || !state || !ids.length || !readReceipts.value) return
+          applyReceipts(ids.map((id) => ({ messageId: id, userId: readerId, state })))
+          return
+        }
+
+        if (obj.type === 'authReaction') {
+          const chatId = typeof obj.chatId === 'string' ? obj.chatId : null
+          const messageId = typeof (obj as any).messageId === 'string' ? String((obj as any).messageId) : null
+          const reactorId = typeof (obj as any).reactorId === 'string' ? String((obj as any).reactorId) : null
+          const encryptedData = typeof obj.encryptedData === 'string' ? obj.encryptedData : ''
+          const signature = typeof obj.signature === 'string' ? obj.signature : ''
+          if (!chatId || !messageId || !reactorId) return
+
+          if (!encryptedData) {
+            applyReaction(messageId, reactorId, null)
+            return
           }
+          const emoji = await openReaction(chatId, messageId, { reactorId, encryptedData, signature })
+          if (emoji) applyReaction(messageId, reactorId, emoji)
+          return
         }
 
         if (obj.type === 'authMessageDeleted') {
@@ -1612,6 +2347,12 @@ export const useAuthStore = defineStore('auth', () => {
           if (cur.length) {
             messagesByChatId.value = { ...messagesByChatId.value, [chatId]: cur.filter((m) => m.id !== id) }
           }
+          forgetRatchetMessages([id])
+          forgetSearchDocs(chatId, [id])
+          if (reactionsByMessageId.value[id]) {
+            const { [id]: _r, ...restReactions } = reactionsByMessageId.value
+            reactionsByMessageId.value = restReactions
+          }
           void refreshChats()
         }
 
@@ -1629,6 +2370,8 @@ export const useAuthStore = defineStore('auth', () => {
               messagesByChatId.value = { ...messagesByChatId.value, [chatId]: cur.filter((m) => !s.has(m.id)) }
             }
           }
+          forgetRatchetMessages(ids)
+          forgetSearchDocs(chatId, ids)
           void refreshChats()
         }
 
@@ -1640,7 +2383,7 @@ export const useAuthStore = defineStore('auth', () => {
           const signature = typeof obj.signature === 'string' ? obj.signature : ''
           if (!chatId || !id || !senderId || !encryptedData) return
 
-          const verification = await getIncomingEnvelopeVerification({ chatId, senderId, encryptedData, signature })
+          const verification = await getIncomingEnvelopeVerification({ chatId, messageId: id, senderId, encryptedData, signature })
           if (verification === 'invalid') {
             toast.push({
               title: 'Unverified edit',
@@ -1653,12 +2396,11 @@ export const useAuthStore = defineStore('auth', () => {
 
           if (privateKey.value && userId.value) {
             try {
-              const plain = await decryptMessageEnvelope({
+              const plain = await decryptChatMessage({
+                chatId,
+                messageId: id,
+                senderId,
                 encryptedData,
-                myUserId: userId.value,
-                myPrivateKey: privateKey.value,
-                objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
-                objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
               })
               const displayName = await resolveDisplayNameInChat(chatId, senderId)
               const cur = messagesByChatId.value[chatId] ?? []
@@ -1672,6 +2414,11 @@ export const useAuthStore = defineStore('auth', () => {
                       fromUsername: displayName,
                       text: plain.text,
                       replyToId: plain.replyToId,
+                      attachments: plain.attachments,
+                      timerSeconds: plain.timerSeconds,
+                      notice: plain.notice,
+                      forwardedFrom: plain.forwardedFrom,
+                      mentions: plain.mentions,
                       verification,
                     }
                   : m,
@@ -1691,7 +2438,8 @@ export const useAuthStore = defineStore('auth', () => {
                     senderId,
                     senderUsername: displayName,
                     tsMs: uuidV7ToUnixMs(id) ?? 0,
-                    text: plain.text,
+                    text: previewTextOf(plain),
+                    expiresAtMs: messageExpiresAtMs(plain),
                   },
                 }
               }
@@ -1712,6 +2460,31 @@ export const useAuthStore = defineStore('auth', () => {
           void refreshChats()
         }
 
+        if (obj.type === 'authKeyRotated') {
+          const msgId = typeof (obj as any)?.msgId === 'string' ? String((obj as any).msgId) : ''
+          if (msgId) sendReliableMessage({ type: 'ack', msgId })
+          const rotatedUserId = typeof (obj as any)?.userId === 'string' ? String((obj as any).userId) : ''
+          if (rotatedUserId) void onContactKeyRotated(rotatedUserId, obj as Record<string, unknown>)
+        }
+
+        if (obj.type === 'authRecoveryRequest') {
+          const msgId = typeof obj.msgId === 'string' ? obj.msgId : ''
+          if (msgId) sendReliableMessage({ type: 'ack', msgId })
+          const ownerId = typeof obj.userId === 'string' ? obj.userId : ''
+          const requestId = typeof obj.requestId === 'string' ? obj.requestId : ''
+          const pub = typeof obj.pub === 'string' ? obj.pub : ''
+          void addRecoveryRequest(ownerId, requestId, pub)
+        }
+
+        if (obj.type === 'authRecoveryRequestClosed') {
+          const msgId = typeof obj.msgId === 'string' ? obj.msgId : ''
+          if (msgId) sendReliableMessage({ type: 'ack', msgId })
+          const requestId = typeof obj.requestId === 'string' ? obj.requestId : ''
+          for (const [ownerId, r] of Object.entries(recoveryRequestByUserId.value)) {
+            if (r.requestId === requestId) dismissRecoveryRequest(ownerId)
+          }
+        }
+
         if (obj.type === 'presenceSnapshot') {
           const ids = getPresenceProbeList()
           const online = new Set<string>(Array.isArray((obj as any)?.onlineUserIds) ? (obj as any).onlineUserIds.map(String) : [])
@@ -1751,8 +2524,61 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
+  function parseEnvelopeVersions(value: unknown) {
+    if (!Array.isArray(value)) return undefined
+    const list = value.filter((v): v is number => Number.isInteger(v))
+    return list.length ? list : undefined
+  }
+
+  // Learns which envelope versions the server accepts (and its padding buckets) and reports
+  // ours, once per account.
+  async function syncEnvelopeVersions() {
+    const uid = userId.value
+    if (!uid || envelopeVersionsSyncedFor === uid) return
+    envelopeVersionsSyncedFor = uid
+
+    try {
+      const r = await fetch(`${apiBase()}/api/config`, { method: 'GET' })
+      const j = (await r.json().catch(() => ({}))) as any
+      serverEnvelopeVersions = parseEnvelopeVersions(j?.envelopes?.versions) ?? null
+      envelopePadBuckets = normalizeEnvelopePadBuckets(j?.envelopes?.padBuckets)
+
+      await fetchJson('/api/config/envelope-versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ versions: SUPPORTED_ENVELOPE_VERSIONS }),
+      })
+    } catch (e) {
+      if (envelopeVersionsSyncedFor === uid) envelopeVersionsSyncedFor = null
+      throw e
+    }
+  }
+
+  // Newest of `candidates` readable by the server and every recipient besides us.
+  function pickChatEnvelopeVersion(chat: AuthChat, recipients: Array<{ userId: string }>, candidates: number[]) {
+    const members = membersByChatId.value[chat.id] ?? []
+    const peers = recipients
+      .filter((r) => r.userId !== userId.value)
+      .map((r) =>
+        chat.type === 'personal' && r.userId === chat.otherUserId
+          ? chat.otherEnvelopeVersions
+          : members.find((m) => m.userId === r.userId)?.envelopeVersions,
+      )
+      .map((v) => v ?? PRE_VERSIONING_ENVELOPE_VERSIONS)
+    return pickEnvelopeVersion(candidates, [serverEnvelopeVersions ?? PRE_VERSIONING_ENVELOPE_VERSIONS, ...peers])
+  }
+
   async function refreshChats() {
-    const j = await fetchJson('/api/chats', { headers: { ...authHeaders() } })
+    // First load after unlock: show the list saved on this device while the server answers.
+    const fromCache = !chats.value.length && Boolean(privateKey.value) && (await applyCachedChatList())
+
+    let j: any
+    try {
+      j = await fetchJson('/api/chats', { headers: { ...authHeaders() } })
+    } catch (e) {
+      if (fromCache && isNetworkError(e)) return
+      throw e
+    }
 
     const wireChats: any[] = Array.isArray((j as any)?.chats) ? (j as any).chats : []
     const nextChats: AuthChat[] = wireChats
@@ -1765,6 +2591,8 @@ export const useAuthStore = defineStore('auth', () => {
         const names = c?.names && typeof c.names === 'object' ? (c.names as Record<string, string>) : {}
         const otherUserId = typeof c?.otherUserId === 'string' ? String(c.otherUserId) : undefined
         const otherPublicKey = typeof c?.otherPublicKey === 'string' ? String(c.otherPublicKey) : undefined
+        const otherEnvelopeVersions = parseEnvelopeVersions(c?.otherEnvelopeVersions)
+        const senderKeyEpoch = Number.isInteger(c?.senderKeyEpoch) ? Number(c.senderKeyEpoch) : undefined
 
         return {
           id,
@@ -1773,11 +2601,22 @@ export const useAuthStore = defineStore('auth', () => {
           names,
           otherUserId,
           otherPublicKey,
+          otherEnvelopeVersions,
+          senderKeyEpoch,
         } as AuthChat
       })
       .filter((x): x is AuthChat => Boolean(x))
 
     chats.value = nextChats
+    void syncEnvelopeVersions().catch(() => null)
+    void loadRatchetVault().catch(() => null)
+    void loadVerifiedContacts().catch(() => null)
+
+    // Membership changed since we cached this group's keys: refetch (and re-key) on next use.
+    for (const c of nextChats) {
+      const cached = senderKeysByChatId.get(c.id)
+      if (cached && typeof c.senderKeyEpoch === 'number' && c.senderKeyEpoch !== cached.epoch) senderKeysByChatId.delete(c.id)
+    }
 
     // Best-effort: compute display names from encrypted metadata.
     if (privateKey.value && userId.value) {
@@ -1801,6 +2640,11 @@ export const useAuthStore = defineStore('auth', () => {
       )
       chats.value = withNames
     }
+    for (const c of chats.value) {
+      if (c.type !== 'personal' || !c.otherUserId || !c.otherPublicKey) continue
+      const name = c.name && c.name !== c.otherUserId ? c.name : null
+      void noteContactKey(c.otherUserId, c.otherPublicKey, name)
+    }
 
     // New server versions may include `lastMessage` on each chat.
     const nextLast: Record<string, AuthLastMessageWire | null> = {}
@@ -1815,15 +2659,16 @@ export const useAuthStore = defineStore('auth', () => {
         }
         const id = typeof lm?.id === 'string' ? String(lm.id) : ''
         const senderId = typeof lm?.senderId === 'string' ? String(lm.senderId) : ''
+        const sealed = lm?.sealed === true
         const encryptedData = typeof lm?.encryptedData === 'string' ? String(lm.encryptedData) : ''
         const signature = typeof lm?.signature === 'string' ? String(lm.signature) : ''
 
-        if (!id || !senderId || !encryptedData) {
+        if (!id || !(senderId || sealed) || !encryptedData) {
           nextLast[chatId] = null
           continue
         }
 
-        nextLast[chatId] = { id, chatId, senderId, encryptedData, signature }
+        nextLast[chatId] = { id, chatId, senderId, encryptedData, signature, sealed }
       }
     }
     lastMessageByChatId.value = nextLast
@@ -1835,23 +2680,31 @@ export const useAuthStore = defineStore('auth', () => {
         entries.map(async ([chatId, lm]) => {
           if (!lm) return null
           try {
-            const plain = await decryptMessageEnvelope({
-              encryptedData: lm.encryptedData,
-              myUserId: userId.value as string,
-              myPrivateKey: privateKey.value as CryptoKey,
-              objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
-              objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
-            })
+            // Only sealed previews are verified: their sender is otherwise unknown.
+            const opened = lm.sealed
+              ? await openIncomingMessage({ chatId, messageId: lm.id, senderId: '', encryptedData: lm.encryptedData, signature: '', sealed: true })
+              : null
+            if (opened?.verification === 'invalid') return null
+            const senderId = opened ? opened.senderId : lm.senderId
+            const plain =
+              opened?.plain ??
+              (await decryptChatMessage({
+                chatId,
+                messageId: lm.id,
+                senderId,
+                encryptedData: lm.encryptedData,
+              }))
             const tsMs = uuidV7ToUnixMs(lm.id) ?? 0
-            const text = typeof plain?.text === 'string' ? plain.text : ''
-            const senderUsername = await resolveDisplayNameInChat(chatId, lm.senderId)
+            const text = previewTextOf(plain)
+            const senderUsername = await resolveDisplayNameInChat(chatId, senderId)
             const preview: AuthLastMessagePreview = {
               id: lm.id,
               chatId,
-              senderId: lm.senderId,
+              senderId,
               senderUsername,
               tsMs,
               text,
+              expiresAtMs: messageExpiresAtMs(plain),
             }
             return { chatId, preview }
           } catch {
@@ -1900,7 +2753,11 @@ export const useAuthStore = defineStore('auth', () => {
     const list: AuthChatMember[] = Array.isArray(j.members)
       ? j.members
           .filter((m: any) => m && typeof m.userId === 'string' && typeof m.publicKey === 'string')
-          .map((m: any) => ({ userId: String(m.userId), publicKey: String(m.publicKey) }))
+          .map((m: any) => ({
+            userId: String(m.userId),
+            publicKey: String(m.publicKey),
+            envelopeVersions: parseEnvelopeVersions(m.envelopeVersions),
+          }))
       : []
 
     let out = list
@@ -1917,6 +2774,8 @@ export const useAuthStore = defineStore('auth', () => {
       // ignore
     }
 
+    for (const m of out) void noteContactKey(m.userId, m.publicKey, m.username && m.username !== m.userId ? m.username : null)
+
     membersByChatId.value = { ...membersByChatId.value, [chatId]: out }
     return out
   }
@@ -1972,6 +2831,7 @@ export const useAuthStore = defineStore('auth', () => {
     if (!token.value) return
     const ids = Array.isArray(messageIds) ? messageIds.map(String).filter(Boolean) : []
     if (!ids.length) return
+    forgetMentions(chatId, ids)
     try {
       const j = await fetchJson('/api/messages/mark-read', {
         method: 'POST',
@@ -1988,6 +2848,34 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
+  function forgetMentions(chatId: string, messageIds: string[]) {
+    const cur = unreadMentionsByChatId.value[chatId]
+    if (!cur?.length) return
+    const next = cur.filter((id) => !messageIds.includes(id))
+    if (next.length === cur.length) return
+    const { [chatId]: _m, ...rest } = unreadMentionsByChatId.value
+    unreadMentionsByChatId.value = next.length ? { ...rest, [chatId]: next } : rest
+  }
+
+  // Mentions that came in while no device of ours was listening only surface when their page
+  // loads; those still unread join the realtime ones, kept oldest first.
+  async function noteUnreadMentions(chatId: string, messages: AuthDecryptedMessage[]) {
+    const me = userId.value
+    if (!me) return
+    const mentioning = messages.filter((m) => m.senderId !== me && m.mentions?.includes(me)).map((m) => m.id)
+    if (!mentioning.length) return
+    let unread: Set<string>
+    try {
+      unread = new Set(await listUnreadMessageIds(chatId))
+    } catch {
+      return
+    }
+    const cur = unreadMentionsByChatId.value[chatId] ?? []
+    const added = mentioning.filter((id) => unread.has(id) && !cur.includes(id))
+    if (!added.length) return
+    unreadMentionsByChatId.value = { ...unreadMentionsByChatId.value, [chatId]: [...cur, ...added].sort() }
+  }
+
   async function listUnreadMessageIds(chatId: string, limit = 500) {
     const j = await fetchJson(`/api/messages/unread?chatId=${encodeURIComponent(chatId)}&limit=${encodeURIComponent(String(limit))}`, {
       headers: { ...authHeaders() },
@@ -2022,7 +2910,7 @@ export const useAuthStore = defineStore('auth', () => {
     })
   }
 
-  async function updateMessageText(chatId: string, messageId: string, text: string) {
+  async function updateMessageText(chatId: string, messageId: string, text: string, mentionIds?: string[]) {
     const t = text.trim()
     if (!t) return
     if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
@@ -2035,6 +2923,10 @@ export const useAuthStore = defineStore('auth', () => {
     const atIso = existing?.atIso ?? new Date().toISOString()
     const modifiedAtIso = new Date().toISOString()
     const replyToId = existing?.replyToId ?? null
+    const attachments = existing?.attachments ?? []
+    const timerSeconds = existing?.timerSeconds ?? 0
+    const notice = existing?.notice ?? null
+    if (notice) throw new Error('Notices cannot be edited')
 
     let recipients: Array<{ userId: string; publicKeyJwk: string }> = []
 
@@ -2050,21 +2942,21 @@ export const useAuthStore = defineStore('auth', () => {
       if (!recipients.length) throw new Error('No recipients')
     }
 
-    const encryptedData = await encryptMessageEnvelope({
-      plaintext: { text: t, atIso, replyToId, modifiedAtIso },
-      recipients,
-      objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
-      objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
+    const forwardedFrom = existing?.forwardedFrom ?? null
+    const mentions = mentionIds ? cleanMentions(mentionIds) : existing?.mentions ?? []
+    const plaintext: ChatMessagePlain = { text: t, atIso, replyToId, modifiedAtIso, attachments, timerSeconds, forwardedFrom, mentions }
+    const encryptedData = await withSenderKeyRetry(chatId, async () => {
+      const enc = await encryptChatMessage({ chat, plaintext, recipients })
+      if (utf8ByteLength(enc) > MAX_ENCRYPTED_MESSAGE_BYTES) throw new Error(ERR_ENCRYPTED_TOO_LARGE)
+      await updateMessage(chatId, messageId, enc)
+      return enc
     })
-
-    if (utf8ByteLength(encryptedData) > MAX_ENCRYPTED_MESSAGE_BYTES) throw new Error(ERR_ENCRYPTED_TOO_LARGE)
-
-    await updateMessage(chatId, messageId, encryptedData)
+    await rememberOwnRatchetMessage(chatId, messageId, encryptedData, plaintext)
 
     // Optimistic local patch (realtime update is best-effort).
     const next: AuthDecryptedMessage[] = cur.map((m): AuthDecryptedMessage =>
       m.id === messageId
-        ? { ...m, senderId: userId.value as string, atIso, modifiedAtIso, fromUsername: username.value as string, text: t, replyToId, verification: 'verified' }
+        ? { ...m, senderId: userId.value as string, atIso, modifiedAtIso, fromUsername: username.value as string, text: t, replyToId, attachments, mentions, verification: 'verified' }
         : m,
     )
     messagesByChatId.value = { ...messagesByChatId.value, [chatId]: next }
@@ -2082,9 +2974,18 @@ export const useAuthStore = defineStore('auth', () => {
 
   function removeChatLocal(chatId: string) {
     chats.value = chats.value.filter((c) => c.id !== chatId)
+    forgetRatchetChat(chatId)
+    void getSearchIndex()
+      .then((index) => index?.dropChat(chatId))
+      .catch(() => null)
+    senderKeysByChatId.delete(chatId)
+    deliveryTokenByChatId.delete(chatId)
     const { [chatId]: _u, ...restUnread } = unreadByChatId.value
     unreadByChatId.value = restUnread
+    const { [chatId]: _mn, ...restMentions } = unreadMentionsByChatId.value
+    unreadMentionsByChatId.value = restMentions
     const { [chatId]: _m, ...restMsgs } = messagesByChatId.value
+    for (const m of _m ?? []) delete reactionsByMessageId.value[m.id]
     messagesByChatId.value = restMsgs
     const { [chatId]: _mm, ...restMembers } = membersByChatId.value
     membersByChatId.value = restMembers
@@ -2121,6 +3022,8 @@ export const useAuthStore = defineStore('auth', () => {
     return { userId: userIdOut, publicKey: publicKeyOut }
   }
 
+  // Chat names go out on the legacy layout, unbucketed, to members of any client age; they get
+  // no size buckets until chat metadata negotiates a version of its own.
   async function encryptChatTextToRecipients(params: {
     text: string
     recipients: Array<{ userId: string; publicKeyJwk: string }>
@@ -2137,210 +3040,1100 @@ export const useAuthStore = defineStore('auth', () => {
     if (!privateKey.value || !userId.value) return null
     const s = String(enc ?? '')
     if (!s) return null
+    const myUserId = userId.value
     try {
-      const plain = await decryptMessageEnvelope({
-        encryptedData: s,
-        myUserId: userId.value,
-        myPrivateKey: privateKey.value,
-        objectPadMinChars: CHAT_META_OBJECT_PAD_MIN_CHARS,
-        objectPadMaxChars: CHAT_META_OBJECT_PAD_MAX_CHARS,
-      })
+      const plain = await withPrivateKeyFallback((myPrivateKey) =>
+        decryptMessageEnvelope({
+          encryptedData: s,
+          myUserId,
+          myPrivateKey,
+          objectPadMinChars: CHAT_META_OBJECT_PAD_MIN_CHARS,
+          objectPadMaxChars: CHAT_META_OBJECT_PAD_MAX_CHARS,
+        }),
+      )
       return typeof plain?.text === 'string' ? plain.text : ''
     } catch {
       return null
     }
   }
 
-  async function buildNamesJson(params: {
-    recipients: Array<{ userId: string; publicKeyJwk: string }>
-    namesPlainByUserId: Record<string, string>
-  }): Promise<Record<string, string>> {
-    const out: Record<string, string> = {}
-    for (const [uid, nm] of Object.entries(params.namesPlainByUserId ?? {})) {
-      const key = String(uid)
-      if (!key) continue
-      out[key] = await encryptChatTextToRecipients({ text: String(nm ?? ''), recipients: params.recipients })
-    }
-    return out
+  function ratchetEnvelopeTag(encryptedData: string) {
+    return String(encryptedData ?? '').slice(-RATCHET_CACHE_TAG_CHARS)
   }
 
-  async function resolveDisplayNameInChat(chatId: string, subjectUserId: string): Promise<string> {
-    const uid = String(subjectUserId ?? '')
-    if (!uid) return ''
+  function publishRatchetFlags(vault: RatchetVaultPlain | null) {
+    const next: Record<string, boolean> = {}
+    for (const [cid, st] of Object.entries(vault?.chats ?? {})) if (st.on) next[cid] = true
+    ratchetEnabledByChatId.value = next
+  }
 
-    if (userId.value && username.value && String(uid) === String(userId.value)) return username.value
+  // Null when IndexedDB is unavailable: the cache is then kept for this session only.
+  function loadRatchetCacheKey(uid: string) {
+    if (!ratchetCacheKey) {
+      ratchetCacheKey = (async () => {
+        const cur = await localData.idbRecordGet<CryptoKey>(LocalEntity.IdbRatchetCacheKey, uid)
+        if (cur) return cur
+        const next = await generateRatchetCacheKey()
+        await localData.idbRecordSet(LocalEntity.IdbRatchetCacheKey, uid, next)
+        return (await localData.idbRecordGet<CryptoKey>(LocalEntity.IdbRatchetCacheKey, uid)) ? next : null
+      })().catch(() => null)
+    }
+    return ratchetCacheKey
+  }
 
-    const chat = getChat(chatId)
-    if (!chat) return uid
+  // The next save seals the cache under a fresh key; the blob under the old one is overwritten.
+  async function rotateRatchetCacheKey(uid: string) {
+    await localData.idbRecordSet(LocalEntity.IdbRatchetCacheKey, uid, null)
+    ratchetCacheKey = null
+  }
 
-    const names = (chat.names && typeof chat.names === 'object') ? chat.names : null
-    const enc = names && typeof (names as any)[uid] === 'string' ? String((names as any)[uid]) : ''
-    const dec = await decryptChatTextFromEnvelope(enc)
-    if (dec) return dec
+  async function readRatchetMessageCache(uid: string, stored: RatchetVaultStored) {
+    if (stored.msgs) return stored.msgs
+    const key = stored.mc ? await loadRatchetCacheKey(uid) : null
+    if (!stored.mc || !key) return {}
+    try {
+      const parsed = JSON.parse(await openRatchetCache(stored.mc, key)) as Record<string, RatchetCachedMessage> | null
+      return parsed && typeof parsed === 'object' ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
 
-    if (chat.type === 'personal' && chat.otherUserId && String(chat.otherUserId) === uid && typeof chat.name === 'string' && chat.name) {
-      return chat.name
+  async function readRatchetVault(uid: string, jwk: string): Promise<RatchetVaultPlain> {
+    const all = localData.getJson<Record<string, string>>(LocalEntity.AuthRatchets) ?? {}
+    const blob = typeof all[uid] === 'string' ? all[uid] : ''
+    if (blob) {
+      try {
+        const parsed = JSON.parse(await openRatchetVault(blob, jwk)) as Partial<RatchetVaultStored> | null
+        if (parsed && parsed.v === 1 && parsed.chats) {
+          return { v: 1, chats: parsed.chats, msgs: await readRatchetMessageCache(uid, parsed as RatchetVaultStored) }
+        }
+      } catch {
+        // Unreadable (e.g. key changed): start over; old ratchet messages stay undecryptable.
+      }
     }
+    return { v: 1, chats: {}, msgs: {} }
+  }
 
-    return uid
+  async function loadRatchetVault(): Promise<RatchetVaultPlain | null> {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return null
+    if (ratchetVaultUserId !== uid || !ratchetVault) {
+      if (ratchetVaultUserId !== uid) ratchetCacheKey = null
+      ratchetVaultUserId = uid
+      ratchetVault = readRatchetVault(uid, jwk).then((vault) => {
+        publishRatchetFlags(vault)
+        return vault
+      })
+    }
+    return await ratchetVault
   }
 
-  function resolveSenderPublicKeyJwk(chatId: string, senderId: string): string | null {
-    const sid = String(senderId ?? '')
-    if (!sid) return null
+  async function saveRatchetVault(vault: RatchetVaultPlain) {
+    const uid = ratchetVaultUserId
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return
 
-    if (userId.value && publicKeyJwk.value && String(sid) === String(userId.value)) {
-      return publicKeyJwk.value
-    }
+    const ids = Object.keys(vault.msgs)
+    for (let i = 0; i < ids.length - RATCHET_CACHE_MAX_MESSAGES; i++) delete vault.msgs[ids[i]!]
+
+    const key = await loadRatchetCacheKey(uid)
+    const stored: RatchetVaultStored = { v: 1, chats: vault.chats }
+    if (key) stored.mc = await sealRatchetCache(JSON.stringify(vault.msgs), key)
+
+    const blob = await sealRatchetVault(JSON.stringify(stored), jwk)
+    const all = localData.getJson<Record<string, string>>(LocalEntity.AuthRatchets) ?? {}
+    localData.setJson(LocalEntity.AuthRatchets, { ...all, [uid]: blob })
+  }
+
+  // Ratchet steps must not interleave; every access goes through this queue.
+  function withRatchetVault<T>(fn: (vault: RatchetVaultPlain) => Promise<T>): Promise<T> {
+    const run = ratchetQueue.then(async () => {
+      const vault = await loadRatchetVault()
+      if (!vault) throw new Error('Not unlocked')
+      const out = await fn(vault)
+      await saveRatchetVault(vault)
+      publishRatchetFlags(vault)
+      return out
+    })
+    ratchetQueue = run.catch(() => null)
+    return run
+  }
 
+  function getRatchetChat(vault: RatchetVaultPlain, chatId: string) {
+    const cur = vault.chats[chatId]
+    if (cur) return cur
+    const created = { on: false, active: null, sessions: {} }
+    vault.chats[chatId] = created
+    return created
+  }
+
+  async function setChatRatchetEnabled(chatId: string, next: boolean) {
     const chat = getChat(chatId)
-    if (!chat) return null
+    if (!chat || chat.type !== 'personal') throw new Error('Forward secrecy is only available in private chats')
+    if (next && !(await isRatchetSupported())) throw new Error('This browser does not support X25519')
+    await withRatchetVault(async (vault) => {
+      getRatchetChat(vault, chatId).on = Boolean(next)
+    })
+  }
 
-    if (chat.type === 'personal') {
-      if (chat.otherUserId && String(chat.otherUserId) === sid && chat.otherPublicKey) return String(chat.otherPublicKey)
-      return null
+  function forgetRatchetChat(chatId: string) {
+    if (!ratchetVault) return
+    void withRatchetVault(async (vault) => {
+      delete vault.chats[chatId]
+      for (const [mid, m] of Object.entries(vault.msgs)) if (m.c === chatId) delete vault.msgs[mid]
+    }).catch(() => null)
+  }
+
+  function forgetRatchetMessages(messageIds: string[]) {
+    if (!ratchetVault) return
+    void (async () => {
+      const cur = await loadRatchetVault()
+      if (!cur || !messageIds.some((id) => cur.msgs[id])) return
+      await withRatchetVault(async (vault) => {
+        for (const id of messageIds) delete vault.msgs[id]
+      })
+    })().catch(() => null)
+  }
+
+  async function rememberOwnRatchetMessage(chatId: string, messageId: string, encryptedData: string, plain: ChatMessagePlain) {
+    if (getMessageEnvelopeFormat(encryptedData) !== 'ratchet') return
+    try {
+      await withRatchetVault(async (vault) => {
+        vault.msgs[messageId] = {
+          c: chatId,
+          h: ratchetEnvelopeTag(encryptedData),
+          t: plain.text,
+          at: plain.atIso,
+          a: plain.replyToId,
+          mt: plain.modifiedAtIso,
+          f: plain.attachments,
+          x: plain.timerSeconds,
+          n: plain.notice,
+          w: plain.forwardedFrom,
+          m: plain.mentions,
+        }
+      })
+    } catch {
+      // ignore; the message was sent, only the local copy is missing
     }
+  }
 
-    const members = membersByChatId.value[chatId] ?? []
-    const m = members.find((x) => String(x.userId) === sid)
-    return m?.publicKey ? String(m.publicKey) : null
+  function readFingerprintMap(v: unknown): Record<string, string> {
+    const out: Record<string, string> = {}
+    if (!v || typeof v !== 'object' || Array.isArray(v)) return out
+    for (const [k, fp] of Object.entries(v as Record<string, unknown>)) if (typeof fp === 'string') out[k] = fp
+    return out
   }
 
-  async function verifyIncomingEnvelope(params: {
-    chatId: string
-    senderId: string
-    encryptedData: string
-    signature: string
-  }): Promise<boolean | null> {
-    const sig = String(params.signature ?? '')
-    if (!sig) return null
+  function contactNameKey(name: string | null | undefined) {
+    return String(name ?? '').trim().toLowerCase()
+  }
 
-    let pubJwk = resolveSenderPublicKeyJwk(params.chatId, params.senderId)
-    if (!pubJwk) {
-      const chat = getChat(params.chatId)
-      if (chat?.type === 'group') {
-        try {
-          await ensureChatMembers(params.chatId)
-        } catch {
-          // ignore
+  async function loadVerifiedContacts(): Promise<void> {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return
+    if (verifiedContactsUserId === uid && verifiedContactsLoad) return await verifiedContactsLoad
+
+    verifiedContactsUserId = uid
+    verifiedContactsLoad = (async () => {
+      const all = localData.getJson<Record<string, string>>(LocalEntity.AuthVerifiedContacts) ?? {}
+      const blob = typeof all[uid] === 'string' ? all[uid] : ''
+      if (!blob) return
+      try {
+        const parsed = JSON.parse(await openLocalVault(blob, jwk, VERIFIED_CONTACTS_VAULT_INFO)) as any
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return
+        // Older vaults are a flat userId -> verified fingerprint map.
+        if (parsed.v !== 1) {
+          verifiedFingerprintByUserId.value = readFingerprintMap(parsed)
+          return
         }
-        pubJwk = resolveSenderPublicKeyJwk(params.chatId, params.senderId)
+        verifiedFingerprintByUserId.value = readFingerprintMap(parsed.verified)
+        pinnedFingerprintByUserId.value = readFingerprintMap(parsed.pinned)
+        pinnedFingerprintByName.value = readFingerprintMap(parsed.pinnedNames)
+        pinAnchorByUserId.value = readFingerprintMap(parsed.anchors)
+      } catch {
+        // Unreadable (e.g. key changed): contacts need to be verified again.
       }
-    }
-    if (!pubJwk) return null
+    })()
+    return await verifiedContactsLoad
+  }
 
-    const verifyKey = await getVerifyKeyFromPublicJwk(pubJwk)
-    return await verifyEnvelope({
-      verifyKey,
-      signatureB64: sig,
-      senderId: String(params.senderId),
-      chatId: String(params.chatId),
-      encryptedData: String(params.encryptedData),
+  async function saveVerifiedContacts() {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return
+    const plain = JSON.stringify({
+      v: 1,
+      verified: verifiedFingerprintByUserId.value,
+      pinned: pinnedFingerprintByUserId.value,
+      pinnedNames: pinnedFingerprintByName.value,
+      anchors: pinAnchorByUserId.value,
     })
+    const blob = await sealLocalVault(plain, jwk, VERIFIED_CONTACTS_VAULT_INFO)
+    const all = localData.getJson<Record<string, string>>(LocalEntity.AuthVerifiedContacts) ?? {}
+    localData.setJson(LocalEntity.AuthVerifiedContacts, { ...all, [uid]: blob })
   }
 
-  async function getIncomingEnvelopeVerification(params: {
-    chatId: string
-    senderId: string
-    encryptedData: string
-    signature: string
-  }): Promise<AuthMessageVerification | 'invalid'> {
+  function setKeyChanged(uid: string, changed: boolean) {
+    if (Boolean(keyChangedByUserId.value[uid]) === changed) return
+    const { [uid]: _prev, ...rest } = keyChangedByUserId.value
+    keyChangedByUserId.value = changed ? { ...rest, [uid]: true } : rest
+  }
+
+  // Records the key the server reports for a contact and compares it to the pinned one.
+  // A userId we have never seen is also flagged when its name was pinned to another key:
+  // that is what re-registering under the same name looks like from here.
+  async function noteContactKey(uid: string, publicKeyJwkValue: string, name?: string | null) {
+    if (!uid || (userId.value && uid === String(userId.value))) return
+    let fp: string
     try {
-      const ok = await verifyIncomingEnvelope(params)
-      if (ok === false) return 'invalid'
-      return ok === true ? 'verified' : 'unverifiable'
+      fp = await publicKeyFingerprint(publicKeyJwkValue)
     } catch {
-      return 'unverifiable'
+      // ignore malformed keys; the contact simply cannot be verified
+      return
     }
-  }
-
-  async function createPersonalChat(friendUsername: string) {
-    const u = friendUsername.trim()
-    if (!u) throw new Error('Username required')
+    if (keyFingerprintByUserId.value[uid] !== fp) keyFingerprintByUserId.value = { ...keyFingerprintByUserId.value, [uid]: fp }
 
-    if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
+    try {
+      await loadVerifiedContacts()
+    } catch {
+      // ignore; pins are compared again on the next call
+    }
+    const nameKey = contactNameKey(name)
+    if (nameKey) contactNameKeyByUserId.set(uid, nameKey)
+    const pinnedByUser = pinnedFingerprintByUserId.value[uid]
+    const pinnedByName = nameKey ? pinnedFingerprintByName.value[nameKey] : undefined
+
+    if (!pinnedByUser) {
+      if (pinnedByName && pinnedByName !== fp) {
+        setKeyChanged(uid, true)
+        return
+      }
+      pinnedFingerprintByUserId.value = { ...pinnedFingerprintByUserId.value, [uid]: fp }
+      pinAnchorByUserId.value = { ...pinAnchorByUserId.value, [uid]: fp }
+      if (nameKey && !pinnedByName) pinnedFingerprintByName.value = { ...pinnedFingerprintByName.value, [nameKey]: fp }
+      setKeyChanged(uid, false)
+      await saveVerifiedContacts().catch(() => null)
+      return
+    }
 
-    // Avoid creating a private chat with yourself.
-    if (username.value && u.toLowerCase() === String(username.value).toLowerCase()) {
-      throw new Error('self')
+    if (pinnedByUser !== fp) {
+      // A rotation signed with the pinned key carries the pin over; anything else needs the user.
+      if (await followKeyRotations(uid, pinnedByUser, String(publicKeyJwkValue).trim())) {
+        await followPinnedRotation(uid, pinnedByUser, fp)
+      } else {
+        setKeyChanged(uid, true)
+      }
+      return
+    }
+    setKeyChanged(uid, false)
+    if (nameKey && !pinnedByName) {
+      pinnedFingerprintByName.value = { ...pinnedFingerprintByName.value, [nameKey]: fp }
+      await saveVerifiedContacts().catch(() => null)
     }
+  }
 
-    const other = await lookupAuthUserByUsername(u)
+  function isContactKeyChanged(uid: string): boolean {
+    return Boolean(keyChangedByUserId.value[String(uid)])
+  }
 
-    const recipients = [
-      { userId: userId.value, publicKeyJwk: publicKeyJwk.value },
-      { userId: other.userId, publicKeyJwk: other.publicKey },
-    ]
+  // Pins whatever key the server reports now. The verified mark (if any) no longer matches.
+  async function acceptContactKeyChange(uid: string) {
+    await loadVerifiedContacts()
+    const fp = keyFingerprintByUserId.value[uid]
+    if (!fp) throw new Error('unknown_contact')
+    pinnedFingerprintByUserId.value = { ...pinnedFingerprintByUserId.value, [uid]: fp }
+    pinAnchorByUserId.value = { ...pinAnchorByUserId.value, [uid]: fp }
+    const nameKey = contactNameKeyByUserId.get(uid)
+    if (nameKey) pinnedFingerprintByName.value = { ...pinnedFingerprintByName.value, [nameKey]: fp }
+    setKeyChanged(uid, false)
+    await saveVerifiedContacts()
+  }
 
-    const names = await buildNamesJson({
-      recipients,
-      namesPlainByUserId: {
-        [userId.value]: username.value,
-        [other.userId]: u,
-      },
-    })
+  // Nothing gets encrypted to a contact whose key changed until the user accepts it.
+  async function assertContactKeysUnchanged(contacts: Array<{ userId: string; publicKey: string; name?: string | null }>) {
+    await Promise.all(contacts.map((c) => noteContactKey(c.userId, c.publicKey, c.name)))
+    if (contacts.some((c) => isContactKeyChanged(c.userId))) throw new Error('key_changed')
+  }
 
-    const j = await fetchJson('/api/chats/create-personal', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', ...authHeaders() },
-      body: JSON.stringify({ otherUserId: other.userId, names }),
-    })
+  async function assertRecipientKeysUnchanged(chatId: string, recipients: Array<{ userId: string; publicKeyJwk: string }>) {
+    const chat = getChat(chatId)
+    const members = membersByChatId.value[chatId] ?? []
+    await assertContactKeysUnchanged(
+      recipients.map((r) => {
+        const name =
+          chat?.type === 'personal' && chat.otherUserId === r.userId
+            ? chat.name
+            : members.find((m) => m.userId === r.userId)?.username
+        return { userId: r.userId, publicKey: r.publicKeyJwk, name: name && name !== r.userId ? name : null }
+      }),
+    )
+  }
 
-    await refreshChats()
+  function isContactVerified(uid: string): boolean {
+    const fp = keyFingerprintByUserId.value[String(uid)]
+    return Boolean(fp && verifiedFingerprintByUserId.value[String(uid)] === fp)
+  }
 
-    if (j?.chat?.id) {
-      await openChat(String(j.chat.id))
+  // The key we would encrypt to for this user, and a chat we share (for display-name lookup).
+  function findKnownContactKey(uid: string): { chatId: string; publicKeyJwk: string } | null {
+    for (const c of chats.value) {
+      if (c.type === 'personal' && c.otherUserId === uid && c.otherPublicKey) return { chatId: c.id, publicKeyJwk: c.otherPublicKey }
     }
+    for (const [chatId, members] of Object.entries(membersByChatId.value)) {
+      const m = members.find((x) => x.userId === uid)
+      if (m?.publicKey) return { chatId, publicKeyJwk: m.publicKey }
+    }
+    return null
+  }
 
+  async function getSafetyNumber(otherUserId: string, otherPublicKeyJwk: string): Promise<string[]> {
+    if (!userId.value || !publicKeyJwk.value) throw new Error('Not logged in')
+    return await computeSafetyNumber(
+      { userId: userId.value, publicKeyJwk: publicKeyJwk.value },
+      { userId: otherUserId, publicKeyJwk: otherPublicKeyJwk },
+    )
   }
 
-  async function createGroupChat(name: string) {
-    const n = name.trim()
-    if (!n) throw new Error('Name required')
+  async function getMyVerificationQrText(): Promise<string> {
+    if (!userId.value || !publicKeyJwk.value) throw new Error('Not logged in')
+    return buildVerificationQrText(userId.value, await publicKeyFingerprint(publicKeyJwk.value))
+  }
 
-    if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
+  // Pass the key that was compared; null removes the mark.
+  async function setContactVerified(uid: string, publicKeyJwkValue: string | null) {
+    await loadVerifiedContacts()
+    const { [uid]: _prev, ...rest } = verifiedFingerprintByUserId.value
+    if (publicKeyJwkValue) {
+      const fp = await publicKeyFingerprint(publicKeyJwkValue)
+      verifiedFingerprintByUserId.value = { ...rest, [uid]: fp }
+      await noteContactKey(uid, publicKeyJwkValue)
+    } else {
+      verifiedFingerprintByUserId.value = rest
+    }
+    await saveVerifiedContacts()
+  }
 
-    const recipients = [{ userId: userId.value, publicKeyJwk: publicKeyJwk.value }]
-    const chatNameEnc = await encryptChatTextToRecipients({ text: n, recipients })
-    const names = await buildNamesJson({ recipients, namesPlainByUserId: { [userId.value]: username.value } })
+  async function verifyContactFromQr(text: string): Promise<{ userId: string; name: string }> {
+    const parsed = parseVerificationQrText(text)
+    if (!parsed) throw new Error('invalid_code')
+    if (userId.value && parsed.userId === String(userId.value).toLowerCase()) throw new Error('self')
 
-    const j = await fetchJson('/api/chats/create-group', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', ...authHeaders() },
-      body: JSON.stringify({ chatNameEnc, names }),
-    })
+    const known = findKnownContactKey(parsed.userId)
+    if (!known) throw new Error('unknown_contact')
+    if ((await publicKeyFingerprint(known.publicKeyJwk)) !== parsed.fingerprint) throw new Error('key_mismatch')
 
-    await refreshChats()
-    if (j?.chat?.id) await openChat(String(j.chat.id))
+    await setContactVerified(parsed.userId, known.publicKeyJwk)
+    return { userId: parsed.userId, name: await resolveDisplayNameInChat(known.chatId, parsed.userId) }
   }
 
-  async function addGroupMember(chatId: string, memberUsername: string) {
-    const u = memberUsername.trim()
-    if (!u) throw new Error('Username required')
+  async function readPreviousKeyJwks(uid: string, jwk: string): Promise<string[]> {
+    const all = localData.getJson<Record<string, string>>(LocalEntity.AuthPreviousKeys) ?? {}
+    const blob = typeof all[uid] === 'string' ? all[uid] : ''
+    if (!blob) return []
+    try {
+      const parsed = JSON.parse(await openLocalVault(blob, jwk, PREVIOUS_KEYS_VAULT_INFO)) as unknown
+      return Array.isArray(parsed) ? parsed.filter((x): x is string => typeof x === 'string' && Boolean(x)) : []
+    } catch {
+      return []
+    }
+  }
 
-    if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
+  async function loadPreviousPrivateKeys(): Promise<CryptoKey[]> {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return []
+    if (previousKeysUserId !== uid || !previousKeysLoad) {
+      previousKeysUserId = uid
+      previousKeysLoad = (async () => {
+        const out: CryptoKey[] = []
+        for (const old of await readPreviousKeyJwks(uid, jwk)) {
+          try {
+            out.push(await importRsaPrivateKeyJwk(old))
+          } catch {
+            // ignore
+          }
+        }
+        return out
+      })()
+    }
+    return await previousKeysLoad
+  }
 
-    const chat = getChat(chatId)
-    if (!chat || chat.type !== 'group') throw new Error('not_group')
+  // Anything wrapped to us before a key rotation needs the key we had back then.
+  async function withPrivateKeyFallback<T>(fn: (key: CryptoKey) => Promise<T>): Promise<T> {
+    const current = privateKey.value
+    if (!current) throw new Error('Not unlocked')
+    try {
+      return await fn(current)
+    } catch (e) {
+      for (const old of await loadPreviousPrivateKeys()) {
+        try {
+          return await fn(old)
+        } catch {
+          // try the next one
+        }
+      }
+      throw e
+    }
+  }
 
-    const other = await lookupAuthUserByUsername(u)
+  // The user's rotations as published by the server, cut at the first link that does not verify.
+  async function fetchKeyRotations(uid: string): Promise<KeyRotation[]> {
+    const cached = keyRotationsByUserId.get(uid)
+    if (cached) return await cached
 
-    const curMembers = await ensureChatMembers(chatId)
-    const recipients: Array<{ userId: string; publicKeyJwk: string }> = [
-      ...curMembers.map((m) => ({ userId: m.userId, publicKeyJwk: m.publicKey })),
-      { userId: other.userId, publicKeyJwk: other.publicKey },
-    ]
+    const run = (async () => {
+      const j = await fetchJson(`/api/users/key-rotations?userId=${encodeURIComponent(uid)}`, {
+        headers: { ...authHeaders() },
+      })
+      const wire: any[] = Array.isArray(j?.rotations) ? j.rotations : []
+      const out: KeyRotation[] = []
+      for (const r of wire) {
+        const rotation: KeyRotation = {
+          oldPublicKey: typeof r?.oldPublicKey === 'string' ? r.oldPublicKey : '',
+          newPublicKey: typeof r?.newPublicKey === 'string' ? r.newPublicKey : '',
+          signature: typeof r?.signature === 'string' ? r.signature : '',
+          rotationId: typeof r?.rotationId === 'string' ? r.rotationId : '',
+        }
+        const prev = out[out.length - 1]
+        if (prev && prev.newPublicKey !== rotation.oldPublicKey) break
+        if (!(await verifyKeyRotation({ userId: uid, ...rotation, signatureB64: rotation.signature }))) break
+        out.push(rotation)
+      }
+      return out
+    })()
 
-    const groupNamePlain =
-      (await decryptChatTextFromEnvelope(chat.chatNameEnc ?? '')) ??
-      (typeof chat.name === 'string' ? chat.name : '')
+    keyRotationsByUserId.set(uid, run)
+    try {
+      return await run
+    } catch (e) {
+      keyRotationsByUserId.delete(uid)
+      throw e
+    }
+  }
 
-    const chatNameEnc = await encryptChatTextToRecipients({ text: groupNamePlain || 'Group', recipients })
+  // The part of the chain that starts at the key with `fromFingerprint`; empty when it is not on it.
+  async function keyRotationsFrom(rotations: KeyRotation[], fromFingerprint: string) {
+    for (let i = rotations.length - 1; i >= 0; i--) {
+      if ((await publicKeyFingerprint(rotations[i]!.oldPublicKey)) === fromFingerprint) return rotations.slice(i)
+    }
+    return []
+  }
 
-    // Re-encrypt all existing per-user name blobs to include the new recipient,
-    // and add a blob for the new member using the entered username.
-    const curNames = (chat.names && typeof chat.names === 'object') ? chat.names : {}
-    const namesPlainByUserId: Record<string, string> = {}
+  // True when a signed chain of rotations leads from the key with `fromFingerprint` to `toPublicKey`.
+  async function followKeyRotations(uid: string, fromFingerprint: string, toPublicKey: string): Promise<boolean> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (attempt > 0) keyRotationsByUserId.delete(uid)
+      let rotations: KeyRotation[]
+      try {
+        rotations = await fetchKeyRotations(uid)
+      } catch {
+        return false
+      }
+      if ((await keyRotationsFrom(rotations, fromFingerprint)).some((r) => r.newPublicKey === toPublicKey)) return true
+    }
+    return false
+  }
+
+  // Where a sender's trusted key history begins: the key a contact's pin started from, or for
+  // our own messages the oldest key this device still holds.
+  async function keyHistoryAnchor(uid: string): Promise<string | null> {
+    if (uid === userId.value) {
+      const jwk = lastPrivateJwkJsonForStay
+      const previous = jwk ? await readPreviousKeyJwks(uid, jwk) : []
+      const oldest = previous[previous.length - 1]
+      return oldest ? await publicKeyFingerprint(publicJwkFromPrivateJwk(oldest)) : null
+    }
+    await loadVerifiedContacts()
+    return pinAnchorByUserId.value[uid] ?? pinnedFingerprintByUserId.value[uid] ?? null
+  }
+
+  // Moves the pins from a key the contact rotated away from to its successor.
+  async function followPinnedRotation(uid: string, fromFingerprint: string, toFingerprint: string) {
+    pinnedFingerprintByUserId.value = { ...pinnedFingerprintByUserId.value, [uid]: toFingerprint }
+    const names: Record<string, string> = { ...pinnedFingerprintByName.value }
+    const nameKey = contactNameKeyByUserId.get(uid)
+    if (nameKey && names[nameKey] === fromFingerprint) names[nameKey] = toFingerprint
+    pinnedFingerprintByName.value = names
+    setKeyChanged(uid, false)
+    await saveVerifiedContacts().catch(() => null)
+  }
+
+  // A contact rotated keys. Unsigned or forged events are ignored; the next refresh would
+  // then surface the new key as an unexplained change.
+  async function onContactKeyRotated(uid: string, ev: Record<string, unknown>) {
+    const rotation: Omit<KeyRotation, 'rotationId'> = {
+      oldPublicKey: typeof ev.previousPublicKey === 'string' ? ev.previousPublicKey : '',
+      newPublicKey: typeof ev.publicKey === 'string' ? ev.publicKey : '',
+      signature: typeof ev.signature === 'string' ? ev.signature : '',
+    }
+    if (!(await verifyKeyRotation({ userId: uid, ...rotation, signatureB64: rotation.signature }))) return
+
+    // Group epochs moved with the rotation, so the refresh also drops stale sender keys.
+    keyRotationsByUserId.delete(uid)
+    try {
+      await refreshChats()
+      for (const [chatId, members] of Object.entries(membersByChatId.value)) {
+        if (members.some((m) => m.userId === uid)) await fetchChatMembers(chatId)
+      }
+    } catch {
+      // ignore
+    }
+  }
+
+  async function fetchSenderKeys(chatId: string): Promise<ChatSenderKeys> {
+    const inflight = senderKeyFetchByChatId.get(chatId)
+    if (inflight) return await inflight
+
+    const run = (async () => {
+      if (!privateKey.value) throw new Error('Not unlocked')
+      const j = await fetchJson(`/api/chats/sender-keys?chatId=${encodeURIComponent(chatId)}`, {
+        headers: { ...authHeaders() },
+      })
+
+      const prev = senderKeysByChatId.get(chatId)
+      const next: ChatSenderKeys = { epoch: Number(j?.epoch) || 0, keys: new Map(prev?.keys ?? []) }
+      const wire: any[] = Array.isArray(j?.keys) ? j.keys : []
+      for (const k of wire) {
+        const keyId = typeof k?.keyId === 'string' ? k.keyId : ''
+        const senderId = typeof k?.senderId === 'string' ? k.senderId : ''
+        if (!keyId || !senderId || next.keys.has(keyId) || typeof k?.wrapped !== 'string') continue
+        try {
+          const key = await withPrivateKeyFallback((myPrivateKey) => unwrapSenderKey({ keyId, wrapped: k.wrapped, myPrivateKey }))
+          next.keys.set(keyId, { senderId, epoch: Number(k.epoch) || 0, key })
+        } catch {
+          // ignore; messages under this key stay unreadable
+        }
+      }
+
+      senderKeysByChatId.set(chatId, next)
+      return next
+    })()
+
+    senderKeyFetchByChatId.set(chatId, run)
+    try {
+      return await run
+    } finally {
+      senderKeyFetchByChatId.delete(chatId)
+    }
+  }
+
+  async function loadSenderKey(chatId: string, keyId: string): Promise<SenderKeyEntry | null> {
+    const hit = senderKeysByChatId.get(chatId)?.keys.get(keyId)
+    if (hit) return hit
+    const fresh = await fetchSenderKeys(chatId)
+    return fresh.keys.get(keyId) ?? null
+  }
+
+  // Our key for the chat's current epoch; a new one is wrapped for every member when the epoch moved.
+  async function ensureOwnSenderKey(chatId: string): Promise<{ keyId: string; key: Uint8Array }> {
+    const inflight = senderKeyRotationByChatId.get(chatId)
+    if (inflight) return await inflight
+
+    const run = (async () => {
+      const myUserId = userId.value
+      if (!myUserId) throw new Error('Not logged in')
+
+      let state = senderKeysByChatId.get(chatId) ?? (await fetchSenderKeys(chatId))
+      for (const [keyId, entry] of state.keys) {
+        if (entry.senderId === myUserId && entry.epoch === state.epoch) return { keyId, key: entry.key }
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        const members = await fetchChatMembers(chatId)
+        await assertRecipientKeysUnchanged(chatId, members.map((m) => ({ userId: m.userId, publicKeyJwk: m.publicKey })))
+        const created = createSenderKey()
+        const keys: Record<string, string> = {}
+        for (const m of members) {
+          keys[m.userId] = await wrapSenderKey({ keyId: created.keyId, key: created.key, publicKeyJwk: m.publicKey })
+        }
+
+        try {
+          const j = await fetchJson('/api/chats/sender-keys', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ chatId, epoch: state.epoch, keyId: created.keyId, keys }),
+          })
+          const epoch = Number(j?.epoch) || 0
+          state.epoch = epoch
+          state.keys.set(created.keyId, { senderId: myUserId, epoch, key: created.key })
+          return created
+        } catch (e) {
+          // Someone joined or left between our member fetch and the publish.
+          if (attempt > 0 || !(e instanceof Error) || e.message !== 'stale_members') throw e
+          state = await fetchSenderKeys(chatId)
+        }
+      }
+    })()
+
+    senderKeyRotationByChatId.set(chatId, run)
+    try {
+      return await run
+    } finally {
+      senderKeyRotationByChatId.delete(chatId)
+    }
+  }
+
+  // The server rejects group messages under a superseded key; re-key once and resend.
+  async function withSenderKeyRetry<T>(chatId: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn()
+    } catch (e) {
+      if (!(e instanceof Error) || e.message !== 'stale_sender_key') throw e
+      senderKeysByChatId.delete(chatId)
+      return await fn()
+    }
+  }
+
+  async function decryptChatMessage(params: {
+    chatId: string
+    messageId: string
+    senderId: string
+    encryptedData: string
+  }): Promise<ChatMessagePlain> {
+    const plain = await decryptChatEnvelope(params)
+    // Reactions have their own table; one replayed into the message stream is not a message.
+    if (plain.notice === 'reaction') throw new Error('Unsupported message format')
+    return plain
+  }
+
+  async function decryptChatEnvelope(params: {
+    chatId: string
+    messageId: string
+    senderId: string
+    encryptedData: string
+  }): Promise<ChatMessagePlain> {
+    if (!privateKey.value || !userId.value) throw new Error('Not unlocked')
+    const myUserId = userId.value
+    const myPrivateKey = privateKey.value
+    const format = getMessageEnvelopeFormat(params.encryptedData)
+
+    if (format === 'sender_key') {
+      const entry = await loadSenderKey(params.chatId, getSenderKeyEnvelopeKeyId(params.encryptedData))
+      // A key is bound to the member who published it.
+      if (!entry || entry.senderId !== String(params.senderId)) throw new Error('No key for recipient')
+      return await decryptMessageEnvelope({
+        encryptedData: params.encryptedData,
+        myUserId,
+        myPrivateKey,
+        objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
+        objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
+        senderKey: entry.key,
+      })
+    }
+
+    if (format !== 'ratchet') {
+      return await withPrivateKeyFallback((key) =>
+        decryptMessageEnvelope({
+          encryptedData: params.encryptedData,
+          myUserId,
+          myPrivateKey: key,
+          objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
+          objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
+        }),
+      )
+    }
+
+    const tag = ratchetEnvelopeTag(params.encryptedData)
+    const readCached = (vault: RatchetVaultPlain | null): ChatMessagePlain | null => {
+      const cached = vault?.msgs[params.messageId]
+      if (!cached || cached.c !== params.chatId || cached.h !== tag) return null
+      return {
+        text: cached.t,
+        atIso: cached.at,
+        replyToId: cached.a,
+        modifiedAtIso: cached.mt,
+        attachments: cached.f ?? [],
+        timerSeconds: cached.x ?? 0,
+        notice: cached.n ?? null,
+        forwardedFrom: cached.w ?? null,
+        mentions: cached.m ?? [],
+      }
+    }
+
+    // Re-rendering history is the common case; skip the queue (and re-sealing) for cache hits.
+    const hit = readCached(await loadRatchetVault())
+    if (hit) return hit
+
+    return await withRatchetVault(async (vault) => {
+      const cached = readCached(vault)
+      if (cached) return cached
+
+      // Our own ratchet messages carry no copy for us; they are readable only from the cache.
+      if (String(params.senderId) === String(myUserId)) throw new Error('No key for recipient')
+
+      const ratchetChat = getRatchetChat(vault, params.chatId)
+      const plain = await withPrivateKeyFallback((key) =>
+        decryptMessageEnvelope({
+          encryptedData: params.encryptedData,
+          myUserId,
+          myPrivateKey: key,
+          objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
+          objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
+          ratchet: ratchetChat,
+        }),
+      )
+
+      // The peer opted in; answer on the ratchet as well so both directions move forward.
+      ratchetChat.on = true
+      vault.msgs[params.messageId] = {
+        c: params.chatId,
+        h: tag,
+        t: plain.text,
+        at: plain.atIso,
+        a: plain.replyToId,
+        mt: plain.modifiedAtIso,
+        f: plain.attachments,
+        x: plain.timerSeconds,
+        n: plain.notice,
+        w: plain.forwardedFrom,
+        m: plain.mentions,
+      }
+      return plain
+    })
+  }
+
+  async function encryptChatMessage(params: {
+    chat: AuthChat
+    plaintext: ChatMessagePlain
+    recipients: Array<{ userId: string; publicKeyJwk: string }>
+    // Ratchet keys are single-use; payloads that are re-read from the server (reactions) opt out.
+    allowRatchet?: boolean
+    // Sealed sender; such payloads always go out on the RSA layouts.
+    seal?: { senderId: string; chatId: string; signingKey: CryptoKey }
+  }): Promise<string> {
+    const chat = params.chat
+    await assertRecipientKeysUnchanged(chat.id, params.recipients)
+    const canUse = (version: number) => pickChatEnvelopeVersion(chat, params.recipients, [version]) === version
+
+    if (
+      !params.seal &&
+      params.allowRatchet !== false &&
+      chat.type === 'personal' &&
+      chat.otherPublicKey &&
+      ratchetEnabledByChatId.value[chat.id] &&
+      canUse(ENVELOPE_VERSION_RATCHET) &&
+      (await isRatchetSupported())
+    ) {
+      const peerPublicKeyJwk = chat.otherPublicKey
+      return await withRatchetVault(async (vault) => {
+        return await encryptRatchetMessageEnvelope({
+          plaintext: params.plaintext,
+          chat: getRatchetChat(vault, chat.id),
+          peerPublicKeyJwk,
+          objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
+          objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
+          padBuckets: envelopePadBuckets,
+        })
+      })
+    }
+
+    if (!params.seal && chat.type === 'group' && canUse(ENVELOPE_VERSION_SENDER_KEY)) {
+      const own = await ensureOwnSenderKey(chat.id)
+      return await encryptSenderKeyMessageEnvelope({
+        plaintext: params.plaintext,
+        keyId: own.keyId,
+        senderKey: own.key,
+        objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
+        objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
+        padBuckets: envelopePadBuckets,
+      })
+    }
+
+    return await encryptMessageEnvelope({
+      plaintext: params.plaintext,
+      recipients: params.recipients,
+      objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
+      objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
+      version: canUse(ENVELOPE_VERSION_RSA) ? ENVELOPE_VERSION_RSA : ENVELOPE_VERSION_RSA_LEGACY,
+      seal: params.seal,
+      padBuckets: envelopePadBuckets,
+    })
+  }
+
+  async function buildNamesJson(params: {
+    recipients: Array<{ userId: string; publicKeyJwk: string }>
+    namesPlainByUserId: Record<string, string>
+  }): Promise<Record<string, string>> {
+    const out: Record<string, string> = {}
+    for (const [uid, nm] of Object.entries(params.namesPlainByUserId ?? {})) {
+      const key = String(uid)
+      if (!key) continue
+      out[key] = await encryptChatTextToRecipients({ text: String(nm ?? ''), recipients: params.recipients })
+    }
+    return out
+  }
+
+  async function resolveDisplayNameInChat(chatId: string, subjectUserId: string): Promise<string> {
+    const uid = String(subjectUserId ?? '')
+    if (!uid) return ''
+
+    if (userId.value && username.value && String(uid) === String(userId.value)) return username.value
+
+    const chat = getChat(chatId)
+    if (!chat) return uid
+
+    const names = (chat.names && typeof chat.names === 'object') ? chat.names : null
+    const enc = names && typeof (names as any)[uid] === 'string' ? String((names as any)[uid]) : ''
+    const dec = await decryptChatTextFromEnvelope(enc)
+    if (dec) return dec
+
+    if (chat.type === 'personal' && chat.otherUserId && String(chat.otherUserId) === uid && typeof chat.name === 'string' && chat.name) {
+      return chat.name
+    }
+
+    return uid
+  }
+
+  function resolveSenderPublicKeyJwk(chatId: string, senderId: string): string | null {
+    const sid = String(senderId ?? '')
+    if (!sid) return null
+
+    if (userId.value && publicKeyJwk.value && String(sid) === String(userId.value)) {
+      return publicKeyJwk.value
+    }
+
+    const chat = getChat(chatId)
+    if (!chat) return null
+
+    let key: string | null = null
+    if (chat.type === 'personal') {
+      if (chat.otherUserId && String(chat.otherUserId) === sid && chat.otherPublicKey) key = String(chat.otherPublicKey)
+    } else {
+      const members = membersByChatId.value[chatId] ?? []
+      const m = members.find((x) => String(x.userId) === sid)
+      key = m?.publicKey ? String(m.publicKey) : null
+    }
+    // Chat and member refreshes note keys already; this covers senders seen before either ran.
+    if (key && !keyFingerprintByUserId.value[sid]) void noteContactKey(sid, key)
+    return key
+  }
+
+  async function verifyIncomingEnvelope(params: {
+    chatId: string
+    // Dates the signature for keys the sender has since rotated away from.
+    messageId?: string | null
+    senderId: string
+    encryptedData: string
+    signature: string
+    // Sealed sender: the signature covers this decrypted inner payload instead of the envelope.
+    sealedPayload?: string | null
+  }): Promise<boolean | null> {
+    const sig = String(params.signature ?? '')
+    if (!sig) return null
+
+    let pubJwk = resolveSenderPublicKeyJwk(params.chatId, params.senderId)
+    if (!pubJwk) {
+      const chat = getChat(params.chatId)
+      if (chat?.type === 'group') {
+        try {
+          await ensureChatMembers(params.chatId)
+        } catch {
+          // ignore
+        }
+        pubJwk = resolveSenderPublicKeyJwk(params.chatId, params.senderId)
+      }
+    }
+    if (!pubJwk) return null
+
+    const verifyWith = async (key: string) => {
+      const verifyKey = await getVerifyKeyFromPublicJwk(key)
+      if (typeof params.sealedPayload === 'string') {
+        return await verifySealedPayload({
+          verifyKey,
+          signatureB64: sig,
+          senderId: String(params.senderId),
+          chatId: String(params.chatId),
+          payload: params.sealedPayload,
+        })
+      }
+      return await verifyEnvelope({
+        verifyKey,
+        signatureB64: sig,
+        senderId: String(params.senderId),
+        chatId: String(params.chatId),
+        encryptedData: String(params.encryptedData),
+      })
+    }
+    if (await verifyWith(pubJwk)) return true
+
+    // Signed before the sender rotated keys. Only keys on the signed chain from the anchor count,
+    // and each only for messages the server stored before that key was replaced; a matching
+    // signature outside those bounds leaves the message unverified.
+    try {
+      const anchor = await keyHistoryAnchor(String(params.senderId))
+      const rotations = anchor ? await keyRotationsFrom(await fetchKeyRotations(String(params.senderId)), anchor) : []
+      const sentMs = params.messageId ? uuidV7ToUnixMs(params.messageId) : null
+      for (const r of rotations) {
+        if (!(await verifyWith(r.oldPublicKey))) continue
+        const retiredMs = r.rotationId ? uuidV7ToUnixMs(r.rotationId) : null
+        return sentMs !== null && retiredMs !== null && sentMs < retiredMs ? true : null
+      }
+    } catch {
+      // ignore
+    }
+    return false
+  }
+
+  async function getIncomingEnvelopeVerification(params: {
+    chatId: string
+    messageId?: string | null
+    senderId: string
+    encryptedData: string
+    signature: string
+  }): Promise<AuthMessageVerification | 'invalid'> {
+    try {
+      const ok = await verifyIncomingEnvelope(params)
+      if (ok === false) return 'invalid'
+      return ok === true ? 'verified' : 'unverifiable'
+    } catch {
+      return 'unverifiable'
+    }
+  }
+
+  // Sealed messages name their sender only inside the envelope, so they are decrypted first and
+  // the inner signature checked afterwards. Only a valid signature is accepted for them: the
+  // server cannot vouch for a sender it never saw.
+  async function openIncomingMessage(params: {
+    chatId: string
+    messageId: string
+    senderId: string
+    encryptedData: string
+    signature: string
+    sealed?: boolean
+  }): Promise<OpenedIncomingMessage> {
+    if (!params.sealed) {
+      const verification = await getIncomingEnvelopeVerification(params)
+      if (verification === 'invalid') return { verification, senderId: params.senderId, plain: null }
+      const plain = await decryptChatMessage(params)
+      // An inner sender in an ordinary message could contradict the one the server recorded.
+      if (plain.sealed) throw new Error('Unsupported message format')
+      if (verification === 'verified' && plain.notice === 'recoveryShare') {
+        void noteRecoveryShare({ chatId: params.chatId, messageId: params.messageId, senderId: params.senderId, text: plain.text })
+      }
+      return { verification, senderId: params.senderId, plain }
+    }
+
+    if (getMessageEnvelopeFormat(params.encryptedData) !== 'rsa') throw new Error('Unsupported message format')
+    const plain = await decryptChatMessage({ ...params, senderId: '' })
+    const inner = plain.sealed
+    if (!inner) throw new Error('Unsupported message format')
+
+    let ok: boolean | null = null
+    try {
+      ok = await verifyIncomingEnvelope({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        senderId: inner.senderId,
+        encryptedData: params.encryptedData,
+        signature: inner.signatureB64,
+        sealedPayload: inner.payload,
+      })
+    } catch {
+      ok = null
+    }
+    if (ok !== true) return { verification: 'invalid', senderId: inner.senderId, plain: null }
+    if (plain.notice === 'recoveryShare') {
+      void noteRecoveryShare({ chatId: params.chatId, messageId: params.messageId, senderId: inner.senderId, text: plain.text })
+    }
+    return { verification: 'verified', senderId: inner.senderId, plain }
+  }
+
+  async function createPersonalChat(friendUsername: string) {
+    const u = friendUsername.trim()
+    if (!u) throw new Error('Username required')
+
+    if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
+
+    // Avoid creating a private chat with yourself.
+    if (username.value && u.toLowerCase() === String(username.value).toLowerCase()) {
+      throw new Error('self')
+    }
+
+    const other = await lookupAuthUserByUsername(u)
+
+    const recipients = [
+      { userId: userId.value, publicKeyJwk: publicKeyJwk.value },
+      { userId: other.userId, publicKeyJwk: other.publicKey },
+    ]
+    // A changed key is flagged here and then blocks sending inside the new chat, where it can be reviewed.
+    await noteContactKey(other.userId, other.publicKey, u)
+
+    const names = await buildNamesJson({
+      recipients,
+      namesPlainByUserId: {
+        [userId.value]: username.value,
+        [other.userId]: u,
+      },
+    })
+
+    const j = await fetchJson('/api/chats/create-personal', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ otherUserId: other.userId, names }),
+    })
+
+    await refreshChats()
+
+    if (j?.chat?.id) {
+      await openChat(String(j.chat.id))
+    }
+
+  }
+
+  async function createGroupChat(name: string) {
+    const n = name.trim()
+    if (!n) throw new Error('Name required')
+
+    if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
+
+    const recipients = [{ userId: userId.value, publicKeyJwk: publicKeyJwk.value }]
+    const chatNameEnc = await encryptChatTextToRecipients({ text: n, recipients })
+    const names = await buildNamesJson({ recipients, namesPlainByUserId: { [userId.value]: username.value } })
+
+    const j = await fetchJson('/api/chats/create-group', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ chatNameEnc, names }),
+    })
+
+    await refreshChats()
+    if (j?.chat?.id) await openChat(String(j.chat.id))
+  }
+
+  async function addGroupMember(chatId: string, memberUsername: string) {
+    const u = memberUsername.trim()
+    if (!u) throw new Error('Username required')
+
+    if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
+
+    const chat = getChat(chatId)
+    if (!chat || chat.type !== 'group') throw new Error('not_group')
+
+    const other = await lookupAuthUserByUsername(u)
+
+    const curMembers = await ensureChatMembers(chatId)
+    const recipients: Array<{ userId: string; publicKeyJwk: string }> = [
+      ...curMembers.map((m) => ({ userId: m.userId, publicKeyJwk: m.publicKey })),
+      { userId: other.userId, publicKeyJwk: other.publicKey },
+    ]
+    await assertRecipientKeysUnchanged(chatId, recipients.slice(0, -1))
+    await noteContactKey(other.userId, other.publicKey, u)
+
+    const groupNamePlain =
+      (await decryptChatTextFromEnvelope(chat.chatNameEnc ?? '')) ??
+      (typeof chat.name === 'string' ? chat.name : '')
+
+    const chatNameEnc = await encryptChatTextToRecipients({ text: groupNamePlain || 'Group', recipients })
+
+    // Re-encrypt all existing per-user name blobs to include the new recipient,
+    // and add a blob for the new member using the entered username.
+    const curNames = (chat.names && typeof chat.names === 'object') ? chat.names : {}
+    const namesPlainByUserId: Record<string, string> = {}
     for (const [uid, enc] of Object.entries(curNames)) {
       // Preserve the current account display name from trusted local state.
       // This avoids propagating a raw userId when legacy/invalid encrypted
@@ -2386,46 +4179,273 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
-  async function renameGroupChat(chatId: string, name: string) {
-    const cid = String(chatId || '').trim()
-    const n = String(name || '').trim()
-    if (!cid) throw new Error('chatId required')
-    if (n.length < 3 || n.length > 64) throw new Error('Name must be 3-64 characters')
+  async function renameGroupChat(chatId: string, name: string) {
+    const cid = String(chatId || '').trim()
+    const n = String(name || '').trim()
+    if (!cid) throw new Error('chatId required')
+    if (n.length < 3 || n.length > 64) throw new Error('Name must be 3-64 characters')
+
+    const members = await ensureChatMembers(cid)
+    const recipients = members.map((m) => ({ userId: m.userId, publicKeyJwk: m.publicKey }))
+    await assertRecipientKeysUnchanged(cid, recipients)
+    const chatNameEnc = await encryptChatTextToRecipients({ text: n, recipients })
+
+    const j = await fetchJson('/api/chats/rename-group', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ chatId: cid, chatNameEnc }),
+    })
+
+    const chat = j?.chat
+    if (!chat || typeof chat.id !== 'string') throw new Error('Bad response')
+
+    // Best-effort: update local chat list.
+    chats.value = chats.value.map((c) => (String(c.id) === String(chat.id) ? { ...c, name: n, chatNameEnc } : c))
+    return chat
+  }
+
+  async function getMessageCache(): Promise<MessageCache | null> {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return null
+    if (messageCacheLoad && messageCacheUserId === uid && messageCacheJwk === jwk) return await messageCacheLoad
+
+    messageCacheUserId = uid
+    messageCacheJwk = jwk
+    messageCacheLoad = openMessageCache(uid, jwk).catch(() => null)
+    return await messageCacheLoad
+  }
+
+  async function readCachedChatMessages(chatId: string) {
+    const cache = await getMessageCache()
+    const rec = cache ? await cache.get<CachedChatMessages>(`chat:${chatId}`) : null
+    if (!rec || rec.v !== 1 || !Array.isArray(rec.messages)) return null
+    const now = Date.now()
+    const messages = rec.messages.filter((c) => typeof c?.m?.id === 'string' && !isMessageExpired(c.m, now))
+    return { messages, hasMore: rec.hasMore === true }
+  }
+
+  async function applyCachedChatList() {
+    const cache = await getMessageCache()
+    const rec = cache ? await cache.get<CachedChatList>('chats') : null
+    if (!rec || rec.v !== 1 || !Array.isArray(rec.chats) || chats.value.length) return false
+    chats.value = rec.chats
+    lastMessagePreviewByChatId.value = rec.previews ?? {}
+    unreadByChatId.value = rec.unread ?? {}
+    return true
+  }
+
+  // Puts cached messages (older than anything shown) in front, with their reactions and receipts.
+  function applyCachedMessages(chatId: string, chunk: CachedMessage[]) {
+    const reactions = { ...reactionsByMessageId.value }
+    const receipts = { ...receiptsByMessageId.value }
+    for (const c of chunk) {
+      if (c.h) cipherDigestByMessageId.set(c.m.id, c.h)
+      if (c.r && !reactions[c.m.id]) reactions[c.m.id] = c.r
+      if (c.rc && !receipts[c.m.id]) receipts[c.m.id] = c.rc
+    }
+    reactionsByMessageId.value = reactions
+    receiptsByMessageId.value = receipts
+
+    const cur = messagesByChatId.value[chatId] ?? []
+    const existing = new Set(cur.map((m) => m.id))
+    const added = chunk.map((c) => c.m).filter((m) => !existing.has(m.id))
+    messagesByChatId.value = { ...messagesByChatId.value, [chatId]: [...added, ...cur] }
+    const oldest = added[0]?.id ?? cur[0]?.id
+    if (oldest) messagesOldestIdByChatId.value = { ...messagesOldestIdByChatId.value, [chatId]: oldest }
+    return added.length
+  }
+
+  function scheduleMessageCacheFlush() {
+    if (messageCacheFlushTimer != null) return
+    messageCacheFlushTimer = window.setTimeout(() => {
+      messageCacheFlushTimer = null
+      void flushMessageCache().catch(() => null)
+    }, MESSAGE_CACHE_FLUSH_MS)
+  }
+
+  // Writes what is shown back to the cache, keeping cached history older than it.
+  async function flushMessageCache() {
+    const uid = userId.value
+    const cache = await getMessageCache()
+    if (!cache) return
+    const current = () => Boolean(privateKey.value) && userId.value === uid
+
+    const chatIds = [...messageCacheDirtyChatIds]
+    messageCacheDirtyChatIds.clear()
+    for (const chatId of chatIds) {
+      const live = messagesByChatId.value[chatId]
+      if (!live || !current()) continue
+      const detached = messageCacheDetachedChatIds.delete(chatId)
+      const cached = detached ? null : await readCachedChatMessages(chatId)
+      const oldestLive = live[0]?.id
+      const older = cached && oldestLive ? cached.messages.filter((c) => c.m.id < oldestLive) : []
+      const fresh = live.map((m): CachedMessage => {
+        const r = reactionsByMessageId.value[m.id]
+        const rc = receiptsByMessageId.value[m.id]
+        return { m, h: cipherDigestByMessageId.get(m.id) ?? '', ...(r ? { r } : {}), ...(rc ? { rc } : {}) }
+      })
+
+      let messages = [...older, ...fresh]
+      const truncated = messages.length > MESSAGE_CACHE_MAX_PER_CHAT
+      if (truncated) messages = messages.slice(-MESSAGE_CACHE_MAX_PER_CHAT)
+      const hasMore = truncated || (older.length ? cached!.hasMore : messagesHasMoreByChatId.value[chatId] !== false)
+      if (!current()) return
+      const rec: CachedChatMessages = { v: 1, messages, hasMore }
+      await cache.set(`chat:${chatId}`, rec)
+    }
+
+    if (messageCacheChatListDirty && current()) {
+      messageCacheChatListDirty = false
+      const prev = await cache.get<CachedChatList>('chats')
+      if (!current()) return
+      const ids = new Set(chats.value.map((c) => c.id))
+      for (const c of prev?.chats ?? []) {
+        if (!ids.has(c.id)) await cache.set(`chat:${c.id}`, null)
+      }
+      const rec: CachedChatList = { v: 1, chats: chats.value, previews: lastMessagePreviewByChatId.value, unread: unreadByChatId.value }
+      await cache.set('chats', rec)
+    }
+  }
+
+  watch(messagesByChatId, (next, prev) => {
+    if (!privateKey.value) return
+    for (const [cid, list] of Object.entries(next)) {
+      if (prev?.[cid] === list) continue
+      messageCacheDirtyChatIds.add(cid)
+      searchIndexDirtyChatIds.add(cid)
+    }
+    if (messageCacheDirtyChatIds.size) scheduleMessageCacheFlush()
+    if (searchIndexDirtyChatIds.size) scheduleSearchIndexFlush()
+  })
 
-    const members = await ensureChatMembers(cid)
-    const recipients = members.map((m) => ({ userId: m.userId, publicKeyJwk: m.publicKey }))
-    const chatNameEnc = await encryptChatTextToRecipients({ text: n, recipients })
+  watch([chats, lastMessagePreviewByChatId, unreadByChatId], () => {
+    if (!privateKey.value) return
+    messageCacheChatListDirty = true
+    scheduleMessageCacheFlush()
+  })
 
-    const j = await fetchJson('/api/chats/rename-group', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', ...authHeaders() },
-      body: JSON.stringify({ chatId: cid, chatNameEnc }),
-    })
+  async function getSearchIndex(): Promise<SearchIndex | null> {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return null
+    if (searchIndexLoad && searchIndexUserId === uid && searchIndexJwk === jwk) return await searchIndexLoad
 
-    const chat = j?.chat
-    if (!chat || typeof chat.id !== 'string') throw new Error('Bad response')
+    searchIndexUserId = uid
+    searchIndexJwk = jwk
+    searchIndexLoad = openSearchIndex(uid, jwk).catch(() => null)
+    return await searchIndexLoad
+  }
 
-    // Best-effort: update local chat list.
-    chats.value = chats.value.map((c) => (String(c.id) === String(chat.id) ? { ...c, name: n, chatNameEnc } : c))
-    return chat
+  function scheduleSearchIndexFlush() {
+    if (searchIndexFlushTimer != null) return
+    searchIndexFlushTimer = window.setTimeout(() => {
+      searchIndexFlushTimer = null
+      void flushSearchIndex().catch(() => null)
+    }, SEARCH_INDEX_FLUSH_MS)
+  }
+
+  // Indexes whatever has been decrypted into the changed chats: loaded pages, older pages,
+  // realtime arrivals and edits all pass through messagesByChatId.
+  async function flushSearchIndex() {
+    const uid = userId.value
+    const index = await getSearchIndex()
+    if (!index) return
+
+    const chatIds = [...searchIndexDirtyChatIds]
+    searchIndexDirtyChatIds.clear()
+    for (const chatId of chatIds) {
+      const list = messagesByChatId.value[chatId]
+      if (!list || !privateKey.value || userId.value !== uid) continue
+      const docs = list
+        .filter((m) => !m.notice && m.text.trim())
+        .map((m): SearchDoc => ({ id: m.id, senderId: m.senderId, atIso: m.atIso, text: m.text, expiresAtMs: messageExpiresAtMs(m) }))
+      if (docs.length) await index.put(chatId, docs)
+    }
+  }
+
+  function forgetSearchDocs(chatId: string, messageIds: string[]) {
+    void getSearchIndex()
+      .then((index) => index?.remove(chatId, messageIds))
+      .catch(() => null)
+  }
+
+  // Searches one chat, or every chat when `chatId` is omitted. Only covers history this device
+  // has decrypted at some point.
+  async function searchMessages(query: string, chatId?: string | null): Promise<AuthSearchResult[]> {
+    await flushSearchIndex().catch(() => null)
+    const index = await getSearchIndex()
+    if (!index) return []
+    const chatIds = chatId ? [chatId] : chats.value.map((c) => c.id)
+    const hits = await index.search(query, chatIds, SEARCH_RESULTS_MAX)
+    return await Promise.all(
+      hits.map(async (h) => ({
+        chatId: h.chatId,
+        messageId: h.id,
+        senderId: h.senderId,
+        fromUsername: await resolveDisplayNameInChat(h.chatId, h.senderId),
+        atIso: h.atIso,
+        text: h.text,
+      })),
+    )
+  }
+
+  // Pages back until `messageId` is loaded, for jumping to a search result. Ids are UUIDv7, so
+  // once the oldest loaded message is older than the target it is not coming.
+  async function revealMessage(chatId: string, messageId: string) {
+    if (!messagesByChatId.value[chatId]) await loadMessages(chatId)
+    for (;;) {
+      const list = messagesByChatId.value[chatId] ?? []
+      if (list.some((m) => m.id === messageId)) return true
+      const oldest = list[0]?.id
+      if (!oldest || oldest < messageId) return false
+      const r = await loadMoreMessages(chatId, 200)
+      if (!r.added) return false
+    }
   }
 
   async function loadMessages(chatId: string, limit = 50) {
     const lim = Math.max(1, Math.min(200, Number(limit) || 50))
+    void loadOutbox()
 
-    const j = await fetchJson(`/api/messages?chatId=${encodeURIComponent(chatId)}&limit=${encodeURIComponent(String(lim))}`, {
-      headers: { ...authHeaders() },
-    })
+    // Show what this device already has while the latest page is fetched.
+    const cached = privateKey.value && userId.value ? await readCachedChatMessages(chatId) : null
+    if (cached?.messages.length && !messagesByChatId.value[chatId]?.length) {
+      applyCachedMessages(chatId, cached.messages.slice(-lim))
+      messagesHasMoreByChatId.value = { ...messagesHasMoreByChatId.value, [chatId]: cached.messages.length > lim || cached.hasMore }
+    }
+
+    let j: any
+    try {
+      j = await fetchJson(`/api/messages?chatId=${encodeURIComponent(chatId)}&limit=${encodeURIComponent(String(lim))}`, {
+        headers: { ...authHeaders() },
+      })
+    } catch (e) {
+      // Offline: keep reading from the cache.
+      if (!cached?.messages.length || !isNetworkError(e)) throw e
+      const shown = messagesByChatId.value[chatId] ?? []
+      return { count: shown.length, hasMore: Boolean(messagesHasMoreByChatId.value[chatId]), oldestId: shown[0]?.id ?? null }
+    }
 
     const wire: any[] = Array.isArray(j.messages) ? j.messages : []
     const list: AuthMessage[] = wire
       .map((m: any) => {
         const id = typeof m?.id === 'string' ? String(m.id) : ''
         const senderId = typeof m?.senderId === 'string' ? String(m.senderId) : ''
+        const sealed = m?.sealed === true
         const encryptedData = typeof m?.encryptedData === 'string' ? String(m.encryptedData) : ''
         const signature = typeof m?.signature === 'string' ? String(m.signature) : ''
-        if (!id || !senderId || !encryptedData) return null
-        const out: AuthMessage = { id, chatId, senderId, encryptedData, signature: signature || undefined }
+        if (!id || !(senderId || sealed) || !encryptedData) return null
+        const out: AuthMessage = {
+          id,
+          chatId,
+          senderId,
+          encryptedData,
+          signature: signature || undefined,
+          ...(sealed ? { sealed } : {}),
+          reactions: parseReactionWire(m?.reactions),
+          receipts: parseReceiptWire(m?.receipts),
+        }
         return out
       })
       .filter((x): x is AuthMessage => x !== null)
@@ -2438,39 +4458,51 @@ export const useAuthStore = defineStore('auth', () => {
       return { count: 0, hasMore: false, oldestId: null as string | null }
     }
 
+    const cachedById = new Map((cached?.messages ?? []).map((c) => [c.m.id, c]))
     const out: AuthDecryptedMessage[] = []
     let blocked = 0
     for (const m of list) {
       try {
-        const verification = await getIncomingEnvelopeVerification({
+        // Unchanged since it was cached: no need to decrypt and verify it again.
+        const h = await cipherDigest(String(m.encryptedData))
+        cipherDigestByMessageId.set(m.id, h)
+        const hit = cachedById.get(m.id)
+        if (hit && hit.h === h) {
+          out.push({ ...hit.m, fromUsername: await resolveDisplayNameInChat(chatId, hit.m.senderId) })
+          continue
+        }
+
+        const opened = await openIncomingMessage({
           chatId,
+          messageId: m.id,
           senderId: String(m.senderId),
           encryptedData: String(m.encryptedData),
           signature: typeof m.signature === 'string' ? m.signature : '',
+          sealed: m.sealed,
         })
-        if (verification === 'invalid') {
+        if (opened.verification === 'invalid') {
           blocked += 1
           continue
         }
 
-        const plain = await decryptMessageEnvelope({
-          encryptedData: m.encryptedData,
-          myUserId: userId.value,
-          myPrivateKey: privateKey.value,
-          objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
-          objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
-        })
-        const displayName = await resolveDisplayNameInChat(chatId, String(m.senderId))
+        const { senderId, verification, plain } = opened
+        const displayName = await resolveDisplayNameInChat(chatId, senderId)
         out.push({
           id: m.id,
           chatId,
-          senderId: String(m.senderId),
+          senderId,
           atIso: plain.atIso,
           modifiedAtIso: plain.modifiedAtIso,
           fromUsername: displayName,
           text: plain.text,
           replyToId: plain.replyToId,
+          attachments: plain.attachments,
+          timerSeconds: plain.timerSeconds,
+          notice: plain.notice,
+          forwardedFrom: plain.forwardedFrom,
+          mentions: plain.mentions,
           verification,
+          sealed: m.sealed,
         })
       } catch {
         // ignore undecryptable messages
@@ -2486,9 +4518,20 @@ export const useAuthStore = defineStore('auth', () => {
       })
     }
 
+    await loadReactions(chatId, list)
+    loadReceipts(chatId, list)
+
     // API returns newest-first; render oldest-first.
     out.reverse()
+
+    // Cached history only extends this page if the two overlap; a short page means there is
+    // nothing older on the server at all.
+    const newestCachedId = cached?.messages[cached.messages.length - 1]?.m.id
+    const joined = list.length >= lim && Boolean(newestCachedId && out[0] && newestCachedId >= out[0].id)
+    if (cached && !joined) messageCacheDetachedChatIds.add(chatId)
+
     messagesByChatId.value = { ...messagesByChatId.value, [chatId]: out }
+    void noteUnreadMentions(chatId, out)
 
     const oldestId = out[0]?.id ? String(out[0].id) : null
     if (oldestId) messagesOldestIdByChatId.value = { ...messagesOldestIdByChatId.value, [chatId]: oldestId }
@@ -2518,6 +4561,17 @@ export const useAuthStore = defineStore('auth', () => {
 
     messagesLoadingMoreByChatId.value = { ...messagesLoadingMoreByChatId.value, [chatId]: true }
     try {
+      const cached = await readCachedChatMessages(chatId)
+      const older = cached ? cached.messages.filter((c) => c.m.id < before) : []
+      if (older.length) {
+        const chunk = older.slice(-lim)
+        const added = applyCachedMessages(chatId, chunk)
+        void noteUnreadMentions(chatId, chunk.map((c) => c.m))
+        const hasMore = older.length > lim || cached!.hasMore
+        messagesHasMoreByChatId.value = { ...messagesHasMoreByChatId.value, [chatId]: hasMore }
+        return { added, hasMore }
+      }
+
       const j = await fetchJson(
         `/api/messages?chatId=${encodeURIComponent(chatId)}&limit=${encodeURIComponent(String(lim))}&before=${encodeURIComponent(before)}`,
         { headers: { ...authHeaders() } },
@@ -2528,10 +4582,20 @@ export const useAuthStore = defineStore('auth', () => {
         .map((m: any) => {
           const id = typeof m?.id === 'string' ? String(m.id) : ''
           const senderId = typeof m?.senderId === 'string' ? String(m.senderId) : ''
+          const sealed = m?.sealed === true
           const encryptedData = typeof m?.encryptedData === 'string' ? String(m.encryptedData) : ''
           const signature = typeof m?.signature === 'string' ? String(m.signature) : ''
-          if (!id || !senderId || !encryptedData) return null
-          const out: AuthMessage = { id, chatId, senderId, encryptedData, signature: signature || undefined }
+          if (!id || !(senderId || sealed) || !encryptedData) return null
+          const out: AuthMessage = {
+            id,
+            chatId,
+            senderId,
+            encryptedData,
+            signature: signature || undefined,
+            ...(sealed ? { sealed } : {}),
+            reactions: parseReactionWire(m?.reactions),
+            receipts: parseReceiptWire(m?.receipts),
+          }
           return out
         })
         .filter((x): x is AuthMessage => x !== null)
@@ -2540,35 +4604,38 @@ export const useAuthStore = defineStore('auth', () => {
       let blocked = 0
       for (const m of list) {
         try {
-          const verification = await getIncomingEnvelopeVerification({
+          cipherDigestByMessageId.set(m.id, await cipherDigest(String(m.encryptedData)))
+          const opened = await openIncomingMessage({
             chatId,
+            messageId: m.id,
             senderId: String(m.senderId),
             encryptedData: String(m.encryptedData),
             signature: typeof m.signature === 'string' ? m.signature : '',
+            sealed: m.sealed,
           })
-          if (verification === 'invalid') {
+          if (opened.verification === 'invalid') {
             blocked += 1
             continue
           }
 
-          const plain = await decryptMessageEnvelope({
-            encryptedData: m.encryptedData,
-            myUserId: userId.value,
-            myPrivateKey: privateKey.value,
-            objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
-            objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
-          })
-          const displayName = await resolveDisplayNameInChat(chatId, String(m.senderId))
+          const { senderId, verification, plain } = opened
+          const displayName = await resolveDisplayNameInChat(chatId, senderId)
           decoded.push({
             id: m.id,
             chatId,
-            senderId: String(m.senderId),
+            senderId,
             atIso: plain.atIso,
             modifiedAtIso: plain.modifiedAtIso,
             fromUsername: displayName,
             text: plain.text,
             replyToId: plain.replyToId,
+            attachments: plain.attachments,
+            timerSeconds: plain.timerSeconds,
+            notice: plain.notice,
+            forwardedFrom: plain.forwardedFrom,
+            mentions: plain.mentions,
             verification,
+            sealed: m.sealed,
           })
         } catch {
           // ignore
@@ -2584,6 +4651,9 @@ export const useAuthStore = defineStore('auth', () => {
         })
       }
 
+      await loadReactions(chatId, list)
+      loadReceipts(chatId, list)
+
       // API returns newest-first; convert to oldest-first.
       decoded.reverse()
 
@@ -2593,6 +4663,7 @@ export const useAuthStore = defineStore('auth', () => {
 
       if (nextChunk.length) {
         messagesByChatId.value = { ...messagesByChatId.value, [chatId]: [...nextChunk, ...cur] }
+        void noteUnreadMentions(chatId, nextChunk)
         const nextOldest = nextChunk[0]?.id
         if (nextOldest) messagesOldestIdByChatId.value = { ...messagesOldestIdByChatId.value, [chatId]: String(nextOldest) }
       }
@@ -2606,59 +4677,710 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
-  async function sendMessage(chatId: string, text: string, opts?: { replyToId?: string | null }) {
+  async function sendMessage(
+    chatId: string,
+    text: string,
+    opts?: {
+      replyToId?: string | null
+      attachments?: MessageAttachment[] | null
+      notice?: { kind: ChatNoticeKind; timerSeconds: number }
+      forwardedFrom?: ForwardedFrom | null
+      mentions?: string[] | null
+    },
+  ) {
     const t = text.trim()
-    if (!t) return
+    const attachments = Array.isArray(opts?.attachments) ? opts.attachments : []
+    const notice = opts?.notice ?? null
+    if (!t && !attachments.length && !notice) return
+    if (attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) throw new Error('too_many_attachments')
     if (!userId.value || !username.value || !publicKeyJwk.value) throw new Error('Not logged in')
     if (!signingKey.value) throw new Error('Not unlocked')
 
     const chat = chats.value.find((c) => c.id === chatId)
     if (!chat) throw new Error('Chat not found')
 
+    await loadOutbox()
+    if (outbox.value.length >= OUTBOX_MAX_MESSAGES) throw new Error('Too many unsent messages')
+
     const atIso = new Date().toISOString()
     const replyToId = typeof opts?.replyToId === 'string' ? opts?.replyToId : null
+    const timerSeconds = notice ? notice.timerSeconds : chatTimerSeconds(chatId)
+    const plaintext: ChatMessagePlain = {
+      text: t,
+      atIso,
+      replyToId,
+      modifiedAtIso: null,
+      attachments,
+      timerSeconds,
+      notice: notice?.kind ?? null,
+      forwardedFrom: opts?.forwardedFrom ?? null,
+      mentions: cleanMentions(opts?.mentions ?? []),
+    }
+    // Attachments stay on the signed-in path: their blobs are claimed by the uploading account.
+    const sealed = sealedSenderEnabled.value && !attachments.length
+
+    const envelope = await encryptOutgoing(chat, plaintext, sealed)
+    // Messages in a chat go out in the order they were written: with earlier ones still queued,
+    // this one waits its turn in the flush.
+    const queuedAhead = outbox.value.some((o) => o.chatId === chatId && o.state !== 'failed')
+    const entry: OutboxEntry = {
+      clientMsgId: crypto.randomUUID(),
+      chatId,
+      plain: plaintext,
+      sealed,
+      expiresAt: messageExpiresAtMs(plaintext),
+      ...envelope,
+      state: queuedAhead ? 'pending' : 'sending',
+    }
+    outbox.value = [...outbox.value, entry]
+    await saveOutbox().catch(() => null)
+    if (queuedAhead) {
+      void flushOutbox()
+      return
+    }
 
-    let recipients: Array<{ userId: string; publicKeyJwk: string }> = []
+    let delivered: boolean
+    try {
+      delivered = await deliverOutboxEntry(entry.clientMsgId)
+    } catch (e) {
+      // Refused outright rather than cut off: nothing to retry, the caller reports it. The
+      // attachments stay uploaded; the composer still holds them for another try.
+      await dropOutboxEntry(entry.clientMsgId)
+      throw e
+    }
+    // Later messages for this chat may have queued up behind this one.
+    if (delivered && outbox.value.some((o) => o.state === 'pending')) void flushOutbox()
+  }
+
+  // Pinging yourself is pointless; the rest is capped to what the envelope accepts.
+  function cleanMentions(ids: string[]) {
+    const me = userId.value
+    return [...new Set(ids.map(String))].filter((id) => id && id !== me).slice(0, MAX_MESSAGE_MENTIONS)
+  }
+
+  // A forwarded copy is a new message in the target chat, encrypted for its members like any
+  // other send. Attachment blobs belong to the chat they were uploaded to, so they go up again.
+  // Disappearing messages stay where they were sent: a copy would outlive the sender's timer.
+  async function forwardMessage(fromChatId: string, messageId: string, toChatId: string) {
+    const src = (messagesByChatId.value[fromChatId] ?? []).find((m) => m.id === messageId)
+    if (!src || src.notice) throw new Error('Message not found')
+    if (src.timerSeconds) throw new Error('forward_disappearing')
+    if (!chats.value.some((c) => c.id === toChatId)) throw new Error('Chat not found')
+
+    const attachments: MessageAttachment[] = []
+    try {
+      for (const att of src.attachments ?? []) {
+        const blob = await downloadAttachment(att)
+        const file = new File([blob], att.name, { type: att.mime })
+        attachments.push(await uploadAttachment(toChatId, file, { voice: att.voice }))
+      }
+      // Forwarding a forward keeps pointing at the original author.
+      const forwardedFrom = src.forwardedFrom ?? { from: src.fromUsername, atIso: src.atIso }
+      await sendMessage(toChatId, src.text, { attachments, forwardedFrom })
+    } catch (e) {
+      // Nothing keeps the copies for a retry; forwarding again uploads them anew.
+      for (const att of attachments) discardAttachment(att)
+      throw e
+    }
+  }
+
+  async function encryptOutgoing(chat: AuthChat, plaintext: ChatMessagePlain, sealed: boolean) {
+    const mySigningKey = signingKey.value
+    const mySenderId = userId.value
+    if (!mySigningKey || !mySenderId) throw new Error('Not unlocked')
+    const recipients = await chatRecipients(chat)
+
+    if (sealed) {
+      const seal = { senderId: mySenderId, chatId: chat.id, signingKey: mySigningKey }
+      const encryptedData = await encryptChatMessage({ chat, plaintext, recipients, seal })
+      if (utf8ByteLength(encryptedData) > MAX_ENCRYPTED_MESSAGE_BYTES) throw new Error(ERR_ENCRYPTED_TOO_LARGE)
+      return { encryptedData, signature: '' }
+    }
+
+    const encryptedData = await encryptChatMessage({ chat, plaintext, recipients })
+    if (utf8ByteLength(encryptedData) > MAX_ENCRYPTED_MESSAGE_BYTES) throw new Error(ERR_ENCRYPTED_TOO_LARGE)
+    const signature = await signEnvelope({ signingKey: mySigningKey, senderId: mySenderId, chatId: chat.id, encryptedData })
+    return { encryptedData, signature }
+  }
+
+  async function postOutboxEntry(entry: OutboxEntry) {
+    const { chatId, clientMsgId, encryptedData, expiresAt } = entry
+    if (entry.sealed) return await postSealedMessage(chatId, { encryptedData, expiresAt, clientMsgId })
+
+    const blobIds = (entry.plain.attachments ?? []).map((a) => a.blobId)
+    return await fetchJson('/api/messages/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ chatId, encryptedData, signature: entry.signature, blobIds, expiresAt, clientMsgId }),
+    })
+  }
+
+  function patchOutboxEntry(clientMsgId: string, patch: Partial<OutboxEntry>) {
+    outbox.value = outbox.value.map((o) => (o.clientMsgId === clientMsgId ? { ...o, ...patch } : o))
+  }
+
+  // Resolves true once the server has the message and false when the connection is down (it
+  // stays queued for the next reconnect). A refusal marks it failed and rethrows.
+  async function deliverOutboxEntry(clientMsgId: string): Promise<boolean> {
+    let entry = outbox.value.find((o) => o.clientMsgId === clientMsgId)
+    if (!entry) return true
+    patchOutboxEntry(clientMsgId, { state: 'sending', error: undefined })
+
+    let j: any
+    try {
+      try {
+        j = await postOutboxEntry(entry)
+      } catch (e) {
+        if (!(e instanceof Error) || e.message !== 'stale_sender_key') throw e
+        // Queued before a membership change: the stored envelope names a retired sender key.
+        senderKeysByChatId.delete(entry.chatId)
+        const chat = chats.value.find((c) => c.id === entry!.chatId)
+        if (!chat) throw new Error('Chat not found')
+        entry = { ...entry, ...(await encryptOutgoing(chat, entry.plain, entry.sealed)) }
+        patchOutboxEntry(clientMsgId, { encryptedData: entry.encryptedData, signature: entry.signature })
+        j = await postOutboxEntry(entry)
+      }
+    } catch (e) {
+      const offline = isNetworkError(e)
+      const error = offline ? undefined : e instanceof Error ? e.message : 'Request failed'
+      patchOutboxEntry(clientMsgId, { state: offline ? 'pending' : 'failed', error })
+      await saveOutbox().catch(() => null)
+      if (offline) return false
+      throw e
+    }
+
+    outbox.value = outbox.value.filter((o) => o.clientMsgId !== clientMsgId)
+    await saveOutbox().catch(() => null)
+    const msgId = typeof j?.messageId === 'string' ? j.messageId : null
+    if (msgId) await showDeliveredMessage(entry, msgId)
+    return true
+  }
+
+  async function showDeliveredMessage(entry: OutboxEntry, msgId: string) {
+    const { chatId, plain } = entry
+    await rememberOwnRatchetMessage(chatId, msgId, entry.encryptedData, plain)
+    if (entry.sealed) void markMessagesRead(chatId, [msgId])
+    if (!userId.value || !username.value) return
+
+    // Append optimistically (it will also arrive via realtime events, but those are best-effort).
+    const cur = messagesByChatId.value[chatId] ?? []
+    if (cur.some((m) => m.id === msgId)) return
+    messagesByChatId.value = {
+      ...messagesByChatId.value,
+      [chatId]: [
+        ...cur,
+        {
+          id: msgId,
+          chatId,
+          senderId: userId.value,
+          atIso: plain.atIso,
+          modifiedAtIso: null,
+          fromUsername: username.value,
+          text: plain.text,
+          replyToId: plain.replyToId,
+          attachments: plain.attachments,
+          timerSeconds: plain.timerSeconds,
+          notice: plain.notice,
+          forwardedFrom: plain.forwardedFrom,
+          mentions: plain.mentions,
+          verification: 'verified',
+          sealed: entry.sealed,
+        },
+      ],
+    }
+  }
+
+  // The oldest queued message not stuck behind an earlier one of its chat still on its way.
+  function nextOutboxEntryToFlush() {
+    const busyChats = new Set<string>()
+    for (const o of outbox.value) {
+      if (o.state === 'sending') busyChats.add(o.chatId)
+      else if (o.state === 'pending' && !busyChats.has(o.chatId)) return o
+    }
+    return null
+  }
+
+  // Retries everything still queued, oldest first, until a send finds the connection down.
+  // Refused messages are left for the user; later ones in their chat still go out.
+  async function flushOutbox(): Promise<void> {
+    if (outboxFlush) {
+      // Picked up once the running pass is done, so nothing queued meanwhile is left behind.
+      outboxFlushAgain = true
+      return await outboxFlush
+    }
+    outboxFlush = (async () => {
+      await loadOutbox()
+      const now = Date.now()
+      // Nobody would see these any more.
+      const live = outbox.value.filter((o) => !isMessageExpired(o.plain, now))
+      const stale = (o: OutboxEntry) =>
+        o.state === 'pending' && !!o.plain.attachments?.length && now - Date.parse(o.plain.atIso) > OUTBOX_ATTACHMENT_MAX_AGE_MS
+      if (live.length !== outbox.value.length || live.some(stale)) {
+        outbox.value = live.map((o) => (stale(o) ? { ...o, state: 'failed', error: 'Attachments expired' } : o))
+        await saveOutbox().catch(() => null)
+      }
+      do {
+        outboxFlushAgain = false
+        for (let o = nextOutboxEntryToFlush(); o; o = nextOutboxEntryToFlush()) {
+          try {
+            if (!(await deliverOutboxEntry(o.clientMsgId))) return
+          } catch {
+            // Marked failed.
+          }
+        }
+      } while (outboxFlushAgain)
+    })().finally(() => {
+      outboxFlush = null
+    })
+    return await outboxFlush
+  }
+
+  async function retryOutboxMessage(clientMsgId: string) {
+    const entry = outbox.value.find((o) => o.clientMsgId === clientMsgId)
+    if (!entry || entry.state === 'sending') return
+    await deliverOutboxEntry(clientMsgId)
+  }
+
+  // Given up by the user: the message goes, and so do the blobs it would have claimed.
+  async function discardOutboxMessage(clientMsgId: string) {
+    const entry = outbox.value.find((o) => o.clientMsgId === clientMsgId)
+    await dropOutboxEntry(clientMsgId)
+    for (const att of entry?.plain.attachments ?? []) discardAttachment(att)
+  }
+
+  async function dropOutboxEntry(clientMsgId: string) {
+    outbox.value = outbox.value.filter((o) => o.clientMsgId !== clientMsgId)
+    await saveOutbox().catch(() => null)
+  }
+
+  async function loadOutbox(): Promise<void> {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return
+    if (outboxUserId === uid && outboxLoad) return await outboxLoad
+
+    outboxUserId = uid
+    outboxLoad = (async () => {
+      const blob = await localData.idbRecordGet<string>(LocalEntity.IdbOutbox, uid)
+      if (typeof blob !== 'string' || !blob) return
+      try {
+        const parsed = JSON.parse(await openLocalVault(blob, jwk, OUTBOX_VAULT_INFO)) as unknown
+        if (!Array.isArray(parsed) || userId.value !== uid) return
+        const stored = parsed
+          .filter((o: any) => typeof o?.clientMsgId === 'string' && typeof o?.chatId === 'string' && typeof o?.encryptedData === 'string')
+          // Whatever was in flight when the page went away is simply queued again.
+          .map((o: OutboxEntry): OutboxEntry => ({ ...o, state: o.state === 'failed' ? 'failed' : 'pending' }))
+        const known = new Set(outbox.value.map((o) => o.clientMsgId))
+        outbox.value = [...stored.filter((o) => !known.has(o.clientMsgId)), ...outbox.value]
+      } catch {
+        // Unreadable (another key): those messages are lost, as an unsent draft would be.
+      }
+    })()
+    return await outboxLoad
+  }
+
+  async function saveOutbox() {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk || outboxUserId !== uid) return
+    if (!outbox.value.length) {
+      await localData.idbRecordSet(LocalEntity.IdbOutbox, uid, null)
+      return
+    }
+    const blob = await sealLocalVault(JSON.stringify(outbox.value), jwk, OUTBOX_VAULT_INFO)
+    await localData.idbRecordSet(LocalEntity.IdbOutbox, uid, blob)
+  }
+
+  const outboxByChatId = computed(() => {
+    const out: Record<string, AuthOutboxMessage[]> = {}
+    for (const o of outbox.value) {
+      const { plain } = o
+      const list = out[o.chatId] ?? []
+      list.push({
+        clientMsgId: o.clientMsgId,
+        chatId: o.chatId,
+        atIso: plain.atIso,
+        text: plain.text,
+        replyToId: plain.replyToId,
+        attachments: plain.attachments,
+        timerSeconds: plain.timerSeconds,
+        notice: plain.notice,
+        forwardedFrom: plain.forwardedFrom,
+        state: o.state,
+        ...(o.error ? { error: o.error } : {}),
+      })
+      out[o.chatId] = list
+    }
+    return out
+  })
+
+  async function getDeliveryToken(chatId: string) {
+    const cached = deliveryTokenByChatId.get(chatId)
+    if (cached) return cached
+    const j = await fetchJson(`/api/messages/delivery-token?chatId=${encodeURIComponent(chatId)}`, {
+      headers: { ...authHeaders() },
+    })
+    const deliveryToken = typeof j?.deliveryToken === 'string' ? j.deliveryToken : ''
+    if (!deliveryToken) throw new Error('Request failed')
+    deliveryTokenByChatId.set(chatId, deliveryToken)
+    return deliveryToken
+  }
+
+  // No session header: the delivery token alone authorizes the send. A rejected token has gone
+  // stale (membership changed or the server restarted), so it is refetched once.
+  async function postSealedMessage(chatId: string, body: { encryptedData: string; expiresAt: number | null; clientMsgId: string }) {
+    const post = async (deliveryToken: string) =>
+      await fetchJson('/api/messages/send-sealed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chatId, deliveryToken, ...body }),
+      })
+    try {
+      return await post(await getDeliveryToken(chatId))
+    } catch (e) {
+      if (!(e instanceof Error) || e.message !== 'Forbidden') throw e
+      deliveryTokenByChatId.delete(chatId)
+      return await post(await getDeliveryToken(chatId))
+    }
+  }
+
+  function chatTimerSeconds(chatId: string) {
+    return currentChatTimer(messagesByChatId.value[chatId] ?? [])
+  }
+
+  // The change is announced to the chat as a notice; every member's client picks it up from there.
+  async function setChatTimer(chatId: string, seconds: number) {
+    if (!(DISAPPEARING_TIMER_PRESETS as readonly number[]).includes(seconds)) throw new Error('Unsupported timer')
+    if (chatTimerSeconds(chatId) === seconds) return
+    await sendMessage(chatId, '', { notice: { kind: 'timer', timerSeconds: seconds } })
+  }
 
+  async function chatRecipients(chat: AuthChat) {
+    if (!userId.value || !publicKeyJwk.value) throw new Error('Not logged in')
     if (chat.type === 'personal') {
       if (!chat.otherUserId || !chat.otherPublicKey) throw new Error('Chat not ready')
-      recipients = [
+      return [
         { userId: userId.value, publicKeyJwk: publicKeyJwk.value },
         { userId: chat.otherUserId, publicKeyJwk: chat.otherPublicKey },
       ]
+    }
+    const members = await ensureChatMembers(chat.id)
+    const recipients = members.map((m) => ({ userId: m.userId, publicKeyJwk: m.publicKey }))
+    if (!recipients.length) throw new Error('No recipients')
+    return recipients
+  }
+
+  function applyReaction(messageId: string, reactorId: string, emoji: string | null) {
+    const cur = reactionsByMessageId.value[messageId] ?? {}
+    if ((cur[reactorId] ?? null) === emoji) return
+    const { [reactorId]: _prev, ...rest } = cur
+    const next = emoji ? { ...rest, [reactorId]: emoji } : rest
+    reactionsByMessageId.value = { ...reactionsByMessageId.value, [messageId]: next }
+  }
+
+  // Returns the emoji, or null when the reaction is forged, undecryptable or aimed elsewhere.
+  async function openReaction(chatId: string, messageId: string, r: AuthReactionWire): Promise<string | null> {
+    try {
+      if (getMessageEnvelopeFormat(r.encryptedData) === 'ratchet') return null
+      const verification = await getIncomingEnvelopeVerification({
+        chatId,
+        senderId: r.reactorId,
+        encryptedData: r.encryptedData,
+        signature: r.signature,
+      })
+      if (verification === 'invalid') return null
+      const plain = await decryptChatEnvelope({ chatId, messageId, senderId: r.reactorId, encryptedData: r.encryptedData })
+      if (plain.notice !== 'reaction' || plain.replyToId !== messageId) return null
+      const emoji = plain.text.trim()
+      return emoji && emoji.length <= MAX_REACTION_CHARS ? emoji : null
+    } catch {
+      return null
+    }
+  }
+
+  // The server's list for a message is complete, so it replaces what we had.
+  async function loadReactions(chatId: string, list: AuthMessage[]) {
+    const next = { ...reactionsByMessageId.value }
+    for (const m of list) {
+      const byReactor: Record<string, string> = {}
+      for (const r of m.reactions ?? []) {
+        const emoji = await openReaction(chatId, m.id, r)
+        if (emoji) byReactor[r.reactorId] = emoji
+      }
+      if (Object.keys(byReactor).length) next[m.id] = byReactor
+      else delete next[m.id]
+    }
+    reactionsByMessageId.value = next
+  }
+
+  // One reaction per member per message; null (or re-sending the current emoji) removes it.
+  async function setReaction(chatId: string, messageId: string, emoji: string | null) {
+    if (!userId.value || !signingKey.value) throw new Error('Not unlocked')
+    const chat = chats.value.find((c) => c.id === chatId)
+    if (!chat) throw new Error('Chat not found')
+
+    const me = userId.value
+    const previous = reactionsByMessageId.value[messageId]?.[me] ?? null
+    const nextEmoji = emoji && emoji !== previous ? emoji.trim().slice(0, MAX_REACTION_CHARS) : null
+
+    let encryptedData = ''
+    let signature = ''
+    if (nextEmoji) {
+      const recipients = await chatRecipients(chat)
+      const plaintext: ChatMessagePlain = {
+        text: nextEmoji,
+        atIso: new Date().toISOString(),
+        replyToId: messageId,
+        modifiedAtIso: null,
+        notice: 'reaction',
+      }
+      const mySigningKey = signingKey.value
+      await withSenderKeyRetry(chatId, async () => {
+        encryptedData = await encryptChatMessage({ chat, plaintext, recipients, allowRatchet: false })
+        signature = await signEnvelope({ signingKey: mySigningKey, senderId: me, chatId, encryptedData })
+        if (utf8ByteLength(encryptedData) > MAX_ENCRYPTED_MESSAGE_BYTES) throw new Error(ERR_ENCRYPTED_TOO_LARGE)
+        return await fetchJson('/api/messages/react', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ chatId, messageId, encryptedData, signature }),
+        })
+      })
     } else {
-      const members = await ensureChatMembers(chatId)
-      recipients = members.map((m) => ({ userId: m.userId, publicKeyJwk: m.publicKey }))
-      if (!recipients.length) throw new Error('No recipients')
+      await fetchJson('/api/messages/react', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ chatId, messageId, encryptedData: '' }),
+      })
+    }
+
+    applyReaction(messageId, me, nextEmoji)
+  }
+
+  function applyReceipts(list: Array<{ messageId: string; userId: string; state: AuthMessageReceipt }>) {
+    if (!list.length) return
+    const next = { ...receiptsByMessageId.value }
+    for (const r of list) {
+      const cur = next[r.messageId] ?? {}
+      if (cur[r.userId] === 'read' || cur[r.userId] === r.state) continue
+      next[r.messageId] = { ...cur, [r.userId]: r.state }
+    }
+    receiptsByMessageId.value = next
+  }
+
+  function loadReceipts(chatId: string, list: AuthMessage[]) {
+    const me = userId.value
+    if (!me) return
+    const own: Array<{ messageId: string; userId: string; state: AuthMessageReceipt }> = []
+    const others: string[] = []
+    for (const m of list) {
+      if (m.senderId !== me) {
+        others.push(m.id)
+        continue
+      }
+      for (const r of m.receipts ?? []) own.push({ messageId: m.id, userId: r.userId, state: r.state })
+    }
+    applyReceipts(own)
+    queueDelivered(chatId, others)
+  }
+
+  // Delivered receipts are batched; each message is reported at most once per session.
+  function queueDelivered(chatId: string, messageIds: string[]) {
+    if (!readReceipts.value || !token.value) return
+    const fresh = messageIds.filter((id) => !deliveredReported.has(id))
+    if (!fresh.length) return
+    const pending = pendingDeliveredByChatId.get(chatId) ?? new Set<string>()
+    for (const id of fresh) {
+      deliveredReported.add(id)
+      pending.add(id)
+    }
+    pendingDeliveredByChatId.set(chatId, pending)
+    if (deliveredFlushTimer == null) {
+      deliveredFlushTimer = window.setTimeout(() => {
+        deliveredFlushTimer = null
+        void flushDelivered()
+      }, 500)
+    }
+  }
+
+  async function flushDelivered() {
+    const batches = Array.from(pendingDeliveredByChatId.entries())
+    pendingDeliveredByChatId.clear()
+    for (const [chatId, ids] of batches) {
+      try {
+        await fetchJson('/api/messages/mark-delivered', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ chatId, messageIds: Array.from(ids) }),
+        })
+      } catch {
+        // Best-effort: the read receipt supersedes it anyway.
+      }
+    }
+  }
+
+  function clearReceipts() {
+    if (deliveredFlushTimer != null) {
+      window.clearTimeout(deliveredFlushTimer)
+      deliveredFlushTimer = null
+    }
+    pendingDeliveredByChatId.clear()
+    deliveredReported.clear()
+    receiptsByMessageId.value = {}
+  }
+
+  function setReadReceiptsLocal(next: boolean) {
+    readReceipts.value = next
+    if (!next) clearReceipts()
+  }
+
+  let messageExpiryTimer: number | null = null
+
+  function clearMessageExpiryTimer() {
+    if (messageExpiryTimer != null) {
+      window.clearTimeout(messageExpiryTimer)
+      messageExpiryTimer = null
+    }
+  }
+
+  // Drops disappearing messages (and their chat-list previews and cached plaintext) once due,
+  // then re-arms for the next one. The server purges its rows independently.
+  function pruneExpiredMessages() {
+    clearMessageExpiryTimer()
+    const now = Date.now()
+    const expiredIds: string[] = []
+    let nextExpiry = Infinity
+
+    let changed = false
+    const nextByChat: Record<string, AuthDecryptedMessage[]> = {}
+    for (const [cid, list] of Object.entries(messagesByChatId.value)) {
+      const kept = list.filter((m) => {
+        if (isMessageExpired(m, now)) {
+          expiredIds.push(m.id)
+          return false
+        }
+        const exp = messageExpiresAtMs(m)
+        if (exp !== null) nextExpiry = Math.min(nextExpiry, exp)
+        return true
+      })
+      if (kept.length !== list.length) changed = true
+      nextByChat[cid] = kept
+    }
+    if (changed) messagesByChatId.value = nextByChat
+
+    let previewsChanged = false
+    const nextPreviews: Record<string, AuthLastMessagePreview> = {}
+    for (const [cid, p] of Object.entries(lastMessagePreviewByChatId.value)) {
+      if (p.expiresAtMs != null && p.expiresAtMs <= now) {
+        previewsChanged = true
+        continue
+      }
+      if (p.expiresAtMs != null) nextExpiry = Math.min(nextExpiry, p.expiresAtMs)
+      nextPreviews[cid] = p
     }
+    if (previewsChanged) lastMessagePreviewByChatId.value = nextPreviews
 
-    const encryptedData = await encryptMessageEnvelope({
-      plaintext: { text: t, atIso, replyToId, modifiedAtIso: null },
-      recipients,
-      objectPadMinChars: MESSAGE_OBJECT_PAD_MIN_CHARS,
-      objectPadMaxChars: MESSAGE_OBJECT_PAD_MAX_CHARS,
-    })
+    if (expiredIds.length) {
+      forgetRatchetMessages(expiredIds)
+      const nextReactions = { ...reactionsByMessageId.value }
+      for (const id of expiredIds) delete nextReactions[id]
+      reactionsByMessageId.value = nextReactions
+    }
+    if (nextExpiry === Infinity) return
+    // Cap the wait so a long timer does not depend on one huge setTimeout.
+    const delay = Math.min(Math.max(0, nextExpiry - now) + 50, 60 * 60 * 1000)
+    messageExpiryTimer = window.setTimeout(pruneExpiredMessages, delay)
+  }
 
-    const signature = await signEnvelope({ signingKey: signingKey.value, senderId: userId.value, chatId, encryptedData })
+  watch([messagesByChatId, lastMessagePreviewByChatId], () => pruneExpiredMessages(), { flush: 'post' })
 
-    if (utf8ByteLength(encryptedData) > MAX_ENCRYPTED_MESSAGE_BYTES) throw new Error(ERR_ENCRYPTED_TOO_LARGE)
+  // Encrypts and uploads a file for a message that is about to be sent in `chatId`.
+  // The returned attachment goes into sendMessage; until then the server keeps the blob pending.
+  async function uploadAttachment(
+    chatId: string,
+    file: File,
+    opts?: { onProgress?: (fraction: number) => void; voice?: VoiceNoteMeta | null },
+  ): Promise<MessageAttachment> {
+    const onProgress = opts?.onProgress
+    if (!token.value) throw new Error('Not logged in')
+    if (file.size > MAX_ATTACHMENT_BYTES) throw new Error('attachment_too_large')
+
+    const data = new Uint8Array(await file.arrayBuffer())
+    const mime = normalizeAttachmentMime(file.type)
+    const thumb = isImageAttachment({ mime }) ? await makeImageThumbnail(file) : null
+    const { key, ciphertext } = await encryptAttachment(data)
+
+    // XHR rather than fetch: fetch has no upload progress.
+    const j = await new Promise<any>((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+      xhr.open('POST', `${apiBase()}/api/blobs/upload?chatId=${encodeURIComponent(chatId)}`)
+      for (const [k, v] of Object.entries(authHeaders())) xhr.setRequestHeader(k, v)
+      xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+      xhr.responseType = 'json'
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable && onProgress) onProgress(e.loaded / e.total)
+      }
+      xhr.onload = () => {
+        const body = xhr.response ?? {}
+        if (xhr.status >= 200 && xhr.status < 300) resolve(body)
+        else reject(new Error(typeof body?.error === 'string' ? body.error : `HTTP ${xhr.status}`))
+      }
+      xhr.onerror = () => reject(new Error('Network error'))
+      xhr.send(ciphertext as unknown as XMLHttpRequestBodyInit)
+    })
+
+    const blobId = typeof j?.blobId === 'string' ? j.blobId : ''
+    if (!blobId) throw new Error('Upload failed')
+    onProgress?.(1)
+    return {
+      blobId,
+      key,
+      name: normalizeAttachmentName(file.name),
+      mime,
+      size: data.byteLength,
+      chunkBytes: ATTACHMENT_CHUNK_BYTES,
+      thumb,
+      voice: opts?.voice ?? null,
+    }
+  }
 
-    const j = await fetchJson('/api/messages/send', {
+  // Releases an uploaded blob that will not be sent, so it stops counting against the pending
+  // uploads the server allows. Best effort: the orphan sweep gets it otherwise.
+  function discardAttachment(att: MessageAttachment) {
+    if (!token.value) return
+    void fetchJson('/api/blobs/discard', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', ...authHeaders() },
-      body: JSON.stringify({ chatId, encryptedData, signature }),
-    })
+      body: JSON.stringify({ blobId: att.blobId }),
+    }).catch(() => null)
+  }
 
-    const msgId = typeof j.messageId === 'string' ? j.messageId : null
-    if (!msgId) return
+  async function downloadAttachment(att: MessageAttachment, onProgress?: (fraction: number) => void): Promise<Blob> {
+    const r = await fetch(`${apiBase()}/api/blobs/get?blobId=${encodeURIComponent(att.blobId)}`, {
+      headers: { ...authHeaders() },
+    })
+    if (!r.ok || !r.body) throw new Error(r.status === 404 ? 'not_found' : `HTTP ${r.status}`)
+
+    const total = Number(r.headers.get('Content-Length')) || 0
+    const reader = r.body.getReader()
+    const parts: Uint8Array[] = []
+    let received = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      parts.push(value)
+      received += value.byteLength
+      if (total && onProgress) onProgress(Math.min(1, received / total))
+    }
 
-    // Append optimistically (it will also arrive via realtime events, but those are best-effort).
-    const cur = messagesByChatId.value[chatId] ?? []
-    if (cur.some((m) => m.id === msgId)) return
-    messagesByChatId.value = {
-      ...messagesByChatId.value,
-      [chatId]: [...cur, { id: msgId, chatId, senderId: userId.value, atIso, modifiedAtIso: null, fromUsername: username.value, text: t, replyToId, verification: 'verified' }],
+    const ciphertext = new Uint8Array(received)
+    let off = 0
+    for (const p of parts) {
+      ciphertext.set(p, off)
+      off += p.byteLength
     }
+
+    const plain = await decryptAttachment(att, ciphertext)
+    return new Blob([plain as unknown as BlobPart], { type: att.mime })
   }
 
   async function register(params: { username: string; password: string; expirationDays: number }) {
@@ -2721,6 +5443,7 @@ export const useAuthStore = defineStore('auth', () => {
     username.value = u
     hiddenMode.value = Boolean(j?.hiddenMode)
     introvertMode.value = Boolean(j?.introvertMode)
+    readReceipts.value = j?.readReceipts !== false
     publicKeyJwk.value = publicJwk
 
     vaultEncrypted.value = vaultEnc
@@ -2738,7 +5461,7 @@ export const useAuthStore = defineStore('auth', () => {
 
     if (token.value && userId.value && username.value) {
       storeSession(
-        { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+        { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
         token.value,
         expiresAtMs.value,
       )
@@ -2757,6 +5480,504 @@ export const useAuthStore = defineStore('auth', () => {
     view.value = 'contacts'
   }
 
+  // Re-checks the password before key material leaves this device in some form, and returns
+  // the entry it unlocks (which must hold the account's current key).
+  async function findOwnLocalKey(password: string) {
+    const u = username.value
+    const currentPublicKey = publicKeyJwk.value
+    if (!token.value || !u || !currentPublicKey) throw new Error('Not logged in')
+    if (!password) throw new Error('Password required')
+
+    const localKey = await findLocalKeyMaterialForLogin({ username: u, password })
+    if (!localKey || publicJwkFromPrivateJwk(localKey.privateKeyMaterial) !== currentPublicKey) throw new Error('Wrong password')
+    return { username: u, ...localKey }
+  }
+
+  // Stores a key entry received from elsewhere under a password chosen on this device, then
+  // logs in with it.
+  async function adoptLocalKeyEntry(entry: LocalKeyEntryPlain, password: string) {
+    if (!password) throw new Error('Password required')
+    await saveLocalKeyForUser({
+      username: entry.n,
+      password,
+      privateKeyMaterial: entry.k,
+      signingKeyMaterial: entry.s,
+    })
+    await login({ username: entry.n, password })
+  }
+
+  // Old device: the key entry leaves this device in the clear to whoever scans the QR, so the
+  // password is checked first; then the server is asked for a one-time code.
+  async function startDeviceLink(params: { password: string }) {
+    if (transportClient.getReadyState() !== WebSocket.OPEN) throw new Error('Offline')
+    const own = await findOwnLocalKey(params.password)
+
+    cancelDeviceLink()
+    const plain = makeLocalKeyEntryPlain(own)
+    deviceLinkOfferState = {
+      code: '',
+      secret: newDeviceLinkSecret(),
+      keyPair: await generateDeviceLinkKeyPair(),
+      plaintext: JSON.stringify(plain),
+    }
+    deviceLinkOffer.value = { status: 'requesting', qrText: '', expiresAtMs: 0 }
+    sendReliableMessage({ type: 'linkOffer' })
+  }
+
+  function finishDeviceLinkOffer(status: DeviceLinkOfferStatus) {
+    deviceLinkOfferState = null
+    deviceLinkOffer.value = { status, qrText: '', expiresAtMs: 0 }
+  }
+
+  function cancelDeviceLink() {
+    const st = deviceLinkOfferState
+    if (st?.code) sendReliableMessage({ type: 'linkCancel', code: st.code })
+    deviceLinkOfferState = null
+    deviceLinkOffer.value = null
+  }
+
+  async function onDeviceLinkOfferMessage(obj: Record<string, unknown>) {
+    const st = deviceLinkOfferState
+    const offer = deviceLinkOffer.value
+    if (!st || !offer) return
+
+    if (obj.type === 'linkCode') {
+      if (st.code) return
+      const code = typeof obj.code === 'string' ? obj.code : ''
+      if (!code) {
+        finishDeviceLinkOffer('failed')
+        return
+      }
+      st.code = code
+      const ttlMs = typeof obj.expiresInMs === 'number' && Number.isFinite(obj.expiresInMs) ? obj.expiresInMs : 0
+      deviceLinkOffer.value = {
+        status: 'waiting',
+        qrText: buildDeviceLinkQrText({ code, secret: st.secret, pub: st.keyPair.pub }),
+        expiresAtMs: Date.now() + ttlMs,
+      }
+      return
+    }
+
+    if (!st.code || obj.code !== st.code) return
+
+    if (obj.type === 'linkClosed') {
+      finishDeviceLinkOffer('failed')
+      return
+    }
+
+    const peerPub = typeof obj.pub === 'string' ? obj.pub : ''
+    if (!peerPub || offer.status !== 'waiting') return
+    deviceLinkOffer.value = { ...offer, status: 'sending' }
+    try {
+      const key = await deriveDeviceLinkKey({ privateKey: st.keyPair.privateKey, peerPub, secret: st.secret })
+      const data = await sealDeviceLinkPayload(key, st.plaintext)
+      if (deviceLinkOfferState !== st) return
+      sendReliableMessage({ type: 'linkSend', code: st.code, data })
+      finishDeviceLinkOffer('done')
+    } catch {
+      if (deviceLinkOfferState !== st) return
+      sendReliableMessage({ type: 'linkCancel', code: st.code })
+      finishDeviceLinkOffer('failed')
+    }
+  }
+
+  // New device: connects with the scanned code alone and waits for the sealed key entry.
+  async function joinDeviceLink(qrText: string) {
+    if (authIn.value) throw new Error('logged_in')
+    const qr = parseDeviceLinkQrText(qrText)
+    if (!qr) throw new Error('bad_qr')
+
+    cancelDeviceLinkJoin()
+    const seq = deviceLinkJoinSeq
+    const keyPair = await generateDeviceLinkKeyPair()
+    if (seq !== deviceLinkJoinSeq) return
+    deviceLinkJoin.value = { status: 'connecting', username: '' }
+
+    const currentStatus = () => (seq === deviceLinkJoinSeq ? deviceLinkJoin.value?.status : null)
+    const setStatus = (status: DeviceLinkJoinStatus, u = '') => {
+      if (seq !== deviceLinkJoinSeq) return
+      deviceLinkJoin.value = { status, username: u }
+    }
+
+    linkTransportClient.connect(transportLinkUrl(qr.code), {
+      onOpen: () => {
+        linkTransportClient.sendJson({ type: 'linkHello', pub: keyPair.pub })
+      },
+      onClose: () => {
+        const st = currentStatus()
+        if (st === 'connecting' || st === 'waiting') setStatus('failed')
+      },
+      onError: () => {
+        // onClose follows.
+      },
+      onMessage: async (raw) => {
+        let obj: any
+        try {
+          obj = JSON.parse(String(raw))
+        } catch {
+          return
+        }
+        if (obj?.type === 'linkReady') {
+          setStatus('waiting')
+          return
+        }
+        if (obj?.type === 'linkClosed') {
+          setStatus('failed')
+          linkTransportClient.disconnect(false)
+          return
+        }
+        if (obj?.type !== 'linkData' || typeof obj.data !== 'string') return
+
+        try {
+          const key = await deriveDeviceLinkKey({ privateKey: keyPair.privateKey, peerPub: qr.pub, secret: qr.secret })
+          const plain = parseLocalKeyEntryPlain(await openDeviceLinkPayload(key, obj.data))
+          if (!plain) throw new Error('Bad link payload')
+          assertUsernameIsXssSafe(plain.n)
+          if (seq !== deviceLinkJoinSeq) return
+          deviceLinkJoinEntry = plain
+          setStatus('received', plain.n)
+        } catch {
+          setStatus('failed')
+        }
+        linkTransportClient.disconnect(false)
+      },
+    })
+  }
+
+  function cancelDeviceLinkJoin() {
+    deviceLinkJoinSeq += 1
+    linkTransportClient.disconnect(false)
+    deviceLinkJoinEntry = null
+    deviceLinkJoin.value = null
+  }
+
+  async function completeDeviceLink(params: { password: string }) {
+    const entry = deviceLinkJoinEntry
+    if (!entry) throw new Error('No linked key')
+    if (!params.password) throw new Error('Password required')
+
+    deviceLinkJoinEntry = null
+    deviceLinkJoin.value = null
+    await adoptLocalKeyEntry(entry, params.password)
+  }
+
+  // Which server-side key backups this account has: recovery phrase, social recovery.
+  async function fetchKeyBackupStatus() {
+    if (!token.value) return { phrase: false, social: false }
+    const j = await fetchJson('/api/account/key-backup', { headers: { ...authHeaders() } })
+    return { phrase: Boolean(j?.exists), social: Boolean(j?.social) }
+  }
+
+  // Fetches the backup filed under the recovery keys' lookup id and opens it.
+  async function fetchRecoveryBackupEntry(keys: RecoveryKeys) {
+    const j = await fetchJson('/api/auth/key-backup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lookupId: keys.lookupId }),
+    })
+    const blob = typeof j?.blob === 'string' ? j.blob : ''
+    if (!blob) throw new Error('Not found')
+
+    let entry: LocalKeyEntryPlain | null = null
+    try {
+      entry = parseLocalKeyEntryPlain(await openRecoveryBackup(keys, blob))
+    } catch {
+      entry = null
+    }
+    if (!entry) throw new Error('Bad recovery backup')
+    return entry
+  }
+
+  // Seals the current key entry under a fresh phrase and uploads it, replacing any older
+  // backup. The phrase is returned once for the user to write down and is not kept.
+  async function createRecoveryPhrase(params: { password: string }) {
+    const own = await findOwnLocalKey(params.password)
+
+    const phrase = generateRecoveryPhrase()
+    const keys = await deriveRecoveryKeys(phrase)
+    const plain = makeLocalKeyEntryPlain(own)
+    const blob = await sealRecoveryBackup(keys, JSON.stringify(plain))
+
+    await fetchJson('/api/account/key-backup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ lookupId: keys.lookupId, blob }),
+    })
+    return phrase
+  }
+
+  async function removeRecoveryPhrase() {
+    if (!token.value) throw new Error('Not logged in')
+    await fetchJson('/api/account/key-backup/delete', {
+      method: 'POST',
+      headers: { ...authHeaders() },
+    })
+  }
+
+  // New device without the old one: restores the key entry from the phrase's backup.
+  async function restoreFromRecoveryPhrase(params: { phrase: string; password: string }) {
+    if (!params.password) throw new Error('Password required')
+    const entry = await fetchRecoveryBackupEntry(await deriveRecoveryKeys(params.phrase))
+    await adoptLocalKeyEntry(entry, params.password)
+  }
+
+  // Splits a fresh recovery secret among the chosen contacts, each share sent as a notice in
+  // the personal chat; any `threshold` of them can later help rebuild it. Replaces an earlier
+  // split, whose shares no longer open the backup.
+  async function setupSocialRecovery(params: { password: string; contactUserIds: string[]; threshold: number }) {
+    const own = await findOwnLocalKey(params.password)
+
+    const ids = [...new Set(params.contactUserIds)]
+    const targets = ids.map((id) => chats.value.find((c) => c.type === 'personal' && c.otherUserId === id && c.otherPublicKey))
+    if (targets.some((c) => !c)) throw new Error('Chat not ready')
+
+    const secret = newSocialRecoverySecret()
+    const shares = splitSocialRecoverySecret(secret, ids.length, params.threshold)
+    const keys = await deriveRecoveryKeysFromSecret(secret)
+    secret.fill(0)
+    const blob = await sealRecoveryBackup(keys, JSON.stringify(makeLocalKeyEntryPlain(own)))
+
+    await fetchJson('/api/account/key-backup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ lookupId: keys.lookupId, blob, kind: 'social' }),
+    })
+    for (let i = 0; i < targets.length; i++) {
+      await sendMessage(targets[i]!.id, JSON.stringify(shares[i]), { notice: { kind: 'recoveryShare', timerSeconds: 0 } })
+    }
+  }
+
+  async function removeSocialRecovery() {
+    if (!token.value) throw new Error('Not logged in')
+    await fetchJson('/api/account/key-backup/delete', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ kind: 'social' }),
+    })
+  }
+
+  async function loadHeldRecoveryShares(): Promise<void> {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return
+    if (heldRecoverySharesUserId === uid && heldRecoverySharesLoad) return await heldRecoverySharesLoad
+
+    heldRecoverySharesUserId = uid
+    heldRecoverySharesLoad = (async () => {
+      const all = localData.getJson<Record<string, string>>(LocalEntity.AuthRecoveryShares) ?? {}
+      const blob = typeof all[uid] === 'string' ? all[uid] : ''
+      if (!blob) return
+      try {
+        const parsed = JSON.parse(await openLocalVault(blob, jwk, RECOVERY_SHARES_VAULT_INFO)) as any
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return
+        const next: Record<string, HeldRecoveryShare> = {}
+        for (const [ownerId, v] of Object.entries(parsed as Record<string, any>)) {
+          const share = parseRecoveryShare(JSON.stringify(v?.share ?? null))
+          if (share && typeof v?.messageId === 'string') next[ownerId] = { share, messageId: v.messageId }
+        }
+        heldRecoveryShares.value = next
+      } catch {
+        // Unreadable: shares come back as their chats are read again.
+      }
+    })()
+    return await heldRecoverySharesLoad
+  }
+
+  async function saveHeldRecoveryShares() {
+    const uid = userId.value
+    const jwk = lastPrivateJwkJsonForStay
+    if (!uid || !jwk) return
+    const blob = await sealLocalVault(JSON.stringify(heldRecoveryShares.value), jwk, RECOVERY_SHARES_VAULT_INFO)
+    const all = localData.getJson<Record<string, string>>(LocalEntity.AuthRecoveryShares) ?? {}
+    localData.setJson(LocalEntity.AuthRecoveryShares, { ...all, [uid]: blob })
+  }
+
+  // Keeps a share a contact sent us. Only from the other side of a personal chat, and only
+  // the newest one per contact whatever order history is read in.
+  async function noteRecoveryShare(params: { chatId: string; messageId: string; senderId: string; text: string }) {
+    if (!params.senderId || params.senderId === userId.value) return
+    const chat = chats.value.find((c) => c.id === params.chatId)
+    if (chat?.type !== 'personal' || chat.otherUserId !== params.senderId) return
+    const share = parseRecoveryShare(params.text)
+    if (!share) return
+
+    await loadHeldRecoveryShares()
+    const cur = heldRecoveryShares.value[params.senderId]
+    if (cur && cur.messageId >= params.messageId) return
+    heldRecoveryShares.value = { ...heldRecoveryShares.value, [params.senderId]: { share, messageId: params.messageId } }
+    await saveHeldRecoveryShares().catch(() => null)
+  }
+
+  // Requests are only surfaced for contacts we hold a share for.
+  async function addRecoveryRequest(ownerId: string, requestId: string, pub: string) {
+    if (!ownerId || ownerId === userId.value || !requestId || !pub) return
+    if (dismissedRecoveryRequestIds.has(requestId)) return
+    await loadHeldRecoveryShares()
+    if (!heldRecoveryShares.value[ownerId]) {
+      // The share may sit in history this device has not decrypted yet.
+      const chat = chats.value.find((c) => c.type === 'personal' && c.otherUserId === ownerId)
+      if (chat) await loadMessages(chat.id, 200).catch(() => null)
+      if (!heldRecoveryShares.value[ownerId]) return
+    }
+    const code = await recoveryRequestCode(pub)
+    recoveryRequestByUserId.value = { ...recoveryRequestByUserId.value, [ownerId]: { requestId, pub, code } }
+  }
+
+  function dismissRecoveryRequest(ownerId: string) {
+    const cur = recoveryRequestByUserId.value[ownerId]
+    if (!cur) return
+    dismissedRecoveryRequestIds.add(cur.requestId)
+    const { [ownerId]: _r, ...rest } = recoveryRequestByUserId.value
+    recoveryRequestByUserId.value = rest
+  }
+
+  async function refreshRecoveryRequests() {
+    if (!token.value) return
+    let list: any[] = []
+    try {
+      const j = await fetchJson('/api/social-recovery/pending', { headers: { ...authHeaders() } })
+      list = Array.isArray(j?.requests) ? j.requests : []
+    } catch {
+      return
+    }
+    for (const r of list) {
+      await addRecoveryRequest(String(r?.userId ?? ''), String(r?.requestId ?? ''), String(r?.pub ?? ''))
+    }
+  }
+
+  // Contact side: seals our share to the requesting device. The caller has compared the code.
+  async function approveRecoveryRequest(ownerId: string) {
+    const req = recoveryRequestByUserId.value[ownerId]
+    const held = heldRecoveryShares.value[ownerId]
+    if (!req || !held) throw new Error('No recovery request')
+
+    const sealed = await sealShareForRequest({ requestId: req.requestId, requestPub: req.pub, share: held.share })
+    await fetchJson('/api/social-recovery/approve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ requestId: req.requestId, ...sealed }),
+    })
+    dismissRecoveryRequest(ownerId)
+  }
+
+  // Recovering side: publishes a request to the account's contacts and polls for their shares.
+  async function startSocialRecovery(params: { username: string }) {
+    const u = params.username.trim()
+    if (!u) throw new Error('Username required')
+    assertUsernameIsXssSafe(u)
+
+    cancelSocialRecovery()
+    const seq = socialRecoverySeq
+    const nameToken = await voprfNameToken({ kind: 'user', input: u })
+    const keyPair = await generateRecoveryRequestKeyPair()
+    const code = await recoveryRequestCode(keyPair.pub)
+    const j = await fetchJson('/api/auth/social-recovery/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ nameToken, pub: keyPair.pub }),
+    })
+    const requestId = typeof j?.requestId === 'string' ? j.requestId : ''
+    const pollToken = typeof j?.pollToken === 'string' ? j.pollToken : ''
+    if (!requestId || !pollToken) throw new Error('Request failed')
+    if (seq !== socialRecoverySeq) {
+      closeSocialRecoveryRequest({ requestId, pollToken })
+      return
+    }
+
+    socialRecoveryState = { requestId, pollToken, keyPair, timer: null, entry: null }
+    socialRecovery.value = { status: 'waiting', code, received: 0, needed: null }
+    scheduleSocialRecoveryPoll(seq)
+  }
+
+  function scheduleSocialRecoveryPoll(seq: number) {
+    const st = socialRecoveryState
+    if (!st || seq !== socialRecoverySeq) return
+    st.timer = window.setTimeout(() => void pollSocialRecovery(seq), SOCIAL_RECOVERY_POLL_MS)
+  }
+
+  function closeSocialRecoveryRequest(st: { requestId: string; pollToken: string }) {
+    void fetchJson('/api/auth/social-recovery/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ requestId: st.requestId, pollToken: st.pollToken }),
+    }).catch(() => null)
+  }
+
+  async function pollSocialRecovery(seq: number) {
+    const st = socialRecoveryState
+    if (!st || seq !== socialRecoverySeq) return
+    st.timer = null
+
+    let wire: any[] = []
+    try {
+      const j = await fetchJson('/api/auth/social-recovery/poll', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: st.requestId, pollToken: st.pollToken }),
+      })
+      wire = Array.isArray(j?.shares) ? j.shares : []
+    } catch (e) {
+      if (seq !== socialRecoverySeq) return
+      // Expired, or the server restarted: the request has to be made again.
+      if (e instanceof Error && e.message === 'Not found') {
+        socialRecovery.value = socialRecovery.value ? { ...socialRecovery.value, status: 'failed' } : null
+        return
+      }
+      scheduleSocialRecoveryPoll(seq)
+      return
+    }
+
+    const shares: RecoveryShare[] = []
+    for (const w of wire) {
+      const pub = typeof w?.pub === 'string' ? w.pub : ''
+      const data = typeof w?.data === 'string' ? w.data : ''
+      if (!pub || !data) continue
+      const share = await openShareFromContact({ requestId: st.requestId, privateKey: st.keyPair.privateKey, pub, data })
+      if (share) shares.push(share)
+    }
+    if (seq !== socialRecoverySeq || !socialRecovery.value) return
+    socialRecovery.value = { ...socialRecovery.value, received: shares.length, needed: shares[0]?.k ?? null }
+
+    const secret = combineRecoveryShares(shares)
+    if (!secret) {
+      scheduleSocialRecoveryPoll(seq)
+      return
+    }
+
+    let entry: LocalKeyEntryPlain | null = null
+    try {
+      entry = await fetchRecoveryBackupEntry(await deriveRecoveryKeysFromSecret(secret))
+    } catch {
+      // Shares of a replaced split, or a bad share: the result opens nothing.
+      entry = null
+    } finally {
+      secret.fill(0)
+    }
+    if (seq !== socialRecoverySeq || !socialRecovery.value) return
+
+    closeSocialRecoveryRequest(st)
+    st.entry = entry
+    socialRecovery.value = { ...socialRecovery.value, status: entry ? 'ready' : 'failed' }
+  }
+
+  function cancelSocialRecovery() {
+    const st = socialRecoveryState
+    socialRecoverySeq += 1
+    if (st?.timer != null) window.clearTimeout(st.timer)
+    if (st && socialRecovery.value?.status === 'waiting') closeSocialRecoveryRequest(st)
+    socialRecoveryState = null
+    socialRecovery.value = null
+  }
+
+  async function completeSocialRecovery(params: { password: string }) {
+    const entry = socialRecoveryState?.entry
+    if (!entry) throw new Error('No recovered key')
+    if (!params.password) throw new Error('Password required')
+
+    cancelSocialRecovery()
+    await adoptLocalKeyEntry(entry, params.password)
+  }
+
   async function login(params: { username: string; password: string }) {
     const u = params.username.trim()
     if (!u) throw new Error('Username required')
@@ -2804,6 +6025,7 @@ export const useAuthStore = defineStore('auth', () => {
     username.value = u
     hiddenMode.value = Boolean(j?.hiddenMode)
     introvertMode.value = Boolean(j?.introvertMode)
+    readReceipts.value = j?.readReceipts !== false
     publicKeyJwk.value = publicJwk
     privateKey.value = priv
     signingKey.value = signPriv
@@ -2825,7 +6047,7 @@ export const useAuthStore = defineStore('auth', () => {
 
     if (token.value && userId.value && username.value) {
       storeSession(
-        { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+        { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
         token.value,
         expiresAtMs.value,
       )
@@ -2846,6 +6068,70 @@ export const useAuthStore = defineStore('auth', () => {
     view.value = 'contacts'
   }
 
+  // Replaces this account's keypair without losing it. The old key signs the new one so contacts
+  // can follow the change; it is kept (sealed under the new key) to read older history.
+  async function rotateKeys(params: { password: string }) {
+    const uid = userId.value
+    const u = username.value
+    const oldJwk = lastPrivateJwkJsonForStay
+    const oldPublicKey = publicKeyJwk.value
+    const oldSigningKey = signingKey.value
+    if (!token.value || !uid || !u || !oldJwk || !oldPublicKey || !oldSigningKey) throw new Error('Not unlocked')
+    if (!params.password) throw new Error('Password required')
+
+    const localKey = await findLocalKeyMaterialForLogin({ username: u, password: params.password })
+    if (!localKey || publicJwkFromPrivateJwk(localKey.privateKeyMaterial) !== oldPublicKey) throw new Error('Wrong password')
+
+    const exp = vaultPlain.value?.expirationDays
+    if (!exp || !Number.isFinite(exp)) throw new Error('Vault not loaded')
+
+    // Read everything sealed under the old key before switching.
+    const previousJwks = await readPreviousKeyJwks(uid, oldJwk)
+    await loadVerifiedContacts()
+    await loadHeldRecoveryShares()
+    await withRatchetVault(async () => {})
+
+    const { publicJwk, privateJwk } = await generateRsaKeyPair()
+    const signature = await signKeyRotation({ signingKey: oldSigningKey, userId: uid, oldPublicKey, newPublicKey: publicJwk })
+    const vaultJson = makeVaultJson(exp)
+    const vaultEnc = await encryptSmallStringWithPublicKeyJwk({ plaintext: vaultJson, publicKeyJwkJson: publicJwk })
+
+    await fetchJson('/api/account/rotate-key', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ publicKey: publicJwk, signature, vault: vaultEnc }),
+    })
+
+    // The server switched keys; the local entry must follow or the next login fails.
+    await saveLocalKeyForUser({ username: u, password: params.password, privateKeyMaterial: privateJwk })
+
+    const nextPrevious = [oldJwk, ...previousJwks].slice(0, MAX_PREVIOUS_KEYS)
+    const sealedPrevious = await sealLocalVault(JSON.stringify(nextPrevious), privateJwk, PREVIOUS_KEYS_VAULT_INFO)
+    const allPrevious = localData.getJson<Record<string, string>>(LocalEntity.AuthPreviousKeys) ?? {}
+    localData.setJson(LocalEntity.AuthPreviousKeys, { ...allPrevious, [uid]: sealedPrevious })
+
+    lastPrivateJwkJsonForStay = privateJwk
+    privateKey.value = await importRsaPrivateKeyJwk(privateJwk)
+    signingKey.value = await importRsaPssPrivateKeyJwk(privateJwk)
+    publicKeyJwk.value = publicJwk
+    vaultEncrypted.value = vaultEnc
+    vaultPlain.value = parseVaultPlain(vaultJson)
+    storeVaultPlain(vaultJson)
+    previousKeysLoad = null
+    keyRotationsByUserId.delete(uid)
+    senderKeysByChatId.clear()
+    membersByChatId.value = {}
+
+    // Re-seal local vaults under the new key.
+    await saveVerifiedContacts().catch(() => null)
+    await saveHeldRecoveryShares().catch(() => null)
+    await rotateRatchetCacheKey(uid)
+    await withRatchetVault(async () => {}).catch(() => null)
+    void persistStayUnlockBlobFromPrivateJwk(privateJwk)
+
+    await refreshChats()
+  }
+
   async function recreateAccount(params: { username: string; password: string; expirationDays: number }) {
     const u = params.username.trim()
     if (!u) throw new Error('Username required')
@@ -2897,6 +6183,7 @@ export const useAuthStore = defineStore('auth', () => {
     username.value = u
     hiddenMode.value = Boolean(j?.hiddenMode)
     introvertMode.value = Boolean(j?.introvertMode)
+    readReceipts.value = j?.readReceipts !== false
     publicKeyJwk.value = publicJwk
 
     vaultEncrypted.value = vaultEnc
@@ -2911,7 +6198,7 @@ export const useAuthStore = defineStore('auth', () => {
 
     if (token.value && userId.value && username.value) {
       storeSession(
-        { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+        { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
         token.value,
         expiresAtMs.value,
       )
@@ -2953,27 +6240,77 @@ export const useAuthStore = defineStore('auth', () => {
     wsPermanentlyFailed.value = false
     clearWsReconnectTimer()
     clearPresenceTimer()
+    cancelDeviceLink()
     disconnectWs()
     clearTokenRefreshTimer()
     clearRemoveDateSyncTimer()
+    clearMessageExpiryTimer()
     token.value = null
     expiresAtMs.value = null
     userId.value = null
     username.value = null
     hiddenMode.value = false
     introvertMode.value = false
+    readReceipts.value = true
     publicKeyJwk.value = null
     privateKey.value = null
     signingKey.value = null
+    stayPasskeyKey = null
     vaultEncrypted.value = ''
     vaultPlain.value = null
     removeDateIso.value = null
     chats.value = []
     unreadByChatId.value = {}
+    unreadMentionsByChatId.value = {}
     messagesByChatId.value = {}
+    reactionsByMessageId.value = {}
+    clearReceipts()
+    clearTyping()
     membersByChatId.value = {}
     activeChatId.value = null
     view.value = 'contacts'
+    ratchetVault = null
+    ratchetVaultUserId = null
+    ratchetCacheKey = null
+    ratchetEnabledByChatId.value = {}
+    senderKeysByChatId.clear()
+    deliveryTokenByChatId.clear()
+    verifiedContactsLoad = null
+    verifiedContactsUserId = null
+    previousKeysLoad = null
+    previousKeysUserId = null
+    keyRotationsByUserId.clear()
+    envelopeVersionsSyncedFor = null
+    verifiedFingerprintByUserId.value = {}
+    keyFingerprintByUserId.value = {}
+    pinnedFingerprintByUserId.value = {}
+    pinnedFingerprintByName.value = {}
+    pinAnchorByUserId.value = {}
+    keyChangedByUserId.value = {}
+    contactNameKeyByUserId.clear()
+    heldRecoverySharesLoad = null
+    heldRecoverySharesUserId = null
+    heldRecoveryShares.value = {}
+    recoveryRequestByUserId.value = {}
+    dismissedRecoveryRequestIds.clear()
+    if (messageCacheFlushTimer != null) window.clearTimeout(messageCacheFlushTimer)
+    messageCacheFlushTimer = null
+    messageCacheLoad = null
+    messageCacheUserId = null
+    messageCacheJwk = null
+    messageCacheDirtyChatIds.clear()
+    messageCacheDetachedChatIds.clear()
+    messageCacheChatListDirty = false
+    cipherDigestByMessageId.clear()
+    if (searchIndexFlushTimer != null) window.clearTimeout(searchIndexFlushTimer)
+    searchIndexFlushTimer = null
+    searchIndexLoad = null
+    searchIndexUserId = null
+    searchIndexJwk = null
+    searchIndexDirtyChatIds.clear()
+    outbox.value = []
+    outboxLoad = null
+    outboxUserId = null
 
     if (wipeSessionStorage) {
       lastUsername.value = ''
@@ -3035,6 +6372,7 @@ export const useAuthStore = defineStore('auth', () => {
     username.value = restored.u.username
     hiddenMode.value = Boolean(restored.u.hiddenMode)
     introvertMode.value = Boolean(restored.u.introvertMode)
+    readReceipts.value = restored.u.readReceipts !== false
     expiresAtMs.value = restored.e
     publicKeyJwk.value = null
     vaultPlain.value = loadVaultPlain()
@@ -3068,11 +6406,12 @@ export const useAuthStore = defineStore('auth', () => {
           username.value = sess.u.username
           hiddenMode.value = Boolean(sess.u.hiddenMode)
           introvertMode.value = Boolean(sess.u.introvertMode)
+          readReceipts.value = sess.u.readReceipts !== false
           expiresAtMs.value = typeof sess.e === 'number' && Number.isFinite(sess.e) ? sess.e : null
 
           // Repopulate sessionStorage so refreshes stay consistent.
           storeSession(
-            { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+            { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
             token.value,
             expiresAtMs.value,
           )
@@ -3100,6 +6439,13 @@ export const useAuthStore = defineStore('auth', () => {
         }
       }
 
+      if (stayPasskeyEnabled.value && token.value && !privateKey.value) {
+        await new Promise<void>((resolve) => {
+          stayPasskeyGate = resolve
+          stayPasskeyPrompt.value = true
+        })
+      }
+
       await tryRestoreStayUnlockBlob()
 
       // Variant B requirement: stay mode must never leave us in a auth-but-locked state.
@@ -3134,7 +6480,7 @@ export const useAuthStore = defineStore('auth', () => {
   })()
 
   // Keep stay-login mirrors updated whenever relevant state changes.
-  watch([token, userId, username, expiresAtMs, hiddenMode, introvertMode, stayLoggedIn], () => scheduleStayMirrorSync(), { flush: 'post' })
+  watch([token, userId, username, expiresAtMs, hiddenMode, introvertMode, readReceipts, stayLoggedIn], () => scheduleStayMirrorSync(), { flush: 'post' })
   watch(
     () => vaultPlain.value?.expirationDays,
     () => scheduleStayMirrorSync(),
@@ -3154,7 +6500,7 @@ export const useAuthStore = defineStore('auth', () => {
 
       if (token.value && userId.value && username.value) {
         storeSession(
-          { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+          { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
           token.value,
           expiresAtMs.value,
         )
@@ -3165,6 +6511,26 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
+  async function updateReadReceipts(next: boolean) {
+    if (!token.value) throw new Error('Not logged in')
+    const prev = readReceipts.value
+    setReadReceiptsLocal(Boolean(next))
+    try {
+      await updateAccount({ readReceipts: readReceipts.value })
+
+      if (token.value && userId.value && username.value) {
+        storeSession(
+          { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
+          token.value,
+          expiresAtMs.value,
+        )
+      }
+    } catch (e) {
+      readReceipts.value = prev
+      throw e
+    }
+  }
+
   async function updateIntrovertMode(next: boolean) {
     if (!token.value) throw new Error('Not logged in')
     const prev = introvertMode.value
@@ -3174,7 +6540,7 @@ export const useAuthStore = defineStore('auth', () => {
 
       if (token.value && userId.value && username.value) {
         storeSession(
-          { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value },
+          { userId: userId.value, username: username.value, hiddenMode: hiddenMode.value, introvertMode: introvertMode.value, readReceipts: readReceipts.value },
           token.value,
           expiresAtMs.value,
         )
@@ -3218,10 +6584,18 @@ export const useAuthStore = defineStore('auth', () => {
     username,
     hiddenMode,
     introvertMode,
+    readReceipts,
     vaultPlain,
     removeDateIso,
     notificationsEnabled,
     pushNotificationsEnabled,
+    sealedSenderEnabled,
+    stayPasskeyEnabled,
+    stayPasskeyPrompt,
+    deviceLinkOffer,
+    deviceLinkJoin,
+    socialRecovery,
+    recoveryRequestByUserId,
     restoring,
     stayLoggedIn,
     setStayLoggedIn,
@@ -3246,6 +6620,7 @@ export const useAuthStore = defineStore('auth', () => {
     activeChatId,
     chats,
     unreadByChatId,
+    unreadMentionsByChatId,
     lastMessageByChatId,
     lastMessagePreviewByChatId,
     membersByChatId,
@@ -3261,8 +6636,10 @@ export const useAuthStore = defineStore('auth', () => {
     logoutAndRemoveKeyOtherDevices,
     updateHiddenMode,
     updateIntrovertMode,
+    updateReadReceipts,
     updateExpirationDays,
     recreateAccount,
+    rotateKeys,
     refreshChats,
     fetchChatMembers,
     openChat,
@@ -3270,6 +6647,27 @@ export const useAuthStore = defineStore('auth', () => {
     openSettings,
     setNotificationsEnabledLocal,
     setPushNotificationsEnabledLocal,
+    setSealedSenderEnabledLocal,
+    enableStayPasskey,
+    disableStayPasskey,
+    unlockStayWithPasskey,
+    skipStayPasskeyUnlock,
+    startDeviceLink,
+    cancelDeviceLink,
+    joinDeviceLink,
+    cancelDeviceLinkJoin,
+    completeDeviceLink,
+    fetchKeyBackupStatus,
+    createRecoveryPhrase,
+    removeRecoveryPhrase,
+    restoreFromRecoveryPhrase,
+    setupSocialRecovery,
+    removeSocialRecovery,
+    approveRecoveryRequest,
+    dismissRecoveryRequest,
+    startSocialRecovery,
+    cancelSocialRecovery,
+    completeSocialRecovery,
     trySyncPushSubscription,
     disablePushNotifications,
     disablePushSubscription,
@@ -3278,13 +6676,43 @@ export const useAuthStore = defineStore('auth', () => {
     addGroupMember,
     renameGroupChat,
     loadMoreMessages,
+    searchMessages,
+    revealMessage,
     sendMessage,
+    forwardMessage,
+    outboxByChatId,
+    retryOutboxMessage,
+    discardOutboxMessage,
+    chatTimerSeconds,
+    setChatTimer,
+    reactionsByMessageId,
+    setReaction,
+    receiptsByMessageId,
+    typingByChatId,
+    notifyTyping,
+    stopTyping,
+    uploadAttachment,
+    discardAttachment,
+    downloadAttachment,
     markMessagesRead,
     listUnreadMessageIds,
     deleteMessage,
     updateMessage,
     updateMessageText,
     deleteChat,
+    ratchetSupported,
+    ratchetEnabledByChatId,
+    setChatRatchetEnabled,
+    verifiedFingerprintByUserId,
+    keyFingerprintByUserId,
+    keyChangedByUserId,
+    isContactVerified,
+    isContactKeyChanged,
+    acceptContactKeyChange,
+    getSafetyNumber,
+    getMyVerificationQrText,
+    setContactVerified,
+    verifyContactFromQr,
     sendPresenceHeartbeat,
     getChatOnlineState,
     getChatLastMessagePreview,
@@ -38,6 +38,30 @@ function micErrorToStatus(err: unknown) {
   return String(i18n.global.t('call.micError'))
 }
 
+// Build audio constraints from environment variables (defaults to browser defaults)
+function micAudioConstraints(): MediaTrackConstraints {
+  const audioConstraints: MediaTrackConstraints = {
+    echoCancellation: import.meta.env.VITE_AUDIO_ECHO_CANCELLATION !== undefined 
+      ? import.meta.env.VITE_AUDIO_ECHO_CANCELLATION === 'true' 
+      : true,
+    noiseSuppression: import.meta.env.VITE_AUDIO_NOISE_SUPPRESSION !== undefined
+      ? import.meta.env.VITE_AUDIO_NOISE_SUPPRESSION === 'true'
+      : true,
+    autoGainControl: import.meta.env.VITE_AUDIO_AUTO_GAIN !== undefined
+      ? import.meta.env.VITE_AUDIO_AUTO_GAIN === 'true'
+      : true,
+  }
+  
+  if (import.meta.env.VITE_AUDIO_SAMPLE_RATE) {
+    const rate = Number.parseInt(import.meta.env.VITE_AUDIO_SAMPLE_RATE, 10)
+    if (!Number.isNaN(rate) && rate >= 8000 && rate <= 96000) {
+      audioConstraints.sampleRate = rate
+    }
+  }
+  
+  return audioConstraints
+}
+
 export const useCallStore = defineStore('call', () => {
   const authStore = useAuthStore()
 
@@ -281,31 +305,16 @@ export const useCallStore = defineStore('call', () => {
 
   async function ensureMic() {
     if (localStream) return localStream
-    
-    // Build audio constraints from environment variables (defaults to browser defaults)
-    const audioConstraints: MediaTrackConstraints = {
-      echoCancellation: import.meta.env.VITE_AUDIO_ECHO_CANCELLATION !== undefined 
-        ? import.meta.env.VITE_AUDIO_ECHO_CANCELLATION === 'true' 
-        : true,
-      noiseSuppression: import.meta.env.VITE_AUDIO_NOISE_SUPPRESSION !== undefined
-        ? import.meta.env.VITE_AUDIO_NOISE_SUPPRESSION === 'true'
-        : true,
-      autoGainControl: import.meta.env.VITE_AUDIO_AUTO_GAIN !== undefined
-        ? import.meta.env.VITE_AUDIO_AUTO_GAIN === 'true'
-        : true,
-    }
-    
-    if (import.meta.env.VITE_AUDIO_SAMPLE_RATE) {
-      const rate = Number.parseInt(import.meta.env.VITE_AUDIO_SAMPLE_RATE, 10)
-      if (!Number.isNaN(rate) && rate >= 8000 && rate <= 96000) {
-        audioConstraints.sampleRate = rate
-      }
-    }
-    
-    localStream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints, video: false })
+    localStream = await openMic()
     return localStream
   }
 
+  // A fresh stream with the call's audio settings; the caller owns it and must stop its tracks.
+  // Used by voice notes so recording never touches the call's own stream.
+  function openMic() {
+    return navigator.mediaDevices.getUserMedia({ audio: micAudioConstraints(), video: false })
+  }
+
   function closePeer(peerId: string) {
     const pc = pcs.get(peerId)
     if (pc) {
@@ -883,5 +892,7 @@ export const useCallStore = defineStore('call', () => {
     rejectIncoming,
     hangup,
     primeAudio,
+    openMic,
+    micErrorText: micErrorToStatus,
   }
 })
@@ -8,6 +8,11 @@ export const useUiStore = defineStore('ui', () => {
   const manageKeysOpen = ref(false)
   const shareLinkOpen = ref(false)
   const scanQrOpen = ref(false)
+  const deviceLinkOpen = ref(false)
+  const safetyNumberTarget = ref<{ chatId: string; userId: string } | null>(null)
+  const chatSearchOpen = ref(false)
+  // A search result to scroll to once its chat is open; the chat panel consumes it.
+  const messageJumpTarget = ref<{ chatId: string; messageId: string } | null>(null)
 
   const themeMode = ref<'system' | 'dark' | 'light'>('system')
 
@@ -73,6 +78,34 @@ export const useUiStore = defineStore('ui', () => {
     scanQrOpen.value = false
   }
 
+  function openDeviceLink() {
+    deviceLinkOpen.value = true
+  }
+
+  function closeDeviceLink() {
+    deviceLinkOpen.value = false
+  }
+
+  function openSafetyNumber(chatId: string, userId: string) {
+    safetyNumberTarget.value = { chatId, userId }
+  }
+
+  function closeSafetyNumber() {
+    safetyNumberTarget.value = null
+  }
+
+  function openChatSearch() {
+    chatSearchOpen.value = true
+  }
+
+  function closeChatSearch() {
+    chatSearchOpen.value = false
+  }
+
+  function jumpToMessage(chatId: string, messageId: string) {
+    messageJumpTarget.value = { chatId, messageId }
+  }
+
   // Initialize + persist theme.
   loadTheme()
   watch(
@@ -89,6 +122,10 @@ export const useUiStore = defineStore('ui', () => {
     manageKeysOpen,
     shareLinkOpen,
     scanQrOpen,
+    deviceLinkOpen,
+    safetyNumberTarget,
+    chatSearchOpen,
+    messageJumpTarget,
     themeMode,
     themeLabel,
     cycleTheme,
@@ -100,5 +137,12 @@ export const useUiStore = defineStore('ui', () => {
     closeShareLink,
     openScanQr,
     closeScanQr,
+    openDeviceLink,
+    closeDeviceLink,
+    openSafetyNumber,
+    closeSafetyNumber,
+    openChatSearch,
+    closeChatSearch,
+    jumpToMessage,
   }
 })
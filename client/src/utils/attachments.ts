@@ -0,0 +1,188 @@
+// File attachments are encrypted client-side in fixed-size chunks under a random per-file
+// AES-GCM key. Chunk i uses IV = 0x00 * 7 | last-chunk flag | i (u32 BE), so chunks cannot be
+// reordered, dropped or cut off without failing authentication; the key is never reused.
+//
+// The key, name, type and size travel inside the message envelope. The server only stores the
+// opaque ciphertext and hands it back to members of the chat.
+
+import { b64Url, unb64Url } from './base64'
+
+export const ATTACHMENT_CHUNK_BYTES = 64 * 1024
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4
+
+const ATTACHMENT_KEY_BYTES = 32
+const AES_GCM_TAG_BYTES = 16
+const MAX_ATTACHMENT_NAME_CHARS = 200
+const MAX_ATTACHMENT_MIME_CHARS = 100
+
+const THUMB_MAX_DIM = 160
+const THUMB_MAX_CHARS = 8 * 1024
+const THUMB_QUALITIES = [0.7, 0.5, 0.35]
+
+// Voice notes carry a coarse waveform (one 0-255 peak per bar) so the bubble can render
+// before the audio itself is downloaded.
+export const VOICE_WAVEFORM_BARS = 48
+export const MAX_VOICE_NOTE_MS = 5 * 60 * 1000
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+const BASE64URL_RE = /^[A-Za-z0-9_-]+$/
+const THUMB_PREFIX = 'data:image/jpeg;base64,'
+
+export type MessageAttachment = {
+  blobId: string
+  // Per-file AES-GCM key, base64url.
+  key: string
+  name: string
+  mime: string
+  size: number
+  chunkBytes: number
+  // Small JPEG preview for images (data URL), shown before the file is downloaded.
+  thumb: string | null
+  voice: VoiceNoteMeta | null
+}
+
+export type VoiceNoteMeta = {
+  durationMs: number
+  waveform: number[]
+}
+
+function chunkIv(index: number, last: boolean) {
+  const iv = new Uint8Array(12)
+  iv[7] = last ? 1 : 0
+  new DataView(iv.buffer).setUint32(8, index >>> 0)
+  return iv
+}
+
+function chunkCount(size: number, chunkBytes: number) {
+  return Math.max(1, Math.ceil(size / chunkBytes))
+}
+
+export function encryptedAttachmentSize(size: number, chunkBytes = ATTACHMENT_CHUNK_BYTES) {
+  return size + chunkCount(size, chunkBytes) * AES_GCM_TAG_BYTES
+}
+
+export function isImageAttachment(att: Pick<MessageAttachment, 'mime'>) {
+  return /^image\/(png|jpeg|gif|webp|avif|bmp)$/.test(att.mime)
+}
+
+export function isVoiceAttachment(att: Pick<MessageAttachment, 'mime' | 'voice'>) {
+  return Boolean(att.voice) && att.mime.startsWith('audio/')
+}
+
+export async function encryptAttachment(data: Uint8Array) {
+  if (data.byteLength > MAX_ATTACHMENT_BYTES) throw new Error('attachment_too_large')
+
+  const rawKey = crypto.getRandomValues(new Uint8Array(ATTACHMENT_KEY_BYTES))
+  const key = await crypto.subtle.importKey('raw', rawKey as unknown as BufferSource, { name: 'AES-GCM' }, false, ['encrypt'])
+
+  const n = chunkCount(data.byteLength, ATTACHMENT_CHUNK_BYTES)
+  const out = new Uint8Array(encryptedAttachmentSize(data.byteLength))
+  let off = 0
+  for (let i = 0; i < n; i++) {
+    const chunk = data.subarray(i * ATTACHMENT_CHUNK_BYTES, (i + 1) * ATTACHMENT_CHUNK_BYTES)
+    const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: chunkIv(i, i === n - 1) }, key, chunk as unknown as BufferSource)
+    out.set(new Uint8Array(ct), off)
+    off += ct.byteLength
+  }
+
+  return { key: b64Url(rawKey), ciphertext: out }
+}
+
+export async function decryptAttachment(att: Pick<MessageAttachment, 'key' | 'size' | 'chunkBytes'>, ciphertext: Uint8Array) {
+  if (ciphertext.byteLength !== encryptedAttachmentSize(att.size, att.chunkBytes)) throw new Error('attachment_corrupt')
+
+  const key = await crypto.subtle.importKey('raw', unb64Url(att.key) as unknown as BufferSource, { name: 'AES-GCM' }, false, ['decrypt'])
+  const n = chunkCount(att.size, att.chunkBytes)
+  const stride = att.chunkBytes + AES_GCM_TAG_BYTES
+  const out = new Uint8Array(att.size)
+  for (let i = 0; i < n; i++) {
+    const ct = ciphertext.subarray(i * stride, (i + 1) * stride)
+    const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: chunkIv(i, i === n - 1) }, key, ct as unknown as BufferSource)
+    out.set(new Uint8Array(pt), i * att.chunkBytes)
+  }
+  return out
+}
+
+// Best-effort: returns null when the browser cannot decode the image or the preview stays too big.
+export async function makeImageThumbnail(file: Blob): Promise<string | null> {
+  if (typeof createImageBitmap !== 'function' || typeof document === 'undefined') return null
+  try {
+    const bitmap = await createImageBitmap(file)
+    const scale = Math.min(1, THUMB_MAX_DIM / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+
+    for (const q of THUMB_QUALITIES) {
+      const url = canvas.toDataURL('image/jpeg', q)
+      if (url.startsWith(THUMB_PREFIX) && url.length <= THUMB_MAX_CHARS) return url
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+// Envelope form: short keys like the rest of the compact payload.
+export type CompactAttachment = {
+  i: string
+  k: string
+  n: string
+  m: string
+  s: number
+  c: number
+  th?: string
+  // Voice note: duration in ms and base64url waveform peaks.
+  v?: { d: number; w: string }
+}
+
+export function toCompactAttachment(att: MessageAttachment): CompactAttachment {
+  const out: CompactAttachment = { i: att.blobId, k: att.key, n: att.name, m: att.mime, s: att.size, c: att.chunkBytes }
+  if (att.thumb) out.th = att.thumb
+  if (att.voice) out.v = { d: att.voice.durationMs, w: b64Url(Uint8Array.from(att.voice.waveform)) }
+  return out
+}
+
+function fromCompactVoice(raw: unknown): VoiceNoteMeta | null | undefined {
+  if (typeof raw === 'undefined') return null
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined
+  const v = raw as { d?: unknown; w?: unknown }
+  if (!Number.isSafeInteger(v.d) || (v.d as number) < 0 || (v.d as number) > MAX_VOICE_NOTE_MS) return undefined
+  if (typeof v.w !== 'string' || (v.w && !BASE64URL_RE.test(v.w))) return undefined
+  const waveform = Array.from(unb64Url(v.w))
+  if (waveform.length > VOICE_WAVEFORM_BARS) return undefined
+  return { durationMs: v.d as number, waveform }
+}
+
+export function fromCompactAttachment(raw: unknown): MessageAttachment | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null
+  const v = raw as Partial<CompactAttachment>
+  if (typeof v.i !== 'string' || !UUID_RE.test(v.i)) return null
+  if (typeof v.k !== 'string' || !BASE64URL_RE.test(v.k) || unb64Url(v.k).byteLength !== ATTACHMENT_KEY_BYTES) return null
+  if (typeof v.n !== 'string' || v.n.length > MAX_ATTACHMENT_NAME_CHARS) return null
+  if (typeof v.m !== 'string' || v.m.length > MAX_ATTACHMENT_MIME_CHARS) return null
+  if (!Number.isSafeInteger(v.s) || v.s! < 0 || v.s! > MAX_ATTACHMENT_BYTES) return null
+  if (!Number.isSafeInteger(v.c) || v.c! <= 0) return null
+  if (typeof v.th !== 'undefined' && (typeof v.th !== 'string' || !v.th.startsWith(THUMB_PREFIX) || v.th.length > THUMB_MAX_CHARS)) {
+    return null
+  }
+  const voice = fromCompactVoice(v.v)
+  if (voice === undefined) return null
+  return { blobId: v.i, key: v.k, name: v.n, mime: v.m, size: v.s!, chunkBytes: v.c!, thumb: v.th ?? null, voice }
+}
+
+export function normalizeAttachmentName(name: string) {
+  const trimmed = String(name ?? '').replace(/[\u0000-\u001f/\\]/g, '_').trim()
+  return (trimmed || 'file').slice(0, MAX_ATTACHMENT_NAME_CHARS)
+}
+
+export function normalizeAttachmentMime(mime: string) {
+  // Drop parameters: MediaRecorder reports e.g. `audio/webm;codecs=opus`.
+  const m = String(mime ?? '').split(';')[0]!.trim().toLowerCase()
+  return /^[a-z0-9.+-]+\/[a-z0-9.+-]+$/.test(m) && m.length <= MAX_ATTACHMENT_MIME_CHARS ? m : 'application/octet-stream'
+}
@@ -0,0 +1,26 @@
+// Base64 for binary values in JSON, envelopes and local records. The URL-safe form drops
+// padding; decoding accepts it with or without.
+
+export function b64(bytes: ArrayBuffer | Uint8Array) {
+  const u8 = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  let bin = ''
+  for (let i = 0; i < u8.length; i++) bin += String.fromCharCode(u8[i]!)
+  return btoa(bin)
+}
+
+export function unb64(s: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(s)
+  const u8 = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) u8[i] = bin.charCodeAt(i)
+  return u8
+}
+
+export function b64Url(bytes: ArrayBuffer | Uint8Array) {
+  return b64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+}
+
+export function unb64Url(s: string) {
+  const raw = String(s ?? '').replace(/-/g, '+').replace(/_/g, '/')
+  const padLen = (4 - (raw.length % 4)) % 4
+  return unb64(`${raw}${'='.repeat(padLen)}`)
+}
@@ -0,0 +1,80 @@
+// Device linking moves a local key entry to a new device without a file. The old device shows
+// a QR holding a server-issued one-time code, its ephemeral P-256 public key and a random
+// secret. The new device answers with its own ephemeral key over the transport relay; both
+// sides derive an AES key from the ECDH result salted with the secret.
+//
+// The server routes by code only. It never sees the old device's public key or the secret, so
+// swapping in its own key on the relay leaves it unable to derive the channel key.
+
+import { b64Url, unb64Url } from './base64'
+
+const LINK_QR_PREFIX = 'lrcom-link:1:'
+const LINK_SECRET_BYTES = 32
+const LINK_IV_BYTES = 12
+const LINK_HKDF_INFO = 'lrcom device link v1'
+const BASE64URL_RE = /^[A-Za-z0-9_-]+$/
+
+export type DeviceLinkQr = {
+  code: string
+  secret: string
+  pub: string
+}
+
+export type DeviceLinkKeyPair = {
+  privateKey: CryptoKey
+  pub: string
+}
+
+export function newDeviceLinkSecret() {
+  return b64Url(crypto.getRandomValues(new Uint8Array(LINK_SECRET_BYTES)))
+}
+
+export async function generateDeviceLinkKeyPair(): Promise<DeviceLinkKeyPair> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits'])
+  const raw = await crypto.subtle.exportKey('raw', pair.publicKey)
+  return { privateKey: pair.privateKey, pub: b64Url(raw) }
+}
+
+export function buildDeviceLinkQrText(qr: DeviceLinkQr) {
+  return `${LINK_QR_PREFIX}${qr.code}:${qr.secret}:${qr.pub}`
+}
+
+export function parseDeviceLinkQrText(raw: string): DeviceLinkQr | null {
+  const text = String(raw ?? '').trim()
+  if (!text.startsWith(LINK_QR_PREFIX)) return null
+  const [code, secret, pub, ...rest] = text.slice(LINK_QR_PREFIX.length).split(':')
+  if (rest.length || !code || !secret || !pub) return null
+  if (!BASE64URL_RE.test(code) || !BASE64URL_RE.test(secret) || !BASE64URL_RE.test(pub)) return null
+  if (unb64Url(secret).byteLength !== LINK_SECRET_BYTES) return null
+  return { code, secret, pub }
+}
+
+export async function deriveDeviceLinkKey(params: { privateKey: CryptoKey; peerPub: string; secret: string }) {
+  const peer = await crypto.subtle.importKey('raw', unb64Url(params.peerPub), { name: 'ECDH', namedCurve: 'P-256' }, false, [])
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: peer }, params.privateKey, 256)
+  const ikm = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: unb64Url(params.secret), info: new TextEncoder().encode(LINK_HKDF_INFO) },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+export async function sealDeviceLinkPayload(key: CryptoKey, plaintext: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(LINK_IV_BYTES))
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext))
+  return `${b64Url(iv)}.${b64Url(ct)}`
+}
+
+export async function openDeviceLinkPayload(key: CryptoKey, sealed: string) {
+  const [ivText, ctText, ...rest] = String(sealed ?? '').split('.')
+  if (rest.length || !ivText || !ctText || !BASE64URL_RE.test(ivText) || !BASE64URL_RE.test(ctText)) {
+    throw new Error('Bad link payload')
+  }
+  const iv = unb64Url(ivText)
+  if (iv.byteLength !== LINK_IV_BYTES) throw new Error('Bad link payload')
+  const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, unb64Url(ctText))
+  return new TextDecoder().decode(pt)
+}
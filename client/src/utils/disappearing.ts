@@ -0,0 +1,51 @@
+// Disappearing messages. Every message carries the sender's current chat timer inside the
+// envelope; a timer change is sent as a notice message (which itself never expires), so the
+// newest message that says anything about the timer is the chat's current setting.
+
+import type { ChatNoticeKind } from './signedCrypto'
+
+export const DISAPPEARING_TIMER_PRESETS = [0, 5 * 60, 60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60] as const
+export const MAX_DISAPPEARING_TIMER_SECONDS = 28 * 24 * 60 * 60
+
+
+type TimedMessage = {
+  atIso: string
+  timerSeconds?: number | null
+  notice?: ChatNoticeKind | null
+}
+
+export function isDisappearingTimer(seconds: unknown): seconds is number {
+  return Number.isSafeInteger(seconds) && (seconds as number) >= 0 && (seconds as number) <= MAX_DISAPPEARING_TIMER_SECONDS
+}
+
+export function messageExpiresAtMs(m: TimedMessage): number | null {
+  if (m.notice || !m.timerSeconds) return null
+  const at = Date.parse(m.atIso)
+  if (!Number.isFinite(at)) return null
+  return at + m.timerSeconds * 1000
+}
+
+export function isMessageExpired(m: TimedMessage, nowMs = Date.now()) {
+  const exp = messageExpiresAtMs(m)
+  return exp !== null && exp <= nowMs
+}
+
+// Messages are oldest-first. Plain messages only carry a timer while it is on, so an
+// absent value there says nothing; notices always state it.
+export function currentChatTimer(messages: readonly TimedMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i]!
+    if (m.notice === 'timer') return m.timerSeconds ?? 0
+    if (m.timerSeconds) return m.timerSeconds
+  }
+  return 0
+}
+
+// Largest whole unit for display, e.g. 3600 → { unit: 'hours', n: 1 }.
+export function disappearingTimerParts(seconds: number): { unit: 'off' | 'minutes' | 'hours' | 'days' | 'weeks'; n: number } {
+  if (!seconds) return { unit: 'off', n: 0 }
+  if (seconds % (7 * 86400) === 0) return { unit: 'weeks', n: seconds / (7 * 86400) }
+  if (seconds % 86400 === 0) return { unit: 'days', n: seconds / 86400 }
+  if (seconds % 3600 === 0) return { unit: 'hours', n: seconds / 3600 }
+  return { unit: 'minutes', n: Math.max(1, Math.round(seconds / 60)) }
+}
@@ -3,18 +3,25 @@
 export const LocalEntity = {
   NotificationsEnabled: 'notifications.enabled',
   PushNotificationsEnabled: 'notifications.push.enabled',
+  SealedSenderEnabled: 'messages.sealedSender.enabled',
   UiTheme: 'ui.theme',
   Locale: 'i18n.locale',
 
   StayDeviceKey: 'stay.deviceKey',
+  StayPasskey: 'stay.passkey',
 
   AuthStay: 'auth.stay',
   AuthKeys: 'auth.keys',
+  AuthRatchets: 'auth.ratchets',
+  AuthVerifiedContacts: 'auth.verifiedContacts',
+  AuthPreviousKeys: 'auth.previousKeys',
+  AuthRecoveryShares: 'auth.recoveryShares',
 
   AuthToken: 'auth.token',
   AuthUserId: 'auth.userId',
   AuthHiddenMode: 'auth.hiddenMode',
   AuthIntrovertMode: 'auth.introvertMode',
+  AuthReadReceipts: 'auth.readReceipts',
   AuthExpiresAt: 'auth.expiresAt',
 
   AuthVault: 'auth.vault',
@@ -26,6 +33,11 @@ export const LocalEntity = {
   IdbStayVault: 'idb.stay.vault',
   IdbStayRemoveDate: 'idb.stay.removeDate',
   IdbStayUnlockBlob: 'idb.stay.unlockBlob',
+
+  IdbMessageCache: 'idb.messageCache',
+  IdbOutbox: 'idb.outbox',
+  IdbSearchIndex: 'idb.searchIndex',
+  IdbRatchetCacheKey: 'idb.ratchetCacheKey',
 } as const
 
 export type LocalEntityId = (typeof LocalEntity)[keyof typeof LocalEntity]
@@ -76,6 +88,11 @@ const STAY_IV_B64_LEN = Math.ceil(STAY_IV_BYTES / 3) * 4
 const STAY_CT_MIN_B64_LEN = Math.ceil(STAY_AES_GCM_TAG_BYTES / 3) * 4
 const STAY_BLOB_MIN_LEN = STAY_IV_B64_LEN + STAY_CT_MIN_B64_LEN
 
+// Entities with the 'indexedDb' backend each get an object store (named by their key) in this
+// database and hold many keyed records instead of a single value.
+const IDB_NAME = 'lrcom-data'
+const IDB_VERSION = 4
+
 function cookieGet(name: string): string | null {
   if (!isBrowser()) return null
   try {
@@ -150,6 +167,15 @@ const REGISTRY: Record<LocalEntityId, EntityDef> = {
     removeOnLogoutWipe: true,
     removeOnAccountDelete: true,
   },
+  [LocalEntity.SealedSenderEnabled]: {
+    id: LocalEntity.SealedSenderEnabled,
+    backend: 'localStorage',
+    key: 'sealed-sender-enabled',
+    codec: 'bool01',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
   [LocalEntity.UiTheme]: {
     id: LocalEntity.UiTheme,
     backend: 'sessionStorage',
@@ -182,6 +208,18 @@ const REGISTRY: Record<LocalEntityId, EntityDef> = {
     removeOnAccountDelete: true,
   },
 
+  // Passkey whose PRF output wraps the stay-unlock blob instead of the device key.
+  // Present only while the passkey unlock option is on.
+  [LocalEntity.StayPasskey]: {
+    id: LocalEntity.StayPasskey,
+    backend: 'localStorage',
+    key: 'stay-passkey',
+    codec: 'json',
+    removeOnLogout: true,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
+
   [LocalEntity.AuthStay]: {
     id: LocalEntity.AuthStay,
     backend: 'localStorage',
@@ -200,6 +238,51 @@ const REGISTRY: Record<LocalEntityId, EntityDef> = {
     removeOnLogoutWipe: false, // settings logout keeps encrypted key material
     removeOnAccountDelete: true,
   },
+  // Per-account ratchet sessions, sealed with a key derived from the account private key. The
+  // plaintext of ratchet messages already read is sealed inside under IdbRatchetCacheKey.
+  [LocalEntity.AuthRatchets]: {
+    id: LocalEntity.AuthRatchets,
+    backend: 'localStorage',
+    key: 'ratchets',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
+  // Per-account sealed contact trust: fingerprints confirmed via safety number or QR, plus the
+  // first key seen per userId and per name (to notice a contact re-registering with a new key).
+  [LocalEntity.AuthVerifiedContacts]: {
+    id: LocalEntity.AuthVerifiedContacts,
+    backend: 'localStorage',
+    key: 'verified-contacts',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
+
+  // Per-account private keys replaced by a key rotation, sealed under the current key;
+  // kept so history encrypted to an older key stays readable.
+  [LocalEntity.AuthPreviousKeys]: {
+    id: LocalEntity.AuthPreviousKeys,
+    backend: 'localStorage',
+    key: 'previous-keys',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: false,
+    removeOnAccountDelete: true,
+  },
+
+  // Per-account sealed social recovery shares held for contacts, keyed by the contact's userId.
+  [LocalEntity.AuthRecoveryShares]: {
+    id: LocalEntity.AuthRecoveryShares,
+    backend: 'localStorage',
+    key: 'recovery-shares',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
 
   [LocalEntity.AuthToken]: {
     id: LocalEntity.AuthToken,
@@ -237,6 +320,15 @@ const REGISTRY: Record<LocalEntityId, EntityDef> = {
     removeOnLogoutWipe: true,
     removeOnAccountDelete: true,
   },
+  [LocalEntity.AuthReadReceipts]: {
+    id: LocalEntity.AuthReadReceipts,
+    backend: 'sessionStorage',
+    key: 'read-receipts',
+    codec: 'bool01',
+    removeOnLogout: true,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
   [LocalEntity.AuthExpiresAt]: {
     id: LocalEntity.AuthExpiresAt,
     backend: 'sessionStorage',
@@ -322,11 +414,58 @@ const REGISTRY: Record<LocalEntityId, EntityDef> = {
     removeOnLogoutWipe: true,
     removeOnAccountDelete: true,
   },
+
+  // Decrypted messages and the chat list, sealed per record with a key derived from the
+  // account private key (see utils/messageCache.ts).
+  [LocalEntity.IdbMessageCache]: {
+    id: LocalEntity.IdbMessageCache,
+    backend: 'indexedDb',
+    key: 'message-cache',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
+
+  // Encrypted messages not yet accepted by the server, one sealed record per account.
+  [LocalEntity.IdbOutbox]: {
+    id: LocalEntity.IdbOutbox,
+    backend: 'indexedDb',
+    key: 'outbox',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
+
+  // Decrypted message text for local search, one sealed record per chat (see utils/searchIndex.ts).
+  [LocalEntity.IdbSearchIndex]: {
+    id: LocalEntity.IdbSearchIndex,
+    backend: 'indexedDb',
+    key: 'search-index',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
+
+  // Non-extractable AES keys for the ratchet plaintext cache, one per account on this device.
+  [LocalEntity.IdbRatchetCacheKey]: {
+    id: LocalEntity.IdbRatchetCacheKey,
+    backend: 'indexedDb',
+    key: 'ratchet-cache-key',
+    codec: 'json',
+    removeOnLogout: false,
+    removeOnLogoutWipe: true,
+    removeOnAccountDelete: true,
+  },
 }
 
 export type CleanupReason = 'logout' | 'logout_wipe' | 'account_delete'
 
 export class LocalData {
+  private idbOpen: Promise<IDBDatabase> | null = null
+
   listEntities(): EntityDef[] {
     return Object.values(REGISTRY)
   }
@@ -591,8 +730,7 @@ export class LocalData {
     // This method is kept async to avoid touching call sites.
     // The backing store for these entities may change (IndexedDB/localStorage/etc).
     if (def.backend === 'indexedDb') {
-      // Legacy support only (older versions stored stay-login state in IndexedDB).
-      // We no longer write to IndexedDB.
+      // IndexedDB entities hold keyed records (idbRecord*), not a single value.
       return null
     }
 
@@ -609,7 +747,7 @@ export class LocalData {
 
     // Kept async to preserve a single API surface.
     if (def.backend === 'indexedDb') {
-      // Legacy support only (older versions stored stay-login state in IndexedDB).
+      // IndexedDB entities hold keyed records (idbRecord*), not a single value.
       return
     }
 
@@ -635,6 +773,83 @@ export class LocalData {
     await this.idbSet(id, null)
   }
 
+  // Keyed records of 'indexedDb' entities. Failures read as missing and writes are best-effort:
+  // everything kept here can be rebuilt from the server.
+
+  private openIdb(): Promise<IDBDatabase> {
+    if (this.idbOpen) return this.idbOpen
+    const open = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isBrowser() || typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB unavailable'))
+        return
+      }
+      const req = indexedDB.open(IDB_NAME, IDB_VERSION)
+      req.onupgradeneeded = () => {
+        const db = req.result
+        for (const def of this.listEntities()) {
+          if (def.backend === 'indexedDb' && !db.objectStoreNames.contains(def.key)) db.createObjectStore(def.key)
+        }
+      }
+      req.onsuccess = () => {
+        const db = req.result
+        // Let another tab upgrade or delete the database.
+        db.onversionchange = () => {
+          db.close()
+          this.idbOpen = null
+        }
+        resolve(db)
+      }
+      req.onerror = () => reject(req.error)
+      req.onblocked = () => reject(new Error('IndexedDB blocked'))
+    })
+    this.idbOpen = open
+    open.catch(() => {
+      if (this.idbOpen === open) this.idbOpen = null
+    })
+    return open
+  }
+
+  private async idbRequest<T>(def: EntityDef, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openIdb()
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(def.key, mode)
+      const req = run(tx.objectStore(def.key))
+      tx.oncomplete = () => resolve(req.result as T)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  async idbRecordGet<T>(id: LocalEntityId, key: string): Promise<T | null> {
+    const def = REGISTRY[id]
+    if (!def || def.backend !== 'indexedDb') return null
+    try {
+      return (await this.idbRequest<T | undefined>(def, 'readonly', (store) => store.get(key))) ?? null
+    } catch {
+      return null
+    }
+  }
+
+  async idbRecordSet(id: LocalEntityId, key: string, value: unknown): Promise<void> {
+    const def = REGISTRY[id]
+    if (!def || def.backend !== 'indexedDb') return
+    try {
+      await this.idbRequest(def, 'readwrite', (store) => (value == null ? store.delete(key) : store.put(value, key)))
+    } catch {
+      // ignore
+    }
+  }
+
+  async idbClear(id: LocalEntityId): Promise<void> {
+    const def = REGISTRY[id]
+    if (!def || def.backend !== 'indexedDb') return
+    try {
+      await this.idbRequest(def, 'readwrite', (store) => store.clear())
+    } catch {
+      // ignore
+    }
+  }
+
 
   private async getOrCreateStayDeviceKey(): Promise<CryptoKey> {
     if (!isBrowser()) throw new Error('Not in browser')
@@ -655,15 +870,16 @@ export class LocalData {
     return await crypto.subtle.importKey('raw', keyData, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
   }
 
-  async encryptStayString(plaintext: string): Promise<string> {
-    const key = await this.getOrCreateStayDeviceKey()
+  // `wrappingKey` replaces the device key when the blob is protected by a passkey.
+  async encryptStayString(plaintext: string, wrappingKey?: CryptoKey): Promise<string> {
+    const key = wrappingKey ?? (await this.getOrCreateStayDeviceKey())
     const iv = crypto.getRandomValues(new Uint8Array(STAY_IV_BYTES))
     const pt = new TextEncoder().encode(String(plaintext ?? ''))
     const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, pt)
     return `${b64Encode(iv)}${b64Encode(new Uint8Array(ct))}`
   }
 
-  async decryptStayString(blob: string): Promise<string> {
+  async decryptStayString(blob: string, wrappingKey?: CryptoKey): Promise<string> {
     const raw = String(blob ?? '')
     if (raw.length < STAY_BLOB_MIN_LEN) throw new Error('Bad stay blob')
 
@@ -683,7 +899,7 @@ export class LocalData {
     if (iv.byteLength !== STAY_IV_BYTES) throw new Error('Bad stay blob')
     if (ct.byteLength < STAY_AES_GCM_TAG_BYTES) throw new Error('Bad stay blob')
 
-    const key = await this.getOrCreateStayDeviceKey()
+    const key = wrappingKey ?? (await this.getOrCreateStayDeviceKey())
     const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(iv) }, key, new Uint8Array(ct).buffer)
     return new TextDecoder().decode(pt)
   }
@@ -716,6 +932,7 @@ export class LocalData {
 
     this.setBool(LocalEntity.AuthHiddenMode, Boolean(u.hiddenMode))
     this.setBool(LocalEntity.AuthIntrovertMode, Boolean(u.introvertMode))
+    this.setBool(LocalEntity.AuthReadReceipts, u.readReceipts !== false)
     if (typeof params.expiresAtMs === 'number' && Number.isFinite(params.expiresAtMs)) this.setNumber(LocalEntity.AuthExpiresAt, params.expiresAtMs)
     else this.remove(LocalEntity.AuthExpiresAt)
   }
@@ -732,6 +949,7 @@ export class LocalData {
       username,
       hiddenMode: this.getBool(LocalEntity.AuthHiddenMode, false),
       introvertMode: this.getBool(LocalEntity.AuthIntrovertMode, false),
+      readReceipts: this.getBool(LocalEntity.AuthReadReceipts, true),
     }
     const e = this.getNumber(LocalEntity.AuthExpiresAt)
     return { user, token, expiresAtMs: e }
@@ -742,6 +960,7 @@ export class LocalData {
     this.remove(LocalEntity.AuthUserId)
     this.remove(LocalEntity.AuthHiddenMode)
     this.remove(LocalEntity.AuthIntrovertMode)
+    this.remove(LocalEntity.AuthReadReceipts)
     this.remove(LocalEntity.AuthExpiresAt)
   }
 
@@ -753,6 +972,7 @@ export class LocalData {
         username: typeof u.username === 'string' ? u.username : '',
         hiddenMode: Boolean(u.hiddenMode),
         introvertMode: Boolean(u.introvertMode),
+        readReceipts: u.readReceipts !== false,
       },
       t: params.token,
       e: typeof params.expiresAtMs === 'number' && Number.isFinite(params.expiresAtMs) ? params.expiresAtMs : null,
@@ -776,7 +996,8 @@ export class LocalData {
 
       if (!shouldRemove) continue
 
-      this.remove(def.id)
+      if (def.backend === 'indexedDb') await this.idbClear(def.id)
+      else this.remove(def.id)
     }
   }
 }
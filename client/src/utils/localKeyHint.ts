@@ -0,0 +1,16 @@
+// Saved key entries are password-encrypted with a deliberately slow KDF. Each carries a short,
+// non-secret hint of its username so that unlocking derives only the entries that may match.
+// Two bytes are enough to skip the other accounts saved on a device and too few to identify one.
+
+const LOCAL_KEY_ENTRY_HINT_INFO = 'lrcom-local-key-hint'
+const LOCAL_KEY_ENTRY_HINT_BYTES = 2
+
+export async function localKeyEntryHint(username: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${LOCAL_KEY_ENTRY_HINT_INFO}:${username}`))
+  return Array.from(new Uint8Array(digest, 0, LOCAL_KEY_ENTRY_HINT_BYTES), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Entries with another account's hint are skipped; unhinted ones (saved before hints) go last.
+export function keyEntriesForHint<T extends { h?: string }>(entries: readonly T[], hint: string) {
+  return entries.filter((e) => !e.h || e.h === hint).sort((a, b) => Number(!a.h) - Number(!b.h))
+}
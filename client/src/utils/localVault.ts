@@ -0,0 +1,51 @@
+// Small device-local blobs (ratchet state, verified contacts) sealed with a key derived from
+// the account private key, so they are only readable after unlock. Each use passes its own
+// HKDF info string, which keeps the derived keys independent.
+
+import { b64Url, unb64Url } from './base64'
+
+const VAULT_KEY_BYTES = 32
+
+function asBuffer(u8: Uint8Array) {
+  return u8 as unknown as BufferSource
+}
+
+async function deriveVaultKey(privateJwkJson: string, info: string) {
+  const jwk = JSON.parse(String(privateJwkJson ?? ''))
+  const d = typeof jwk?.d === 'string' ? jwk.d : ''
+  if (!d) throw new Error('Invalid private JWK')
+  const base = await crypto.subtle.importKey('raw', asBuffer(unb64Url(d)), 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(VAULT_KEY_BYTES), info: new TextEncoder().encode(info) },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+// For callers sealing many records under one info string: derive once, then reuse the key.
+export async function localVaultKey(privateJwkJson: string, info: string) {
+  return await deriveVaultKey(privateJwkJson, info)
+}
+
+export async function sealWithLocalVaultKey(plaintext: string, key: CryptoKey) {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext))
+  return `${b64Url(iv)}.${b64Url(ct)}`
+}
+
+export async function openWithLocalVaultKey(blob: string, key: CryptoKey) {
+  const [ivRaw, ctRaw] = String(blob ?? '').split('.')
+  if (!ivRaw || !ctRaw) throw new Error('Bad local vault')
+  const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: asBuffer(unb64Url(ivRaw)) }, key, asBuffer(unb64Url(ctRaw)))
+  return new TextDecoder().decode(pt)
+}
+
+export async function sealLocalVault(plaintext: string, privateJwkJson: string, info: string) {
+  return await sealWithLocalVaultKey(plaintext, await deriveVaultKey(privateJwkJson, info))
+}
+
+export async function openLocalVault(blob: string, privateJwkJson: string, info: string) {
+  return await openWithLocalVaultKey(blob, await deriveVaultKey(privateJwkJson, info))
+}
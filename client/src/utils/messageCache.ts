@@ -0,0 +1,48 @@
+// Device-side cache of decrypted history and the chat list, so chats open without waiting on the
+// server and stay readable offline. Each record is sealed on its own with a key derived from the
+// account private key and filed under the account's id; a different key (another account, or
+// this one after a rotation) simply reads nothing and the cache refills from the server.
+
+import { LocalEntity, localData } from './localData'
+import { localVaultKey, openWithLocalVaultKey, sealWithLocalVaultKey } from './localVault'
+import { b64Url } from './base64'
+
+const MESSAGE_CACHE_VAULT_INFO = 'lrcom-message-cache'
+const CIPHER_DIGEST_BYTES = 16
+
+export type MessageCache = {
+  get<T>(key: string): Promise<T | null>
+  set(key: string, value: unknown): Promise<void>
+}
+
+export async function openMessageCache(userId: string, privateJwkJson: string): Promise<MessageCache> {
+  const key = await localVaultKey(privateJwkJson, MESSAGE_CACHE_VAULT_INFO)
+  const recordKey = (k: string) => `${userId}:${k}`
+
+  return {
+    async get<T>(k: string) {
+      const blob = await localData.idbRecordGet<string>(LocalEntity.IdbMessageCache, recordKey(k))
+      if (typeof blob !== 'string' || !blob) return null
+      try {
+        return JSON.parse(await openWithLocalVaultKey(blob, key)) as T
+      } catch {
+        return null
+      }
+    },
+    async set(k: string, value: unknown) {
+      if (value == null) {
+        await localData.idbRecordSet(LocalEntity.IdbMessageCache, recordKey(k), null)
+        return
+      }
+      const blob = await sealWithLocalVaultKey(JSON.stringify(value), key)
+      await localData.idbRecordSet(LocalEntity.IdbMessageCache, recordKey(k), blob)
+    },
+  }
+}
+
+// Edits keep the message id and replace the ciphertext, so a cached message is only reused
+// while the server still holds the ciphertext it was decrypted from.
+export async function cipherDigest(encryptedData: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(encryptedData))
+  return b64Url(new Uint8Array(digest).subarray(0, CIPHER_DIGEST_BYTES))
+}
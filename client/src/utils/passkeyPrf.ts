@@ -0,0 +1,94 @@
+// Stay-unlock wrapping keys derived from a passkey through the WebAuthn PRF extension.
+// The authenticator only evaluates the PRF after user verification, so the derived key
+// cannot be produced from the browser profile alone.
+
+import { b64, unb64 } from './base64'
+
+export type StayPasskey = {
+  // Credential id, base64.
+  id: string
+  // PRF input, base64. Random per registration so the output is bound to this use.
+  salt: string
+}
+
+const PRF_SALT_BYTES = 32
+const PASSKEY_USER_ID_BYTES = 16
+const PASSKEY_TIMEOUT_MS = 60_000
+const STAY_KEY_INFO = 'last stay-unlock v1'
+
+export function isPasskeyPrfAvailable(): boolean {
+  return typeof window !== 'undefined' && window.isSecureContext && typeof window.PublicKeyCredential === 'function' && !!navigator.credentials
+}
+
+export function parseStayPasskey(value: unknown): StayPasskey | null {
+  const obj = value as Partial<StayPasskey> | null
+  if (!obj || typeof obj.id !== 'string' || typeof obj.salt !== 'string') return null
+  try {
+    if (!unb64(obj.id).byteLength) return null
+    if (unb64(obj.salt).byteLength !== PRF_SALT_BYTES) return null
+  } catch {
+    return null
+  }
+  return { id: obj.id, salt: obj.salt }
+}
+
+// Registers a new passkey for stay-unlock. The WebAuthn user handle is random rather than the
+// account id, so the authenticator learns nothing that links it to the server-side account.
+export async function createStayPasskey(params: { userName: string }): Promise<StayPasskey> {
+  if (!isPasskeyPrfAvailable()) throw new Error('Passkeys unavailable')
+
+  const cred = (await navigator.credentials.create({
+    publicKey: {
+      rp: { name: 'Last' },
+      user: {
+        id: crypto.getRandomValues(new Uint8Array(PASSKEY_USER_ID_BYTES)),
+        name: params.userName,
+        displayName: params.userName,
+      },
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 },
+        { type: 'public-key', alg: -257 },
+      ],
+      authenticatorSelection: { residentKey: 'discouraged', userVerification: 'required' },
+      timeout: PASSKEY_TIMEOUT_MS,
+      extensions: { prf: {} },
+    },
+  })) as PublicKeyCredential | null
+  if (!cred) throw new Error('Passkey registration cancelled')
+  if (cred.getClientExtensionResults().prf?.enabled !== true) throw new Error('Passkey PRF unsupported')
+
+  return {
+    id: b64(new Uint8Array(cred.rawId)),
+    salt: b64(crypto.getRandomValues(new Uint8Array(PRF_SALT_BYTES))),
+  }
+}
+
+// Asks the authenticator for the PRF output (prompting for user verification) and turns it
+// into a non-extractable AES-GCM key.
+export async function deriveStayPasskeyKey(passkey: StayPasskey): Promise<CryptoKey> {
+  if (!isPasskeyPrfAvailable()) throw new Error('Passkeys unavailable')
+
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      allowCredentials: [{ type: 'public-key', id: unb64(passkey.id) }],
+      userVerification: 'required',
+      timeout: PASSKEY_TIMEOUT_MS,
+      extensions: { prf: { eval: { first: unb64(passkey.salt) } } },
+    },
+  })) as PublicKeyCredential | null
+  if (!assertion) throw new Error('Passkey unlock cancelled')
+
+  const first = assertion.getClientExtensionResults().prf?.results?.first
+  if (!first) throw new Error('Passkey PRF unsupported')
+
+  const ikm = await crypto.subtle.importKey('raw', first, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(STAY_KEY_INFO) },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
@@ -0,0 +1,292 @@
+// Per-chat X25519 double ratchet for personal chats.
+//
+// The session is bootstrapped without server-side prekeys: the initiator picks a random
+// root secret and ships it (RSA-OAEP wrapped to the peer) with every message until the
+// peer answers. From the first reply on, every round trip mixes a fresh X25519 exchange
+// into the root key, and every message uses its own key derived from a hash chain.
+// Used keys are dropped immediately, so a later leak of either side's state or RSA key
+// does not reveal past messages (only the pre-reply messages depend on the RSA key).
+//
+// Sessions are device-local: another device logged into the same account cannot follow
+// the chain once the peer has answered.
+
+import { openLocalVault, openWithLocalVaultKey, sealLocalVault, sealWithLocalVaultKey } from './localVault'
+import { b64Url, unb64Url } from './base64'
+
+export const RATCHET_SESSION_ID_BYTES = 16
+export const RATCHET_PUBLIC_KEY_BYTES = 32
+export const RATCHET_ROOT_SECRET_BYTES = 32
+
+const RATCHET_KEY_BYTES = 32
+const RATCHET_MAX_SKIP = 256
+const RATCHET_MAX_STORED_SKIPPED = 512
+const RATCHET_MAX_SESSIONS_PER_CHAT = 2
+
+const INFO_INIT = 'lrcom-ratchet-init'
+const INFO_ROOT = 'lrcom-ratchet-root'
+const INFO_VAULT = 'lrcom-ratchet-vault'
+
+export type RatchetSessionState = {
+  // All byte values are base64url.
+  id: string
+  rk: string
+  dhsPub: string
+  dhsPriv: string
+  dhr: string | null
+  cks: string | null
+  ckr: string | null
+  ns: number
+  nr: number
+  pn: number
+  // `${dhPub}:${n}` -> message key for messages that arrived out of order.
+  skipped: Record<string, string>
+  // Root secret wrapped to the peer; resent until the peer answers on this session.
+  init: string | null
+  updatedAt: number
+}
+
+export type RatchetChatState = {
+  active: string | null
+  sessions: Record<string, RatchetSessionState>
+}
+
+export type RatchetHeader = {
+  sessionId: Uint8Array
+  dhPub: Uint8Array
+  pn: number
+  n: number
+}
+
+function asBuffer(u8: Uint8Array) {
+  return u8 as unknown as BufferSource
+}
+
+async function generateDhKeyPair() {
+  const kp = (await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits'])) as CryptoKeyPair
+  const pub = new Uint8Array(await crypto.subtle.exportKey('raw', kp.publicKey))
+  const priv = new Uint8Array(await crypto.subtle.exportKey('pkcs8', kp.privateKey))
+  return { pub: b64Url(pub), priv: b64Url(priv) }
+}
+
+async function dh(privB64Url: string, pubB64Url: string) {
+  const priv = await crypto.subtle.importKey('pkcs8', asBuffer(unb64Url(privB64Url)), { name: 'X25519' }, false, ['deriveBits'])
+  const pub = await crypto.subtle.importKey('raw', asBuffer(unb64Url(pubB64Url)), { name: 'X25519' }, false, [])
+  const bits = await crypto.subtle.deriveBits({ name: 'X25519', public: pub } as EcdhKeyDeriveParams, priv, 256)
+  return new Uint8Array(bits)
+}
+
+async function hkdf64(ikm: Uint8Array, salt: Uint8Array, info: string) {
+  const base = await crypto.subtle.importKey('raw', asBuffer(ikm), 'HKDF', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: asBuffer(salt), info: new TextEncoder().encode(info) },
+    base,
+    RATCHET_KEY_BYTES * 2 * 8,
+  )
+  const out = new Uint8Array(bits)
+  return { a: out.slice(0, RATCHET_KEY_BYTES), b: out.slice(RATCHET_KEY_BYTES) }
+}
+
+async function hmac(key: Uint8Array, byte: number) {
+  const k = await crypto.subtle.importKey('raw', asBuffer(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return new Uint8Array(await crypto.subtle.sign('HMAC', k, new Uint8Array([byte])))
+}
+
+async function kdfRoot(rkB64Url: string, dhOut: Uint8Array) {
+  const { a, b } = await hkdf64(dhOut, unb64Url(rkB64Url), INFO_ROOT)
+  return { rk: b64Url(a), ck: b64Url(b) }
+}
+
+async function kdfChain(ckB64Url: string) {
+  const ck = unb64Url(ckB64Url)
+  const mk = await hmac(ck, 0x01)
+  const next = await hmac(ck, 0x02)
+  return { mk, ck: b64Url(next) }
+}
+
+function skippedKey(dhPub: string, n: number) {
+  return `${dhPub}:${n}`
+}
+
+function rememberSkipped(session: RatchetSessionState, key: string, mk: Uint8Array) {
+  session.skipped[key] = b64Url(mk)
+  const keys = Object.keys(session.skipped)
+  // Insertion order is preserved, so the oldest entries go first.
+  for (let i = 0; i < keys.length - RATCHET_MAX_STORED_SKIPPED; i++) delete session.skipped[keys[i]!]
+}
+
+async function skipMessageKeys(session: RatchetSessionState, until: number) {
+  if (!session.ckr || !session.dhr) return
+  if (until - session.nr > RATCHET_MAX_SKIP) throw new Error('Unsupported message format')
+  while (session.nr < until) {
+    const step = await kdfChain(session.ckr)
+    rememberSkipped(session, skippedKey(session.dhr, session.nr), step.mk)
+    session.ckr = step.ck
+    session.nr += 1
+  }
+}
+
+export function cloneRatchetSession(session: RatchetSessionState): RatchetSessionState {
+  return { ...session, skipped: { ...session.skipped } }
+}
+
+export function ratchetSessionIdToString(sessionId: Uint8Array) {
+  return b64Url(sessionId)
+}
+
+export function decodeRatchetInit(init: string) {
+  return unb64Url(init)
+}
+
+export function encodeRatchetInit(wrapped: Uint8Array) {
+  return b64Url(wrapped)
+}
+
+let supportedPromise: Promise<boolean> | null = null
+
+export function isRatchetSupported(): Promise<boolean> {
+  if (!supportedPromise) {
+    supportedPromise = (async () => {
+      try {
+        if (!globalThis.crypto?.subtle) return false
+        const a = await generateDhKeyPair()
+        const b = await generateDhKeyPair()
+        await dh(a.priv, b.pub)
+        return true
+      } catch {
+        return false
+      }
+    })()
+  }
+  return supportedPromise
+}
+
+export async function startRatchetSession() {
+  const rootSecret = crypto.getRandomValues(new Uint8Array(RATCHET_ROOT_SECRET_BYTES))
+  const { a, b } = await hkdf64(rootSecret, new Uint8Array(RATCHET_KEY_BYTES), INFO_INIT)
+  const dhs = await generateDhKeyPair()
+  const session: RatchetSessionState = {
+    id: b64Url(crypto.getRandomValues(new Uint8Array(RATCHET_SESSION_ID_BYTES))),
+    rk: b64Url(a),
+    dhsPub: dhs.pub,
+    dhsPriv: dhs.priv,
+    dhr: null,
+    cks: b64Url(b),
+    ckr: null,
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+    init: null,
+    updatedAt: Date.now(),
+  }
+  return { session, rootSecret }
+}
+
+export async function acceptRatchetSession(rootSecret: Uint8Array, header: RatchetHeader): Promise<RatchetSessionState> {
+  if (rootSecret.byteLength !== RATCHET_ROOT_SECRET_BYTES) throw new Error('Unsupported message format')
+  const { a, b } = await hkdf64(rootSecret, new Uint8Array(RATCHET_KEY_BYTES), INFO_INIT)
+  const dhr = b64Url(header.dhPub)
+  const dhs = await generateDhKeyPair()
+  const sending = await kdfRoot(b64Url(a), await dh(dhs.priv, dhr))
+  return {
+    id: b64Url(header.sessionId),
+    rk: sending.rk,
+    dhsPub: dhs.pub,
+    dhsPriv: dhs.priv,
+    dhr,
+    cks: sending.ck,
+    ckr: b64Url(b),
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+    init: null,
+    updatedAt: Date.now(),
+  }
+}
+
+export async function ratchetSendKey(session: RatchetSessionState) {
+  if (!session.cks) throw new Error('Ratchet session not ready')
+  const step = await kdfChain(session.cks)
+  const header: RatchetHeader = {
+    sessionId: unb64Url(session.id),
+    dhPub: unb64Url(session.dhsPub),
+    pn: session.pn,
+    n: session.ns,
+  }
+  session.cks = step.ck
+  session.ns += 1
+  session.updatedAt = Date.now()
+  return { header, messageKey: step.mk }
+}
+
+// Mutates `session`; callers work on a clone and keep it only if the payload authenticates.
+export async function ratchetReceiveKey(session: RatchetSessionState, header: RatchetHeader) {
+  const dhPub = b64Url(header.dhPub)
+  const key = skippedKey(dhPub, header.n)
+  const stored = session.skipped[key]
+  if (stored) {
+    delete session.skipped[key]
+    return unb64Url(stored)
+  }
+
+  if (dhPub !== session.dhr) {
+    await skipMessageKeys(session, header.pn)
+    session.pn = session.ns
+    session.ns = 0
+    session.nr = 0
+    session.dhr = dhPub
+    const receiving = await kdfRoot(session.rk, await dh(session.dhsPriv, dhPub))
+    session.rk = receiving.rk
+    session.ckr = receiving.ck
+    const dhs = await generateDhKeyPair()
+    session.dhsPub = dhs.pub
+    session.dhsPriv = dhs.priv
+    const sending = await kdfRoot(session.rk, await dh(session.dhsPriv, dhPub))
+    session.rk = sending.rk
+    session.cks = sending.ck
+  }
+
+  if (header.n < session.nr) throw new Error('Unsupported message format')
+  await skipMessageKeys(session, header.n)
+  if (!session.ckr) throw new Error('Unsupported message format')
+  const step = await kdfChain(session.ckr)
+  session.ckr = step.ck
+  session.nr += 1
+  session.updatedAt = Date.now()
+  return step.mk
+}
+
+export function putRatchetSession(chat: RatchetChatState, session: RatchetSessionState) {
+  chat.sessions[session.id] = session
+  const ids = Object.keys(chat.sessions)
+  if (ids.length <= RATCHET_MAX_SESSIONS_PER_CHAT) return
+  const byAge = ids
+    .filter((id) => id !== chat.active && id !== session.id)
+    .sort((x, y) => (chat.sessions[x]?.updatedAt ?? 0) - (chat.sessions[y]?.updatedAt ?? 0))
+  for (const id of byAge.slice(0, ids.length - RATCHET_MAX_SESSIONS_PER_CHAT)) delete chat.sessions[id]
+}
+
+// Ratchet state lives in local storage, sealed under the account key (see localVault.ts).
+export async function sealRatchetVault(plaintext: string, privateJwkJson: string) {
+  return await sealLocalVault(plaintext, privateJwkJson, INFO_VAULT)
+}
+
+export async function openRatchetVault(blob: string, privateJwkJson: string) {
+  return await openLocalVault(blob, privateJwkJson, INFO_VAULT)
+}
+
+// Plaintext of already decrypted ratchet messages is sealed apart from the session state, under
+// a random key that never leaves this device. Whoever obtains the account key still cannot read
+// the cache, and replacing the key (on account key rotation) leaves older copies unreadable.
+export async function generateRatchetCacheKey() {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+export async function sealRatchetCache(plaintext: string, key: CryptoKey) {
+  return await sealWithLocalVaultKey(plaintext, key)
+}
+
+export async function openRatchetCache(blob: string, key: CryptoKey) {
+  return await openWithLocalVaultKey(blob, key)
+}
@@ -0,0 +1,91 @@
+// Recovery phrases: 24 BIP39 words encoding 256 bits of entropy. The account keys are RSA and
+// cannot be rebuilt from a seed, so the phrase instead yields a key that seals a backup of the
+// local key entry, plus the id the server files that backup under. Neither value reveals the
+// other, and the server only ever sees the id and the ciphertext.
+
+import { generateMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39'
+import { wordlist } from '@scure/bip39/wordlists/english'
+import { b64Url, unb64Url } from './base64'
+
+const PHRASE_ENTROPY_BITS = 256
+const PHRASE_WORDS = 24
+const BACKUP_IV_BYTES = 12
+const LOOKUP_ID_INFO = 'lrcom recovery lookup v1'
+const BACKUP_KEY_INFO = 'lrcom recovery key v1'
+const BASE64URL_RE = /^[A-Za-z0-9_-]+$/
+
+export type RecoveryKeys = {
+  lookupId: string
+  key: CryptoKey
+}
+
+export function generateRecoveryPhrase() {
+  return generateMnemonic(wordlist, PHRASE_ENTROPY_BITS)
+}
+
+// Accepts what people actually type: any case, extra spaces, line breaks.
+export function normalizeRecoveryPhrase(raw: string) {
+  return String(raw ?? '')
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ')
+}
+
+export function isValidRecoveryPhrase(raw: string) {
+  const phrase = normalizeRecoveryPhrase(raw)
+  return phrase.split(' ').length === PHRASE_WORDS && validateMnemonic(phrase, wordlist)
+}
+
+export async function deriveRecoveryKeys(raw: string): Promise<RecoveryKeys> {
+  const phrase = normalizeRecoveryPhrase(raw)
+  if (!isValidRecoveryPhrase(phrase)) throw new Error('Invalid recovery phrase')
+
+  return await deriveRecoveryKeysFromSecret(mnemonicToEntropy(phrase, wordlist))
+}
+
+// Also used for social recovery, where the secret is split among contacts instead of written down.
+export async function deriveRecoveryKeysFromSecret(secret: Uint8Array): Promise<RecoveryKeys> {
+  const ikm = await crypto.subtle.importKey('raw', new Uint8Array(secret), 'HKDF', false, ['deriveBits', 'deriveKey'])
+  const salt = new Uint8Array(0)
+  const idBits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(LOOKUP_ID_INFO) },
+    ikm,
+    256,
+  )
+  const key = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(BACKUP_KEY_INFO) },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+  return { lookupId: b64Url(idBits), key }
+}
+
+export async function sealRecoveryBackup(keys: RecoveryKeys, plaintext: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(BACKUP_IV_BYTES))
+  // The lookup id is bound as associated data so a blob cannot be replayed under another id.
+  const ct = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(keys.lookupId) },
+    keys.key,
+    new TextEncoder().encode(plaintext),
+  )
+  return `${b64Url(iv)}.${b64Url(ct)}`
+}
+
+export async function openRecoveryBackup(keys: RecoveryKeys, sealed: string) {
+  const [ivText, ctText, ...rest] = String(sealed ?? '').split('.')
+  if (rest.length || !ivText || !ctText || !BASE64URL_RE.test(ivText) || !BASE64URL_RE.test(ctText)) {
+    throw new Error('Bad recovery backup')
+  }
+  const iv = unb64Url(ivText)
+  if (iv.byteLength !== BACKUP_IV_BYTES) throw new Error('Bad recovery backup')
+  const pt = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(keys.lookupId) },
+    keys.key,
+    unb64Url(ctText),
+  )
+  return new TextDecoder().decode(pt)
+}
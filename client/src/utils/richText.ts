@@ -0,0 +1,208 @@
+// Message formatting: a small markup subset parsed into a node tree that components render
+// element by element, so message text never reaches the DOM as HTML.
+//
+//   **bold**  _italic_ or *italic*  ~~strike~~  `code`  ||spoiler||
+//   ```fenced code```   > quoted lines
+//
+// Links (URLs, e-mail addresses, phone numbers) are found first and never split by markup.
+
+export type RichNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'link'; text: string; href: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'codeBlock'; text: string }
+  | { kind: 'bold' | 'italic' | 'strike' | 'spoiler' | 'quote'; children: RichNode[] }
+
+type SpanKind = 'bold' | 'italic' | 'strike' | 'spoiler'
+
+// Longest first, so `**` is not read as two italics.
+const SPAN_DELIMITERS: ReadonlyArray<{ mark: string; kind: SpanKind }> = [
+  { mark: '**', kind: 'bold' },
+  { mark: '~~', kind: 'strike' },
+  { mark: '||', kind: 'spoiler' },
+  { mark: '*', kind: 'italic' },
+  { mark: '_', kind: 'italic' },
+]
+
+// Deeper markup is left as text; keeps the rendered tree shallow whatever the input.
+const MAX_DEPTH = 6
+const FENCE = '```'
+// Addresses only start where their run of characters does, so a long word is not rescanned
+// from each of its letters.
+const LINK_RE = /\bhttps?:\/\/[^\s<]+|\bwww\.[^\s<]+|(?<![A-Za-z0-9._%+-])[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}|\+?\d[\d\s().-]{6,}\d/g
+const WORD_CHAR_RE = /[\p{L}\p{N}]/u
+
+function normalizeTel(raw: string) {
+  const s = String(raw ?? '').trim()
+  const hasPlus = s.startsWith('+')
+  const digits = s.replace(/\D/g, '')
+  if (!digits) return null
+  return `${hasPlus ? '+' : ''}${digits}`
+}
+
+function linkHref(token: string) {
+  const lower = token.toLowerCase()
+  if (token.includes('@') && !lower.startsWith('http') && !lower.startsWith('www.')) return `mailto:${token}`
+  if (lower.startsWith('http://') || lower.startsWith('https://')) return token
+  if (lower.startsWith('www.')) return `https://${token}`
+  const tel = normalizeTel(token)
+  const digitCount = tel ? tel.replace(/\D/g, '').length : 0
+  return tel && digitCount >= 8 ? `tel:${tel}` : null
+}
+
+function isWordChar(ch: string | undefined) {
+  return Boolean(ch && WORD_CHAR_RE.test(ch))
+}
+
+// Where the span opened at `open` closes, or -1. Content may not be empty or padded with
+// spaces, and `_` only counts at word edges so snake_case stays as typed. Whether a candidate
+// closes does not depend on the opener, so once a scan for `mark` comes up empty, every later
+// opener of it would too: `unclosed` remembers that and skips the scan.
+function findClose(text: string, open: number, mark: string, unclosed: Set<string>) {
+  const from = open + mark.length
+  if (unclosed.has(mark)) return -1
+  if (from >= text.length || /\s/.test(text[from]!)) return -1
+  if (mark === '_' && isWordChar(text[open - 1])) return -1
+  for (let i = text.indexOf(mark, from + 1); i !== -1; i = text.indexOf(mark, i + 1)) {
+    if (/\s/.test(text[i - 1]!)) continue
+    if (mark === '_' && isWordChar(text[i + mark.length])) continue
+    // Part of a `**` pair inside the italic.
+    if (mark === '*' && (text[i - 1] === '*' || text[i + 1] === '*')) continue
+    return i
+  }
+  unclosed.add(mark)
+  return -1
+}
+
+// Every link in `text`, in one pass.
+function findLinks(text: string) {
+  const out: Array<{ at: number; text: string; href: string }> = []
+  for (const m of text.matchAll(LINK_RE)) {
+    const href = linkHref(m[0])
+    if (href) out.push({ at: m.index, text: m[0], href })
+  }
+  return out
+}
+
+function parseInline(text: string, depth: number): RichNode[] {
+  const out: RichNode[] = []
+  let plainFrom = 0
+
+  const flush = (to: number) => {
+    if (to > plainFrom) {
+      const last = out[out.length - 1]
+      if (last?.kind === 'text') last.text += text.slice(plainFrom, to)
+      else out.push({ kind: 'text', text: text.slice(plainFrom, to) })
+    }
+  }
+
+  const links = findLinks(text)
+  let nextLink = 0
+  const unclosed = new Set<string>()
+
+  let i = 0
+  while (i < text.length) {
+    // Links that began inside code or a span were taken as part of it.
+    while (nextLink < links.length && links[nextLink]!.at < i) nextLink += 1
+    const link = links[nextLink]
+    if (link?.at === i) {
+      flush(i)
+      out.push({ kind: 'link', text: link.text, href: link.href })
+      i += link.text.length
+      plainFrom = i
+      nextLink += 1
+      continue
+    }
+
+    if (text[i] === '`') {
+      const close = text.indexOf('`', i + 1)
+      if (close > i + 1) {
+        flush(i)
+        out.push({ kind: 'code', text: text.slice(i + 1, close) })
+        i = close + 1
+        plainFrom = i
+        continue
+      }
+    }
+
+    if (depth < MAX_DEPTH) {
+      const span = SPAN_DELIMITERS.find((d) => text.startsWith(d.mark, i))
+      const close = span ? findClose(text, i, span.mark, unclosed) : -1
+      if (span && close !== -1) {
+        flush(i)
+        out.push({ kind: span.kind, children: parseInline(text.slice(i + span.mark.length, close), depth + 1) })
+        i = close + span.mark.length
+        plainFrom = i
+        continue
+      }
+    }
+
+    i += 1
+  }
+  flush(text.length)
+  return out
+}
+
+function quoteBody(line: string) {
+  return line.slice(line.startsWith('> ') ? 2 : 1)
+}
+
+function parseBlocks(lines: string[], depth: number): RichNode[] {
+  const out: RichNode[] = []
+  let para: string[] = []
+
+  // Paragraph lines are parsed together, so spans may cross line breaks. Blocks end a line
+  // by themselves; the break before one is not repeated.
+  const flushPara = () => {
+    if (!para.length) return
+    for (const n of parseInline(para.join('\n'), 0)) {
+      const last = out[out.length - 1]
+      if (n.kind === 'text' && last?.kind === 'text') last.text += n.text
+      else out.push(n)
+    }
+    para = []
+  }
+
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]!
+
+    if (line.startsWith(FENCE)) {
+      const rest = line.slice(FENCE.length)
+      if (rest.length > FENCE.length && rest.endsWith(FENCE)) {
+        flushPara()
+        out.push({ kind: 'codeBlock', text: rest.slice(0, -FENCE.length) })
+        i += 1
+        continue
+      }
+      const close = lines.findIndex((l, j) => j > i && l.trim() === FENCE)
+      if (close !== -1) {
+        flushPara()
+        // A single word after the opening fence is a language hint, which is not shown.
+        const body = lines.slice(i + 1, close)
+        if (rest.trim() && !/^[\w+#.-]+$/.test(rest.trim())) body.unshift(rest)
+        out.push({ kind: 'codeBlock', text: body.join('\n') })
+        i = close + 1
+        continue
+      }
+    }
+
+    if (line.startsWith('>') && depth < MAX_DEPTH) {
+      flushPara()
+      const quoted: string[] = []
+      for (; i < lines.length && lines[i]!.startsWith('>'); i += 1) quoted.push(quoteBody(lines[i]!))
+      out.push({ kind: 'quote', children: parseBlocks(quoted, depth + 1) })
+      continue
+    }
+
+    para.push(line)
+    i += 1
+  }
+  flushPara()
+  return out
+}
+
+export function parseRichText(raw: string): RichNode[] {
+  const text = String(raw ?? '')
+  return text ? parseBlocks(text.split('\n'), 0) : []
+}
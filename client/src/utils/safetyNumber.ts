@@ -0,0 +1,82 @@
+// Safety numbers let two people confirm, out of band, that the RSA public keys the server
+// hands out really belong to each other. Both sides compute the same 60 digits from the
+// pair of (userId, public key) values; a swapped key changes the number.
+//
+// A verification QR carries one side's userId and key fingerprint, so scanning it is
+// equivalent to comparing that half of the number.
+
+import { parsePublicKeyInputToRsaJwk } from './signedCrypto'
+import { b64Url } from './base64'
+
+const SAFETY_NUMBER_VERSION = 0
+const SAFETY_NUMBER_ITERATIONS = 5200
+const SAFETY_NUMBER_CHUNKS = 6
+const SAFETY_NUMBER_CHUNK_BYTES = 5
+const SAFETY_NUMBER_GROUP_DIGITS = 5
+
+const VERIFY_QR_PREFIX = 'lrcom-verify:1:'
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+const BASE64URL_RE = /^[A-Za-z0-9_-]+$/
+
+function concatBytes(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0))
+  let off = 0
+  for (const p of parts) {
+    out.set(p, off)
+    off += p.byteLength
+  }
+  return out
+}
+
+// Keys travel as the bare RSA modulus; hash the normalized (e, n) pair.
+function canonicalPublicKeyBytes(publicKeyJwk: string) {
+  const jwk = parsePublicKeyInputToRsaJwk(publicKeyJwk)
+  return new TextEncoder().encode(`${jwk.e}.${jwk.n}`)
+}
+
+export async function publicKeyFingerprint(publicKeyJwk: string) {
+  const digest = await crypto.subtle.digest('SHA-256', canonicalPublicKeyBytes(publicKeyJwk) as unknown as BufferSource)
+  return b64Url(digest)
+}
+
+async function safetyNumberHalf(userId: string, publicKeyJwk: string) {
+  const key = canonicalPublicKeyBytes(publicKeyJwk)
+  let hash = concatBytes(new Uint8Array([0, SAFETY_NUMBER_VERSION]), key, new TextEncoder().encode(String(userId)))
+  for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-512', concatBytes(hash, key) as unknown as BufferSource))
+  }
+
+  let digits = ''
+  for (let i = 0; i < SAFETY_NUMBER_CHUNKS; i++) {
+    let v = 0
+    for (let j = 0; j < SAFETY_NUMBER_CHUNK_BYTES; j++) v = v * 256 + hash[i * SAFETY_NUMBER_CHUNK_BYTES + j]!
+    digits += String(v % 100_000).padStart(SAFETY_NUMBER_GROUP_DIGITS, '0')
+  }
+  return digits
+}
+
+// Returns 12 groups of 5 digits; the lower userId's half comes first so both sides agree.
+export async function computeSafetyNumber(
+  a: { userId: string; publicKeyJwk: string },
+  b: { userId: string; publicKeyJwk: string },
+) {
+  const [first, second] = String(a.userId) < String(b.userId) ? [a, b] : [b, a]
+  const digits =
+    (await safetyNumberHalf(first.userId, first.publicKeyJwk)) + (await safetyNumberHalf(second.userId, second.publicKeyJwk))
+  const groups: string[] = []
+  for (let i = 0; i < digits.length; i += SAFETY_NUMBER_GROUP_DIGITS) groups.push(digits.slice(i, i + SAFETY_NUMBER_GROUP_DIGITS))
+  return groups
+}
+
+export function buildVerificationQrText(userId: string, fingerprint: string) {
+  return `${VERIFY_QR_PREFIX}${String(userId).toLowerCase()}:${fingerprint}`
+}
+
+export function parseVerificationQrText(raw: string): { userId: string; fingerprint: string } | null {
+  const text = String(raw ?? '').trim()
+  if (!text.startsWith(VERIFY_QR_PREFIX)) return null
+  const [userId, fingerprint, ...rest] = text.slice(VERIFY_QR_PREFIX.length).split(':')
+  if (rest.length || !userId || !fingerprint) return null
+  if (!UUID_RE.test(userId) || !BASE64URL_RE.test(fingerprint)) return null
+  return { userId, fingerprint }
+}
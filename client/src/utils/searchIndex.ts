@@ -0,0 +1,198 @@
+// Device-side full-text search over decrypted history. The server only ever holds ciphertext,
+// so the index is fed from what this device decrypts and kept per chat in IndexedDB, each
+// record sealed with a key derived from the account private key (as in messageCache.ts). The
+// stored form is just the documents; the term lists are rebuilt in memory when a chat is read.
+
+import { LocalEntity, localData } from './localData'
+import { localVaultKey, openWithLocalVaultKey, sealWithLocalVaultKey } from './localVault'
+
+const SEARCH_INDEX_VAULT_INFO = 'lrcom-search-index'
+const MAX_DOCS_PER_CHAT = 10_000
+const SNIPPET_CHARS = 120
+
+export type SearchDoc = {
+  id: string
+  senderId: string
+  atIso: string
+  text: string
+  expiresAtMs: number | null
+}
+
+export type SearchHit = SearchDoc & { chatId: string }
+
+export type SearchIndex = {
+  put(chatId: string, docs: SearchDoc[]): Promise<void>
+  remove(chatId: string, ids: string[]): Promise<void>
+  dropChat(chatId: string): Promise<void>
+  search(query: string, chatIds: string[], limit: number): Promise<SearchHit[]>
+}
+
+type StoredChat = { v: 1; docs: SearchDoc[] }
+
+type LoadedChat = {
+  docs: Map<string, SearchDoc>
+  terms: Map<string, Set<string>>
+}
+
+// Case- and accent-insensitive words: "Café" and "cafe" index the same.
+export function searchTerms(text: string) {
+  return String(text ?? '')
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+}
+
+// A window of the text around the first query word, for result lists.
+export function searchSnippet(text: string, query: string) {
+  const flat = String(text ?? '').replace(/\s+/g, ' ').trim()
+  if (flat.length <= SNIPPET_CHARS) return flat
+  const first = String(query ?? '').trim().split(/\s+/)[0] ?? ''
+  const at = first ? flat.toLowerCase().indexOf(first.toLowerCase()) : -1
+  const start = Math.max(0, Math.min(at - Math.floor(SNIPPET_CHARS / 3), flat.length - SNIPPET_CHARS))
+  const body = flat.slice(start, start + SNIPPET_CHARS)
+  return `${start > 0 ? '…' : ''}${body}${start + SNIPPET_CHARS < flat.length ? '…' : ''}`
+}
+
+function addTerms(chat: LoadedChat, doc: SearchDoc) {
+  for (const term of new Set(searchTerms(doc.text))) {
+    const ids = chat.terms.get(term) ?? new Set<string>()
+    ids.add(doc.id)
+    chat.terms.set(term, ids)
+  }
+}
+
+function removeTerms(chat: LoadedChat, doc: SearchDoc) {
+  for (const term of new Set(searchTerms(doc.text))) {
+    const ids = chat.terms.get(term)
+    if (!ids) continue
+    ids.delete(doc.id)
+    if (!ids.size) chat.terms.delete(term)
+  }
+}
+
+function prefixMatches(chat: LoadedChat, word: string) {
+  const ids = new Set<string>()
+  for (const [term, termIds] of chat.terms) {
+    if (term.startsWith(word)) for (const id of termIds) ids.add(id)
+  }
+  return ids
+}
+
+function isLiveDoc(doc: SearchDoc, now: number) {
+  return doc.expiresAtMs == null || doc.expiresAtMs > now
+}
+
+export async function openSearchIndex(userId: string, privateJwkJson: string): Promise<SearchIndex> {
+  const key = await localVaultKey(privateJwkJson, SEARCH_INDEX_VAULT_INFO)
+  const recordKey = (chatId: string) => `${userId}:chat:${chatId}`
+  const loaded = new Map<string, Promise<LoadedChat>>()
+
+  async function read(chatId: string): Promise<LoadedChat> {
+    const chat: LoadedChat = { docs: new Map(), terms: new Map() }
+    const blob = await localData.idbRecordGet<string>(LocalEntity.IdbSearchIndex, recordKey(chatId))
+    if (typeof blob !== 'string' || !blob) return chat
+    try {
+      const rec = JSON.parse(await openWithLocalVaultKey(blob, key)) as StoredChat
+      if (rec?.v !== 1 || !Array.isArray(rec.docs)) return chat
+      const now = Date.now()
+      for (const doc of rec.docs) {
+        if (typeof doc?.id !== 'string' || typeof doc.text !== 'string' || !isLiveDoc(doc, now)) continue
+        chat.docs.set(doc.id, doc)
+        addTerms(chat, doc)
+      }
+    } catch {
+      // Sealed under another key: start over.
+    }
+    return chat
+  }
+
+  function load(chatId: string) {
+    let p = loaded.get(chatId)
+    if (!p) {
+      p = read(chatId)
+      loaded.set(chatId, p)
+    }
+    return p
+  }
+
+  // Keeps the newest documents when a chat outgrows the cap; ids are time-ordered.
+  async function write(chatId: string, chat: LoadedChat) {
+    const now = Date.now()
+    const docs = [...chat.docs.values()].filter((d) => isLiveDoc(d, now)).sort((a, b) => (a.id < b.id ? -1 : 1))
+    const kept = docs.slice(-MAX_DOCS_PER_CHAT)
+    if (kept.length !== chat.docs.size) {
+      const keptIds = new Set(kept.map((d) => d.id))
+      for (const doc of chat.docs.values()) {
+        if (!keptIds.has(doc.id)) {
+          chat.docs.delete(doc.id)
+          removeTerms(chat, doc)
+        }
+      }
+    }
+    if (!kept.length) {
+      await localData.idbRecordSet(LocalEntity.IdbSearchIndex, recordKey(chatId), null)
+      return
+    }
+    const rec: StoredChat = { v: 1, docs: kept }
+    await localData.idbRecordSet(LocalEntity.IdbSearchIndex, recordKey(chatId), await sealWithLocalVaultKey(JSON.stringify(rec), key))
+  }
+
+  return {
+    async put(chatId, docs) {
+      const chat = await load(chatId)
+      let changed = false
+      for (const doc of docs) {
+        const prev = chat.docs.get(doc.id)
+        if (prev && prev.text === doc.text && prev.expiresAtMs === doc.expiresAtMs) continue
+        if (prev) removeTerms(chat, prev)
+        chat.docs.set(doc.id, doc)
+        addTerms(chat, doc)
+        changed = true
+      }
+      if (changed) await write(chatId, chat)
+    },
+
+    async remove(chatId, ids) {
+      const chat = await load(chatId)
+      let changed = false
+      for (const id of ids) {
+        const prev = chat.docs.get(id)
+        if (!prev) continue
+        chat.docs.delete(id)
+        removeTerms(chat, prev)
+        changed = true
+      }
+      if (changed) await write(chatId, chat)
+    },
+
+    async dropChat(chatId) {
+      loaded.delete(chatId)
+      await localData.idbRecordSet(LocalEntity.IdbSearchIndex, recordKey(chatId), null)
+    },
+
+    // Every query word must start some word of the message. Newest first.
+    async search(query, chatIds, limit) {
+      const words = [...new Set(searchTerms(query))]
+      if (!words.length) return []
+      const now = Date.now()
+      const hits: SearchHit[] = []
+      for (const chatId of chatIds) {
+        const chat = await load(chatId)
+        let matched = prefixMatches(chat, words[0]!)
+        for (const word of words.slice(1)) {
+          if (!matched.size) break
+          const ids = prefixMatches(chat, word)
+          matched = new Set([...matched].filter((id) => ids.has(id)))
+        }
+        for (const id of matched) {
+          const doc = chat.docs.get(id)
+          if (doc && isLiveDoc(doc, now)) hits.push({ ...doc, chatId })
+        }
+      }
+      hits.sort((a, b) => (a.id < b.id ? 1 : -1))
+      return hits.slice(0, limit)
+    },
+  }
+}
@@ -0,0 +1,83 @@
+// Shamir secret sharing over GF(256), byte by byte. Any `threshold` shares rebuild the secret;
+// fewer reveal nothing about it. Share x-coordinates are 1..255 and must be distinct.
+
+export type SecretShare = {
+  x: number
+  y: Uint8Array
+}
+
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+
+// Tables for the AES field (x^8 + x^4 + x^3 + x + 1) with generator 3.
+;(() => {
+  let v = 1
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = v
+    LOG[v] = i
+    v ^= (v << 1) ^ (v & 0x80 ? 0x11b : 0)
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255]!
+})()
+
+function mul(a: number, b: number) {
+  if (!a || !b) return 0
+  return EXP[LOG[a]! + LOG[b]!]!
+}
+
+function div(a: number, b: number) {
+  if (!b) throw new Error('Division by zero')
+  if (!a) return 0
+  return EXP[LOG[a]! + 255 - LOG[b]!]!
+}
+
+export function splitSecret(secret: Uint8Array, shares: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(shares) || threshold < 2 || shares < threshold || shares > 255) {
+    throw new Error('Bad share parameters')
+  }
+  if (!secret.byteLength) throw new Error('Empty secret')
+
+  const out: SecretShare[] = []
+  for (let s = 0; s < shares; s++) out.push({ x: s + 1, y: new Uint8Array(secret.byteLength) })
+
+  // One random polynomial of degree threshold-1 per byte, with the secret byte as constant term.
+  const coeffs = new Uint8Array(threshold)
+  for (let i = 0; i < secret.byteLength; i++) {
+    coeffs[0] = secret[i]!
+    crypto.getRandomValues(coeffs.subarray(1))
+    for (const share of out) {
+      // Horner's rule.
+      let y = 0
+      for (let c = threshold - 1; c >= 0; c--) y = mul(y, share.x) ^ coeffs[c]!
+      share.y[i] = y
+    }
+  }
+  coeffs.fill(0)
+  return out
+}
+
+// Lagrange interpolation at x = 0. Passing fewer than the threshold yields a wrong secret, not
+// an error, so callers must authenticate the result (here: the backup it decrypts).
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length < 2) throw new Error('Not enough shares')
+  const len = shares[0]!.y.byteLength
+  const xs = new Set<number>()
+  for (const s of shares) {
+    if (!Number.isInteger(s.x) || s.x < 1 || s.x > 255 || xs.has(s.x) || s.y.byteLength !== len) throw new Error('Bad share')
+    xs.add(s.x)
+  }
+
+  const out = new Uint8Array(len)
+  for (let j = 0; j < shares.length; j++) {
+    const xj = shares[j]!.x
+    let basis = 1
+    for (let m = 0; m < shares.length; m++) {
+      if (m === j) continue
+      const xm = shares[m]!.x
+      basis = mul(basis, div(xm, xm ^ xj))
+    }
+    const yj = shares[j]!.y
+    for (let i = 0; i < len; i++) out[i] = out[i]! ^ mul(yj[i]!, basis)
+  }
+  return out
+}
@@ -1,4 +1,41 @@
+import { scryptAsync } from '@noble/hashes/scrypt'
+import {
+  RATCHET_PUBLIC_KEY_BYTES,
+  RATCHET_SESSION_ID_BYTES,
+  acceptRatchetSession,
+  cloneRatchetSession,
+  decodeRatchetInit,
+  encodeRatchetInit,
+  putRatchetSession,
+  ratchetReceiveKey,
+  ratchetSendKey,
+  ratchetSessionIdToString,
+  startRatchetSession,
+  type RatchetChatState,
+  type RatchetHeader,
+  type RatchetSessionState,
+} from './ratchet'
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  fromCompactAttachment,
+  toCompactAttachment,
+  type CompactAttachment,
+  type MessageAttachment,
+} from './attachments'
+import { isDisappearingTimer } from './disappearing'
+import { b64, b64Url, unb64, unb64Url } from './base64'
+
+// PBKDF2 cost of the original, headerless password blobs; they are still read.
 export const LOCAL_KEY_PRIVATE_KEY_ITERATIONS = 612_345
+// scrypt cost for new blobs: N = 2^17, r = 8 (128 MiB), p = 1.
+const PBE_SCRYPT_LOG_N = 17
+const PBE_SCRYPT_R = 8
+const PBE_SCRYPT_P = 1
+// Blobs also arrive in imported key files, so the cost they ask for is capped.
+const PBE_SCRYPT_MAX_LOG_N = 20
+const PBE_SCRYPT_MAX_R = 16
+const PBE_SCRYPT_MAX_P = 4
+const PBE_SCRYPT_MAX_MEM_BYTES = 256 * 1024 * 1024
 const PBE_SALT_BYTES = 16
 const PBE_IV_BYTES = 12
 const AES_GCM_TAG_BYTES = 16
@@ -18,7 +55,30 @@ const ENVELOPE_TEXT_COMPRESS_MIN_INPUT_BYTES = 192
 const ENVELOPE_TEXT_COMPRESS_MAX_RATIO = 0.9
 const ENVELOPE_TEXT_MAX_DECOMPRESSED_BYTES = 64 * 1024
 
+// Envelope versions. Version 0 is the original multi-recipient layout and has no header:
+// IV | recipient count (> 0) | entries | ct. Every later layout starts with
+// IV | 0x0000 | version byte; the zero recipient count makes older parsers reject it
+// instead of misreading it.
+export const ENVELOPE_VERSION_RSA_LEGACY = 0x00
+export const ENVELOPE_VERSION_RATCHET = 0x01
+export const ENVELOPE_VERSION_SENDER_KEY = 0x02
+export const ENVELOPE_VERSION_RSA = 0x03
+const ENVELOPE_VERSION_HEADER_BYTES = ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES + 1
+
+// Ratchet envelope: IV | 0x0000 | 0x01 | session id | X25519 pub | pn | n | init flag | [wrapped root] | ct
+const RATCHET_ENVELOPE_FIXED_HEADER_BYTES =
+  ENVELOPE_VERSION_HEADER_BYTES + RATCHET_SESSION_ID_BYTES + RATCHET_PUBLIC_KEY_BYTES + 4 + 4 + 1
+
+// Sender-key envelope (groups): IV | 0x0000 | 0x02 | key id | ct
+export const SENDER_KEY_ID_BYTES = 16
+const SENDER_KEY_BYTES = 32
+const SENDER_KEY_ENVELOPE_HEADER_BYTES = ENVELOPE_VERSION_HEADER_BYTES + SENDER_KEY_ID_BYTES
+const SENDER_KEY_MESSAGE_INFO = 'lrcom-sender-key-msg'
+
 const ENVELOPE_PAD_HARD_MAX_RANDOM_LEN = 4096
+// Size buckets (bytes of encrypted payload) that bucketed padding may round up to.
+const ENVELOPE_PAD_BUCKET_MIN_BYTES = 64
+export const ENVELOPE_PAD_BUCKET_MAX_BYTES = 64 * 1024
 const RSA_PUBLIC_EXPONENT_B64URL = 'AQAB'
 const BASE64URL_RE = /^[A-Za-z0-9_-]+$/
 const RSA_MODULUS_MIN_LEN = 128
@@ -45,7 +105,7 @@ function isLikelyRsaModulus(value: unknown) {
   return true
 }
 
-function parsePublicKeyInputToRsaJwk(publicKey: string) {
+export function parsePublicKeyInputToRsaJwk(publicKey: string) {
   const raw = String(publicKey ?? '').trim()
   if (!raw) throw new Error('Invalid public key')
 
@@ -63,31 +123,6 @@ function decUtf8(b: ArrayBuffer | Uint8Array) {
   return new TextDecoder().decode(u8)
 }
 
-function b64(bytes: ArrayBuffer | Uint8Array) {
-  const u8 = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
-  let bin = ''
-  for (let i = 0; i < u8.length; i++) bin += String.fromCharCode(u8[i]!)
-  return btoa(bin)
-}
-
-function unb64(s: string) {
-  const bin = atob(s)
-  const u8 = new Uint8Array(bin.length)
-  for (let i = 0; i < bin.length; i++) u8[i] = bin.charCodeAt(i)
-  return u8
-}
-
-function b64Url(bytes: ArrayBuffer | Uint8Array) {
-  return b64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-}
-
-function unb64Url(s: string) {
-  const raw = String(s ?? '').replace(/-/g, '+').replace(/_/g, '/')
-  const padLen = (4 - (raw.length % 4)) % 4
-  const padded = `${raw}${'='.repeat(padLen)}`
-  return unb64(padded)
-}
-
 function randomStringFromAlphabet(len: number, alphabet: string) {
   if (len <= 0) return ''
   const a = String(alphabet ?? '')
@@ -127,7 +162,27 @@ function equalBytes(a: Uint8Array, b: Uint8Array) {
   return true
 }
 
+function envelopeHeaderBytes(version: number, iv: Uint8Array) {
+  if (version === ENVELOPE_VERSION_RSA_LEGACY) return iv
+  const out = new Uint8Array(ENVELOPE_VERSION_HEADER_BYTES)
+  out.set(iv, 0)
+  out[ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES] = version
+  return out
+}
+
+function readEnvelopeVersion(all: Uint8Array) {
+  const countOff = ENVELOPE_IV_BYTES
+  if (all.byteLength <= countOff + ENVELOPE_RECIPIENT_COUNT_BYTES) throw new Error('Unsupported message format')
+  const recipientCount = (all[countOff]! << 8) | all[countOff + 1]!
+  if (recipientCount > 0) return ENVELOPE_VERSION_RSA_LEGACY
+  return all[countOff + ENVELOPE_RECIPIENT_COUNT_BYTES]!
+}
+
+// Version 3 keeps the recipient table of version 0 behind the version header:
+// IV | 0x0000 | 0x03 | recipient count | entries | ct. Only the version header is
+// authenticated, so recipients can still be scrubbed from stored messages.
 function packMessageEnvelopeBlob(parts: {
+  version: typeof ENVELOPE_VERSION_RSA_LEGACY | typeof ENVELOPE_VERSION_RSA
   iv: Uint8Array
   ct: Uint8Array
   keyEntries: Array<{ userIdBytes: Uint8Array; wrappedKeyBytes: Uint8Array }>
@@ -140,12 +195,11 @@ function packMessageEnvelopeBlob(parts: {
   if (!(ct instanceof Uint8Array) || ct.byteLength < ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
   if (keyEntries.length <= 0 || keyEntries.length > ENVELOPE_MAX_RECIPIENTS) throw new Error('Unsupported message format')
 
-  const totalLen = ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES + keyEntries.length * ENVELOPE_ENTRY_BYTES + ct.byteLength
+  const headerLen = parts.version === ENVELOPE_VERSION_RSA ? ENVELOPE_VERSION_HEADER_BYTES : ENVELOPE_IV_BYTES
+  const totalLen = headerLen + ENVELOPE_RECIPIENT_COUNT_BYTES + keyEntries.length * ENVELOPE_ENTRY_BYTES + ct.byteLength
   const out = new Uint8Array(totalLen)
-  let off = 0
-
-  out.set(iv, off)
-  off += ENVELOPE_IV_BYTES
+  out.set(envelopeHeaderBytes(parts.version, iv), 0)
+  let off = headerLen
 
   out[off] = (keyEntries.length >> 8) & 0xff
   out[off + 1] = keyEntries.length & 0xff
@@ -166,12 +220,16 @@ function packMessageEnvelopeBlob(parts: {
 
 function unpackMessageEnvelopeBlob(encryptedData: string) {
   const all = unb64Url(encryptedData)
-  const min = ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES + ENVELOPE_MIN_CT_BYTES
+  const version = readEnvelopeVersion(all)
+  if (version !== ENVELOPE_VERSION_RSA_LEGACY && version !== ENVELOPE_VERSION_RSA) throw new Error('Unsupported message format')
+
+  const headerLen = version === ENVELOPE_VERSION_RSA ? ENVELOPE_VERSION_HEADER_BYTES : ENVELOPE_IV_BYTES
+  const min = headerLen + ENVELOPE_RECIPIENT_COUNT_BYTES + ENVELOPE_MIN_CT_BYTES
   if (all.byteLength < min) throw new Error('Unsupported message format')
 
-  let off = 0
-  const iv = all.slice(off, off + ENVELOPE_IV_BYTES)
-  off += ENVELOPE_IV_BYTES
+  const iv = all.slice(0, ENVELOPE_IV_BYTES)
+  const aad = version === ENVELOPE_VERSION_RSA ? all.slice(0, headerLen) : null
+  let off = headerLen
 
   const recipientCount = (all[off]! << 8) | all[off + 1]!
   off += ENVELOPE_RECIPIENT_COUNT_BYTES
@@ -192,7 +250,7 @@ function unpackMessageEnvelopeBlob(encryptedData: string) {
   const ct = all.slice(off)
   if (ct.byteLength < ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
 
-  return { iv, ct, keyEntries }
+  return { iv, aad, ct, keyEntries }
 }
 
 export async function generateRsaKeyPair() {
@@ -225,13 +283,25 @@ export async function generateRsaKeyPair() {
   }
 }
 
-async function deriveAesKeyFromPassword(password: string, salt: Uint8Array, iterations: number) {
+// How a password blob's key is derived. New blobs start with a PHC-style header naming the KDF
+// and its cost, `$scrypt$ln=17,r=8,p=1$<salt>$<iv>$<ct>`; blobs without one are the original
+// PBKDF2 format, salt, iv and ciphertext run together.
+type PbeKdf = { kind: 'pbkdf2'; iterations: number } | { kind: 'scrypt'; logN: number; r: number; p: number }
+
+const PBE_SCRYPT_HEADER_RE = /^\$scrypt\$ln=(\d{1,2}),r=(\d{1,2}),p=(\d)\$/
+
+async function deriveAesKeyFromPassword(password: string, salt: Uint8Array, kdf: PbeKdf) {
+  if (kdf.kind === 'scrypt') {
+    const raw = await scryptAsync(encUtf8(password), salt, { N: 2 ** kdf.logN, r: kdf.r, p: kdf.p, dkLen: 32 })
+    return crypto.subtle.importKey('raw', raw as unknown as BufferSource, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+  }
+
   const baseKey = await crypto.subtle.importKey('raw', encUtf8(password), 'PBKDF2', false, ['deriveKey'])
   return crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
       salt: salt as unknown as BufferSource,
-      iterations,
+      iterations: kdf.iterations,
       hash: 'SHA-256',
     },
     baseKey,
@@ -241,17 +311,43 @@ async function deriveAesKeyFromPassword(password: string, salt: Uint8Array, iter
   )
 }
 
-function packPbeBlob(parts: { salt: Uint8Array; iv: Uint8Array; ct: ArrayBuffer | Uint8Array }) {
-  return `${b64(parts.salt)}${b64(parts.iv)}${b64(parts.ct)}`
+function packPbeBlob(parts: { kdf: PbeKdf; salt: Uint8Array; iv: Uint8Array; ct: ArrayBuffer | Uint8Array }) {
+  if (parts.kdf.kind === 'pbkdf2') return `${b64(parts.salt)}${b64(parts.iv)}${b64(parts.ct)}`
+  const { logN, r, p } = parts.kdf
+  return `$scrypt$ln=${logN},r=${r},p=${p}$${b64(parts.salt)}$${b64(parts.iv)}$${b64(parts.ct)}`
 }
 
-function unpackPbeBlob(blob: string) {
+function unpackPbeBlob(blob: string): { kdf: PbeKdf; salt: Uint8Array; iv: Uint8Array; ct: Uint8Array } {
   const raw = String(blob ?? '')
-  if (raw.length < PBE_BLOB_MIN_LEN) throw new Error('Unsupported encrypted blob format')
 
-  const saltB64 = raw.slice(0, PBE_SALT_B64_LEN)
-  const ivB64 = raw.slice(PBE_SALT_B64_LEN, PBE_SALT_B64_LEN + PBE_IV_B64_LEN)
-  const ctB64 = raw.slice(PBE_SALT_B64_LEN + PBE_IV_B64_LEN)
+  let kdf: PbeKdf
+  let saltB64: string
+  let ivB64: string
+  let ctB64: string
+  const header = PBE_SCRYPT_HEADER_RE.exec(raw)
+  if (header) {
+    kdf = { kind: 'scrypt', logN: Number(header[1]), r: Number(header[2]), p: Number(header[3]) }
+    if (
+      kdf.logN < 1 ||
+      kdf.logN > PBE_SCRYPT_MAX_LOG_N ||
+      kdf.r < 1 ||
+      kdf.r > PBE_SCRYPT_MAX_R ||
+      kdf.p < 1 ||
+      kdf.p > PBE_SCRYPT_MAX_P ||
+      128 * kdf.r * 2 ** kdf.logN > PBE_SCRYPT_MAX_MEM_BYTES
+    ) {
+      throw new Error('Unsupported encrypted blob format')
+    }
+    const parts = raw.slice(header[0].length).split('$')
+    if (parts.length !== 3) throw new Error('Unsupported encrypted blob format')
+    ;[saltB64, ivB64, ctB64] = parts as [string, string, string]
+  } else {
+    if (raw.startsWith('$') || raw.length < PBE_BLOB_MIN_LEN) throw new Error('Unsupported encrypted blob format')
+    kdf = { kind: 'pbkdf2', iterations: LOCAL_KEY_PRIVATE_KEY_ITERATIONS }
+    saltB64 = raw.slice(0, PBE_SALT_B64_LEN)
+    ivB64 = raw.slice(PBE_SALT_B64_LEN, PBE_SALT_B64_LEN + PBE_IV_B64_LEN)
+    ctB64 = raw.slice(PBE_SALT_B64_LEN + PBE_IV_B64_LEN)
+  }
   if (!ctB64) throw new Error('Unsupported encrypted blob format')
 
   let salt: Uint8Array
@@ -269,23 +365,24 @@ function unpackPbeBlob(blob: string) {
   if (iv.byteLength !== PBE_IV_BYTES) throw new Error('Unsupported encrypted blob format')
   if (ct.byteLength < AES_GCM_TAG_BYTES) throw new Error('Unsupported encrypted blob format')
 
-  return { salt, iv, ct }
+  return { kdf, salt, iv, ct }
 }
 
 export async function encryptStringWithPassword(params: { plaintext: string; password: string }) {
+  const kdf: PbeKdf = { kind: 'scrypt', logN: PBE_SCRYPT_LOG_N, r: PBE_SCRYPT_R, p: PBE_SCRYPT_P }
   const salt = crypto.getRandomValues(new Uint8Array(PBE_SALT_BYTES))
   const iv = crypto.getRandomValues(new Uint8Array(PBE_IV_BYTES))
 
-  const aesKey = await deriveAesKeyFromPassword(params.password, salt, LOCAL_KEY_PRIVATE_KEY_ITERATIONS)
+  const aesKey = await deriveAesKeyFromPassword(params.password, salt, kdf)
   const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, encUtf8(params.plaintext))
 
-  return packPbeBlob({ salt, iv, ct })
+  return packPbeBlob({ kdf, salt, iv, ct })
 }
 
 export async function decryptStringWithPassword(params: { encrypted: string; password: string }) {
-  const { salt, iv, ct } = unpackPbeBlob(params.encrypted)
+  const { kdf, salt, iv, ct } = unpackPbeBlob(params.encrypted)
 
-  const aesKey = await deriveAesKeyFromPassword(params.password, salt, LOCAL_KEY_PRIVATE_KEY_ITERATIONS)
+  const aesKey = await deriveAesKeyFromPassword(params.password, salt, kdf)
   const pt = await crypto.subtle.decrypt(
     { name: 'AES-GCM', iv: iv as unknown as BufferSource },
     aesKey,
@@ -312,13 +409,33 @@ function makeEnvelopeObjectPadding(minPadChars: number, maxPadChars: number) {
   return randomStringFromAlphabet(randomLen, TEXT_PAD_ALPHABET)
 }
 
+// Padding beyond the random range is a bucket fill; the sender's bucket policy is not known here.
 function assertEnvelopeObjectPadding(padding: unknown, minPadChars: number, maxPadChars: number) {
   if (typeof padding !== 'string') throw new Error('Unsupported message format')
   const bounds = normalizeEnvelopePadBounds(minPadChars, maxPadChars)
-  if (padding.length < bounds.min || padding.length > bounds.max) throw new Error('Unsupported message format')
+  if (padding.length < bounds.min || padding.length > Math.max(bounds.max, ENVELOPE_PAD_BUCKET_MAX_BYTES)) {
+    throw new Error('Unsupported message format')
+  }
   if (!isStringFromAlphabet(padding, TEXT_PAD_ALPHABET_SET)) throw new Error('Unsupported message format')
 }
 
+// Ascending, de-duplicated bucket sizes within the supported range; anything else is dropped.
+export function normalizeEnvelopePadBuckets(value: unknown): number[] {
+  if (!Array.isArray(value)) return []
+  const sizes = value.filter(
+    (v): v is number => Number.isSafeInteger(v) && v >= ENVELOPE_PAD_BUCKET_MIN_BYTES && v <= ENVELOPE_PAD_BUCKET_MAX_BYTES,
+  )
+  return Array.from(new Set(sizes)).sort((a, b) => a - b)
+}
+
+// Padding characters to add so that `unpaddedBytes` of plaintext encrypts to exactly the
+// smallest bucket that fits, or null when even the largest is too small.
+function bucketFillChars(unpaddedBytes: number, buckets: readonly number[], minPadChars: number) {
+  const need = unpaddedBytes + minPadChars + AES_GCM_TAG_BYTES
+  const bucket = buckets.find((b) => b >= need)
+  return bucket === undefined ? null : bucket - AES_GCM_TAG_BYTES - unpaddedBytes
+}
+
 function getCompressionStreamConstructors() {
   const CompressionStreamCtor = (globalThis as { CompressionStream?: unknown }).CompressionStream
   const DecompressionStreamCtor = (globalThis as { DecompressionStream?: unknown }).DecompressionStream
@@ -406,6 +523,20 @@ async function decodeEnvelopeMessageText(encodedText: string, compressionMode: 0
   return decUtf8(decompressed)
 }
 
+// Envelopes that are not plain chat messages: 'timer' = disappearing-message timer change,
+// 'reaction' = emoji reaction (text) to the message in `a`, 'recoveryShare' = the sender's social
+// recovery share (JSON text) for the recipient to hold. Kept in the ciphertext so the server
+// cannot replay one kind as another.
+export type ChatNoticeKind = 'timer' | 'reaction' | 'recoveryShare'
+const CHAT_NOTICE_KINDS: readonly ChatNoticeKind[] = ['timer', 'reaction', 'recoveryShare']
+
+// Set on forwarded copies: who wrote the original and when, as the forwarder saw it.
+export type ForwardedFrom = { from: string; atIso: string }
+
+// Mentioned user ids travel inside the ciphertext, so only members learn who was pinged.
+export const MAX_MESSAGE_MENTIONS = 64
+const MAX_MENTION_ID_CHARS = 64
+
 type CompactEnvelopePayload = {
   // t = plaintext message text
   t: string
@@ -417,6 +548,16 @@ type CompactEnvelopePayload = {
   a: string | null
   // mt = modification time (ISO), omitted for new messages
   mt?: string
+  // f = attachments (see attachments.ts), omitted when there are none
+  f?: CompactAttachment[]
+  // x = disappearing-message timer (seconds) at send time; omitted when off, except on notices
+  x?: number
+  // n = notice kind (see ChatNoticeKind); for 'timer' the new setting is in x
+  n?: ChatNoticeKind
+  // w = forwarded-from marker: u = original sender's name, ct = original create time
+  w?: { u: string; ct: string }
+  // m = mentioned user ids, omitted when there are none
+  m?: string[]
   // p = random object-level padding
   p: string
 }
@@ -533,6 +674,127 @@ export async function verifyEnvelope(params: {
   }
 }
 
+// Sealed-sender messages carry the sender and their signature inside the encrypted payload.
+// The signature covers the inner compact payload exactly as sent, hence the string form.
+type SealedEnvelopePayload = {
+  // s = sender user id
+  s: string
+  // g = RSA-PSS signature (see sealedSignaturePayload)
+  g: string
+  // m = the compact payload, as JSON text
+  m: string
+}
+
+export type SealedEnvelopeSender = {
+  senderId: string
+  signatureB64: string
+  payload: string
+}
+
+function sealedSignaturePayload(params: { senderId: string; chatId: string; payload: string }) {
+  return JSON.stringify({
+    v: 1,
+    kind: 'sealed',
+    senderId: String(params.senderId),
+    chatId: String(params.chatId),
+    m: String(params.payload),
+  })
+}
+
+export async function signSealedPayload(params: { signingKey: CryptoKey; senderId: string; chatId: string; payload: string }) {
+  const sig = await crypto.subtle.sign(
+    { name: 'RSA-PSS', saltLength: 32 },
+    params.signingKey,
+    encUtf8(sealedSignaturePayload(params)),
+  )
+  return b64(sig)
+}
+
+export async function verifySealedPayload(params: {
+  verifyKey: CryptoKey
+  signatureB64: string
+  senderId: string
+  chatId: string
+  payload: string
+}) {
+  const sigB64 = String(params.signatureB64 ?? '')
+  if (!sigB64) return false
+
+  try {
+    return await crypto.subtle.verify(
+      { name: 'RSA-PSS', saltLength: 32 },
+      params.verifyKey,
+      unb64(sigB64),
+      encUtf8(sealedSignaturePayload(params)),
+    )
+  } catch {
+    return false
+  }
+}
+
+// Wrapped size of `pt` once sealed; RSA-PSS signatures are exactly as long as the modulus.
+function sealedPayloadBytes(pt: Uint8Array, seal: EnvelopeSeal) {
+  const modulusBytes = (seal.signingKey.algorithm as RsaHashedKeyAlgorithm).modulusLength / 8
+  const sealed: SealedEnvelopePayload = { s: String(seal.senderId), g: 'A'.repeat(Math.ceil(modulusBytes / 3) * 4), m: decUtf8(pt) }
+  return encUtf8(JSON.stringify(sealed)).byteLength
+}
+
+async function sealCompactPayload(pt: Uint8Array, seal: EnvelopeSeal) {
+  const payload = decUtf8(pt)
+  const signatureB64 = await signSealedPayload({ signingKey: seal.signingKey, senderId: seal.senderId, chatId: seal.chatId, payload })
+  const sealed: SealedEnvelopePayload = { s: String(seal.senderId), g: signatureB64, m: payload }
+  return encUtf8(JSON.stringify(sealed))
+}
+
+// Null for ordinary payloads (those have no `m`).
+function readSealedPayload(pt: ArrayBuffer): SealedEnvelopeSender | null {
+  let parsed: Partial<SealedEnvelopePayload> | null
+  try {
+    parsed = JSON.parse(decUtf8(pt))
+  } catch {
+    throw new Error('Unsupported message format')
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.m === 'undefined') return null
+  if (typeof parsed.m !== 'string' || typeof parsed.s !== 'string' || !parsed.s || typeof parsed.g !== 'string') {
+    throw new Error('Unsupported message format')
+  }
+  return { senderId: parsed.s, signatureB64: parsed.g, payload: parsed.m }
+}
+
+// A rotation is the old key vouching for the new one; the server checks the same payload.
+function keyRotationPayload(params: { userId: string; oldPublicKey: string; newPublicKey: string }) {
+  return JSON.stringify({
+    v: 1,
+    kind: 'key_rotation',
+    userId: String(params.userId),
+    oldPublicKey: parsePublicKeyInputToRsaJwk(params.oldPublicKey).n,
+    newPublicKey: parsePublicKeyInputToRsaJwk(params.newPublicKey).n,
+  })
+}
+
+export async function signKeyRotation(params: { signingKey: CryptoKey; userId: string; oldPublicKey: string; newPublicKey: string }) {
+  const sig = await crypto.subtle.sign(
+    { name: 'RSA-PSS', saltLength: 32 },
+    params.signingKey,
+    encUtf8(keyRotationPayload(params)),
+  )
+  return b64(sig)
+}
+
+export async function verifyKeyRotation(params: { userId: string; oldPublicKey: string; newPublicKey: string; signatureB64: string }) {
+  try {
+    const verifyKey = await importRsaPssPublicKeyJwk(params.oldPublicKey)
+    return await crypto.subtle.verify(
+      { name: 'RSA-PSS', saltLength: 32 },
+      verifyKey,
+      unb64(String(params.signatureB64 ?? '')),
+      encUtf8(keyRotationPayload(params)),
+    )
+  } catch {
+    return false
+  }
+}
+
 export async function encryptSmallStringWithPublicKeyJwk(params: {
   plaintext: string
   publicKeyJwkJson: string
@@ -554,38 +816,366 @@ export async function decryptSmallStringWithPrivateKey(params: {
   return decUtf8(pt)
 }
 
-export async function encryptMessageEnvelope(params: {
-  plaintext: {
-    text: string
-    atIso: string
-    replyToId?: string | null
-    modifiedAtIso?: string | null
-  }
-  recipients: Array<{ userId: string; publicKeyJwk: string }>
-  objectPadMinChars: number
-  objectPadMaxChars: number
-}) {
-  const aesKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
-  const iv = crypto.getRandomValues(new Uint8Array(12))
+type EnvelopePlaintext = {
+  text: string
+  atIso: string
+  replyToId?: string | null
+  modifiedAtIso?: string | null
+  attachments?: MessageAttachment[] | null
+  timerSeconds?: number | null
+  notice?: ChatNoticeKind | null
+  forwardedFrom?: ForwardedFrom | null
+  mentions?: string[] | null
+}
 
-  const encodedText = await encodeEnvelopeMessageText(String(params.plaintext?.text ?? ''))
+type EnvelopePadBuckets = {
+  buckets?: readonly number[] | null
+  // Size of the bytes actually encrypted, when the payload gets wrapped first (sealed sender).
+  finalBytes?: (pt: Uint8Array) => number
+}
+
+// With buckets, `p` fills the payload up to a bucket instead of taking a random length. Pad
+// characters never need JSON escaping, so each adds exactly one byte, wrapped or not.
+async function encodeCompactPayload(
+  plaintext: EnvelopePlaintext,
+  objectPadMinChars: number,
+  objectPadMaxChars: number,
+  padding: EnvelopePadBuckets = {},
+) {
+  const encodedText = await encodeEnvelopeMessageText(String(plaintext?.text ?? ''))
 
   const compactPayload: CompactEnvelopePayload = {
     t: encodedText.t,
     z: encodedText.z,
-    ct: String(params.plaintext?.atIso ?? ''),
-    a: typeof params.plaintext?.replyToId === 'string' ? params.plaintext.replyToId : null,
-    p: makeEnvelopeObjectPadding(params.objectPadMinChars, params.objectPadMaxChars),
+    ct: String(plaintext?.atIso ?? ''),
+    a: typeof plaintext?.replyToId === 'string' ? plaintext.replyToId : null,
+    p: '',
   }
 
   if (!compactPayload.ct) throw new Error('Unsupported message format')
 
-  if (typeof params.plaintext?.modifiedAtIso === 'string' && params.plaintext.modifiedAtIso) {
-    compactPayload.mt = params.plaintext.modifiedAtIso
+  if (typeof plaintext?.modifiedAtIso === 'string' && plaintext.modifiedAtIso) {
+    compactPayload.mt = plaintext.modifiedAtIso
+  }
+
+  const attachments = Array.isArray(plaintext?.attachments) ? plaintext.attachments : []
+  if (attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) throw new Error('Unsupported message format')
+  if (attachments.length) compactPayload.f = attachments.map(toCompactAttachment)
+
+  const timerSeconds = plaintext?.timerSeconds ?? 0
+  if (!isDisappearingTimer(timerSeconds)) throw new Error('Unsupported message format')
+  if (plaintext?.notice) {
+    compactPayload.n = plaintext.notice
+    compactPayload.x = timerSeconds
+  } else if (timerSeconds) {
+    compactPayload.x = timerSeconds
+  }
+
+  const forwardedFrom = plaintext?.forwardedFrom ?? null
+  if (forwardedFrom) {
+    if (!forwardedFrom.from || !forwardedFrom.atIso) throw new Error('Unsupported message format')
+    compactPayload.w = { u: forwardedFrom.from, ct: forwardedFrom.atIso }
+  }
+
+  const mentions = Array.isArray(plaintext?.mentions) ? plaintext.mentions : []
+  if (mentions.length > MAX_MESSAGE_MENTIONS || !mentions.every(isMentionId)) throw new Error('Unsupported message format')
+  if (mentions.length) compactPayload.m = mentions
+
+  const buckets = padding.buckets ?? []
+  let fill: number | null = null
+  if (buckets.length) {
+    const unpadded = encUtf8(JSON.stringify(compactPayload))
+    const unpaddedBytes = padding.finalBytes ? padding.finalBytes(unpadded) : unpadded.byteLength
+    fill = bucketFillChars(unpaddedBytes, buckets, normalizeEnvelopePadBounds(objectPadMinChars, objectPadMaxChars).min)
+  }
+  compactPayload.p =
+    fill === null
+      ? makeEnvelopeObjectPadding(objectPadMinChars, objectPadMaxChars)
+      : randomStringFromAlphabet(fill, TEXT_PAD_ALPHABET)
+
+  return encUtf8(JSON.stringify(compactPayload))
+}
+
+function isMentionId(v: unknown): v is string {
+  return typeof v === 'string' && v.length > 0 && v.length <= MAX_MENTION_ID_CHARS
+}
+
+async function decodeCompactPayload(pt: ArrayBuffer | Uint8Array, objectPadMinChars: number, objectPadMaxChars: number) {
+  const parsed = JSON.parse(decUtf8(pt)) as Partial<CompactEnvelopePayload> | null
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Unsupported message format')
+
+  const encodedText = typeof parsed.t === 'string' ? parsed.t : null
+  const compressionMode = parsed.z === 0 || parsed.z === 1 ? parsed.z : null
+  const atIso = typeof parsed.ct === 'string' && parsed.ct ? parsed.ct : null
+  if (encodedText === null || compressionMode === null || atIso === null) throw new Error('Unsupported message format')
+
+  if (!(parsed.a === null || typeof parsed.a === 'string' || typeof parsed.a === 'undefined')) {
+    throw new Error('Unsupported message format')
+  }
+
+  const modifiedAtIso =
+    typeof parsed.mt === 'undefined' ? null : typeof parsed.mt === 'string' && parsed.mt ? parsed.mt : null
+  if (typeof parsed.mt !== 'undefined' && modifiedAtIso === null) throw new Error('Unsupported message format')
+
+  let attachments: MessageAttachment[] = []
+  if (typeof parsed.f !== 'undefined') {
+    if (!Array.isArray(parsed.f) || parsed.f.length > MAX_ATTACHMENTS_PER_MESSAGE) throw new Error('Unsupported message format')
+    attachments = parsed.f.map(fromCompactAttachment).filter((a): a is MessageAttachment => a !== null)
+    if (attachments.length !== parsed.f.length) throw new Error('Unsupported message format')
+  }
+
+  if (typeof parsed.x !== 'undefined' && !isDisappearingTimer(parsed.x)) throw new Error('Unsupported message format')
+  if (typeof parsed.n !== 'undefined' && !CHAT_NOTICE_KINDS.includes(parsed.n)) throw new Error('Unsupported message format')
+
+  let forwardedFrom: ForwardedFrom | null = null
+  if (typeof parsed.w !== 'undefined') {
+    const w = parsed.w
+    if (!w || typeof w !== 'object' || typeof w.u !== 'string' || !w.u || typeof w.ct !== 'string' || !w.ct) {
+      throw new Error('Unsupported message format')
+    }
+    forwardedFrom = { from: w.u, atIso: w.ct }
+  }
+
+  if (typeof parsed.m !== 'undefined') {
+    if (!Array.isArray(parsed.m) || parsed.m.length > MAX_MESSAGE_MENTIONS || !parsed.m.every(isMentionId)) {
+      throw new Error('Unsupported message format')
+    }
+  }
+
+  assertEnvelopeObjectPadding(parsed.p, objectPadMinChars, objectPadMaxChars)
+  const text = await decodeEnvelopeMessageText(encodedText, compressionMode)
+
+  return {
+    text,
+    atIso,
+    replyToId: typeof parsed.a === 'string' ? parsed.a : null,
+    modifiedAtIso,
+    attachments,
+    timerSeconds: parsed.x ?? 0,
+    notice: parsed.n ?? null,
+    forwardedFrom,
+    mentions: parsed.m ?? [],
+  }
+}
+
+function packRatchetEnvelopeHeader(parts: { iv: Uint8Array; header: RatchetHeader; wrappedRoot: Uint8Array | null }) {
+  if (parts.iv.byteLength !== ENVELOPE_IV_BYTES) throw new Error('Unsupported message format')
+  if (parts.header.sessionId.byteLength !== RATCHET_SESSION_ID_BYTES) throw new Error('Unsupported message format')
+  if (parts.header.dhPub.byteLength !== RATCHET_PUBLIC_KEY_BYTES) throw new Error('Unsupported message format')
+  if (parts.wrappedRoot && parts.wrappedRoot.byteLength !== ENVELOPE_WRAPPED_KEY_BYTES) throw new Error('Unsupported message format')
+
+  const out = new Uint8Array(RATCHET_ENVELOPE_FIXED_HEADER_BYTES + (parts.wrappedRoot ? ENVELOPE_WRAPPED_KEY_BYTES : 0))
+  const view = new DataView(out.buffer)
+  out.set(envelopeHeaderBytes(ENVELOPE_VERSION_RATCHET, parts.iv), 0)
+  let off = ENVELOPE_VERSION_HEADER_BYTES
+
+  out.set(parts.header.sessionId, off)
+  off += RATCHET_SESSION_ID_BYTES
+  out.set(parts.header.dhPub, off)
+  off += RATCHET_PUBLIC_KEY_BYTES
+  view.setUint32(off, parts.header.pn >>> 0)
+  off += 4
+  view.setUint32(off, parts.header.n >>> 0)
+  off += 4
+
+  out[off] = parts.wrappedRoot ? 1 : 0
+  off += 1
+  if (parts.wrappedRoot) out.set(parts.wrappedRoot, off)
+
+  return out
+}
+
+function unpackRatchetEnvelopeBlob(encryptedData: string) {
+  const all = unb64Url(encryptedData)
+  if (all.byteLength < RATCHET_ENVELOPE_FIXED_HEADER_BYTES + ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
+
+  const view = new DataView(all.buffer, all.byteOffset, all.byteLength)
+  if (readEnvelopeVersion(all) !== ENVELOPE_VERSION_RATCHET) throw new Error('Unsupported message format')
+
+  const iv = all.slice(0, ENVELOPE_IV_BYTES)
+  let off = ENVELOPE_VERSION_HEADER_BYTES
+
+  const sessionId = all.slice(off, off + RATCHET_SESSION_ID_BYTES)
+  off += RATCHET_SESSION_ID_BYTES
+  const dhPub = all.slice(off, off + RATCHET_PUBLIC_KEY_BYTES)
+  off += RATCHET_PUBLIC_KEY_BYTES
+  const pn = view.getUint32(off)
+  off += 4
+  const n = view.getUint32(off)
+  off += 4
+
+  const flags = all[off]
+  off += 1
+  if (flags !== 0 && flags !== 1) throw new Error('Unsupported message format')
+
+  let wrappedRoot: Uint8Array | null = null
+  if (flags === 1) {
+    if (off + ENVELOPE_WRAPPED_KEY_BYTES + ENVELOPE_MIN_CT_BYTES > all.byteLength) throw new Error('Unsupported message format')
+    wrappedRoot = all.slice(off, off + ENVELOPE_WRAPPED_KEY_BYTES)
+    off += ENVELOPE_WRAPPED_KEY_BYTES
+  }
+
+  const aad = all.slice(0, off)
+  const ct = all.slice(off)
+  if (ct.byteLength < ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
+
+  const header: RatchetHeader = { sessionId, dhPub, pn, n }
+  return { iv, header, wrappedRoot, aad, ct }
+}
+
+function unpackSenderKeyEnvelopeBlob(encryptedData: string) {
+  const all = unb64Url(encryptedData)
+  if (all.byteLength < SENDER_KEY_ENVELOPE_HEADER_BYTES + ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
+
+  if (readEnvelopeVersion(all) !== ENVELOPE_VERSION_SENDER_KEY) throw new Error('Unsupported message format')
+
+  const iv = all.slice(0, ENVELOPE_IV_BYTES)
+  const keyId = b64Url(all.slice(ENVELOPE_VERSION_HEADER_BYTES, ENVELOPE_VERSION_HEADER_BYTES + SENDER_KEY_ID_BYTES))
+  const aad = all.slice(0, SENDER_KEY_ENVELOPE_HEADER_BYTES)
+  const ct = all.slice(SENDER_KEY_ENVELOPE_HEADER_BYTES)
+  return { iv, keyId, aad, ct }
+}
+
+async function deriveSenderKeyMessageKey(senderKey: Uint8Array, iv: Uint8Array, usage: KeyUsage) {
+  const base = await crypto.subtle.importKey('raw', senderKey as unknown as BufferSource, 'HKDF', false, ['deriveKey'])
+  return await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: iv as unknown as BufferSource, info: encUtf8(SENDER_KEY_MESSAGE_INFO) },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage],
+  )
+}
+
+export function createSenderKey() {
+  return {
+    keyId: b64Url(crypto.getRandomValues(new Uint8Array(SENDER_KEY_ID_BYTES))),
+    key: crypto.getRandomValues(new Uint8Array(SENDER_KEY_BYTES)),
+  }
+}
+
+// The key id is wrapped together with the key so a member cannot be handed a key under another id.
+export async function wrapSenderKey(params: { keyId: string; key: Uint8Array; publicKeyJwk: string }) {
+  const keyIdBytes = unb64Url(params.keyId)
+  if (keyIdBytes.byteLength !== SENDER_KEY_ID_BYTES || params.key.byteLength !== SENDER_KEY_BYTES) {
+    throw new Error('Invalid sender key')
+  }
+  const pt = new Uint8Array(SENDER_KEY_ID_BYTES + SENDER_KEY_BYTES)
+  pt.set(keyIdBytes, 0)
+  pt.set(params.key, SENDER_KEY_ID_BYTES)
+  const pub = await importRsaPublicKeyJwk(params.publicKeyJwk)
+  return b64Url(await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, pub, pt))
+}
+
+export async function unwrapSenderKey(params: { keyId: string; wrapped: string; myPrivateKey: CryptoKey }) {
+  const pt = new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: 'RSA-OAEP' },
+      params.myPrivateKey,
+      unb64Url(params.wrapped) as unknown as BufferSource,
+    ),
+  )
+  if (pt.byteLength !== SENDER_KEY_ID_BYTES + SENDER_KEY_BYTES) throw new Error('Invalid sender key')
+  if (b64Url(pt.slice(0, SENDER_KEY_ID_BYTES)) !== params.keyId) throw new Error('Invalid sender key')
+  return pt.slice(SENDER_KEY_ID_BYTES)
+}
+
+export function getSenderKeyEnvelopeKeyId(encryptedData: string) {
+  return unpackSenderKeyEnvelopeBlob(String(encryptedData ?? '')).keyId
+}
+
+export type MessageEnvelopeFormat = 'rsa' | 'ratchet' | 'sender_key'
+
+type EnvelopeSeal = {
+  senderId: string
+  chatId: string
+  signingKey: CryptoKey
+}
+
+type EnvelopeOpenParams = {
+  encryptedData: string
+  myUserId: string
+  myPrivateKey: CryptoKey
+  ratchet?: RatchetChatState | null
+  senderKey?: Uint8Array | null
+}
+
+type EnvelopeDecoder = {
+  format: MessageEnvelopeFormat
+  open: (params: EnvelopeOpenParams) => Promise<ArrayBuffer>
+}
+
+// Every envelope version this client can read. A new layout gets the next version byte and an
+// entry here; senders only switch to it once every recipient advertises it.
+const ENVELOPE_DECODERS: Record<number, EnvelopeDecoder> = {
+  [ENVELOPE_VERSION_RSA_LEGACY]: { format: 'rsa', open: openRsaEnvelope },
+  [ENVELOPE_VERSION_RATCHET]: { format: 'ratchet', open: openRatchetEnvelope },
+  [ENVELOPE_VERSION_SENDER_KEY]: { format: 'sender_key', open: openSenderKeyEnvelope },
+  [ENVELOPE_VERSION_RSA]: { format: 'rsa', open: openRsaEnvelope },
+}
+
+export const SUPPORTED_ENVELOPE_VERSIONS: readonly number[] = Object.keys(ENVELOPE_DECODERS)
+  .map(Number)
+  .sort((a, b) => a - b)
+
+// Peers that never advertised anything run a client from before versioning.
+export const PRE_VERSIONING_ENVELOPE_VERSIONS: readonly number[] = [ENVELOPE_VERSION_RSA_LEGACY]
+
+// Newest of `candidates` that this client and every one of `peers` can read, or null.
+export function pickEnvelopeVersion(candidates: readonly number[], peers: ReadonlyArray<readonly number[]>) {
+  for (const v of [...candidates].sort((a, b) => b - a)) {
+    if (!SUPPORTED_ENVELOPE_VERSIONS.includes(v)) continue
+    if (peers.every((p) => p.includes(v))) return v
   }
+  return null
+}
 
-  const pt = JSON.stringify(compactPayload)
-  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, encUtf8(pt))
+function envelopeDecoderFor(encryptedData: string) {
+  let all: Uint8Array
+  try {
+    all = unb64Url(String(encryptedData ?? ''))
+  } catch {
+    throw new Error('Unsupported message format')
+  }
+  const decoder = ENVELOPE_DECODERS[readEnvelopeVersion(all)]
+  if (!decoder) throw new Error('Unsupported message format')
+  return decoder
+}
+
+export function getMessageEnvelopeFormat(encryptedData: string): MessageEnvelopeFormat {
+  return envelopeDecoderFor(encryptedData).format
+}
+
+export async function encryptMessageEnvelope(params: {
+  plaintext: EnvelopePlaintext
+  recipients: Array<{ userId: string; publicKeyJwk: string }>
+  objectPadMinChars: number
+  objectPadMaxChars: number
+  // Defaults to the legacy layout, which every client reads.
+  version?: typeof ENVELOPE_VERSION_RSA_LEGACY | typeof ENVELOPE_VERSION_RSA
+  // Sealed sender: sign inside the payload instead of alongside the envelope.
+  seal?: EnvelopeSeal
+  padBuckets?: readonly number[] | null
+}) {
+  const version = params.version ?? ENVELOPE_VERSION_RSA_LEGACY
+  const aesKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+
+  // Readers of the legacy layout predate bucketed padding and reject a `p` longer than the
+  // random range; only v3 goes out with buckets, since choosing it means every recipient reads it.
+  const seal = params.seal
+  let pt = await encodeCompactPayload(params.plaintext, params.objectPadMinChars, params.objectPadMaxChars, {
+    buckets: version === ENVELOPE_VERSION_RSA ? params.padBuckets : null,
+    finalBytes: seal ? (inner) => sealedPayloadBytes(inner, seal) : undefined,
+  })
+  if (seal) pt = await sealCompactPayload(pt, seal)
+  const ct = await crypto.subtle.encrypt(
+    version === ENVELOPE_VERSION_RSA
+      ? { name: 'AES-GCM', iv, additionalData: envelopeHeaderBytes(version, iv) as unknown as BufferSource }
+      : { name: 'AES-GCM', iv },
+    aesKey,
+    pt,
+  )
 
   const rawKey = await crypto.subtle.exportKey('raw', aesKey)
 
@@ -599,16 +1189,147 @@ export async function encryptMessageEnvelope(params: {
     })
   }
 
-  return packMessageEnvelopeBlob({ iv, ct: new Uint8Array(ct), keyEntries })
+  return packMessageEnvelopeBlob({ version, iv, ct: new Uint8Array(ct), keyEntries })
 }
 
-export async function decryptMessageEnvelope(params: {
-  encryptedData: string
-  myUserId: string
-  myPrivateKey: CryptoKey
+// Encrypts for the single peer of a personal chat using its ratchet state.
+// `chat` is advanced in place; callers persist it afterwards.
+export async function encryptRatchetMessageEnvelope(params: {
+  plaintext: EnvelopePlaintext
+  chat: RatchetChatState
+  peerPublicKeyJwk: string
+  objectPadMinChars: number
+  objectPadMaxChars: number
+  padBuckets?: readonly number[] | null
+}) {
+  let session = params.chat.active ? params.chat.sessions[params.chat.active] ?? null : null
+  if (!session) {
+    const started = await startRatchetSession()
+    const pub = await importRsaPublicKeyJwk(params.peerPublicKeyJwk)
+    const wrapped = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, pub, started.rootSecret as unknown as BufferSource)
+    started.session.init = encodeRatchetInit(new Uint8Array(wrapped))
+    session = started.session
+    params.chat.active = session.id
+  }
+
+  const next = cloneRatchetSession(session)
+  const { header, messageKey } = await ratchetSendKey(next)
+  const iv = crypto.getRandomValues(new Uint8Array(ENVELOPE_IV_BYTES))
+  const headerBytes = packRatchetEnvelopeHeader({ iv, header, wrappedRoot: next.init ? decodeRatchetInit(next.init) : null })
+
+  const aesKey = await crypto.subtle.importKey('raw', messageKey as unknown as BufferSource, { name: 'AES-GCM' }, false, ['encrypt'])
+  const pt = await encodeCompactPayload(params.plaintext, params.objectPadMinChars, params.objectPadMaxChars, {
+    buckets: params.padBuckets,
+  })
+  const ct = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: headerBytes as unknown as BufferSource }, aesKey, pt),
+  )
+
+  putRatchetSession(params.chat, next)
+
+  const out = new Uint8Array(headerBytes.byteLength + ct.byteLength)
+  out.set(headerBytes, 0)
+  out.set(ct, headerBytes.byteLength)
+  return b64Url(out)
+}
+
+// Group messages carry only the key id; every member already holds the sender's key.
+export async function encryptSenderKeyMessageEnvelope(params: {
+  plaintext: EnvelopePlaintext
+  keyId: string
+  senderKey: Uint8Array
   objectPadMinChars: number
   objectPadMaxChars: number
+  padBuckets?: readonly number[] | null
 }) {
+  const keyIdBytes = unb64Url(params.keyId)
+  if (keyIdBytes.byteLength !== SENDER_KEY_ID_BYTES) throw new Error('Invalid sender key')
+
+  const iv = crypto.getRandomValues(new Uint8Array(ENVELOPE_IV_BYTES))
+  const headerBytes = new Uint8Array(SENDER_KEY_ENVELOPE_HEADER_BYTES)
+  headerBytes.set(envelopeHeaderBytes(ENVELOPE_VERSION_SENDER_KEY, iv), 0)
+  headerBytes.set(keyIdBytes, ENVELOPE_VERSION_HEADER_BYTES)
+
+  const aesKey = await deriveSenderKeyMessageKey(params.senderKey, iv, 'encrypt')
+  const pt = await encodeCompactPayload(params.plaintext, params.objectPadMinChars, params.objectPadMaxChars, {
+    buckets: params.padBuckets,
+  })
+  const ct = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: headerBytes as unknown as BufferSource }, aesKey, pt),
+  )
+
+  const out = new Uint8Array(headerBytes.byteLength + ct.byteLength)
+  out.set(headerBytes, 0)
+  out.set(ct, headerBytes.byteLength)
+  return b64Url(out)
+}
+
+async function decryptRatchetPayload(params: {
+  encryptedData: string
+  myPrivateKey: CryptoKey
+  chat: RatchetChatState
+}) {
+  const obj = unpackRatchetEnvelopeBlob(params.encryptedData)
+  const chat = params.chat
+  const sid = ratchetSessionIdToString(obj.header.sessionId)
+
+  const existing = chat.sessions[sid] ?? null
+  let next: RatchetSessionState
+  if (existing) {
+    next = cloneRatchetSession(existing)
+  } else {
+    if (!obj.wrappedRoot) throw new Error('No ratchet session')
+    const rootSecret = await crypto.subtle.decrypt(
+      { name: 'RSA-OAEP' },
+      params.myPrivateKey,
+      obj.wrappedRoot as unknown as BufferSource,
+    )
+    next = await acceptRatchetSession(new Uint8Array(rootSecret), obj.header)
+  }
+
+  const messageKey = await ratchetReceiveKey(next, obj.header)
+  const aesKey = await crypto.subtle.importKey('raw', messageKey as unknown as BufferSource, { name: 'AES-GCM' }, false, ['decrypt'])
+  const pt = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: obj.iv, additionalData: obj.aad as unknown as BufferSource },
+    aesKey,
+    obj.ct,
+  )
+
+  // The peer has answered on this session, so the wrapped root no longer needs to travel.
+  next.init = null
+  putRatchetSession(chat, next)
+
+  if (!existing) {
+    // A fresh session from the peer replaces ours, unless both sides started one at the same
+    // time; then the lower session id wins on both ends.
+    const active = chat.active ? chat.sessions[chat.active] ?? null : null
+    if (!active || !active.init || sid < active.id) chat.active = sid
+  }
+
+  return pt
+}
+
+async function openSenderKeyEnvelope(params: EnvelopeOpenParams) {
+  if (!params.senderKey) throw new Error('No sender key')
+  const obj = unpackSenderKeyEnvelopeBlob(params.encryptedData)
+  const aesKey = await deriveSenderKeyMessageKey(params.senderKey, obj.iv, 'decrypt')
+  return await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: obj.iv, additionalData: obj.aad as unknown as BufferSource },
+    aesKey,
+    obj.ct,
+  )
+}
+
+async function openRatchetEnvelope(params: EnvelopeOpenParams) {
+  if (!params.ratchet) throw new Error('Unsupported message format')
+  return await decryptRatchetPayload({
+    encryptedData: params.encryptedData,
+    myPrivateKey: params.myPrivateKey,
+    chat: params.ratchet,
+  })
+}
+
+async function openRsaEnvelope(params: EnvelopeOpenParams) {
   const myUserIdBytes = parseUuidToBytes(String(params.myUserId))
   const obj = unpackMessageEnvelopeBlob(params.encryptedData)
 
@@ -628,31 +1349,30 @@ export async function decryptMessageEnvelope(params: {
   )
   const aesKey = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['decrypt'])
 
-  const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: obj.iv }, aesKey, obj.ct)
-
-  const parsed = JSON.parse(decUtf8(pt)) as Partial<CompactEnvelopePayload> | null
-  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Unsupported message format')
-
-  const encodedText = typeof parsed.t === 'string' ? parsed.t : null
-  const compressionMode = parsed.z === 0 || parsed.z === 1 ? parsed.z : null
-  const atIso = typeof parsed.ct === 'string' && parsed.ct ? parsed.ct : null
-  if (encodedText === null || compressionMode === null || atIso === null) throw new Error('Unsupported message format')
-
-  if (!(parsed.a === null || typeof parsed.a === 'string' || typeof parsed.a === 'undefined')) {
-    throw new Error('Unsupported message format')
-  }
-
-  const modifiedAtIso =
-    typeof parsed.mt === 'undefined' ? null : typeof parsed.mt === 'string' && parsed.mt ? parsed.mt : null
-  if (typeof parsed.mt !== 'undefined' && modifiedAtIso === null) throw new Error('Unsupported message format')
-
-  assertEnvelopeObjectPadding(parsed.p, params.objectPadMinChars, params.objectPadMaxChars)
-  const text = await decodeEnvelopeMessageText(encodedText, compressionMode)
+  return await crypto.subtle.decrypt(
+    obj.aad ? { name: 'AES-GCM', iv: obj.iv, additionalData: obj.aad as unknown as BufferSource } : { name: 'AES-GCM', iv: obj.iv },
+    aesKey,
+    obj.ct,
+  )
+}
 
-  return {
-    text,
-    atIso,
-    replyToId: typeof parsed.a === 'string' ? parsed.a : null,
-    modifiedAtIso,
-  }
+export async function decryptMessageEnvelope(params: {
+  encryptedData: string
+  myUserId: string
+  myPrivateKey: CryptoKey
+  objectPadMinChars: number
+  objectPadMaxChars: number
+  // Required for ratchet envelopes; advanced in place on success.
+  ratchet?: RatchetChatState | null
+  // Required for sender-key envelopes: the key named by the envelope's key id.
+  senderKey?: Uint8Array | null
+}) {
+  const decoder = envelopeDecoderFor(params.encryptedData)
+  const pt = await decoder.open(params)
+  const sealed = readSealedPayload(pt)
+  // Ratchet and sender-key envelopes already name their sender, so only RSA ones are sealed.
+  if (sealed && decoder.format !== 'rsa') throw new Error('Unsupported message format')
+  const plain = await decodeCompactPayload(sealed ? encUtf8(sealed.payload) : pt, params.objectPadMinChars, params.objectPadMaxChars)
+  // The caller checks the inner signature; it needs the chat and the sender's key.
+  return { ...plain, sealed }
 }
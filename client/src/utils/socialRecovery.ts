@@ -0,0 +1,127 @@
+// Social recovery: a random recovery secret seals a key backup (see recoveryPhrase.ts) and is
+// split with Shamir sharing among contacts, each share travelling as a chat notice. To recover,
+// a new device publishes an ephemeral P-256 key; contacts who approve seal their share to it.
+// A short code derived from that key lets each contact check, out of band, that the request
+// they are answering is the one shown on their friend's screen and not one the server swapped in.
+
+import { combineShares, splitSecret } from './shamir'
+import { b64Url, unb64Url } from './base64'
+
+export const SOCIAL_RECOVERY_SECRET_BYTES = 32
+export const SOCIAL_RECOVERY_MIN_THRESHOLD = 2
+export const SOCIAL_RECOVERY_MAX_SHARES = 10
+
+const SHARE_VERSION = 1
+const SET_ID_BYTES = 8
+const REQUEST_IV_BYTES = 12
+const REQUEST_HKDF_INFO = 'lrcom social recovery v1'
+const BASE64URL_RE = /^[A-Za-z0-9_-]+$/
+
+// What a contact holds. `i` ties shares of one split together, so shares from an older split
+// are never mixed with newer ones.
+export type RecoveryShare = {
+  v: 1
+  i: string
+  k: number
+  n: number
+  x: number
+  y: string
+}
+
+export type RecoveryRequestKeyPair = {
+  privateKey: CryptoKey
+  pub: string
+}
+
+export function newSocialRecoverySecret() {
+  return crypto.getRandomValues(new Uint8Array(SOCIAL_RECOVERY_SECRET_BYTES))
+}
+
+export function splitSocialRecoverySecret(secret: Uint8Array, shares: number, threshold: number): RecoveryShare[] {
+  if (shares > SOCIAL_RECOVERY_MAX_SHARES || threshold < SOCIAL_RECOVERY_MIN_THRESHOLD) throw new Error('Bad share parameters')
+  const i = b64Url(crypto.getRandomValues(new Uint8Array(SET_ID_BYTES)))
+  return splitSecret(secret, shares, threshold).map((s) => ({ v: SHARE_VERSION, i, k: threshold, n: shares, x: s.x, y: b64Url(s.y) }))
+}
+
+export function parseRecoveryShare(raw: string): RecoveryShare | null {
+  try {
+    const obj = JSON.parse(String(raw ?? '')) as Partial<RecoveryShare> | null
+    if (!obj || typeof obj !== 'object' || obj.v !== SHARE_VERSION) return null
+    const { i, k, n, x, y } = obj
+    if (typeof i !== 'string' || !BASE64URL_RE.test(i) || typeof y !== 'string' || !BASE64URL_RE.test(y)) return null
+    if (!Number.isInteger(k) || !Number.isInteger(n) || !Number.isInteger(x)) return null
+    if (k! < SOCIAL_RECOVERY_MIN_THRESHOLD || n! < k! || n! > SOCIAL_RECOVERY_MAX_SHARES || x! < 1 || x! > n!) return null
+    if (unb64Url(y).byteLength !== SOCIAL_RECOVERY_SECRET_BYTES) return null
+    return { v: SHARE_VERSION, i, k: k!, n: n!, x: x!, y }
+  } catch {
+    return null
+  }
+}
+
+// Rebuilds the secret once `k` shares of one split are present; null until then.
+export function combineRecoveryShares(shares: RecoveryShare[]): Uint8Array | null {
+  const bySet = new Map<string, Map<number, RecoveryShare>>()
+  for (const s of shares) {
+    const set = bySet.get(s.i) ?? new Map<number, RecoveryShare>()
+    set.set(s.x, s)
+    bySet.set(s.i, set)
+  }
+  for (const set of bySet.values()) {
+    const list = [...set.values()]
+    const k = list[0]!.k
+    if (list.length < k || list.some((s) => s.k !== k)) continue
+    return combineShares(list.slice(0, k).map((s) => ({ x: s.x, y: unb64Url(s.y) })))
+  }
+  return null
+}
+
+export async function generateRecoveryRequestKeyPair(): Promise<RecoveryRequestKeyPair> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits'])
+  const raw = await crypto.subtle.exportKey('raw', pair.publicKey)
+  return { privateKey: pair.privateKey, pub: b64Url(raw) }
+}
+
+// Twelve digits in three groups, read aloud between the two people.
+export async function recoveryRequestCode(pub: string) {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', unb64Url(pub)))
+  const view = new DataView(digest.buffer)
+  const groups: string[] = []
+  for (let g = 0; g < 3; g++) groups.push(String(view.getUint32(g * 4) % 10_000).padStart(4, '0'))
+  return groups.join(' ')
+}
+
+async function deriveRequestKey(privateKey: CryptoKey, peerPub: string, requestId: string) {
+  const peer = await crypto.subtle.importKey('raw', unb64Url(peerPub), { name: 'ECDH', namedCurve: 'P-256' }, false, [])
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: peer }, privateKey, 256)
+  const ikm = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(requestId), info: new TextEncoder().encode(REQUEST_HKDF_INFO) },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+// Contact side: seals a share to the requesting device with a fresh key pair of our own.
+export async function sealShareForRequest(params: { requestId: string; requestPub: string; share: RecoveryShare }) {
+  const mine = await generateRecoveryRequestKeyPair()
+  const key = await deriveRequestKey(mine.privateKey, params.requestPub, params.requestId)
+  const iv = crypto.getRandomValues(new Uint8Array(REQUEST_IV_BYTES))
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(params.share)))
+  return { pub: mine.pub, data: `${b64Url(iv)}.${b64Url(ct)}` }
+}
+
+export async function openShareFromContact(params: { requestId: string; privateKey: CryptoKey; pub: string; data: string }) {
+  const [ivText, ctText, ...rest] = String(params.data ?? '').split('.')
+  if (rest.length || !ivText || !ctText || !BASE64URL_RE.test(ivText) || !BASE64URL_RE.test(ctText)) return null
+  try {
+    const iv = unb64Url(ivText)
+    if (iv.byteLength !== REQUEST_IV_BYTES) return null
+    const key = await deriveRequestKey(params.privateKey, params.pub, params.requestId)
+    const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, unb64Url(ctText))
+    return parseRecoveryShare(new TextDecoder().decode(pt))
+  } catch {
+    return null
+  }
+}
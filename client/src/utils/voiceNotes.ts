@@ -0,0 +1,115 @@
+// Hold-to-record voice notes. Recording happens on a dedicated mic stream (see call store
+// openMic); the result is a regular attachment plus duration/waveform metadata.
+
+import { MAX_VOICE_NOTE_MS, VOICE_WAVEFORM_BARS, type VoiceNoteMeta } from './attachments'
+
+// Shorter presses are treated as accidental taps and discarded.
+export const MIN_VOICE_NOTE_MS = 500
+
+const VOICE_MIME_CANDIDATES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm']
+const VOICE_BITS_PER_SECOND = 32_000
+
+export type VoiceRecording = {
+  // Resolves with the recorded audio, or null when the recording was too short.
+  stop: () => Promise<{ blob: Blob; durationMs: number } | null>
+  cancel: () => void
+  elapsedMs: () => number
+}
+
+export function canRecordVoiceNotes() {
+  return typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia)
+}
+
+function pickVoiceMime() {
+  for (const m of VOICE_MIME_CANDIDATES) {
+    if (MediaRecorder.isTypeSupported(m)) return m
+  }
+  return ''
+}
+
+// Takes ownership of `stream`: its tracks are stopped when the recording ends either way.
+export function startVoiceRecording(stream: MediaStream, onLimit?: () => void): VoiceRecording {
+  const mimeType = pickVoiceMime()
+  const recorder = new MediaRecorder(stream, {
+    ...(mimeType ? { mimeType } : {}),
+    audioBitsPerSecond: VOICE_BITS_PER_SECOND,
+  })
+  const parts: Blob[] = []
+  const startedAt = performance.now()
+  let stoppedAt: number | null = null
+  let cancelled = false
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) parts.push(e.data)
+  }
+
+  const done = new Promise<void>((resolve) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach((t) => t.stop())
+      resolve()
+    }
+  })
+
+  const limitTimer = window.setTimeout(() => onLimit?.(), MAX_VOICE_NOTE_MS)
+
+  function finish() {
+    window.clearTimeout(limitTimer)
+    if (stoppedAt === null) stoppedAt = performance.now()
+    if (recorder.state !== 'inactive') recorder.stop()
+  }
+
+  recorder.start()
+
+  return {
+    async stop() {
+      finish()
+      await done
+      const durationMs = Math.min(MAX_VOICE_NOTE_MS, Math.round((stoppedAt ?? startedAt) - startedAt))
+      if (cancelled || durationMs < MIN_VOICE_NOTE_MS || !parts.length) return null
+      return { blob: new Blob(parts, { type: recorder.mimeType || mimeType || 'audio/webm' }), durationMs }
+    },
+    cancel() {
+      cancelled = true
+      finish()
+    },
+    elapsedMs() {
+      return Math.round((stoppedAt ?? performance.now()) - startedAt)
+    },
+  }
+}
+
+// Decodes the recording once to get the real duration and a peak-per-bar waveform.
+// Falls back to the wall-clock duration and a flat waveform if the browser cannot decode it.
+export async function summarizeVoiceNote(blob: Blob, fallbackMs: number): Promise<VoiceNoteMeta> {
+  const flat = { durationMs: fallbackMs, waveform: new Array<number>(VOICE_WAVEFORM_BARS).fill(0) }
+  if (typeof AudioContext === 'undefined') return flat
+
+  const ctx = new AudioContext()
+  try {
+    const audio = await ctx.decodeAudioData(await blob.arrayBuffer())
+    const samples = audio.getChannelData(0)
+    const per = Math.max(1, Math.floor(samples.length / VOICE_WAVEFORM_BARS))
+    const peaks: number[] = []
+    for (let b = 0; b < VOICE_WAVEFORM_BARS; b++) {
+      let peak = 0
+      const end = Math.min(samples.length, (b + 1) * per)
+      for (let i = b * per; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]!))
+      peaks.push(peak)
+    }
+    const max = Math.max(...peaks) || 1
+    const durationMs = Number.isFinite(audio.duration) ? Math.round(audio.duration * 1000) : fallbackMs
+    return {
+      durationMs: Math.min(MAX_VOICE_NOTE_MS, durationMs),
+      waveform: peaks.map((p) => Math.round((p / max) * 255)),
+    }
+  } catch {
+    return flat
+  } finally {
+    void ctx.close()
+  }
+}
+
+export function formatVoiceDuration(ms: number) {
+  const total = Math.max(0, Math.round(ms / 1000))
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto'
 import { query } from './db.js'
 
 const RSA_PUBLIC_EXPONENT_B64U = 'AQAB'
@@ -36,6 +37,36 @@ export function publicKeyStringToRsaEncryptJwk(publicKeyString) {
   return { kty: 'RSA', n, e: RSA_PUBLIC_EXPONENT_B64U }
 }
 
+/**
+ * Check the RSA-PSS signature a user made with their previous key over the key that
+ * replaces it. Mirrors signKeyRotation in the client's signedCrypto.ts.
+ */
+export function verifyKeyRotationSignature({ userId, oldPublicKey, newPublicKey, signature }) {
+  const jwk = publicKeyStringToRsaEncryptJwk(oldPublicKey)
+  const next = extractRsaPublicModulus(newPublicKey)
+  if (!jwk || !next || typeof signature !== 'string' || !signature) return false
+
+  const payload = JSON.stringify({
+    v: 1,
+    kind: 'key_rotation',
+    userId: String(userId),
+    oldPublicKey: jwk.n,
+    newPublicKey: next,
+  })
+
+  try {
+    const key = crypto.createPublicKey({ key: jwk, format: 'jwk' })
+    return crypto.verify(
+      'sha256',
+      Buffer.from(payload, 'utf8'),
+      { key, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+      Buffer.from(signature, 'base64'),
+    )
+  } catch {
+    return false
+  }
+}
+
 /**
  * Register a new user
  */
@@ -83,7 +114,7 @@ export async function registerUser({ nameToken, publicKey, removeDate, vault })
   const result = await query(
     `INSERT INTO users (name_token, public_key, remove_date, vault)
      VALUES ($1, $2, $3, $4)
-     RETURNING id, name_token, public_key, remove_date, hidden_mode, introvert_mode, vault`,
+     RETURNING id, name_token, public_key, remove_date, hidden_mode, introvert_mode, read_receipts, vault`,
     [token, normalizedPublicKey, removeDate, vault]
   )
 
@@ -100,7 +131,7 @@ export async function findUserByNameTokenAndPublicKey({ nameToken, publicKey })
   if (!normalizedPublicKey) return null
 
   const userResult = await query(
-    'SELECT id, name_token, public_key, remove_date, hidden_mode, introvert_mode, vault FROM users WHERE name_token = $1 AND public_key = $2',
+    'SELECT id, name_token, public_key, remove_date, hidden_mode, introvert_mode, read_receipts, vault FROM users WHERE name_token = $1 AND public_key = $2',
     [nameToken, normalizedPublicKey],
   )
 
@@ -1,6 +1,6 @@
 import { query, transaction } from './db.js'
 import { v7 as uuidv7 } from 'uuid'
-import { normalizePublicKeyJwkString } from './auth.js'
+import { normalizePublicKeyJwkString, verifyKeyRotationSignature } from './auth.js'
 
 const AES_GCM_TAG_BYTES = 16
 const ENVELOPE_IV_BYTES = 12
@@ -10,6 +10,60 @@ const ENVELOPE_WRAPPED_KEY_BYTES = 512
 const ENVELOPE_ENTRY_BYTES = ENVELOPE_RECIPIENT_ID_BYTES + ENVELOPE_WRAPPED_KEY_BYTES
 const ENVELOPE_MIN_CT_BYTES = AES_GCM_TAG_BYTES
 
+// Envelope versions. Version 0 (IV | recipient count | entries | ct) has no header; every later
+// layout starts with IV | 0x0000 | version byte, which version-0 parsers reject.
+const ENVELOPE_VERSION_RSA_LEGACY = 0x00
+const ENVELOPE_VERSION_RATCHET = 0x01
+const ENVELOPE_VERSION_SENDER_KEY = 0x02
+const ENVELOPE_VERSION_RSA = 0x03
+const ENVELOPE_VERSION_HEADER_BYTES = ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES + 1
+
+// Versions the server accepts for message bodies; advertised through /api/config.
+export const SUPPORTED_ENVELOPE_VERSIONS = [
+  ENVELOPE_VERSION_RSA_LEGACY,
+  ENVELOPE_VERSION_RATCHET,
+  ENVELOPE_VERSION_SENDER_KEY,
+  ENVELOPE_VERSION_RSA,
+]
+// What clients from before versioning read; the default for users who never advertised.
+const PRE_VERSIONING_ENVELOPE_VERSIONS = [ENVELOPE_VERSION_RSA_LEGACY]
+const MAX_ADVERTISED_ENVELOPE_VERSIONS = 32
+
+// Ratchet envelopes (personal chats only): version header, then the ratchet header and an
+// optional RSA-wrapped root secret.
+const RATCHET_SESSION_ID_BYTES = 16
+const RATCHET_PUBLIC_KEY_BYTES = 32
+const RATCHET_ENVELOPE_FIXED_HEADER_BYTES =
+  ENVELOPE_VERSION_HEADER_BYTES + RATCHET_SESSION_ID_BYTES + RATCHET_PUBLIC_KEY_BYTES + 4 + 4 + 1
+
+// Sender-key envelopes (group chats only) carry just the id of the sender's current group key.
+const SENDER_KEY_ID_BYTES = 16
+const SENDER_KEY_ENVELOPE_HEADER_BYTES = ENVELOPE_VERSION_HEADER_BYTES + SENDER_KEY_ID_BYTES
+const MAX_SENDER_KEY_RECIPIENTS = 1000
+
+// Attachment ciphertext: a 20 MiB file plus one AES-GCM tag per 64 KiB chunk, with headroom.
+export const MAX_BLOB_BYTES = 21 * 1024 * 1024
+const MAX_BLOBS_PER_MESSAGE = 4
+const MAX_PENDING_BLOBS_PER_USER = 16
+// A blob may wait in a client's outbox for up to OUTBOX_ATTACHMENT_MAX_AGE_MS (client/src/stores/auth.ts)
+// before its message is sent; unclaimed ones are kept a day past that.
+const ORPHAN_BLOB_TTL_MS = 8 * 24 * 60 * 60 * 1000
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+// Disappearing messages: the timer itself lives in the envelope; the server only keeps the
+// expiry instant, rounded up to the minute so it does not pin down the exact send time.
+const MAX_MESSAGE_TTL_MS = 28 * 24 * 60 * 60 * 1000
+const MESSAGE_EXPIRY_SLACK_MS = 10 * 60 * 1000
+const MESSAGE_EXPIRY_GRANULARITY_MS = 60 * 1000
+
+// Receipts reported per request; clients batch what they have seen.
+const MAX_RECEIPT_IDS = 500
+
+// Key backups: a 256-bit lookup id (base64url) and one sealed key entry per user and kind.
+const KEY_BACKUP_LOOKUP_ID_RE = /^[A-Za-z0-9_-]{43}$/
+const KEY_BACKUP_KINDS = { phrase: 0, social: 1 }
+const MAX_KEY_BACKUP_CHARS = 64_000
+
 function b64UrlDecode(str) {
   const raw = String(str ?? '').replace(/-/g, '+').replace(/_/g, '/')
   const padLen = (4 - (raw.length % 4)) % 4
@@ -30,14 +84,24 @@ function parseUuidToBytes(uuid) {
   return out
 }
 
+function readEnvelopeVersion(all) {
+  if (all.byteLength <= ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES) throw new Error('Unsupported message format')
+  if (all.readUInt16BE(ENVELOPE_IV_BYTES) > 0) return ENVELOPE_VERSION_RSA_LEGACY
+  return all[ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES]
+}
+
+// Multi-recipient envelopes: version 0, or version 3 with the same table behind the version header.
 function parseEnvelopeBlob(encryptedData) {
   const all = b64UrlDecode(encryptedData)
-  const min = ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES + ENVELOPE_MIN_CT_BYTES
+  const version = readEnvelopeVersion(all)
+  if (version !== ENVELOPE_VERSION_RSA_LEGACY && version !== ENVELOPE_VERSION_RSA) throw new Error('Unsupported message format')
+
+  const headerLen = version === ENVELOPE_VERSION_RSA ? ENVELOPE_VERSION_HEADER_BYTES : ENVELOPE_IV_BYTES
+  const min = headerLen + ENVELOPE_RECIPIENT_COUNT_BYTES + ENVELOPE_MIN_CT_BYTES
   if (all.byteLength < min) throw new Error('Unsupported message format')
 
-  let off = 0
-  const iv = all.subarray(off, off + ENVELOPE_IV_BYTES)
-  off += ENVELOPE_IV_BYTES
+  const iv = all.subarray(0, ENVELOPE_IV_BYTES)
+  let off = headerLen
 
   const recipientCount = (all[off] << 8) | all[off + 1]
   off += ENVELOPE_RECIPIENT_COUNT_BYTES
@@ -58,10 +122,60 @@ function parseEnvelopeBlob(encryptedData) {
   const ct = all.subarray(off)
   if (ct.byteLength < ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
 
-  return { iv, keyEntries, ct }
+  return { version, iv, keyEntries, ct }
+}
+
+function parseRatchetEnvelopeBlob(encryptedData) {
+  const all = b64UrlDecode(encryptedData)
+  if (all.byteLength < RATCHET_ENVELOPE_FIXED_HEADER_BYTES + ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
+
+  if (readEnvelopeVersion(all) !== ENVELOPE_VERSION_RATCHET) throw new Error('Unsupported message format')
+
+  let off = RATCHET_ENVELOPE_FIXED_HEADER_BYTES - 1
+  const flags = all[off]
+  off += 1
+  if (flags !== 0 && flags !== 1) throw new Error('Unsupported message format')
+  if (flags === 1) off += ENVELOPE_WRAPPED_KEY_BYTES
+
+  if (off + ENVELOPE_MIN_CT_BYTES > all.byteLength) throw new Error('Unsupported message format')
+  return { hasInit: flags === 1 }
+}
+
+function isRatchetEnvelope(encryptedData) {
+  try {
+    parseRatchetEnvelopeBlob(encryptedData)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function parseSenderKeyEnvelopeBlob(encryptedData) {
+  const all = b64UrlDecode(encryptedData)
+  if (all.byteLength < SENDER_KEY_ENVELOPE_HEADER_BYTES + ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
+
+  if (readEnvelopeVersion(all) !== ENVELOPE_VERSION_SENDER_KEY) throw new Error('Unsupported message format')
+
+  const off = ENVELOPE_VERSION_HEADER_BYTES
+  return { keyId: b64UrlEncode(all.subarray(off, off + SENDER_KEY_ID_BYTES)) }
+}
+
+function trySenderKeyEnvelopeKeyId(encryptedData) {
+  try {
+    return parseSenderKeyEnvelopeBlob(encryptedData).keyId
+  } catch {
+    return ''
+  }
+}
+
+function normalizeSenderKeyId(value) {
+  const raw = typeof value === 'string' ? value.trim() : ''
+  if (!/^[A-Za-z0-9_-]+$/.test(raw)) return ''
+  return b64UrlDecode(raw).byteLength === SENDER_KEY_ID_BYTES ? raw : ''
 }
 
 function packEnvelopeBlob(parts) {
+  const version = parts?.version === ENVELOPE_VERSION_RSA ? ENVELOPE_VERSION_RSA : ENVELOPE_VERSION_RSA_LEGACY
   const iv = Buffer.from(parts?.iv ?? [])
   const ct = Buffer.from(parts?.ct ?? [])
   const keyEntries = Array.isArray(parts?.keyEntries) ? parts.keyEntries : []
@@ -69,10 +183,11 @@ function packEnvelopeBlob(parts) {
   if (ct.byteLength < ENVELOPE_MIN_CT_BYTES) throw new Error('Unsupported message format')
   if (keyEntries.length <= 0 || keyEntries.length > 0xffff) throw new Error('Unsupported message format')
 
-  const out = Buffer.alloc(ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES + keyEntries.length * ENVELOPE_ENTRY_BYTES + ct.byteLength)
-  let off = 0
-  iv.copy(out, off)
-  off += ENVELOPE_IV_BYTES
+  const headerLen = version === ENVELOPE_VERSION_RSA ? ENVELOPE_VERSION_HEADER_BYTES : ENVELOPE_IV_BYTES
+  const out = Buffer.alloc(headerLen + ENVELOPE_RECIPIENT_COUNT_BYTES + keyEntries.length * ENVELOPE_ENTRY_BYTES + ct.byteLength)
+  iv.copy(out, 0)
+  if (version === ENVELOPE_VERSION_RSA) out[ENVELOPE_IV_BYTES + ENVELOPE_RECIPIENT_COUNT_BYTES] = version
+  let off = headerLen
   out[off] = (keyEntries.length >> 8) & 0xff
   out[off + 1] = keyEntries.length & 0xff
   off += ENVELOPE_RECIPIENT_COUNT_BYTES
@@ -117,6 +232,68 @@ function wireEnvelopeToDbBlob(encryptedData) {
   }
 }
 
+// Message bodies may also use the ratchet or sender-key formats; chat metadata stays on the multi-recipient format.
+function wireMessageEnvelopeToDbBlob(encryptedData) {
+  const wire = String(encryptedData ?? '')
+  if (wire && (isRatchetEnvelope(wire) || trySenderKeyEnvelopeKeyId(wire))) return b64UrlDecode(wire)
+  return wireEnvelopeToDbBlob(wire)
+}
+
+// Ratchet envelopes belong to personal chats; sender-key envelopes to group chats, and only
+// under the sender's key for the current epoch so that removed members cannot read new messages.
+async function assertEnvelopeAllowedInChat(chatId, senderId, encryptedData) {
+  const ratchet = isRatchetEnvelope(encryptedData)
+  const keyId = ratchet ? '' : trySenderKeyEnvelopeKeyId(encryptedData)
+  if (!ratchet && !keyId) return
+
+  const r = await query(`SELECT chat_type, sender_key_epoch FROM chats WHERE id = $1 LIMIT 1`, [chatId])
+  const chatType = String(r.rows?.[0]?.chat_type ?? '')
+  if (chatType !== (ratchet ? 'personal' : 'group')) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+  if (ratchet) return
+
+  const k = await query(
+    `SELECT epoch
+     FROM chat_sender_keys
+     WHERE chat_id = $1 AND key_id = $2 AND sender_id = $3
+     LIMIT 1`,
+    [chatId, keyId, senderId],
+  )
+  if (!k.rows.length || Number(k.rows[0].epoch) !== Number(r.rows[0].sender_key_epoch)) {
+    const err = new Error('stale_sender_key')
+    err.code = 'stale_sender_key'
+    throw err
+  }
+}
+
+// Membership changed: drop the member's keys and advance the epoch so remaining senders re-key.
+// Personal chats have no sender keys, but their epoch still moves: delivery tokens depend on it.
+async function retireSenderKeysForMember(client, chatId, userId) {
+  await client.query(
+    `DELETE FROM chat_sender_keys
+     WHERE chat_id = $1 AND (sender_id = $2 OR recipient_id = $2)`,
+    [String(chatId), String(userId)],
+  )
+  await client.query(
+    `UPDATE chats
+     SET sender_key_epoch = sender_key_epoch + 1
+     WHERE id = $1`,
+    [String(chatId)],
+  )
+}
+
+async function bumpSenderKeyEpoch(client, chatId) {
+  await client.query(
+    `UPDATE chats
+     SET sender_key_epoch = sender_key_epoch + 1
+     WHERE id = $1 AND chat_type = 'group'`,
+    [String(chatId)],
+  )
+}
+
 function normalizeChatNamesPayload(names) {
   if (!names || typeof names !== 'object' || Array.isArray(names)) return []
 
@@ -144,6 +321,11 @@ function mapRowsToNamesObject(rows) {
   return out
 }
 
+function normalizeEnvelopeVersionsForApi(value) {
+  const list = Array.isArray(value) ? value.map(Number).filter((v) => Number.isInteger(v)) : []
+  return list.length ? list : PRE_VERSIONING_ENVELOPE_VERSIONS
+}
+
 function normalizePublicKeyForApi(value) {
   const normalized = normalizePublicKeyJwkString(String(value ?? ''))
   if (!normalized) {
@@ -209,7 +391,7 @@ function scrubRecipientFromEncryptedData(encryptedData, recipientUserId) {
     const target = parseUuidToBytes(uid)
     const nextKeyEntries = parsed.keyEntries.filter((k) => !Buffer.from(k.userIdBytes).equals(target))
     if (!nextKeyEntries.length || nextKeyEntries.length === parsed.keyEntries.length) return enc
-    return packEnvelopeBlob({ iv: parsed.iv, ct: parsed.ct, keyEntries: nextKeyEntries })
+    return packEnvelopeBlob({ version: parsed.version, iv: parsed.iv, ct: parsed.ct, keyEntries: nextKeyEntries })
   } catch {
     return enc
   }
@@ -240,6 +422,26 @@ async function scrubRecipientFromChatMessages(client, chatId, recipientUserId) {
       )
     }
   }
+
+  const reactions = await client.query(
+    `SELECT message_id, reactor_id, encrypted_data
+     FROM message_reactions
+     WHERE chat_id = $1`,
+    [cid],
+  )
+
+  for (const r of reactions.rows) {
+    const cur = dbBlobToWireEnvelope(r.encrypted_data)
+    const next = scrubRecipientFromEncryptedData(cur, uid)
+    if (next !== cur) {
+      await client.query(
+        `UPDATE message_reactions
+         SET encrypted_data = $1
+         WHERE message_id = $2 AND reactor_id = $3`,
+        [wireEnvelopeToDbBlob(next), String(r.message_id), String(r.reactor_id)],
+      )
+    }
+  }
 }
 
 async function scrubUserFromChatMetadata(client, chatId, userId) {
@@ -319,6 +521,7 @@ export async function authCleanupExpiredUsers(now = new Date()) {
       for (const row of chats.rows) {
         await scrubRecipientFromChatMessages(client, String(row.chat_id), uid)
         await scrubUserFromChatMetadata(client, String(row.chat_id), uid)
+        await retireSenderKeysForMember(client, String(row.chat_id), uid)
       }
     }
 
@@ -373,8 +576,10 @@ export async function authDeleteAccount(userId) {
     for (const row of chats.rows) {
       await scrubRecipientFromChatMessages(client, String(row.chat_id), String(userId))
       await scrubUserFromChatMetadata(client, String(row.chat_id), String(userId))
+      await retireSenderKeysForMember(client, String(row.chat_id), String(userId))
     }
 
+    // Messages go with the user through sender_id; sealed ones have none and remain, as on leave.
     const deletedUsers = await client.query(
       `DELETE FROM users
        WHERE id = $1
@@ -405,9 +610,199 @@ export async function authDeleteAccount(userId) {
   return result
 }
 
+// Replaces the user's keypair in place. The new key must be signed with the current one;
+// group epochs move so members wrap fresh sender keys to the new key.
+export async function authRotateUserKey(userId, { publicKey, signature, vault } = {}) {
+  if (!userId) throw new Error('userId required')
+
+  const nextKey = normalizePublicKeyJwkString(String(publicKey ?? ''))
+  if (!nextKey || typeof signature !== 'string' || !signature) return { ok: false, reason: 'bad_payload' }
+  if (typeof vault !== 'string' || vault.length > 100_000) return { ok: false, reason: 'bad_payload' }
+
+  return await transaction(async (client) => {
+    const cur = await client.query(
+      `SELECT public_key
+       FROM users
+       WHERE id = $1
+       FOR UPDATE`,
+      [String(userId)],
+    )
+    if (cur.rows.length === 0) return { ok: false, reason: 'not_found' }
+    const prevKey = String(cur.rows[0].public_key ?? '')
+    if (prevKey === nextKey) return { ok: false, reason: 'bad_payload' }
+    if (!verifyKeyRotationSignature({ userId, oldPublicKey: prevKey, newPublicKey: nextKey, signature })) {
+      return { ok: false, reason: 'bad_signature' }
+    }
+
+    await client.query(
+      `INSERT INTO user_key_rotations (user_id, old_public_key, new_public_key, signature, rotation_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [String(userId), prevKey, nextKey, signature, uuidv7()],
+    )
+    await client.query(
+      `UPDATE users
+       SET public_key = $2, vault = $3
+       WHERE id = $1`,
+      [String(userId), nextKey, vault],
+    )
+    // A recovery backup holds the old key, which can no longer log in.
+    await client.query(`DELETE FROM key_backups WHERE user_id = $1`, [String(userId)])
+
+    // Existing wraps stay: the user keeps the old private key to read history.
+    const chats = await client.query(
+      `SELECT chat_id
+       FROM chat_members
+       WHERE user_id = $1`,
+      [String(userId)],
+    )
+    for (const row of chats.rows) await bumpSenderKeyEpoch(client, String(row.chat_id))
+
+    const contacts = await client.query(
+      `SELECT DISTINCT other.user_id
+       FROM chat_members me
+       INNER JOIN chat_members other ON other.chat_id = me.chat_id AND other.user_id <> $1
+       WHERE me.user_id = $1`,
+      [String(userId)],
+    )
+
+    return {
+      ok: true,
+      previousPublicKey: prevKey,
+      publicKey: nextKey,
+      contactIds: contacts.rows.map((r) => String(r.user_id)),
+    }
+  })
+}
+
+// Oldest first. Visible to the user and to anyone sharing a chat with them.
+export async function authListKeyRotations(viewerId, subjectUserId) {
+  const subject = String(subjectUserId || '').trim().toLowerCase()
+  try {
+    parseUuidToBytes(subject)
+  } catch {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+
+  if (String(viewerId) !== subject) {
+    const shared = await query(
+      `SELECT 1
+       FROM chat_members cm1
+       INNER JOIN chat_members cm2 ON cm2.chat_id = cm1.chat_id AND cm2.user_id = $2
+       WHERE cm1.user_id = $1
+       LIMIT 1`,
+      [String(viewerId), subject],
+    )
+    if (shared.rows.length === 0) {
+      const err = new Error('forbidden')
+      err.code = 'forbidden'
+      throw err
+    }
+  }
+
+  const r = await query(
+    `SELECT old_public_key, new_public_key, signature, rotation_id
+     FROM user_key_rotations
+     WHERE user_id = $1
+     ORDER BY seq ASC`,
+    [subject],
+  )
+  return r.rows.map((row) => ({
+    oldPublicKey: String(row.old_public_key),
+    newPublicKey: String(row.new_public_key),
+    signature: String(row.signature),
+    rotationId: String(row.rotation_id),
+  }))
+}
+
+function keyBackupKindId(kind) {
+  return typeof kind === 'string' && Object.hasOwn(KEY_BACKUP_KINDS, kind) ? KEY_BACKUP_KINDS[kind] : null
+}
+
+// Replaces the user's backup of one kind. The blob is opaque; the lookup id is derived from
+// the recovery secret, so a new secret always lands under a new id.
+export async function authSaveKeyBackup(userId, { lookupId, blob, kind = 'phrase' } = {}) {
+  const id = typeof lookupId === 'string' ? lookupId : ''
+  const data = typeof blob === 'string' ? blob : ''
+  const kindId = keyBackupKindId(kind)
+  if (!KEY_BACKUP_LOOKUP_ID_RE.test(id) || !data || data.length > MAX_KEY_BACKUP_CHARS || kindId === null) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+
+  await transaction(async (client) => {
+    await client.query(`DELETE FROM key_backups WHERE (user_id = $1 AND kind = $2) OR lookup_id = $3`, [String(userId), kindId, id])
+    await client.query(
+      `INSERT INTO key_backups (lookup_id, user_id, kind, blob)
+       VALUES ($1, $2, $3, $4)`,
+      [id, String(userId), kindId, data],
+    )
+  })
+}
+
+export async function authDeleteKeyBackup(userId, kind = 'phrase') {
+  const kindId = keyBackupKindId(kind)
+  if (kindId === null) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+  const r = await query(`DELETE FROM key_backups WHERE user_id = $1 AND kind = $2`, [String(userId), kindId])
+  return (r.rowCount || 0) > 0
+}
+
+// Kind names of the backups the user has.
+export async function authListKeyBackupKinds(userId) {
+  const r = await query(`SELECT kind FROM key_backups WHERE user_id = $1`, [String(userId)])
+  const names = Object.keys(KEY_BACKUP_KINDS)
+  return r.rows.map((row) => names.find((n) => KEY_BACKUP_KINDS[n] === Number(row.kind))).filter(Boolean)
+}
+
+// Unauthenticated: whoever holds the secret can derive the id, and only they can open the blob.
+export async function authGetKeyBackup(lookupId) {
+  const id = typeof lookupId === 'string' ? lookupId : ''
+  if (!KEY_BACKUP_LOOKUP_ID_RE.test(id)) return null
+  const r = await query(`SELECT blob FROM key_backups WHERE lookup_id = $1`, [id])
+  return r.rows.length ? String(r.rows[0].blob) : null
+}
+
+// Everyone who shares a chat with the user.
+export async function authListContactIds(userId) {
+  const r = await query(
+    `SELECT DISTINCT other.user_id
+     FROM chat_members me
+     INNER JOIN chat_members other ON other.chat_id = me.chat_id AND other.user_id <> $1
+     WHERE me.user_id = $1`,
+    [String(userId)],
+  )
+  return r.rows.map((row) => String(row.user_id))
+}
+
+// Records which envelope versions the user's client reads, so senders can pick a format
+// every member understands. The latest client to report wins.
+export async function authSetEnvelopeVersions(userId, versions) {
+  const list = Array.isArray(versions) ? versions : []
+  const valid =
+    list.length > 0 &&
+    list.length <= MAX_ADVERTISED_ENVELOPE_VERSIONS &&
+    list.every((v) => Number.isInteger(v) && v >= 0 && v <= 0xff) &&
+    list.includes(ENVELOPE_VERSION_RSA_LEGACY)
+  if (!valid) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+
+  const next = [...new Set(list)].sort((a, b) => a - b)
+  await query(`UPDATE users SET envelope_versions = $2::smallint[] WHERE id = $1`, [String(userId), next])
+  return next
+}
+
 export async function authListChats(userId) {
   const chats = await query(
-    `SELECT c.id, c.chat_type, c.chat_name_enc
+    `SELECT c.id, c.chat_type, c.chat_name_enc, c.sender_key_epoch
      FROM chats c
      INNER JOIN chat_members cm ON cm.chat_id = c.id
      WHERE cm.user_id = $1
@@ -418,7 +813,8 @@ export async function authListChats(userId) {
   const personal = await query(
     `SELECT c.id AS chat_id,
             u.id AS other_user_id,
-            u.public_key AS other_public_key
+            u.public_key AS other_public_key,
+            u.envelope_versions AS other_envelope_versions
      FROM chats c
      INNER JOIN chat_members me ON me.chat_id = c.id AND me.user_id = $1
      INNER JOIN chat_members other ON other.chat_id = c.id AND other.user_id <> $1
@@ -445,6 +841,7 @@ export async function authListChats(userId) {
           ...base,
           otherUserId: String(p.other_user_id),
           otherPublicKey: normalizePublicKeyForApi(p.other_public_key),
+          otherEnvelopeVersions: normalizeEnvelopeVersionsForApi(p.other_envelope_versions),
         }
       }
 
@@ -452,11 +849,16 @@ export async function authListChats(userId) {
       return null
     }
 
-    return base
+    return { ...base, senderKeyEpoch: Number(c.sender_key_epoch) || 0 }
   })
     .filter(Boolean)
 }
 
+// Sealed-sender rows have no sender; clients read it from inside the envelope.
+function messageSenderWire(senderId) {
+  return senderId ? { senderId: String(senderId) } : { senderId: null, sealed: true }
+}
+
 async function authLastMessagesForUserByChatIds(userId, chatIds) {
   const ids = Array.isArray(chatIds) ? chatIds.map(String).filter(Boolean) : []
   if (!ids.length) return []
@@ -468,6 +870,7 @@ async function authLastMessagesForUserByChatIds(userId, chatIds) {
      INNER JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $1
      WHERE m.chat_id = ANY($2::uuid[])
        AND (cm.visible_after_message_id IS NULL OR m.id > cm.visible_after_message_id)
+       AND (m.expires_at IS NULL OR m.expires_at > NOW())
      ORDER BY m.chat_id, m.id DESC`,
     [String(userId), ids],
   )
@@ -475,7 +878,7 @@ async function authLastMessagesForUserByChatIds(userId, chatIds) {
   return r.rows.map((row) => ({
     chatId: String(row.chat_id),
     id: String(row.id),
-    senderId: String(row.sender_id),
+    ...messageSenderWire(row.sender_id),
     encryptedData: dbBlobToWireEnvelope(row.encrypted_data),
     signature: typeof row.signature === 'string' ? String(row.signature) : '',
   }))
@@ -671,7 +1074,7 @@ export async function authListChatMembers(userId, chatId) {
   }
 
   const r = await query(
-    `SELECT u.id, u.public_key
+    `SELECT u.id, u.public_key, u.envelope_versions
      FROM chat_members cm
      INNER JOIN users u ON u.id = cm.user_id
      WHERE cm.chat_id = $1
@@ -682,6 +1085,7 @@ export async function authListChatMembers(userId, chatId) {
   return r.rows.map((row) => ({
     userId: String(row.id),
     publicKey: normalizePublicKeyForApi(row.public_key),
+    envelopeVersions: normalizeEnvelopeVersionsForApi(row.envelope_versions),
   }))
 }
 
@@ -739,6 +1143,7 @@ export async function authAddGroupMember(userId, chatId, otherUserId, names, cha
       [nextChatNameEnc, String(chatId)],
     )
     await replaceChatNamesForChat(client, String(chatId), nameRows)
+    await bumpSenderKeyEpoch(client, String(chatId))
   })
 
   return {
@@ -791,6 +1196,107 @@ export async function authRenameGroupChat(userId, chatId, chatNameEnc) {
   }
 }
 
+export async function authListSenderKeys(userId, chatId) {
+  await assertChatMember(userId, chatId)
+
+  const chat = await query(
+    `SELECT chat_type, sender_key_epoch
+     FROM chats
+     WHERE id = $1
+     LIMIT 1`,
+    [chatId],
+  )
+  if (chat.rows.length === 0) return { ok: false, reason: 'not_found' }
+  if (String(chat.rows[0].chat_type) !== 'group') return { ok: false, reason: 'not_group' }
+
+  const r = await query(
+    `SELECT key_id, sender_id, epoch, wrapped
+     FROM chat_sender_keys
+     WHERE chat_id = $1 AND recipient_id = $2
+     ORDER BY epoch ASC`,
+    [chatId, userId],
+  )
+
+  return {
+    ok: true,
+    epoch: Number(chat.rows[0].sender_key_epoch) || 0,
+    keys: r.rows.map((row) => ({
+      keyId: String(row.key_id),
+      senderId: String(row.sender_id),
+      epoch: Number(row.epoch) || 0,
+      wrapped: dbBlobToWireEnvelope(row.wrapped),
+    })),
+  }
+}
+
+// keys: { [recipientUserId]: base64url RSA-OAEP wrapped key }, one entry per current member (including the sender).
+export async function authPublishSenderKeys(userId, chatId, { epoch, keyId, keys } = {}) {
+  await assertChatMember(userId, chatId)
+
+  const kid = normalizeSenderKeyId(keyId)
+  if (!kid || !keys || typeof keys !== 'object' || Array.isArray(keys)) return { ok: false, reason: 'bad_payload' }
+
+  const entries = []
+  for (const [recipientId, wrapped] of Object.entries(keys)) {
+    const buf = typeof wrapped === 'string' ? b64UrlDecode(wrapped) : Buffer.alloc(0)
+    if (buf.byteLength !== ENVELOPE_WRAPPED_KEY_BYTES) return { ok: false, reason: 'bad_payload' }
+    entries.push({ recipientId: String(recipientId), wrapped: buf })
+  }
+  if (!entries.length || entries.length > MAX_SENDER_KEY_RECIPIENTS) return { ok: false, reason: 'bad_payload' }
+
+  return transaction(async (client) => {
+    const chat = await client.query(
+      `SELECT chat_type, sender_key_epoch
+       FROM chats
+       WHERE id = $1
+       LIMIT 1
+       FOR UPDATE`,
+      [String(chatId)],
+    )
+    if (!chat.rows.length) return { ok: false, reason: 'not_found' }
+    if (String(chat.rows[0].chat_type) !== 'group') return { ok: false, reason: 'not_group' }
+
+    // The key must cover exactly the current membership at the current epoch.
+    const currentEpoch = Number(chat.rows[0].sender_key_epoch) || 0
+    const members = await client.query(
+      `SELECT user_id
+       FROM chat_members
+       WHERE chat_id = $1`,
+      [String(chatId)],
+    )
+    const memberIds = new Set(members.rows.map((r) => String(r.user_id)))
+    const sameMembers = entries.length === memberIds.size && entries.every((e) => memberIds.has(e.recipientId))
+    if (Number(epoch) !== currentEpoch || !sameMembers) {
+      return { ok: false, reason: 'stale_members', epoch: currentEpoch }
+    }
+
+    const existing = await client.query(
+      `SELECT 1
+       FROM chat_sender_keys
+       WHERE chat_id = $1 AND key_id = $2
+       LIMIT 1`,
+      [String(chatId), kid],
+    )
+    if (existing.rows.length) return { ok: false, reason: 'bad_payload' }
+
+    await client.query(
+      `INSERT INTO chat_sender_keys (chat_id, key_id, sender_id, recipient_id, epoch, wrapped)
+       SELECT $1, $2, $3, r.recipient_id, $4, r.wrapped
+       FROM UNNEST($5::uuid[], $6::bytea[]) AS r(recipient_id, wrapped)`,
+      [
+        String(chatId),
+        kid,
+        String(userId),
+        currentEpoch,
+        entries.map((e) => e.recipientId),
+        entries.map((e) => e.wrapped),
+      ],
+    )
+
+    return { ok: true, epoch: currentEpoch, memberIds: Array.from(memberIds) }
+  })
+}
+
 async function assertChatMember(userId, chatId) {
   const r = await query(
     `SELECT 1
@@ -806,6 +1312,21 @@ async function assertChatMember(userId, chatId) {
   }
 }
 
+// Other members of the chat, for relaying typing signals. Empty when the sender is not a
+// member or has hidden/introvert mode on (those never announce themselves).
+export async function authTypingRecipients(userId, chatId) {
+  const r = await query(
+    `SELECT other.user_id::text AS user_id
+     FROM chat_members me
+     INNER JOIN users u ON u.id = me.user_id
+     INNER JOIN chat_members other ON other.chat_id = me.chat_id AND other.user_id <> me.user_id
+     WHERE me.chat_id = $1 AND me.user_id = $2
+       AND u.hidden_mode = false AND u.introvert_mode = false`,
+    [chatId, userId],
+  )
+  return r.rows.map((row) => String(row.user_id))
+}
+
 export async function authFetchMessages(userId, chatId, limit = 50, beforeId = null) {
   await assertChatMember(userId, chatId)
 
@@ -818,6 +1339,7 @@ export async function authFetchMessages(userId, chatId, limit = 50, beforeId = n
        INNER JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $2
        WHERE m.chat_id = $1
          AND (cm.visible_after_message_id IS NULL OR m.id > cm.visible_after_message_id)
+         AND (m.expires_at IS NULL OR m.expires_at > NOW())
          AND m.id < $3
        ORDER BY m.id DESC
        LIMIT $4`
@@ -826,38 +1348,213 @@ export async function authFetchMessages(userId, chatId, limit = 50, beforeId = n
        INNER JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $2
        WHERE m.chat_id = $1
          AND (cm.visible_after_message_id IS NULL OR m.id > cm.visible_after_message_id)
+         AND (m.expires_at IS NULL OR m.expires_at > NOW())
        ORDER BY m.id DESC
        LIMIT $3`
 
   const r = await query(sql, params)
+  const reactionsByMessageId = await listReactionsForMessages(r.rows.map((row) => String(row.id)))
+  const ownIds = r.rows.filter((row) => String(row.sender_id) === String(userId)).map((row) => String(row.id))
+  const receiptsByMessageId = await listReceiptsForMessages(userId, chatId, ownIds)
   return r.rows.map((row) => ({
     id: String(row.id),
     chatId: String(chatId),
-    senderId: String(row.sender_id),
+    ...messageSenderWire(row.sender_id),
     encryptedData: dbBlobToWireEnvelope(row.encrypted_data),
     signature: typeof row.signature === 'string' ? String(row.signature) : '',
+    reactions: reactionsByMessageId.get(String(row.id)) ?? [],
+    ...(receiptsByMessageId.has(String(row.id)) ? { receipts: receiptsByMessageId.get(String(row.id)) } : {}),
   }))
 }
 
-export async function authSendMessage({ senderId, chatId, encryptedData, signature = '' }) {
-  await assertChatMember(senderId, chatId)
-  let encBlob
-  try {
-    encBlob = wireEnvelopeToDbBlob(encryptedData)
-  } catch (e) {
+// Receipts on the sender's own messages, from current members. Nothing when either side has
+// receipts off (a reader who turned them off later stops showing up).
+async function listReceiptsForMessages(senderId, chatId, messageIds) {
+  const out = new Map()
+  if (!messageIds.length) return out
+  const r = await query(
+    `SELECT mr.message_id, mr.user_id, mr.state
+     FROM message_receipts mr
+     INNER JOIN users reader ON reader.id = mr.user_id AND reader.read_receipts = true
+     INNER JOIN users sender ON sender.id = $1 AND sender.read_receipts = true
+     INNER JOIN chat_members cm ON cm.chat_id = mr.chat_id AND cm.user_id = mr.user_id
+     WHERE mr.chat_id = $2 AND mr.message_id = ANY($3::uuid[])`,
+    [String(senderId), String(chatId), messageIds],
+  )
+  for (const row of r.rows) {
+    const mid = String(row.message_id)
+    if (!out.has(mid)) out.set(mid, [])
+    out.get(mid).push({ userId: String(row.user_id), state: receiptStateName(row.state) })
+  }
+  return out
+}
+
+async function listReactionsForMessages(messageIds) {
+  const out = new Map()
+  if (!messageIds.length) return out
+  const r = await query(
+    `SELECT message_id, reactor_id, encrypted_data, signature
+     FROM message_reactions
+     WHERE message_id = ANY($1::uuid[])`,
+    [messageIds],
+  )
+  for (const row of r.rows) {
+    const mid = String(row.message_id)
+    if (!out.has(mid)) out.set(mid, [])
+    out.get(mid).push({
+      reactorId: String(row.reactor_id),
+      encryptedData: dbBlobToWireEnvelope(row.encrypted_data),
+      signature: typeof row.signature === 'string' ? String(row.signature) : '',
+    })
+  }
+  return out
+}
+
+// One reaction per member per message. An empty payload removes the caller's reaction.
+// Reactions are never ratchet envelopes: they may be re-read any number of times.
+export async function authSetReaction({ userId, chatId, messageId, encryptedData, signature = '' }) {
+  await assertChatMember(userId, chatId)
+  const enc = typeof encryptedData === 'string' ? encryptedData : ''
+
+  let encBlob = null
+  if (enc) {
+    if (isRatchetEnvelope(enc)) return { ok: false, reason: 'bad_payload' }
+    try {
+      encBlob = wireMessageEnvelopeToDbBlob(enc)
+      await assertEnvelopeAllowedInChat(chatId, userId, enc)
+    } catch (e) {
+      if (e?.code === 'stale_sender_key' || e?.code === 'bad_payload') return { ok: false, reason: e.code }
+      throw e
+    }
+  }
+
+  return await transaction(async (client) => {
+    // Same visibility rules as reading: the target must be a live message the caller can see.
+    const m = await client.query(
+      `SELECT 1
+       FROM messages m
+       INNER JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $3
+       WHERE m.id = $1 AND m.chat_id = $2
+         AND (cm.visible_after_message_id IS NULL OR m.id > cm.visible_after_message_id)
+         AND (m.expires_at IS NULL OR m.expires_at > NOW())
+       LIMIT 1`,
+      [String(messageId), String(chatId), String(userId)],
+    )
+    if (!m.rows.length) return { ok: false, reason: 'not_found' }
+
+    if (encBlob) {
+      await client.query(
+        `INSERT INTO message_reactions (message_id, reactor_id, chat_id, encrypted_data, signature)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (message_id, reactor_id)
+         DO UPDATE SET encrypted_data = EXCLUDED.encrypted_data, signature = EXCLUDED.signature`,
+        [String(messageId), String(userId), String(chatId), encBlob, String(signature || '')],
+      )
+    } else {
+      await client.query(
+        `DELETE FROM message_reactions
+         WHERE message_id = $1 AND reactor_id = $2`,
+        [String(messageId), String(userId)],
+      )
+    }
+
+    const members = await client.query(
+      `SELECT user_id
+       FROM chat_members
+       WHERE chat_id = $1`,
+      [String(chatId)],
+    )
+    return { ok: true, memberIds: members.rows.map((r) => String(r.user_id)) }
+  })
+}
+
+function normalizeMessageExpiry(value, now = Date.now()) {
+  if (value === null || typeof value === 'undefined') return null
+  const ms = Number(value)
+  if (!Number.isSafeInteger(ms) || ms <= 0 || ms > now + MAX_MESSAGE_TTL_MS + MESSAGE_EXPIRY_SLACK_MS) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+  const rounded = Math.ceil(ms / MESSAGE_EXPIRY_GRANULARITY_MS) * MESSAGE_EXPIRY_GRANULARITY_MS
+  return new Date(rounded)
+}
+
+function normalizeClientMessageId(value) {
+  if (value === null || typeof value === 'undefined') return null
+  const id = String(value)
+  if (!UUID_RE.test(id)) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+  return id
+}
+
+// The row an earlier attempt of the same send stored. The id never leaves the sender's device,
+// and sealed rows (no sender) can only be matched by a sealed retry.
+async function findClientMessage(client, chatId, clientMsgId, senderId) {
+  const r = await client.query(
+    `SELECT id
+     FROM messages
+     WHERE chat_id = $1 AND client_msg_id = $2 AND sender_id IS NOT DISTINCT FROM $3
+     LIMIT 1`,
+    [chatId, clientMsgId, senderId],
+  )
+  if (!r.rows.length) {
     const err = new Error('bad_payload')
     err.code = 'bad_payload'
     throw err
   }
+  return String(r.rows[0].id)
+}
+
+// `clientMsgId` makes the send idempotent: a retry of one already stored returns that message
+// with `duplicate` set (and no member ids, as nobody needs telling twice).
+export async function authSendMessage({
+  senderId,
+  chatId,
+  encryptedData,
+  signature = '',
+  blobIds = [],
+  expiresAt = null,
+  clientMsgId = null,
+}) {
+  await assertChatMember(senderId, chatId)
+  // Both throw coded errors; anything else (a failed query) is left to surface as a server error.
+  const encBlob = wireMessageEnvelopeToDbBlob(encryptedData)
+  await assertEnvelopeAllowedInChat(chatId, senderId, encryptedData)
 
+  const blobs = normalizeBlobIds(blobIds)
+  const expiry = normalizeMessageExpiry(expiresAt)
+  const clientId = normalizeClientMessageId(clientMsgId)
   const messageId = uuidv7()
 
   const result = await transaction(async (client) => {
-    await client.query(
-      `INSERT INTO messages (id, chat_id, encrypted_data, signature, sender_id)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [messageId, chatId, encBlob, String(signature || ''), senderId],
+    const inserted = await client.query(
+      `INSERT INTO messages (id, chat_id, encrypted_data, signature, sender_id, expires_at, client_msg_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (chat_id, client_msg_id) WHERE client_msg_id IS NOT NULL DO NOTHING`,
+      [messageId, chatId, encBlob, String(signature || ''), senderId, expiry, clientId],
     )
+    if (!inserted.rowCount) {
+      return { messageId: await findClientMessage(client, chatId, clientId, senderId), memberIds: [], duplicate: true }
+    }
+
+    if (blobs.length) {
+      // Only the uploader's own pending blobs in this chat can be claimed, each exactly once.
+      const linked = await client.query(
+        `UPDATE blobs
+         SET message_id = $1
+         WHERE id = ANY($2::uuid[]) AND chat_id = $3 AND uploader_id = $4 AND message_id IS NULL`,
+        [messageId, blobs, chatId, senderId],
+      )
+      if ((linked.rowCount || 0) !== blobs.length) {
+        const err = new Error('bad_payload')
+        err.code = 'bad_payload'
+        throw err
+      }
+    }
 
     const members = await client.query(
       `SELECT user_id
@@ -869,46 +1566,175 @@ export async function authSendMessage({ senderId, chatId, encryptedData, signatu
     const memberIds = members.rows.map((m) => String(m.user_id))
 
     // Unread: everyone except sender.
-    const others = memberIds.filter((id) => id !== String(senderId))
-    if (others.length) {
-      // NOTE: unread_messages columns are (user_id, message_id, chat_id)
-      // Params are [messageId, ...others, chatId].
-      // So each row is (otherUserId, messageId, chatId).
-      const v2 = others.map((_, i) => `($${i + 2}, $1, $${others.length + 2})`).join(',')
-      await client.query(
-        `INSERT INTO unread_messages (user_id, message_id, chat_id)
-         VALUES ${v2}
-         ON CONFLICT DO NOTHING`,
-        [messageId, ...others, chatId],
-      )
-    }
+    await insertUnreadRows(client, messageId, chatId, memberIds.filter((id) => id !== String(senderId)))
 
-    return { messageId, memberIds }
+    return { messageId, memberIds, duplicate: false }
   })
 
   return result
 }
 
+async function insertUnreadRows(client, messageId, chatId, userIds) {
+  if (!userIds.length) return
+  // NOTE: unread_messages columns are (user_id, message_id, chat_id)
+  // Params are [messageId, ...userIds, chatId].
+  // So each row is (userId, messageId, chatId).
+  const v2 = userIds.map((_, i) => `($${i + 2}, $1, $${userIds.length + 2})`).join(',')
+  await client.query(
+    `INSERT INTO unread_messages (user_id, message_id, chat_id)
+     VALUES ${v2}
+     ON CONFLICT DO NOTHING`,
+    [messageId, ...userIds, chatId],
+  )
+}
+
+// Delivery tokens for sealed sends are bound to the chat and its epoch only, so every member
+// holds the same token and a send cannot be traced back to one of them. The epoch moves on
+// every membership change, so a departed member's token stops working. index.js derives the
+// token itself; this only hands out the epoch (to members) and reads it back on send.
+export async function authChatDeliveryEpoch(userId, chatId) {
+  chatId = normalizeChatId(chatId)
+  await assertChatMember(userId, chatId)
+  const epoch = await readChatDeliveryEpoch(chatId)
+  if (epoch === null) {
+    const err = new Error('Forbidden')
+    err.code = 'forbidden'
+    throw err
+  }
+  return epoch
+}
+
+// The sealed routes take the chat id from unauthenticated input; a malformed one is the
+// caller's mistake, not a database error.
+function normalizeChatId(value) {
+  const id = String(value ?? '')
+  if (!UUID_RE.test(id)) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+  return id
+}
+
+async function readChatDeliveryEpoch(chatId) {
+  const r = await query(`SELECT sender_key_epoch FROM chats WHERE id = $1 LIMIT 1`, [String(chatId)])
+  return r.rows.length ? Number(r.rows[0].sender_key_epoch) || 0 : null
+}
+
+// A sealed message has no sender row: only the multi-recipient RSA formats are accepted (the
+// ratchet needs the sender's session and a sender-key id names its owner), there are no
+// attachments (blobs belong to their uploader) and every member, the sender included, gets
+// an unread row. `isTokenValid(epoch)` is the caller's check of the delivery token.
+export async function authSendSealedMessage({ chatId, encryptedData, expiresAt = null, clientMsgId = null, isTokenValid }) {
+  chatId = normalizeChatId(chatId)
+  const epoch = await readChatDeliveryEpoch(chatId)
+  if (epoch === null || !isTokenValid(epoch)) {
+    const err = new Error('Forbidden')
+    err.code = 'forbidden'
+    throw err
+  }
+
+  const encBlob = wireEnvelopeToDbBlob(encryptedData)
+  const expiry = normalizeMessageExpiry(expiresAt)
+  const clientId = normalizeClientMessageId(clientMsgId)
+  const messageId = uuidv7()
+
+  return await transaction(async (client) => {
+    const inserted = await client.query(
+      `INSERT INTO messages (id, chat_id, encrypted_data, signature, sender_id, expires_at, client_msg_id)
+       VALUES ($1, $2, $3, '', NULL, $4, $5)
+       ON CONFLICT (chat_id, client_msg_id) WHERE client_msg_id IS NOT NULL DO NOTHING`,
+      [messageId, chatId, encBlob, expiry, clientId],
+    )
+    if (!inserted.rowCount) {
+      return { messageId: await findClientMessage(client, chatId, clientId, null), memberIds: [], duplicate: true }
+    }
+
+    const members = await client.query(
+      `SELECT user_id
+       FROM chat_members
+       WHERE chat_id = $1`,
+      [chatId],
+    )
+    const memberIds = members.rows.map((m) => String(m.user_id))
+    await insertUnreadRows(client, messageId, chatId, memberIds)
+
+    return { messageId, memberIds, duplicate: false }
+  })
+}
+
+const RECEIPT_DELIVERED = 1
+const RECEIPT_READ = 2
+
+function receiptStateName(state) {
+  return Number(state) >= RECEIPT_READ ? 'read' : 'delivered'
+}
+
+// Raises the reader's receipt on other members' messages to `state` (never lowers it).
+// Returns the changed message ids grouped by sender, for pushing to them; empty when the
+// reader or the sender has receipts off.
+async function recordReceipts(userId, chatId, messageIds, state) {
+  const ids = Array.isArray(messageIds) ? messageIds.map(String).filter((id) => UUID_RE.test(id)) : []
+  if (!ids.length) return []
+
+  const r = await query(
+    `WITH changed AS (
+       INSERT INTO message_receipts (message_id, user_id, chat_id, state)
+       SELECT m.id, cm.user_id, m.chat_id, $4::smallint
+       FROM messages m
+       INNER JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $2
+       INNER JOIN users reader ON reader.id = cm.user_id AND reader.read_receipts = true
+       INNER JOIN users sender ON sender.id = m.sender_id AND sender.read_receipts = true
+       WHERE m.chat_id = $1 AND m.id = ANY($3::uuid[]) AND m.sender_id <> cm.user_id
+         AND (cm.visible_after_message_id IS NULL OR m.id > cm.visible_after_message_id)
+       ON CONFLICT (message_id, user_id)
+       DO UPDATE SET state = EXCLUDED.state
+       WHERE message_receipts.state < EXCLUDED.state
+       RETURNING message_id
+     )
+     SELECT m.sender_id, array_agg(changed.message_id::text) AS message_ids
+     FROM changed
+     INNER JOIN messages m ON m.id = changed.message_id
+     GROUP BY m.sender_id`,
+    [String(chatId), String(userId), ids, state],
+  )
+  return r.rows.map((row) => ({
+    senderId: String(row.sender_id),
+    messageIds: (row.message_ids ?? []).map(String),
+  }))
+}
+
 export async function authMarkChatRead(userId, chatId) {
   await assertChatMember(userId, chatId)
-  await query(
+  const r = await query(
     `DELETE FROM unread_messages
-     WHERE user_id = $1 AND chat_id = $2`,
+     WHERE user_id = $1 AND chat_id = $2
+     RETURNING message_id`,
     [userId, chatId],
   )
+  const receipts = await recordReceipts(userId, chatId, r.rows.map((row) => String(row.message_id)), RECEIPT_READ)
+  return { receipts }
+}
+
+export async function authMarkMessagesDelivered(userId, chatId, messageIds) {
+  await assertChatMember(userId, chatId)
+  const ids = Array.isArray(messageIds) ? messageIds.slice(0, MAX_RECEIPT_IDS) : []
+  const receipts = await recordReceipts(userId, chatId, ids, RECEIPT_DELIVERED)
+  return { receipts }
 }
 
 export async function authMarkMessagesRead(userId, chatId, messageIds) {
   await assertChatMember(userId, chatId)
 
   const ids = Array.isArray(messageIds) ? messageIds.map(String).filter(Boolean) : []
-  if (!ids.length) return { unreadCount: null }
+  if (!ids.length) return { unreadCount: null, receipts: [] }
 
   await query(
     `DELETE FROM unread_messages
      WHERE user_id = $1 AND chat_id = $2 AND message_id = ANY($3::uuid[])`,
     [userId, chatId, ids],
   )
+  const receipts = await recordReceipts(userId, chatId, ids.slice(0, MAX_RECEIPT_IDS), RECEIPT_READ)
 
   const r = await query(
     `SELECT COUNT(*)::int AS count
@@ -918,7 +1744,7 @@ export async function authMarkMessagesRead(userId, chatId, messageIds) {
   )
 
   const unreadCount = Number(r.rows?.[0]?.count) || 0
-  return { unreadCount }
+  return { unreadCount, receipts }
 }
 
 export async function authUnreadMessageIds(userId, chatId, limit = 500) {
@@ -935,6 +1761,114 @@ export async function authUnreadMessageIds(userId, chatId, limit = 500) {
   return r.rows.map((x) => String(x.message_id))
 }
 
+function normalizeBlobIds(value) {
+  const list = Array.isArray(value) ? value : []
+  const ids = [...new Set(list.map((v) => (typeof v === 'string' ? v.trim().toLowerCase() : '')))]
+  if (ids.length > MAX_BLOBS_PER_MESSAGE || ids.some((id) => !UUID_RE.test(id))) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+  return ids
+}
+
+// Stores an attachment's ciphertext until a message claims it (see authSendMessage).
+export async function authUploadBlob(userId, chatId, data) {
+  await assertChatMember(userId, chatId)
+  const buf = Buffer.isBuffer(data) ? data : null
+  if (!buf || !buf.byteLength) {
+    const err = new Error('bad_payload')
+    err.code = 'bad_payload'
+    throw err
+  }
+  if (buf.byteLength > MAX_BLOB_BYTES) {
+    const err = new Error('too_large')
+    err.code = 'too_large'
+    throw err
+  }
+
+  const pending = await query(
+    `SELECT COUNT(*)::int AS n
+     FROM blobs
+     WHERE uploader_id = $1 AND message_id IS NULL`,
+    [String(userId)],
+  )
+  if ((Number(pending.rows?.[0]?.n) || 0) >= MAX_PENDING_BLOBS_PER_USER) {
+    const err = new Error('too_many_pending')
+    err.code = 'too_many_pending'
+    throw err
+  }
+
+  const blobId = uuidv7()
+  await query(
+    `INSERT INTO blobs (id, chat_id, uploader_id, data)
+     VALUES ($1, $2, $3, $4)`,
+    [blobId, String(chatId), String(userId), buf],
+  )
+  return blobId
+}
+
+// The uploader gave up on a blob before sending it; frees its pending slot right away instead
+// of at the orphan sweep. Blobs already linked to a message go only with the message.
+export async function authDiscardBlob(userId, blobId) {
+  const id = typeof blobId === 'string' ? blobId.trim().toLowerCase() : ''
+  if (!UUID_RE.test(id)) return false
+
+  const r = await query(
+    `DELETE FROM blobs
+     WHERE id = $1 AND uploader_id = $2 AND message_id IS NULL`,
+    [id, String(userId)],
+  )
+  return Boolean(r.rowCount)
+}
+
+// Members may fetch blobs of messages they can see; unclaimed blobs only by their uploader.
+export async function authGetBlob(userId, blobId) {
+  const id = typeof blobId === 'string' ? blobId.trim().toLowerCase() : ''
+  if (!UUID_RE.test(id)) return null
+
+  const r = await query(
+    `SELECT b.data
+     FROM blobs b
+     INNER JOIN chat_members cm ON cm.chat_id = b.chat_id AND cm.user_id = $2
+     WHERE b.id = $1
+       AND (
+         (b.message_id IS NULL AND b.uploader_id = $2)
+         OR (b.message_id IS NOT NULL AND (cm.visible_after_message_id IS NULL OR b.message_id > cm.visible_after_message_id))
+       )
+     LIMIT 1`,
+    [id, String(userId)],
+  )
+  return r.rows.length ? Buffer.from(r.rows[0].data) : null
+}
+
+// The smallest UUIDv7 minted at `ms`; ids minted at or after that instant sort above it.
+function uuidv7Floor(ms) {
+  const hex = Math.max(0, Math.floor(ms)).toString(16).padStart(12, '0')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-7000-8000-000000000000`
+}
+
+// Unclaimed blobs go once their id is older than ORPHAN_BLOB_TTL_MS, however often this runs.
+export async function authSweepOrphanBlobs(now = Date.now()) {
+  const removed = await query(
+    `DELETE FROM blobs WHERE message_id IS NULL AND id < $1`,
+    [uuidv7Floor(now - ORPHAN_BLOB_TTL_MS)],
+  )
+  return { deletedBlobs: removed.rowCount || 0 }
+}
+
+// Hard-deletes disappearing messages once due; unread markers, push queue rows and
+// attachment blobs go with them through FK cascades.
+export async function authPurgeExpiredMessages(now = new Date()) {
+  const asDate = now instanceof Date ? now : new Date(now)
+  const removed = await query(
+    `DELETE FROM messages
+     WHERE expires_at IS NOT NULL AND expires_at <= $1`,
+    [asDate],
+  )
+  return { deletedMessages: removed.rowCount || 0 }
+}
+
 export async function authDeleteMessage({ userId, chatId, messageId }) {
   await assertChatMember(userId, chatId)
 
@@ -975,9 +1909,11 @@ export async function authUpdateMessage({ userId, chatId, messageId, encryptedDa
   if (!enc) return { ok: false, reason: 'bad_payload' }
   let encBlob
   try {
-    encBlob = wireEnvelopeToDbBlob(enc)
-  } catch {
-    return { ok: false, reason: 'bad_payload' }
+    encBlob = wireMessageEnvelopeToDbBlob(enc)
+    await assertEnvelopeAllowedInChat(chatId, userId, enc)
+  } catch (e) {
+    if (e?.code === 'stale_sender_key' || e?.code === 'bad_payload') return { ok: false, reason: e.code }
+    throw e
   }
 
   const result = await transaction(async (client) => {
@@ -1036,6 +1972,8 @@ export async function authLeaveChat(userId, chatId) {
     const beforeN = Number(before.rows?.[0]?.n) || 0
     const isLast = beforeN <= 1
 
+    // Sealed rows (sender_id NULL) stay: telling the leaver's apart from the others' would need
+    // exactly the attribution sealed sender withholds from the server.
     let deletedMessageIds = []
     if (!isLast) {
       const del = await client.query(
@@ -1076,6 +2014,8 @@ export async function authLeaveChat(userId, chatId) {
       // ignore (best-effort privacy cleanup)
     }
 
+    await retireSenderKeysForMember(client, String(chatId), String(userId))
+
     const left = await client.query(
       `SELECT COUNT(*)::int AS n
        FROM chat_members
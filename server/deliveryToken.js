@@ -0,0 +1,14 @@
+import crypto from 'crypto';
+
+// Sealed-sender delivery tokens: an HMAC over the chat and its sender-key epoch. Nothing in the
+// token names a member, so every member of a chat holds the same one until the epoch moves.
+export function createDeliveryToken(secret, chatId, epoch) {
+  return crypto.createHmac('sha256', secret).update(`${chatId}:${epoch}`).digest('base64url');
+}
+
+export function isDeliveryTokenValid(secret, chatId, epoch, token) {
+  const expected = Buffer.from(createDeliveryToken(secret, chatId, epoch), 'utf8');
+  const given = Buffer.from(String(token ?? ''), 'utf8');
+  if (given.length !== expected.length) return false;
+  return crypto.timingSafeEqual(given, expected);
+}
@@ -8,6 +8,7 @@ import { fileURLToPath } from 'url';
 import { Oprf, VOPRFServer, generatePublicKey, randomPrivateKey, EvaluationRequest, Evaluation } from '@cloudflare/voprf-ts';
 import { debugError } from './logger.js';
 import { APP_VERSION as SERVER_APP_VERSION } from './appVersion.js';
+import { createDeliveryToken, isDeliveryTokenValid } from './deliveryToken.js';
 import {
   upsertPushSubscriptionForUser,
   deletePushStateForUser,
@@ -38,11 +39,16 @@ import {
   authListChatMembers,
   authAddGroupMember,
   authRenameGroupChat,
+  authListSenderKeys,
+  authPublishSenderKeys,
   authGetLastMessagesForChatIds,
   authFetchMessages,
   authSendMessage,
+  authChatDeliveryEpoch,
+  authSendSealedMessage,
   authMarkChatRead,
   authMarkMessagesRead,
+  authMarkMessagesDelivered,
   authUnreadMessageIds,
   authDeleteMessage,
   authUpdateMessage,
@@ -50,6 +56,23 @@ import {
   authDeletePersonalChat,
   authCleanupExpiredUsers,
   authDeleteAccount,
+  authRotateUserKey,
+  authListKeyRotations,
+  authSetEnvelopeVersions,
+  authSaveKeyBackup,
+  authDeleteKeyBackup,
+  authListKeyBackupKinds,
+  authGetKeyBackup,
+  authListContactIds,
+  SUPPORTED_ENVELOPE_VERSIONS,
+  authUploadBlob,
+  authDiscardBlob,
+  authGetBlob,
+  authSweepOrphanBlobs,
+  authPurgeExpiredMessages,
+  authSetReaction,
+  authTypingRecipients,
+  MAX_BLOB_BYTES,
 } from './authDb.js';
 
 const PORT = Number(process.env.PORT ?? 8443);
@@ -83,6 +106,8 @@ const AUTH_CLEANUP_ENABLED = (process.env.AUTH_CLEANUP_ENABLED ?? process.env.SI
 // Expired-user cleanup: default every 10 minutes (configurable via env).
 const AUTH_CLEANUP_INTERVAL_MS = Number(process.env.AUTH_CLEANUP_INTERVAL_MS ?? process.env.SIGNED_CLEANUP_INTERVAL_MS ?? 10 * 60 * 1000);
 const AUTH_CLEANUP_INITIAL_DELAY_MS = Number(process.env.AUTH_CLEANUP_INITIAL_DELAY_MS ?? process.env.SIGNED_CLEANUP_INITIAL_DELAY_MS ?? 30 * 1000);
+// Disappearing messages need a much tighter loop than user cleanup; timers go down to minutes.
+const AUTH_MESSAGE_EXPIRY_INTERVAL_MS = Number(process.env.AUTH_MESSAGE_EXPIRY_INTERVAL_MS ?? 60 * 1000);
 
 // Optional Web Push (background notifications). If keys are not provided, the app
 // still supports in-tab notifications when the page is open.
@@ -263,7 +288,10 @@ app.use((req, res, next) => {
       "base-uri 'none'",
       "object-src 'none'",
       "frame-ancestors 'none'",
-      "img-src 'self' data:",
+      // blob: for attachment images decrypted in the browser.
+      "img-src 'self' data: blob:",
+      // blob: for voice notes played back after decryption.
+      "media-src 'self' blob:",
       "style-src 'self'",
       "script-src 'self'",
       "connect-src 'self'",
@@ -393,14 +421,41 @@ app.post('/api/push/disable', requireAuthSession, (req, res) => {
   });
 });
 
+// Length hiding: clients pad every envelope's encrypted payload up to the smallest of these
+// sizes (bytes) that fits; larger payloads only get the small random padding. "off" disables.
+const ENVELOPE_PAD_BUCKET_MIN_BYTES = 64;
+const ENVELOPE_PAD_BUCKET_MAX_BYTES = 64 * 1024;
+const ENVELOPE_PAD_BUCKETS = parseEnvelopePadBuckets(process.env.ENVELOPE_PAD_BUCKETS ?? '256,1024,4096,16384');
+
+function parseEnvelopePadBuckets(raw) {
+  const sizes = String(raw)
+    .split(',')
+    .map((s) => Number(s.trim()))
+    .filter((n) => Number.isSafeInteger(n) && n >= ENVELOPE_PAD_BUCKET_MIN_BYTES && n <= ENVELOPE_PAD_BUCKET_MAX_BYTES);
+  return Array.from(new Set(sizes)).sort((a, b) => a - b);
+}
+
 app.get('/api/config', (req, res) => {
   res.setHeader('Cache-Control', 'no-store');
   res.json({
     appName: APP_NAME,
     voprf: { mode: 'VOPRF', suite: 'P256_SHA256', publicKeyB64u: VOPRF_PUBLIC_KEY_B64U },
+    envelopes: { versions: SUPPORTED_ENVELOPE_VERSIONS, padBuckets: ENVELOPE_PAD_BUCKETS },
   });
 });
 
+// Clients report the envelope versions they read; peers see them on chats and members.
+app.post('/api/config/envelope-versions', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const versions = await authSetEnvelopeVersions(userId, req.body?.versions);
+    res.json({ success: true, versions });
+  } catch (e) {
+    if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'bad_payload' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // VOPRF blind evaluation endpoint.
 app.post('/api/voprf/eval', (req, res) => {
   (async () => {
@@ -456,6 +511,7 @@ app.post('/api/auth/register', async (req, res) => {
       userId: user.id,
       hiddenMode: Boolean(user.hidden_mode),
       introvertMode: Boolean(user.introvert_mode),
+      readReceipts: user.read_receipts !== false,
     });
   } catch (error) {
     res.status(400).json({ error: error?.message || 'Bad request' });
@@ -523,7 +579,7 @@ app.post('/api/auth/login-final', async (req, res) => {
 
     const userId = String(entry.userId);
     const u = await query(
-      'SELECT id, public_key, hidden_mode, introvert_mode, vault FROM users WHERE id = $1',
+      'SELECT id, public_key, hidden_mode, introvert_mode, read_receipts, vault FROM users WHERE id = $1',
       [userId],
     );
     const user = u?.rows?.[0];
@@ -553,6 +609,7 @@ app.post('/api/auth/login-final', async (req, res) => {
       userId: String(user.id),
       hiddenMode: Boolean(user.hidden_mode),
       introvertMode: Boolean(user.introvert_mode),
+      readReceipts: user.read_receipts !== false,
       vault: typeof user.vault === 'string' ? user.vault : '',
     });
   } catch {
@@ -567,6 +624,7 @@ app.post('/api/account/update', requireAuthSession, async (req, res) => {
 
     const hiddenMode = req.body?.hiddenMode;
     const introvertMode = req.body?.introvertMode;
+    const readReceipts = req.body?.readReceipts;
     const removeDateIso = req.body?.removeDate;
     const vault = req.body?.vault;
 
@@ -585,6 +643,12 @@ app.post('/api/account/update', requireAuthSession, async (req, res) => {
       sets.push(`introvert_mode = $${params.length}`);
     }
 
+    if (readReceipts !== undefined) {
+      if (typeof readReceipts !== 'boolean') return res.status(400).json({ error: 'readReceipts boolean required' });
+      params.push(readReceipts);
+      sets.push(`read_receipts = $${params.length}`);
+    }
+
     if (removeDateIso !== undefined) {
       if (typeof removeDateIso !== 'string') return res.status(400).json({ error: 'removeDate string required' });
       const d = new Date(removeDateIso);
@@ -614,6 +678,7 @@ app.post('/api/account/update', requireAuthSession, async (req, res) => {
       type: 'authAccountUpdated',
       ...(hiddenMode !== undefined && typeof hiddenMode === 'boolean' ? { hiddenMode } : {}),
       ...(introvertMode !== undefined && typeof introvertMode === 'boolean' ? { introvertMode } : {}),
+      ...(readReceipts !== undefined && typeof readReceipts === 'boolean' ? { readReceipts } : {}),
     };
     if (Object.keys(payload).length > 1) {
       sendToUserAllExceptSession(userId, sessionId, payload);
@@ -654,6 +719,274 @@ app.post('/api/account/introvert-mode', requireAuthSession, async (req, res) =>
   }
 });
 
+// In-place key rotation. Other sessions of this user hold the old key only, so they are
+// logged out; contacts get the signed change and re-pin the new key.
+app.post('/api/account/rotate-key', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const keepSessionId = String(req._authSessionId);
+    const publicKey = typeof req.body?.publicKey === 'string' ? req.body.publicKey : '';
+    const signature = typeof req.body?.signature === 'string' ? req.body.signature : '';
+    const vault = req.body?.vault;
+    if (!publicKey || !signature || typeof vault !== 'string') {
+      return res.status(400).json({ error: 'publicKey, signature, vault required' });
+    }
+
+    const result = await authRotateUserKey(userId, { publicKey, signature, vault });
+    if (!result.ok) {
+      const code = result.reason === 'not_found' ? 404 : result.reason === 'bad_signature' ? 403 : 400;
+      return res.status(code).json({ error: result.reason });
+    }
+
+    try {
+      const { revoked } = revokeAllTokensForUser(userId, { keepSessionId });
+      for (const s of revoked) {
+        if (!s?.sessionId) continue;
+        const ws = getAuthSocketForSession(userId, s.sessionId);
+        if (ws && typeof ws.isOpen === 'function' && ws.isOpen()) {
+          sendReliable(ws, { type: 'authForceLogout', reason: 'key_rotated', wipeLocalKeys: false });
+          setTimeout(() => {
+            try { ws.close(); } catch { /* ignore */ }
+          }, 200);
+        }
+      }
+    } catch {
+      // ignore
+    }
+
+    try {
+      const payload = {
+        type: 'authKeyRotated',
+        userId,
+        publicKey: result.publicKey,
+        previousPublicKey: result.previousPublicKey,
+        signature,
+      };
+      for (const uid of result.contactIds || []) {
+        forEachAuthSocket(String(uid), (ws) => {
+          if (ws && typeof ws.isOpen === 'function' && ws.isOpen()) sendReliable(ws, payload);
+        });
+      }
+    } catch {
+      // ignore
+    }
+
+    res.json({ success: true, publicKey: result.publicKey });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/account/key-backup', requireAuthSession, async (req, res) => {
+  try {
+    const kinds = await authListKeyBackupKinds(String(req._authUserId));
+    res.json({ success: true, exists: kinds.includes('phrase'), social: kinds.includes('social') });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/account/key-backup', requireAuthSession, async (req, res) => {
+  try {
+    const lookupId = typeof req.body?.lookupId === 'string' ? req.body.lookupId : '';
+    const blob = typeof req.body?.blob === 'string' ? req.body.blob : '';
+    const kind = typeof req.body?.kind === 'string' ? req.body.kind : 'phrase';
+    if (!lookupId || !blob) return res.status(400).json({ error: 'lookupId and blob required' });
+
+    await authSaveKeyBackup(String(req._authUserId), { lookupId, blob, kind });
+    res.json({ success: true });
+  } catch (e) {
+    if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/account/key-backup/delete', requireAuthSession, async (req, res) => {
+  try {
+    const kind = typeof req.body?.kind === 'string' ? req.body.kind : 'phrase';
+    await authDeleteKeyBackup(String(req._authUserId), kind);
+    res.json({ success: true });
+  } catch (e) {
+    if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Restoring from a recovery phrase happens before login, so this cannot require a session.
+app.post('/api/auth/key-backup', async (req, res) => {
+  try {
+    const lookupId = typeof req.body?.lookupId === 'string' ? req.body.lookupId : '';
+    if (!lookupId) return res.status(400).json({ error: 'lookupId required' });
+
+    const blob = await authGetKeyBackup(lookupId);
+    if (!blob) return res.status(404).json({ error: 'Not found' });
+    res.json({ success: true, blob });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Social recovery: a device without any key asks the account's contacts for their shares of
+// the recovery secret. The request carries an ECDH public key; contacts compare a code derived
+// from it with the person asking, then post their share sealed to that key. RAM-only; the new
+// device polls for shares with the token it got at start.
+// Starting needs only a name token, so a start never touches requests already open (only their
+// pollToken holder can cancel them). A request also lapses once its device stops polling for
+// SOCIAL_RECOVERY_IDLE_MS: holding an account's few slots takes a live poller per slot, not one
+// burst of starts, and the owner's own start gets through once those stop. Starts are limited
+// per IP in Caddy.
+const SOCIAL_RECOVERY_TTL_MS = 24 * 60 * 60_000;
+const SOCIAL_RECOVERY_IDLE_MS = 5 * 60_000;
+const SOCIAL_RECOVERY_MAX_PENDING = 1000;
+const SOCIAL_RECOVERY_MAX_PENDING_PER_USER = 3;
+const SOCIAL_RECOVERY_MAX_PUB_CHARS = 256;
+const SOCIAL_RECOVERY_MAX_SHARE_CHARS = 2048;
+const SOCIAL_RECOVERY_MAX_SHARES = 32;
+const socialRecoveries = new Map(); // requestId -> { userId, pub, pollToken, expiresAtMs, idleAtMs, shares: Map<contactId, { pub, data }> }
+
+function socialRecoveryLive(r, now) {
+  return Boolean(r) && r.expiresAtMs > now && r.idleAtMs > now;
+}
+
+function cleanupSocialRecoveries() {
+  const now = Date.now();
+  for (const [id, r] of socialRecoveries.entries()) {
+    if (!socialRecoveryLive(r, now)) socialRecoveries.delete(id);
+  }
+}
+
+setInterval(cleanupSocialRecoveries, 60_000).unref?.();
+
+function findSocialRecovery(requestId, pollToken) {
+  const r = typeof requestId === 'string' ? socialRecoveries.get(requestId) : null;
+  if (!socialRecoveryLive(r, Date.now())) return null;
+  if (pollToken !== undefined && !safeTimingEqual(String(pollToken), r.pollToken)) return null;
+  return r;
+}
+
+async function notifySocialRecoveryContacts(userId, payload) {
+  for (const uid of await authListContactIds(userId)) {
+    forEachAuthSocket(uid, (ws) => {
+      if (ws && typeof ws.isOpen === 'function' && ws.isOpen()) sendReliable(ws, payload);
+    });
+  }
+}
+
+app.post('/api/auth/social-recovery/start', async (req, res) => {
+  try {
+    const nameToken = typeof req.body?.nameToken === 'string' ? req.body.nameToken : '';
+    const pub = typeof req.body?.pub === 'string' ? req.body.pub : '';
+    if (!nameToken || !pub || pub.length > SOCIAL_RECOVERY_MAX_PUB_CHARS) {
+      return res.status(400).json({ error: 'nameToken and pub required' });
+    }
+
+    const user = await getUserByNameToken(nameToken);
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    const userId = String(user.id);
+
+    cleanupSocialRecoveries();
+    let pending = 0;
+    for (const r of socialRecoveries.values()) {
+      if (r.userId === userId) pending += 1;
+    }
+    if (pending >= SOCIAL_RECOVERY_MAX_PENDING_PER_USER) return res.status(429).json({ error: 'Too many recovery requests' });
+    if (socialRecoveries.size >= SOCIAL_RECOVERY_MAX_PENDING) return res.status(503).json({ error: 'Busy' });
+
+    const requestId = crypto.randomBytes(16).toString('base64url');
+    const pollToken = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    socialRecoveries.set(requestId, {
+      userId,
+      pub,
+      pollToken,
+      expiresAtMs: now + SOCIAL_RECOVERY_TTL_MS,
+      idleAtMs: now + SOCIAL_RECOVERY_IDLE_MS,
+      shares: new Map(),
+    });
+
+    await notifySocialRecoveryContacts(userId, { type: 'authRecoveryRequest', requestId, userId, pub });
+    res.json({ success: true, requestId, pollToken, expiresInMs: SOCIAL_RECOVERY_TTL_MS });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/auth/social-recovery/poll', (req, res) => {
+  const r = findSocialRecovery(req.body?.requestId, req.body?.pollToken ?? '');
+  if (!r) return res.status(404).json({ error: 'Not found' });
+  r.idleAtMs = Date.now() + SOCIAL_RECOVERY_IDLE_MS;
+  res.json({ success: true, shares: [...r.shares.values()] });
+});
+
+app.post('/api/auth/social-recovery/cancel', async (req, res) => {
+  try {
+    const requestId = typeof req.body?.requestId === 'string' ? req.body.requestId : '';
+    const r = findSocialRecovery(requestId, req.body?.pollToken ?? '');
+    if (r) {
+      socialRecoveries.delete(requestId);
+      await notifySocialRecoveryContacts(r.userId, { type: 'authRecoveryRequestClosed', requestId });
+    }
+    res.json({ success: true });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Open requests from the caller's contacts, for clients that were offline when they started.
+app.get('/api/social-recovery/pending', requireAuthSession, async (req, res) => {
+  try {
+    cleanupSocialRecoveries();
+    const contacts = new Set(await authListContactIds(String(req._authUserId)));
+    const requests = [];
+    for (const [requestId, r] of socialRecoveries.entries()) {
+      if (contacts.has(r.userId)) requests.push({ requestId, userId: r.userId, pub: r.pub });
+    }
+    res.json({ success: true, requests });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/social-recovery/approve', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const requestId = typeof req.body?.requestId === 'string' ? req.body.requestId : '';
+    const pub = typeof req.body?.pub === 'string' ? req.body.pub : '';
+    const data = typeof req.body?.data === 'string' ? req.body.data : '';
+    if (!requestId || !pub || !data) return res.status(400).json({ error: 'requestId, pub and data required' });
+    if (pub.length > SOCIAL_RECOVERY_MAX_PUB_CHARS || data.length > SOCIAL_RECOVERY_MAX_SHARE_CHARS) {
+      return res.status(400).json({ error: 'Bad payload' });
+    }
+
+    const r = findSocialRecovery(requestId);
+    if (!r) return res.status(404).json({ error: 'Not found' });
+    if (r.userId === userId || !(await authListContactIds(r.userId)).includes(userId)) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    if (!r.shares.has(userId) && r.shares.size >= SOCIAL_RECOVERY_MAX_SHARES) return res.status(400).json({ error: 'Bad payload' });
+
+    r.shares.set(userId, { pub, data });
+    res.json({ success: true });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/users/key-rotations', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const subjectUserId = typeof req.query?.userId === 'string' ? req.query.userId : '';
+    if (!subjectUserId) return res.status(400).json({ error: 'userId required' });
+
+    const rotations = await authListKeyRotations(userId, subjectUserId);
+    res.json({ success: true, rotations });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 app.post('/api/auth/check-name-token', async (req, res) => {
   try {
     const nameToken = typeof req.body?.nameToken === 'string' ? req.body.nameToken : '';
@@ -702,6 +1035,12 @@ app.post('/api/chats/last-messages', requireAuthSession, async (req, res) => {
 
 const MAX_PRESENCE_IDS = 25;
 
+// Typing signals: at most one "started" per chat per interval is relayed, and at most
+// TYPING_MAX_PER_WINDOW signals per user per window overall (each one costs a member lookup).
+const TYPING_RELAY_MIN_MS = Number(process.env.TYPING_RELAY_MIN_MS ?? 2000);
+const TYPING_WINDOW_MS = 10_000;
+const TYPING_MAX_PER_WINDOW = 20;
+
 async function buildPresenceSnapshotForUser(userId, idsInput) {
   const me = String(userId ?? '');
   if (!me) {
@@ -942,6 +1281,50 @@ app.post('/api/chats/rename-group', requireAuthSession, async (req, res) => {
   }
 });
 
+app.get('/api/chats/sender-keys', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const chatId = typeof req.query?.chatId === 'string' ? req.query.chatId : '';
+    if (!chatId) return res.status(400).json({ error: 'chatId required' });
+
+    const result = await authListSenderKeys(userId, chatId);
+    if (!result.ok) {
+      const code = result.reason === 'not_found' ? 404 : 400;
+      return res.status(code).json({ error: result.reason });
+    }
+
+    res.json({ success: true, epoch: result.epoch, keys: result.keys });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/chats/sender-keys', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const chatId = typeof req.body?.chatId === 'string' ? req.body.chatId : '';
+    const keyId = typeof req.body?.keyId === 'string' ? req.body.keyId : '';
+    const epoch = Number(req.body?.epoch);
+    const keys = req.body?.keys;
+    if (!chatId || !keyId || !Number.isInteger(epoch) || !keys) {
+      return res.status(400).json({ error: 'chatId, keyId, epoch, keys required' });
+    }
+
+    const result = await authPublishSenderKeys(userId, chatId, { epoch, keyId, keys });
+    if (!result.ok) {
+      if (result.reason === 'stale_members') return res.status(409).json({ error: 'stale_members', epoch: result.epoch });
+      const code = result.reason === 'not_found' ? 404 : 400;
+      return res.status(code).json({ error: result.reason });
+    }
+
+    res.json({ success: true, epoch: result.epoch });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 app.get('/api/messages', requireAuthSession, async (req, res) => {
   try {
     const userId = String(req._authUserId);
@@ -983,13 +1366,26 @@ app.post('/api/messages/send', requireAuthSession, async (req, res) => {
     const chatId = typeof req.body?.chatId === 'string' ? req.body.chatId : '';
     const encryptedData = typeof req.body?.encryptedData === 'string' ? req.body.encryptedData : '';
     const signature = typeof req.body?.signature === 'string' ? req.body.signature : '';
+    const blobIds = Array.isArray(req.body?.blobIds) ? req.body.blobIds : [];
+    const expiresAt = typeof req.body?.expiresAt === 'number' ? req.body.expiresAt : null;
+    const clientMsgId = typeof req.body?.clientMsgId === 'string' ? req.body.clientMsgId : null;
     if (!chatId || !encryptedData) return res.status(400).json({ error: 'chatId and encryptedData required' });
 
     if (Buffer.byteLength(encryptedData, 'utf8') > MAX_ENCRYPTED_MESSAGE_BYTES) {
       return res.status(413).json({ error: ERR_ENCRYPTED_TOO_LARGE });
     }
 
-    const { messageId, memberIds } = await authSendMessage({ senderId, chatId, encryptedData, signature });
+    const { messageId, memberIds, duplicate } = await authSendMessage({
+      senderId,
+      chatId,
+      encryptedData,
+      signature,
+      blobIds,
+      expiresAt,
+      clientMsgId,
+    });
+    // A retry of a send that already landed: members were told the first time.
+    if (duplicate) return res.json({ success: true, messageId });
 
     // Best-effort realtime notify to auth sockets.
     const payload = {
@@ -1024,6 +1420,144 @@ app.post('/api/messages/send', requireAuthSession, async (req, res) => {
   } catch (e) {
     if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
     if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+    if (e && e.code === 'stale_sender_key') return res.status(409).json({ error: 'stale_sender_key' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Sealed sender: members fetch a chat-scoped delivery token while signed in and submit sealed
+// messages without a session, so no message row names its sender. The token is an HMAC over
+// the chat and its sender-key epoch (see deliveryToken.js), which moves on every membership
+// change, so checking it tells the server nothing about who sent.
+// If SEALED_SENDER_SECRET is not provided, a random one is generated at startup; clients then
+// fetch fresh tokens after a restart.
+const SEALED_SENDER_SECRET = String(process.env.SEALED_SENDER_SECRET ?? '').trim() || crypto.randomBytes(32).toString('base64url');
+
+app.get('/api/messages/delivery-token', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const chatId = typeof req.query?.chatId === 'string' ? req.query.chatId : '';
+    if (!chatId) return res.status(400).json({ error: 'chatId required' });
+
+    const epoch = await authChatDeliveryEpoch(userId, chatId);
+    res.json({ deliveryToken: createDeliveryToken(SEALED_SENDER_SECRET, chatId, epoch) });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Deliberately unauthenticated: the delivery token is the only credential.
+app.post('/api/messages/send-sealed', async (req, res) => {
+  try {
+    const chatId = typeof req.body?.chatId === 'string' ? req.body.chatId : '';
+    const deliveryToken = typeof req.body?.deliveryToken === 'string' ? req.body.deliveryToken : '';
+    const encryptedData = typeof req.body?.encryptedData === 'string' ? req.body.encryptedData : '';
+    const expiresAt = typeof req.body?.expiresAt === 'number' ? req.body.expiresAt : null;
+    const clientMsgId = typeof req.body?.clientMsgId === 'string' ? req.body.clientMsgId : null;
+    if (!chatId || !deliveryToken || !encryptedData) {
+      return res.status(400).json({ error: 'chatId, deliveryToken and encryptedData required' });
+    }
+
+    if (Buffer.byteLength(encryptedData, 'utf8') > MAX_ENCRYPTED_MESSAGE_BYTES) {
+      return res.status(413).json({ error: ERR_ENCRYPTED_TOO_LARGE });
+    }
+
+    const { messageId, memberIds, duplicate } = await authSendSealedMessage({
+      chatId,
+      encryptedData,
+      expiresAt,
+      clientMsgId,
+      isTokenValid: (epoch) => isDeliveryTokenValid(SEALED_SENDER_SECRET, chatId, epoch, deliveryToken),
+    });
+    if (duplicate) return res.json({ success: true, messageId });
+
+    const payload = {
+      type: 'authMessage',
+      chatId,
+      id: messageId,
+      senderId: null,
+      sealed: true,
+      encryptedData,
+      signature: '',
+    };
+    for (const uid of memberIds) {
+      forEachAuthSocket(uid, (ws) => {
+        if (ws && typeof ws.isOpen === 'function' && ws.isOpen()) sendBestEffort(ws, payload);
+      });
+    }
+
+    // The sender is unknown here, so every offline member is a candidate.
+    for (const uid of memberIds) {
+      if (anyAuthSocketOpen(uid)) continue;
+      try {
+        await enqueuePushForUnreadMessage({ userId: uid, messageId });
+      } catch {
+        // ignore
+      }
+    }
+
+    res.json({ success: true, messageId });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Attachment ciphertext (raw bytes). The server never sees keys or file names.
+const parseBlobBody = express.raw({ type: 'application/octet-stream', limit: MAX_BLOB_BYTES });
+
+app.post('/api/blobs/upload', requireAuthSession, (req, res, next) => {
+  parseBlobBody(req, res, (err) => {
+    if (err) return res.status(err.type === 'entity.too.large' ? 413 : 400).json({ error: 'Bad payload' });
+    next();
+  });
+}, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const chatId = typeof req.query?.chatId === 'string' ? req.query.chatId : '';
+    if (!chatId) return res.status(400).json({ error: 'chatId required' });
+
+    const blobId = await authUploadBlob(userId, chatId, req.body);
+    res.json({ success: true, blobId });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    if (e && e.code === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+    if (e && e.code === 'too_large') return res.status(413).json({ error: 'Too large' });
+    if (e && e.code === 'too_many_pending') return res.status(429).json({ error: 'too_many_pending' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/blobs/discard', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const blobId = typeof req.body?.blobId === 'string' ? req.body.blobId : '';
+    if (!blobId) return res.status(400).json({ error: 'blobId required' });
+
+    // Already gone (sent, swept or discarded before) is fine: the caller only wants it released.
+    await authDiscardBlob(userId, blobId);
+    res.json({ success: true });
+  } catch {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/blobs/get', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const blobId = typeof req.query?.blobId === 'string' ? req.query.blobId : '';
+    if (!blobId) return res.status(400).json({ error: 'blobId required' });
+
+    const data = await authGetBlob(userId, blobId);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.send(data);
+  } catch {
     res.status(500).json({ error: 'Server error' });
   }
 });
@@ -1074,6 +1608,7 @@ app.post('/api/messages/update', requireAuthSession, async (req, res) => {
     if (!r.ok) {
       if (r.reason === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
       if (r.reason === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+      if (r.reason === 'stale_sender_key') return res.status(409).json({ error: 'stale_sender_key' });
       return res.status(404).json({ error: 'Not found' });
     }
 
@@ -1091,6 +1626,68 @@ app.post('/api/messages/update', requireAuthSession, async (req, res) => {
   }
 });
 
+app.post('/api/messages/react', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const chatId = typeof req.body?.chatId === 'string' ? req.body.chatId : '';
+    const messageId = typeof req.body?.messageId === 'string' ? req.body.messageId : '';
+    // Empty encryptedData removes the caller's reaction.
+    const encryptedData = typeof req.body?.encryptedData === 'string' ? req.body.encryptedData : '';
+    const signature = typeof req.body?.signature === 'string' ? req.body.signature : '';
+    if (!chatId || !messageId) return res.status(400).json({ error: 'chatId and messageId required' });
+
+    if (Buffer.byteLength(encryptedData, 'utf8') > MAX_ENCRYPTED_MESSAGE_BYTES) {
+      return res.status(413).json({ error: ERR_ENCRYPTED_TOO_LARGE });
+    }
+
+    const r = await authSetReaction({ userId, chatId, messageId, encryptedData, signature });
+    if (!r.ok) {
+      if (r.reason === 'bad_payload') return res.status(400).json({ error: 'Bad payload' });
+      if (r.reason === 'stale_sender_key') return res.status(409).json({ error: 'stale_sender_key' });
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const payload = { type: 'authReaction', chatId, messageId, reactorId: userId, encryptedData, signature };
+    for (const uid of r.memberIds) {
+      forEachAuthSocket(uid, (ws) => {
+        if (ws && typeof ws.isOpen === 'function' && ws.isOpen()) sendBestEffort(ws, payload);
+      });
+    }
+
+    res.json({ success: true });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Tells each sender which of their messages `readerId` has now received or read.
+function pushReceipts(chatId, readerId, state, receipts) {
+  for (const { senderId, messageIds } of receipts ?? []) {
+    if (!messageIds.length) continue;
+    const payload = { type: 'authReceipts', chatId, userId: readerId, state, messageIds };
+    forEachAuthSocket(senderId, (ws) => {
+      if (ws && typeof ws.isOpen === 'function' && ws.isOpen()) sendBestEffort(ws, payload);
+    });
+  }
+}
+
+app.post('/api/messages/mark-delivered', requireAuthSession, async (req, res) => {
+  try {
+    const userId = String(req._authUserId);
+    const chatId = typeof req.body?.chatId === 'string' ? req.body.chatId : '';
+    const messageIds = Array.isArray(req.body?.messageIds) ? req.body.messageIds : [];
+    if (!chatId) return res.status(400).json({ error: 'chatId required' });
+
+    const { receipts } = await authMarkMessagesDelivered(userId, chatId, messageIds);
+    pushReceipts(chatId, userId, 'delivered', receipts);
+    res.json({ success: true });
+  } catch (e) {
+    if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 app.post('/api/messages/mark-read', requireAuthSession, async (req, res) => {
   try {
     const userId = String(req._authUserId);
@@ -1098,11 +1695,13 @@ app.post('/api/messages/mark-read', requireAuthSession, async (req, res) => {
     if (!chatId) return res.status(400).json({ error: 'chatId required' });
     const messageIdsRaw = req.body?.messageIds;
     if (Array.isArray(messageIdsRaw) && messageIdsRaw.length) {
-      const { unreadCount } = await authMarkMessagesRead(userId, chatId, messageIdsRaw);
+      const { unreadCount, receipts } = await authMarkMessagesRead(userId, chatId, messageIdsRaw);
+      pushReceipts(chatId, userId, 'read', receipts);
       return res.json({ success: true, chatId, unreadCount });
     }
 
-    await authMarkChatRead(userId, chatId);
+    const { receipts } = await authMarkChatRead(userId, chatId);
+    pushReceipts(chatId, userId, 'read', receipts);
     res.json({ success: true, chatId, unreadCount: 0 });
   } catch (e) {
     if (e && e.code === 'forbidden') return res.status(403).json({ error: 'Forbidden' });
@@ -1280,6 +1879,15 @@ const authTransportSessions = new Map(); // userId -> Map(sessionId -> transport
 // Auth-mode: in-memory user state (presence + call state). Kept RAM-only.
 const authUsers = new Map(); // userId -> { id, name, transportConn, roomId, ... }
 
+// Device linking: a logged-in session asks for a one-time code and shows it in a QR next to
+// an ECDH public key and a secret that never reach the server. The new device connects to the
+// transport with just the code; the server relays its public key to the offering session and
+// the sealed key entry back. One pending offer per user.
+const DEVICE_LINK_TTL_MS = 2 * 60_000;
+const DEVICE_LINK_MAX_PENDING = 1000;
+const DEVICE_LINK_MAX_PUB_CHARS = 256;
+const deviceLinks = new Map(); // code -> { userId, sessionId, ownerConn, peerConn, timer }
+
 // Auth-only: keep small client message receipt cache (for idempotency).
 const CLIENT_MSGIDS_MAX = Number(process.env.CLIENT_MSGIDS_MAX ?? 2000);
 
@@ -1362,16 +1970,19 @@ function getTransportRequestPathAndToken(transportSession) {
 
   let pathname = WEBTRANSPORT_PATH;
   let token = '';
+  let link = '';
   try {
     const u = new URL(rawPath, 'https://localhost');
     pathname = String(u.pathname || WEBTRANSPORT_PATH);
     token = String(u.searchParams.get('token') ?? '');
+    link = String(u.searchParams.get('link') ?? '');
   } catch {
     pathname = WEBTRANSPORT_PATH;
     token = '';
+    link = '';
   }
 
-  return { pathname, token };
+  return { pathname, token, link };
 }
 
 function sendBestEffort(ws, obj) {
@@ -1801,6 +2412,108 @@ function getTurnHostLabel() {
   return `${host}:${port}`;
 }
 
+function dropDeviceLink(code, notifyOwner) {
+  const link = deviceLinks.get(code);
+  if (!link) return;
+  deviceLinks.delete(code);
+  clearTimeout(link.timer);
+  if (notifyOwner) sendBestEffort(link.ownerConn, { type: 'linkClosed', code });
+  if (link.peerConn) {
+    sendBestEffort(link.peerConn, { type: 'linkClosed' });
+    link.peerConn.close();
+  }
+}
+
+function dropDeviceLinksForSession(uid, sid) {
+  for (const [code, link] of deviceLinks) {
+    if (link.userId === uid && link.sessionId === sid) dropDeviceLink(code, false);
+  }
+}
+
+// Transport session opened by a device being linked. It has no auth token, so all it can do
+// is hand its public key to the session that offered the code, once, and wait for the reply.
+async function handleDeviceLinkSession(session, code) {
+  if (!deviceLinks.get(code) || deviceLinks.get(code).peerConn) {
+    try { await session.close?.(); } catch { /* ignore */ }
+    return;
+  }
+
+  let sessionOpen = true;
+  let controlWriter = null;
+  let writes = Promise.resolve();
+  let helloSent = false;
+
+  const peerConn = createWebTransportSessionConn({
+    sendControl(obj) {
+      if (!sessionOpen || !controlWriter) return;
+      let frame = '';
+      try {
+        frame = `${JSON.stringify(obj)}\n`;
+      } catch {
+        return;
+      }
+      const writer = controlWriter;
+      writes = writes
+        .then(() => writer.write(Buffer.from(frame, 'utf8')))
+        .catch(() => {
+          sessionOpen = false;
+        });
+    },
+    close() {
+      sessionOpen = false;
+      void writes.finally(() => {
+        try { session.close?.(); } catch { /* ignore */ }
+      });
+    },
+    isOpen() {
+      return sessionOpen;
+    },
+  });
+
+  const release = () => {
+    sessionOpen = false;
+    if (deviceLinks.get(code)?.peerConn === peerConn) dropDeviceLink(code, true);
+  };
+
+  void Promise.resolve(session.closed)
+    .catch(() => null)
+    .then(release);
+
+  try {
+    const bidi = session.incomingBidirectionalStreams;
+    const first = bidi && typeof bidi.getReader === 'function' ? await bidi.getReader().read() : null;
+    const controlStream = first && !first.done ? first.value : null;
+    if (!controlStream?.writable || typeof controlStream.writable.getWriter !== 'function') {
+      peerConn.close();
+      release();
+      return;
+    }
+    controlWriter = controlStream.writable.getWriter();
+
+    // Claim the code only now, so a second scanner cannot take over a link in progress.
+    const link = deviceLinks.get(code);
+    if (!link || link.peerConn) {
+      peerConn.close();
+      return;
+    }
+    link.peerConn = peerConn;
+    sendBestEffort(peerConn, { type: 'linkReady' });
+
+    await streamToTransportMessages(controlStream.readable, async (msg) => {
+      if (msg?.type !== 'linkHello' || helloSent) return;
+      const pub = typeof msg.pub === 'string' ? msg.pub : '';
+      if (!pub || pub.length > DEVICE_LINK_MAX_PUB_CHARS) return;
+      const cur = deviceLinks.get(code);
+      if (!cur || cur.peerConn !== peerConn) return;
+      helloSent = true;
+      sendBestEffort(cur.ownerConn, { type: 'linkPeer', code, pub });
+    });
+    release();
+  } catch {
+    release();
+  }
+}
+
 async function handleAuthControlMessage(transportConn, authUser, sid, msg) {
   if (msg.type === 'ack') {
     const msgId = typeof msg.msgId === 'string' ? msg.msgId : null;
@@ -1831,6 +2544,80 @@ async function handleAuthControlMessage(transportConn, authUser, sid, msg) {
     return;
   }
 
+  if (msg.type === 'linkOffer') {
+    for (const [code, link] of deviceLinks) {
+      if (link.userId === authUser.id) dropDeviceLink(code, false);
+    }
+    if (deviceLinks.size >= DEVICE_LINK_MAX_PENDING) {
+      sendBestEffort(transportConn, { type: 'linkCode', code: null });
+      return;
+    }
+    const code = crypto.randomBytes(16).toString('base64url');
+    deviceLinks.set(code, {
+      userId: authUser.id,
+      sessionId: sid,
+      ownerConn: transportConn,
+      peerConn: null,
+      timer: setTimeout(() => dropDeviceLink(code, true), DEVICE_LINK_TTL_MS),
+    });
+    sendBestEffort(transportConn, { type: 'linkCode', code, expiresInMs: DEVICE_LINK_TTL_MS });
+    return;
+  }
+
+  if (msg.type === 'linkSend' || msg.type === 'linkCancel') {
+    const code = typeof msg.code === 'string' ? msg.code : '';
+    const link = code ? deviceLinks.get(code) : null;
+    if (!link || link.userId !== authUser.id || link.sessionId !== sid) return;
+    if (msg.type === 'linkSend') {
+      const data = typeof msg.data === 'string' ? msg.data : '';
+      if (!data || !link.peerConn) return;
+      sendBestEffort(link.peerConn, { type: 'linkData', data });
+      // Delivered; the new device hangs up on its own.
+      link.peerConn = null;
+    }
+    dropDeviceLink(code, false);
+    return;
+  }
+
+  if (msg.type === 'typing') {
+    const chatId = typeof msg.chatId === 'string' ? msg.chatId : '';
+    const typing = msg.typing === true;
+    if (!chatId) return;
+
+    const now = Date.now();
+    const startedAt = authUser._typingStartedAt ?? (authUser._typingStartedAt = new Map());
+    if (typing) {
+      if (now - (startedAt.get(chatId) ?? 0) < TYPING_RELAY_MIN_MS) return;
+    } else if (!startedAt.has(chatId)) {
+      // Nothing was announced, so there is nothing to stop.
+      return;
+    }
+
+    if (!authUser._typingWindowAt || now - authUser._typingWindowAt >= TYPING_WINDOW_MS) {
+      authUser._typingWindowAt = now;
+      authUser._typingWindowCount = 0;
+    }
+    if (authUser._typingWindowCount >= TYPING_MAX_PER_WINDOW) return;
+    authUser._typingWindowCount += 1;
+
+    let recipients = [];
+    try {
+      recipients = await authTypingRecipients(authUser.id, chatId);
+    } catch {
+      return;
+    }
+    if (typing) startedAt.set(chatId, now);
+    else startedAt.delete(chatId);
+
+    const payload = { type: 'authTyping', chatId, userId: authUser.id, typing };
+    for (const uid of recipients) {
+      forEachAuthSocket(uid, (ws) => {
+        if (ws && typeof ws.isOpen === 'function' && ws.isOpen()) sendBestEffort(ws, payload);
+      });
+    }
+    return;
+  }
+
   if (msg.type === 'callStart') {
     const to = typeof msg.to === 'string' ? msg.to : null;
     if (!to) {
@@ -2239,6 +3026,7 @@ async function handleAuthControlMessage(transportConn, authUser, sid, msg) {
 
 function handleAuthSessionClose(uid, sid, transportConn) {
   removeAuthSocket(uid, sid, transportConn);
+  dropDeviceLinksForSession(String(uid), String(sid));
 
   const curUser = authUsers.get(uid);
 
@@ -2343,6 +3131,10 @@ async function streamWebTransportSessions(sessionReadable) {
 
 async function handleWebTransportSession(session) {
   const req = getTransportRequestPathAndToken(session);
+  if (req?.link && !req.token && req.pathname === WEBTRANSPORT_PATH) {
+    await handleDeviceLinkSession(session, req.link);
+    return;
+  }
   if (!req?.token || req.pathname !== WEBTRANSPORT_PATH) {
     try { await session.close?.(); } catch { /* ignore */ }
     return;
@@ -2562,6 +3354,7 @@ async function start() {
     const run = async () => {
       try {
         await authCleanupExpiredUsers();
+        await authSweepOrphanBlobs();
       } catch {
         // No logs (privacy policy)
       }
@@ -2573,6 +3366,25 @@ async function start() {
         void run();
       }, interval);
     }, initialDelay);
+
+    const expiryInterval = Number.isFinite(AUTH_MESSAGE_EXPIRY_INTERVAL_MS)
+      ? Math.max(10 * 1000, AUTH_MESSAGE_EXPIRY_INTERVAL_MS)
+      : 60 * 1000;
+
+    const purgeExpired = async () => {
+      try {
+        await authPurgeExpiredMessages();
+      } catch {
+        // No logs (privacy policy)
+      }
+    };
+
+    setTimeout(() => {
+      void purgeExpired();
+      setInterval(() => {
+        void purgeExpired();
+      }, expiryInterval);
+    }, initialDelay);
   }
 
   try {
@@ -0,0 +1,17 @@
+-- Group sender keys: one symmetric key per (group, sender, epoch), wrapped for each member.
+-- The epoch is bumped whenever group membership changes so senders re-key.
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS sender_key_epoch INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS chat_sender_keys (
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  key_id TEXT NOT NULL,
+  sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  epoch INTEGER NOT NULL,
+  wrapped BYTEA NOT NULL,
+  PRIMARY KEY (chat_id, key_id, recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sender_keys_recipient ON chat_sender_keys(chat_id, recipient_id);
+CREATE INDEX IF NOT EXISTS idx_sender_keys_sender ON chat_sender_keys(chat_id, sender_id);
@@ -0,0 +1,15 @@
+-- Key rotations: each row links a user's previous public key to the one that replaced it,
+-- signed (RSA-PSS) with the previous key so contacts can follow the change and keep
+-- verifying older messages. rotation_id is a UUIDv7 minted on insert; its timestamp is when
+-- the old key was retired, and contacts accept the old key only on messages older than that.
+
+CREATE TABLE IF NOT EXISTS user_key_rotations (
+  seq BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_public_key TEXT NOT NULL,
+  new_public_key TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  rotation_id UUID NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_key_rotations_user ON user_key_rotations(user_id, seq);
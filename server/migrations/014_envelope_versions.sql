@@ -0,0 +1,6 @@
+-- Envelope versions each user's client reads (see SUPPORTED_ENVELOPE_VERSIONS in authDb.js).
+-- Accounts that never advertised are assumed to read only v0, the one format that predates
+-- versioning: the ratchet (v1) and sender-key (v2) formats shipped with their version byte.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS envelope_versions SMALLINT[] NOT NULL DEFAULT '{0}';
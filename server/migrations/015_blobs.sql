@@ -0,0 +1,16 @@
+-- Encrypted attachment blobs. A blob is uploaded before the message that references it,
+-- linked to that message on send, and removed together with the message or the chat.
+-- Blobs that never get linked are dropped by the periodic cleanup once their UUIDv7 id is
+-- older than ORPHAN_BLOB_TTL_MS (authDb.js), or earlier when their uploader discards them.
+
+CREATE TABLE IF NOT EXISTS blobs (
+  id UUID PRIMARY KEY,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  uploader_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  message_id UUID NULL REFERENCES messages(id) ON DELETE CASCADE,
+  data BYTEA NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_blobs_chat ON blobs(chat_id);
+CREATE INDEX IF NOT EXISTS idx_blobs_message ON blobs(message_id);
+CREATE INDEX IF NOT EXISTS idx_blobs_pending ON blobs(uploader_id) WHERE message_id IS NULL;
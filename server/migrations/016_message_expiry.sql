@@ -0,0 +1,7 @@
+-- Disappearing messages. The per-chat timer is end-to-end encrypted inside the envelope;
+-- the server only learns when a row may be purged (minute precision). NULL = keep.
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_expires_at ON messages(expires_at) WHERE expires_at IS NOT NULL;
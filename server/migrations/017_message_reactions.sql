@@ -0,0 +1,13 @@
+-- Encrypted emoji reactions, keyed by the message they target. The server sees who reacted
+-- to which message, never the emoji; rows go away with the message, the chat or the user.
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  reactor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  encrypted_data BYTEA NOT NULL,
+  signature TEXT NOT NULL DEFAULT '',
+  PRIMARY KEY (message_id, reactor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_chat ON message_reactions(chat_id);
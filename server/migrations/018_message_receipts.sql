@@ -0,0 +1,16 @@
+-- Delivered/read receipts for senders: the strongest state per reader and message, no
+-- timestamps. A user with read_receipts off neither reports nor sees them.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS read_receipts BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS message_receipts (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  -- 1 = delivered, 2 = read
+  state SMALLINT NOT NULL,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_receipts_chat ON message_receipts(chat_id);
@@ -0,0 +1,5 @@
+-- Sealed-sender messages: the sender travels inside the envelope, so the row has none.
+-- Such rows are authorized by a chat delivery token and cannot be edited or deleted.
+
+ALTER TABLE messages
+  ALTER COLUMN sender_id DROP NOT NULL;
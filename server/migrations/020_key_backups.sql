@@ -0,0 +1,12 @@
+-- Key backups: the local key entry encrypted under a key derived from a recovery secret, looked
+-- up by an id also derived from it. Kinds: 0 = recovery phrase, 1 = social recovery (secret
+-- split among contacts). A user may hold one of each.
+
+CREATE TABLE IF NOT EXISTS key_backups (
+  lookup_id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind SMALLINT NOT NULL DEFAULT 0,
+  blob TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_key_backups_user_kind ON key_backups(user_id, kind);
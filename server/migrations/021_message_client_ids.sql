@@ -0,0 +1,7 @@
+-- Client-generated message ids, so a send retried after a dropped connection is stored once.
+-- Scoped to the chat; NULL for clients that do not send one.
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS client_msg_id UUID NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_client_msg_id ON messages(chat_id, client_msg_id) WHERE client_msg_id IS NOT NULL;
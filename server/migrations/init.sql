@@ -11,17 +11,32 @@ CREATE TABLE IF NOT EXISTS users (
   vault TEXT NOT NULL DEFAULT '',
   remove_date TIMESTAMP NOT NULL,
   hidden_mode BOOLEAN NOT NULL DEFAULT FALSE,
-  introvert_mode BOOLEAN NOT NULL DEFAULT FALSE
+  introvert_mode BOOLEAN NOT NULL DEFAULT FALSE,
+  read_receipts BOOLEAN NOT NULL DEFAULT TRUE,
+  envelope_versions SMALLINT[] NOT NULL DEFAULT '{0}'
 );
 
 CREATE INDEX idx_users_name_token ON users(name_token);
 CREATE INDEX idx_users_remove_date ON users(remove_date);
 
+-- Public key rotations, each signed with the key it replaces
+CREATE TABLE IF NOT EXISTS user_key_rotations (
+  seq BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_public_key TEXT NOT NULL,
+  new_public_key TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  rotation_id UUID NOT NULL
+);
+
+CREATE INDEX idx_user_key_rotations_user ON user_key_rotations(user_id, seq);
+
 -- Chats table
 CREATE TABLE IF NOT EXISTS chats (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   chat_type VARCHAR(10) NOT NULL CHECK (chat_type IN ('personal', 'group')),
-  chat_name_enc BYTEA NOT NULL DEFAULT ''::bytea
+  chat_name_enc BYTEA NOT NULL DEFAULT ''::bytea,
+  sender_key_epoch INTEGER NOT NULL DEFAULT 0
 );
 
 CREATE INDEX idx_chats_type ON chats(chat_type);
@@ -48,17 +63,84 @@ CREATE TABLE IF NOT EXISTS chat_names_enc (
 CREATE INDEX idx_chat_names_chat ON chat_names_enc(chat_id);
 CREATE INDEX idx_chat_names_subject ON chat_names_enc(subject_user_id);
 
+-- Group sender keys, wrapped per recipient (rotated when sender_key_epoch changes).
+CREATE TABLE IF NOT EXISTS chat_sender_keys (
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  key_id TEXT NOT NULL,
+  sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  epoch INTEGER NOT NULL,
+  wrapped BYTEA NOT NULL,
+  PRIMARY KEY (chat_id, key_id, recipient_id)
+);
+
+CREATE INDEX idx_sender_keys_recipient ON chat_sender_keys(chat_id, recipient_id);
+CREATE INDEX idx_sender_keys_sender ON chat_sender_keys(chat_id, sender_id);
+
 -- Messages table (UUIDv7 for chronological ordering)
 CREATE TABLE IF NOT EXISTS messages (
   id UUID PRIMARY KEY,
   chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
-  sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- NULL for sealed-sender messages
+  sender_id UUID NULL REFERENCES users(id) ON DELETE CASCADE,
   encrypted_data BYTEA NOT NULL,
-  signature TEXT NOT NULL DEFAULT ''
+  signature TEXT NOT NULL DEFAULT '',
+  expires_at TIMESTAMPTZ NULL,
+  -- Sender-chosen id that makes retried sends idempotent
+  client_msg_id UUID NULL
 );
 
 CREATE INDEX idx_messages_chat ON messages(chat_id);
 CREATE INDEX idx_messages_sender ON messages(sender_id);
+CREATE INDEX idx_messages_expires_at ON messages(expires_at) WHERE expires_at IS NOT NULL;
+CREATE UNIQUE INDEX idx_messages_client_msg_id ON messages(chat_id, client_msg_id) WHERE client_msg_id IS NOT NULL;
+
+-- Encrypted reactions: one per member per message (the emoji is inside the envelope)
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  reactor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  encrypted_data BYTEA NOT NULL,
+  signature TEXT NOT NULL DEFAULT '',
+  PRIMARY KEY (message_id, reactor_id)
+);
+
+CREATE INDEX idx_message_reactions_chat ON message_reactions(chat_id);
+
+-- Delivered/read receipts (1 = delivered, 2 = read), strongest state per reader
+CREATE TABLE IF NOT EXISTS message_receipts (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  state SMALLINT NOT NULL,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX idx_message_receipts_chat ON message_receipts(chat_id);
+
+-- Encrypted attachment blobs (linked to their message on send; unlinked ones are swept by id age)
+CREATE TABLE IF NOT EXISTS blobs (
+  id UUID PRIMARY KEY,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  uploader_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  message_id UUID NULL REFERENCES messages(id) ON DELETE CASCADE,
+  data BYTEA NOT NULL
+);
+
+CREATE INDEX idx_blobs_chat ON blobs(chat_id);
+CREATE INDEX idx_blobs_message ON blobs(message_id);
+CREATE INDEX idx_blobs_pending ON blobs(uploader_id) WHERE message_id IS NULL;
+
+-- Key backups (encrypted client-side, fetched by a secret-derived id); one per user and kind
+-- (0 = recovery phrase, 1 = social recovery)
+CREATE TABLE IF NOT EXISTS key_backups (
+  lookup_id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind SMALLINT NOT NULL DEFAULT 0,
+  blob TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_key_backups_user_kind ON key_backups(user_id, kind);
 
 -- Unread messages tracking
 CREATE TABLE IF NOT EXISTS unread_messages (
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+// Checks that a sealed-sender delivery token only verifies for the chat and epoch it was issued
+// for. Needs no database.
+//
+//   npm run check-delivery-token
+
+import assert from 'node:assert/strict'
+import crypto from 'node:crypto'
+import process from 'node:process'
+import { createDeliveryToken, isDeliveryTokenValid } from '../deliveryToken.js'
+
+const secret = crypto.randomBytes(32).toString('base64url')
+const chatId = crypto.randomUUID()
+const otherChatId = crypto.randomUUID()
+const epoch = 7
+
+const token = createDeliveryToken(secret, chatId, epoch)
+
+assert.ok(isDeliveryTokenValid(secret, chatId, epoch, token), 'token verifies for its chat and epoch')
+assert.ok(!isDeliveryTokenValid(secret, otherChatId, epoch, token), 'token is rejected for another chat')
+assert.ok(!isDeliveryTokenValid(secret, chatId, epoch + 1, token), 'token is rejected after the epoch moves')
+assert.ok(!isDeliveryTokenValid(secret, chatId, epoch - 1, token), 'token is rejected for an earlier epoch')
+assert.ok(!isDeliveryTokenValid(crypto.randomBytes(32).toString('base64url'), chatId, epoch, token), 'token is rejected under another secret')
+assert.ok(!isDeliveryTokenValid(secret, chatId, epoch, token.slice(0, -1)), 'truncated token is rejected')
+assert.ok(!isDeliveryTokenValid(secret, chatId, epoch, ''), 'empty token is rejected')
+assert.ok(!isDeliveryTokenValid(secret, chatId, epoch, null), 'missing token is rejected')
+// The chat and epoch are joined with a separator, so shifting digits between them changes the token.
+assert.notEqual(createDeliveryToken(secret, 'a1', 23), createDeliveryToken(secret, 'a12', 3))
+
+// eslint-disable-next-line no-console
+console.log('delivery token: ok')
+process.exit(0)